@@ -0,0 +1,43 @@
+// src/api-server.ts
+
+import 'dotenv/config';
+import { createSupabaseBackend } from './api/backend.js';
+import { createApiServer } from './api/server.js';
+import { isCounty } from './counties/index.js';
+import { fixtureMode } from './lib/fixtures.js';
+import { validateBrowserSettings } from './lib/stagehand-config.js';
+
+/**
+ * Serves the HTTP API over the stored property data.
+ * Usage: API_KEYS=<key>[,<key>...] npm run api
+ */
+function main() {
+    const apiKeys = (process.env.API_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean);
+    if (apiKeys.length === 0) {
+        console.error('Set API_KEYS to one or more comma-separated keys; the API never runs without authentication.');
+        process.exitCode = 1;
+        return;
+    }
+    const defaultCounty = (process.env.API_DEFAULT_COUNTY || 'dallas').toLowerCase();
+    if (!isCounty(defaultCounty)) {
+        console.error(`API_DEFAULT_COUNTY '${defaultCounty}' is not a supported county.`);
+        process.exitCode = 1;
+        return;
+    }
+    // Scrapes run in this process, so their browser settings are checked up front like the CLI's.
+    if (fixtureMode() !== 'replay') {
+        try {
+            validateBrowserSettings();
+        } catch (error) {
+            console.error((error as Error).message);
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    const port = Number(process.env.API_PORT) || 3000;
+    const server = createApiServer(createSupabaseBackend(), { apiKeys, defaultCounty });
+    server.listen(port, () => console.log(`Property API listening on port ${port}.`));
+}
+
+main();
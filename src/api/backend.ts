@@ -0,0 +1,39 @@
+// src/api/backend.ts
+
+import { targetLabel } from '../cli/targets.js';
+import { loadProperty, searchProperties } from '../db/properties.js';
+import { createRun, findRun, setRunStatus } from '../jobs/run-store.js';
+import { executeRun, groupPendingTasks } from '../jobs/runner.js';
+import { createOutputTargets } from '../outputs/index.js';
+import type { ApiBackend } from './server.js';
+
+/**
+ * The API over Supabase and the scrape pipeline. A scrape is recorded as a run
+ * like a CLI run, then executed in this process by the same code. Runs execute
+ * one at a time, in the order they were requested, since they share the browser
+ * session pool. A run interrupted by a restart stays `running`; resume it with
+ * `npm start -- --resume <id>`.
+ */
+export function createSupabaseBackend(): ApiBackend {
+    let queue: Promise<void> = Promise.resolve();
+
+    return {
+        loadProperty,
+        searchProperties,
+        async startScrape(target, options) {
+            const { run, tasks } = await createRun(options, null, [target]);
+            console.log(`Queued scrape run #${run.id} for ${targetLabel(target)}.`);
+            queue = queue.then(async () => {
+                try {
+                    const [summary] = await executeRun(run, groupPendingTasks(tasks), createOutputTargets(options.outputs ?? ['supabase']), 1);
+                    console.log(`Scrape run #${run.id} ${summary?.status ?? 'had nothing to do'}${summary?.message ? `: ${summary.message}` : ''}.`);
+                } catch (error) {
+                    console.error(`Scrape run #${run.id} failed:`, (error as Error).message);
+                    await setRunStatus(run.id, 'failed').catch(() => undefined);
+                }
+            });
+            return run;
+        },
+        findScrape: findRun,
+    };
+}
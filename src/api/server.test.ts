@@ -0,0 +1,124 @@
+// src/api/server.test.ts
+
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import type { ScrapeTarget } from '../cli/targets.js';
+import type { PageRequest, PropertyDetail, PropertySearch } from '../db/properties.js';
+import type { RunOptions, ScrapeRun, ScrapeTask } from '../jobs/types.js';
+import { createApiServer, MAX_PAGE_SIZE, type ApiBackend } from './server.js';
+
+const property = {
+    property: { account_number: '00000776533000000', county: 'dallas', address: '9920 GULF PALM DR' },
+    current_owners: [{ owner_name: 'SMITH JOHN', percentage: 100, is_primary: true }],
+    ownership_history: [],
+    value_history: [{ year: 2024, total_market_value: 350000 }],
+    exemptions: [],
+    documents: [],
+} as unknown as PropertyDetail;
+
+const run: ScrapeRun = { id: 7, status: 'running', options: { stage: 'all' }, targets_file: null, created_at: '2026-10-19T00:00:00Z', updated_at: '2026-10-19T00:00:00Z' };
+
+function task(stage: ScrapeTask['stage'], status: ScrapeTask['status'], target: ScrapeTarget, output: unknown = null): ScrapeTask {
+    return { id: 1, run_id: run.id, target_index: 0, target, stage, status, attempts: 0, last_error: null, output, started_at: null, finished_at: null };
+}
+
+function fakeBackend() {
+    const searches: [PropertySearch, PageRequest][] = [];
+    const scrapes: [ScrapeTarget, RunOptions][] = [];
+    let tasks: ScrapeTask[] = [];
+    const backend: ApiBackend = {
+        loadProperty: async (account) => account === property.property.account_number ? property : null,
+        searchProperties: async (search, page) => {
+            searches.push([search, page]);
+            return { rows: [{ account_number: '1', county: 'dallas', address: 'A', subdivision: null, block: null, lot1: null, lot2: null, total_market_value: null }], total: 30 };
+        },
+        startScrape: async (target, options) => {
+            scrapes.push([target, options]);
+            tasks = [task('assessment', 'pending', target), task('save', 'pending', target)];
+            return run;
+        },
+        findScrape: async (runId) => runId === run.id ? { run, tasks } : null,
+    };
+    return { backend, searches, scrapes, setTasks: (next: ScrapeTask[]) => { tasks = next; } };
+}
+
+describe('API server', () => {
+    const fake = fakeBackend();
+    const server = createApiServer(fake.backend, { apiKeys: ['secret-key'], defaultCounty: 'dallas' });
+    let base: string;
+
+    const call = (path: string, init: RequestInit = {}) => fetch(`${base}${path}`, {
+        ...init,
+        headers: { Authorization: 'Bearer secret-key', 'Content-Type': 'application/json', ...init.headers },
+    });
+
+    before(async () => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('refuses requests without a valid API key', async () => {
+        assert.equal((await fetch(`${base}/properties/1`)).status, 401);
+        assert.equal((await call('/properties/1', { headers: { Authorization: 'Bearer wrong' } })).status, 401);
+        assert.equal((await fetch(`${base}/properties/00000776533000000`, { headers: { 'X-API-Key': 'secret-key' } })).status, 200);
+    });
+
+    it('serves a stored property and 404s an unknown one', async () => {
+        const response = await call('/properties/00000776533000000');
+        assert.equal(response.status, 200);
+        assert.deepEqual((await response.json()).data.value_history, [{ year: 2024, total_market_value: 350000 }]);
+        const missing = await call('/properties/123');
+        assert.equal(missing.status, 404);
+        assert.match((await missing.json()).error.message, /not stored/);
+        const malformed = await call('/properties/%E0%A4');
+        assert.equal(malformed.status, 400);
+        assert.match((await malformed.json()).error.message, /Malformed path/);
+    });
+
+    it('searches with filters and pagination', async () => {
+        const response = await call('/properties?owner=smith&county=Dallas&lot=12A&limit=500&offset=25');
+        const body = await response.json();
+        assert.equal(response.status, 200);
+        assert.deepEqual(fake.searches.at(-1), [{ owner: 'smith', county: 'dallas', lot: '12A' }, { limit: MAX_PAGE_SIZE, offset: 25 }]);
+        assert.deepEqual(body.pagination, { limit: MAX_PAGE_SIZE, offset: 25, total: 30, next_offset: null });
+
+        const first = await (await call('/properties?address=9920%20Gulf%20Palm&limit=1')).json();
+        assert.equal(first.pagination.next_offset, 1);
+    });
+
+    it('rejects searches without filters or with bad values', async () => {
+        assert.equal((await call('/properties')).status, 400);
+        assert.equal((await call('/properties?lot=1,2')).status, 400);
+        assert.equal((await call('/properties?owner=x&offset=-1')).status, 400);
+        assert.equal((await call('/properties?county=travis')).status, 400);
+    });
+
+    it('queues a scrape and reports its progress', async () => {
+        const response = await call('/scrapes', { method: 'POST', body: JSON.stringify({ address: '9920 Gulf Palm Dr, Dallas', stage: 'assessment' }) });
+        assert.equal(response.status, 202);
+        assert.equal(response.headers.get('location'), '/scrapes/7');
+        assert.equal((await response.json()).data.status, 'queued');
+        const [target, options] = fake.scrapes.at(-1)!;
+        assert.deepEqual(target, { county: 'dallas', kind: 'address', addressNumber: '9920', streetName: 'GULF PALM DR', city: 'DALLAS' });
+        assert.deepEqual(options, { stage: 'assessment', outputs: ['supabase'], fullClerk: false });
+
+        fake.setTasks([task('assessment', 'succeeded', target, { accountNumber: '00000776533000000' }), task('save', 'running', target)]);
+        const status = (await (await call('/scrapes/7')).json()).data;
+        assert.equal(status.status, 'running');
+        assert.equal(status.account_number, '00000776533000000');
+        assert.deepEqual(status.tasks.map((t: { stage: string; status: string }) => `${t.stage}:${t.status}`), ['assessment:succeeded', 'save:running']);
+        assert.equal((await call('/scrapes/8')).status, 404);
+    });
+
+    it('rejects invalid scrape requests', async () => {
+        assert.equal((await call('/scrapes', { method: 'POST', body: '{' })).status, 400);
+        assert.equal((await call('/scrapes', { method: 'POST', body: JSON.stringify({ street_name: 'Main' }) })).status, 400);
+        assert.equal((await call('/scrapes', { method: 'POST', body: JSON.stringify({ account_number: '1', stage: 'ocr' }) })).status, 400);
+        assert.equal((await call('/scrapes', { method: 'GET' })).status, 405);
+    });
+});
@@ -0,0 +1,229 @@
+// src/api/server.ts
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { Stage } from '../cli/args.js';
+import { parseTarget, type ScrapeTarget } from '../cli/targets.js';
+import { counties, isCounty, type County } from '../counties/index.js';
+import type { PageRequest, PropertyDetail, PropertyPage, PropertySearch } from '../db/properties.js';
+import type { RunOptions, ScrapeRun, ScrapeTask } from '../jobs/types.js';
+
+/**
+ * What the API reads and starts. `src/api-server.ts` wires it to Supabase and the
+ * scrape pipeline; tests pass their own.
+ */
+export interface ApiBackend {
+    loadProperty(accountNumber: string): Promise<PropertyDetail | null>;
+    searchProperties(search: PropertySearch, page: PageRequest): Promise<PropertyPage>;
+    /** Records a run for the target and queues it; resolves once it is recorded, not when it finishes. */
+    startScrape(target: ScrapeTarget, options: RunOptions): Promise<ScrapeRun>;
+    findScrape(runId: number): Promise<{ run: ScrapeRun; tasks: ScrapeTask[] } | null>;
+}
+
+export interface ApiOptions {
+    /** Keys accepted in `Authorization: Bearer <key>` or `X-API-Key`. */
+    apiKeys: string[];
+    /** County for scrape requests that don't name one. */
+    defaultCounty: County;
+}
+
+/** An error with the HTTP status to answer it with. */
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+/** Scrape requests are one target, so their bodies are small. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const SEARCH_FILTERS = ['address', 'subdivision', 'block', 'lot', 'owner', 'county'] as const;
+const STAGES: Stage[] = ['all', 'assessment', 'clerk'];
+
+const digest = (key: string) => createHash('sha256').update(key).digest();
+
+/** Compares digests so the time taken doesn't reveal how much of a key matched. */
+function isAuthorized(request: IncomingMessage, keys: Buffer[]): boolean {
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const header = request.headers['x-api-key'];
+    const given = bearer ?? (Array.isArray(header) ? header[0] : header);
+    if (!given) return false;
+    const presented = digest(given.trim());
+    return keys.some(key => timingSafeEqual(key, presented));
+}
+
+/** Reads `limit` and `offset`, defaulting to the first page. */
+export function parsePage(params: URLSearchParams): PageRequest {
+    const read = (name: string, fallback: number, min: number) => {
+        const value = params.get(name);
+        if (value === null || value === '') return fallback;
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < min) throw new ApiError(400, `${name} must be an integer of at least ${min}.`);
+        return number;
+    };
+    return { limit: Math.min(read('limit', DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE), offset: read('offset', 0, 0) };
+}
+
+/** Reads the search filters; at least one is required, so a search never lists every property. */
+export function parseSearch(params: URLSearchParams): PropertySearch {
+    const search: PropertySearch = {};
+    for (const filter of SEARCH_FILTERS) {
+        const value = params.get(filter)?.trim();
+        if (value) search[filter] = value;
+    }
+    if (Object.keys(search).length === 0) throw new ApiError(400, `Give at least one of: ${SEARCH_FILTERS.join(', ')}.`);
+    if (search.lot && !/^[A-Z0-9-]+$/i.test(search.lot)) throw new ApiError(400, 'lot may only contain letters, digits and dashes.');
+    if (search.county) {
+        search.county = search.county.toLowerCase();
+        if (!isCounty(search.county)) throw new ApiError(400, `Unknown county '${search.county}'. Expected one of: ${counties.join(', ')}.`);
+    }
+    return search;
+}
+
+/**
+ * Reads a scrape request: the target in the fields of a targets file row
+ * (`address`, `address_number` + `street_name`, or `account_number`, with an
+ * optional `county`, `unit`, `city` and `zip`), plus an optional `stage` and `full_clerk`.
+ */
+export function parseScrapeRequest(body: unknown, defaultCounty: County): { target: ScrapeTarget; options: RunOptions } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) throw new ApiError(400, 'The body must be a JSON object.');
+    const { stage = 'all', full_clerk: fullClerk = false, ...fields } = body as Record<string, unknown>;
+    if (!STAGES.includes(stage as Stage)) throw new ApiError(400, `stage must be one of: ${STAGES.join(', ')}.`);
+    if (typeof fullClerk !== 'boolean') throw new ApiError(400, 'full_clerk must be true or false.');
+    let target: ScrapeTarget;
+    try {
+        target = parseTarget(fields, defaultCounty, 'The scrape request');
+    } catch (error) {
+        throw new ApiError(400, (error as Error).message);
+    }
+    return { target, options: { stage: stage as Stage, outputs: ['supabase'], fullClerk } };
+}
+
+/**
+ * A scrape's progress. A run that is recorded but hasn't started a task yet is
+ * `queued`; the account number is known once the assessment stage has run.
+ */
+export function describeScrape(run: ScrapeRun, tasks: ScrapeTask[]) {
+    const started = tasks.some(task => task.status !== 'pending');
+    const accountNumber = tasks
+        .map(task => (task.output as { accountNumber?: string } | null)?.accountNumber)
+        .find(Boolean) ?? (tasks[0]?.target.kind === 'account' ? tasks[0].target.accountNumber : null);
+    return {
+        id: run.id,
+        status: run.status === 'running' && !started ? 'queued' : run.status,
+        target: tasks[0]?.target ?? null,
+        account_number: accountNumber,
+        created_at: run.created_at,
+        updated_at: run.updated_at,
+        tasks: tasks.map(task => ({
+            stage: task.stage,
+            status: task.status,
+            attempts: task.attempts,
+            last_error: task.last_error,
+            started_at: task.started_at,
+            finished_at: task.finished_at,
+        })),
+    };
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new ApiError(413, 'The request body is too large.');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new ApiError(400, 'The body must be valid JSON.');
+    }
+}
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * The request handler for the API:
+ *
+ * - `GET /properties/:account`: the stored property with owners, history and documents
+ * - `GET /properties?address=&subdivision=&block=&lot=&owner=&county=&limit=&offset=`: a page of matches
+ * - `POST /scrapes`: queue a scrape of one target; answers 202 with the run
+ * - `GET /scrapes/:id`: the run's status and tasks
+ *
+ * Every route needs an API key. Responses are JSON: `{ data }`, with `pagination`
+ * on lists, or `{ error: { status, message } }`.
+ */
+export function createApiHandler(backend: ApiBackend, options: ApiOptions) {
+    if (options.apiKeys.length === 0) throw new Error('The API needs at least one API key.');
+    const keys = options.apiKeys.map(digest);
+
+    async function route(request: IncomingMessage, response: ServerResponse) {
+        if (!isAuthorized(request, keys)) {
+            throw new ApiError(401, 'A valid API key is required in the Authorization (Bearer) or X-API-Key header.');
+        }
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const [resource, id, ...rest] = url.pathname.split('/').filter(Boolean).map(segment => {
+            try {
+                return decodeURIComponent(segment);
+            } catch {
+                throw new ApiError(400, 'Malformed path.');
+            }
+        });
+        if (rest.length > 0) throw new ApiError(404, `No route for ${url.pathname}.`);
+        const allow = (...methods: string[]) => {
+            if (!methods.includes(request.method ?? '')) throw new ApiError(405, `${request.method} is not allowed on ${url.pathname}; use ${methods.join(' or ')}.`);
+        };
+
+        if (resource === 'properties' && id) {
+            allow('GET');
+            const property = await backend.loadProperty(id);
+            if (!property) throw new ApiError(404, `Property ${id} is not stored.`);
+            return send(response, 200, { data: property });
+        }
+        if (resource === 'properties') {
+            allow('GET');
+            const search = parseSearch(url.searchParams);
+            const page = parsePage(url.searchParams);
+            const { rows, total } = await backend.searchProperties(search, page);
+            const nextOffset = page.offset + page.limit < total ? page.offset + page.limit : null;
+            return send(response, 200, { data: rows, pagination: { ...page, total, next_offset: nextOffset } });
+        }
+        if (resource === 'scrapes' && id) {
+            allow('GET');
+            const runId = Number(id);
+            const found = Number.isInteger(runId) && runId > 0 ? await backend.findScrape(runId) : null;
+            if (!found) throw new ApiError(404, `Scrape ${id} does not exist.`);
+            return send(response, 200, { data: describeScrape(found.run, found.tasks) });
+        }
+        if (resource === 'scrapes') {
+            allow('POST');
+            const { target, options: runOptions } = parseScrapeRequest(await readJson(request), options.defaultCounty);
+            const run = await backend.startScrape(target, runOptions);
+            const found = await backend.findScrape(run.id);
+            return send(response, 202, { data: describeScrape(run, found?.tasks ?? []) }, { Location: `/scrapes/${run.id}` });
+        }
+        throw new ApiError(404, `No route for ${url.pathname}.`);
+    }
+
+    return async (request: IncomingMessage, response: ServerResponse) => {
+        try {
+            await route(request, response);
+        } catch (error) {
+            const status = error instanceof ApiError ? error.status : 500;
+            if (status === 500) console.error(`${request.method} ${request.url} failed:`, error);
+            const message = status === 500 ? 'Internal server error.' : (error as Error).message;
+            send(response, status, { error: { status, message } });
+        }
+    };
+}
+
+export function createApiServer(backend: ApiBackend, options: ApiOptions): Server {
+    return createServer(createApiHandler(backend, options));
+}
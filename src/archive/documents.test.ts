@@ -0,0 +1,59 @@
+// src/archive/documents.test.ts
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { CapturedDocument } from '../counties/types.js';
+import { archiveDocument, archiveKey, readArchivedPages } from './documents.js';
+import { createLocalArchive } from './local.js';
+
+/** Just enough of a JPEG for the PDF writer: SOI, a baseline frame header and EOI. */
+function fakeJpeg(width: number, height: number, marker = 0): Buffer {
+    return Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 1, 0x11, 0, marker, 0xff, 0xd9]);
+}
+
+function captured(images: Buffer[], fields: Partial<CapturedDocument> = {}): CapturedDocument {
+    return { instrument_number: '201500123456', documentUrl: null, images: images.map(image => image.toString('base64')), ...fields };
+}
+
+describe('archiveDocument', () => {
+    let dir: string;
+
+    before(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'archive-'));
+    });
+
+    after(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('keys instruments by county and normalized instrument number', () => {
+        assert.equal(archiveKey('dallas', '201500123456'), archiveKey('dallas', ' 201500123456 '));
+        assert.notEqual(archiveKey('dallas', '201500123456'), archiveKey('tarrant', '201500123456'));
+        assert.match(archiveKey('dallas', '201500123456'), /^dallas\/[0-9a-f]{2}\/[0-9a-f]{64}\.pdf$/);
+    });
+
+    it('stores each instrument once and reads its pages back', async () => {
+        const archive = createLocalArchive(dir);
+        const pages = [fakeJpeg(10, 20, 1), fakeJpeg(10, 20, 2)];
+
+        const first = await archiveDocument(archive, 'dallas', captured(pages));
+        assert.deepEqual(first, { archive_key: archiveKey('dallas', '201500123456'), page_count: 2 });
+
+        // A later capture of the same instrument, e.g. for another lot, keeps the stored copy.
+        const second = await archiveDocument(archive, 'dallas', captured([fakeJpeg(10, 20, 3)]));
+        assert.deepEqual(second, first);
+        assert.equal((await readdir(join(dir, 'dallas'), { recursive: true })).filter(file => file.endsWith('.pdf')).length, 1);
+
+        assert.deepEqual(await readArchivedPages(archive, first!.archive_key), pages.map(page => page.toString('base64')));
+        assert.equal(await readArchivedPages(archive, archiveKey('dallas', 'missing')), null);
+    });
+
+    it('skips partial captures and documents without pages', async () => {
+        const archive = createLocalArchive(dir);
+        assert.equal(await archiveDocument(archive, 'harris', captured([fakeJpeg(10, 20)], { captureError: 'Timeout' })), null);
+        assert.equal(await archiveDocument(archive, 'harris', captured([])), null);
+    });
+});
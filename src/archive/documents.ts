@@ -0,0 +1,38 @@
+// src/archive/documents.ts
+
+import { createHash } from 'node:crypto';
+import type { CapturedDocument, County } from '../counties/types.js';
+import { buildImagePdf, readImagePdf } from '../lib/pdf.js';
+import type { ArchivedDocument, DocumentArchive } from './types.js';
+
+/**
+ * The storage key of an instrument's PDF: a hash of the county and instrument
+ * number, so an instrument found for several properties is stored once.
+ */
+export function archiveKey(county: County, instrumentNumber: string): string {
+    const hash = createHash('sha256').update(`${county}:${instrumentNumber.trim().toUpperCase()}`).digest('hex');
+    return `${county}/${hash.slice(0, 2)}/${hash}.pdf`;
+}
+
+/**
+ * Assembles a captured document's pages into a PDF and stores it, unless the
+ * instrument is already archived. Returns null for documents that can't be
+ * archived: no instrument number, no pages, or a partial capture.
+ */
+export async function archiveDocument(archive: DocumentArchive, county: County, doc: CapturedDocument): Promise<ArchivedDocument | null> {
+    if (!doc.instrument_number || doc.images.length === 0 || doc.captureError) return null;
+    const key = archiveKey(county, doc.instrument_number);
+    if (await archive.exists(key)) {
+        // The stored copy wins; its page count is what gets recorded.
+        const stored = await archive.read(key);
+        if (stored) return { archive_key: key, page_count: readImagePdf(stored).length };
+    }
+    await archive.write(key, buildImagePdf(doc.images.map(image => Buffer.from(image, 'base64'))));
+    return { archive_key: key, page_count: doc.images.length };
+}
+
+/** The base64 page images of an archived document, or null when it isn't in the archive. */
+export async function readArchivedPages(archive: DocumentArchive, key: string): Promise<string[] | null> {
+    const pdf = await archive.read(key);
+    return pdf ? readImagePdf(pdf).map(page => page.toString('base64')) : null;
+}
@@ -0,0 +1,31 @@
+// src/archive/index.ts
+
+import { createLocalArchive } from './local.js';
+import { createSupabaseArchive } from './supabase.js';
+import type { ArchiveName, DocumentArchive } from './types.js';
+
+export type * from './types.js';
+export { archiveDocument, archiveKey, readArchivedPages } from './documents.js';
+export { createLocalArchive } from './local.js';
+export { createSupabaseArchive } from './supabase.js';
+
+const factories: Record<ArchiveName, () => DocumentArchive> = {
+    local: () => createLocalArchive(),
+    supabase: () => createSupabaseArchive(),
+};
+
+let archive: DocumentArchive | null | undefined;
+
+/**
+ * The archive named by `DOCUMENT_ARCHIVE` (`local` by default, `supabase`, or
+ * `none` to keep no copies), created on first use.
+ */
+export function getDocumentArchive(): DocumentArchive | null {
+    if (archive !== undefined) return archive;
+    const name = process.env.DOCUMENT_ARCHIVE || 'local';
+    if (name === 'none') return archive = null;
+    if (!Object.prototype.hasOwnProperty.call(factories, name)) {
+        throw new Error(`Unknown DOCUMENT_ARCHIVE "${name}"; expected one of: ${[...Object.keys(factories), 'none'].join(', ')}.`);
+    }
+    return archive = factories[name as ArchiveName]();
+}
@@ -0,0 +1,32 @@
+// src/archive/local.ts
+
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { DocumentArchive } from './types.js';
+
+/** Archives PDFs as files under `dir` (`DOCUMENT_ARCHIVE_DIR`, default `archive/`). */
+export function createLocalArchive(dir = process.env.DOCUMENT_ARCHIVE_DIR || 'archive'): DocumentArchive {
+    return {
+        name: 'local',
+
+        async exists(key) {
+            return stat(join(dir, key)).then(() => true, () => false);
+        },
+
+        async write(key, pdf) {
+            const file = join(dir, key);
+            await mkdir(dirname(file), { recursive: true });
+            // 'wx' leaves a file written by a concurrent worker in place.
+            await writeFile(file, pdf, { flag: 'wx' }).catch((error: NodeJS.ErrnoException) => {
+                if (error.code !== 'EEXIST') throw error;
+            });
+        },
+
+        async read(key) {
+            return readFile(join(dir, key)).catch((error: NodeJS.ErrnoException) => {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            });
+        },
+    };
+}
@@ -0,0 +1,34 @@
+// src/archive/supabase.ts
+
+import { supabase } from '../db/client.js';
+import type { DocumentArchive } from './types.js';
+
+/** Archives PDFs in a Supabase Storage bucket (`DOCUMENT_ARCHIVE_BUCKET`, default `documents`). */
+export function createSupabaseArchive(bucket = process.env.DOCUMENT_ARCHIVE_BUCKET || 'documents'): DocumentArchive {
+    const storage = () => supabase.storage.from(bucket);
+    return {
+        name: 'supabase',
+
+        async exists(key) {
+            const slash = key.lastIndexOf('/');
+            const { data, error } = await storage().list(key.slice(0, slash), { search: key.slice(slash + 1) });
+            if (error) throw new Error(`Failed to look up ${key} in the archive: ${error.message}`);
+            return (data ?? []).some(file => file.name === key.slice(slash + 1));
+        },
+
+        async write(key, pdf) {
+            const { error } = await storage().upload(key, pdf, { contentType: 'application/pdf', upsert: false });
+            // A concurrent worker may have stored the same instrument first.
+            if (error && !/already exists|duplicate/i.test(error.message)) throw new Error(`Failed to archive ${key}: ${error.message}`);
+        },
+
+        async read(key) {
+            const { data, error } = await storage().download(key);
+            if (error) {
+                if (/not found|does not exist/i.test(error.message)) return null;
+                throw new Error(`Failed to read ${key} from the archive: ${error.message}`);
+            }
+            return Buffer.from(await data.arrayBuffer());
+        },
+    };
+}
@@ -0,0 +1,21 @@
+// src/archive/types.ts
+
+/**
+ * Where archived clerk documents are stored: one PDF per instrument, under the key
+ * from `archiveKey`. Writing a key that already exists replaces nothing.
+ */
+export interface DocumentArchive {
+    name: ArchiveName;
+    exists(key: string): Promise<boolean>;
+    write(key: string, pdf: Buffer): Promise<void>;
+    /** The stored PDF, or null when nothing is stored under the key. */
+    read(key: string): Promise<Buffer | null>;
+}
+
+export type ArchiveName = 'local' | 'supabase';
+
+/** What is recorded on a document once its pages are archived. */
+export interface ArchivedDocument {
+    archive_key: string;
+    page_count: number;
+}
@@ -1,46 +1,207 @@
-import 'dotenv/config';
-import { createClient } from '@supabase/supabase-js';
+// src/clear-db.ts
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_ANON_KEY;
+import { parseArgs } from 'node:util';
+import { counties, isCounty, type County } from './counties/index.js';
+import { supabase } from './db/client.js';
+import type { Database } from './db/database.types.js';
+import { readAllPages } from './db/rows.js';
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error("Supabase URL and Key are required in the .env file");
+type TableName = keyof Database['public']['Tables'];
+
+const usage = `Usage: npm run clear-db -- <scope> [options]
+
+Scope (one is required):
+  --account <account number>      Only this property's rows
+  --county <${counties.join('|')}>  Only the rows of this county's properties
+  --all                           Every scraped row, including owners
+
+Options:
+  --documents-only                Only clerk documents, their details, crawl state and title reports
+  --dry-run                       Print how many rows would be deleted and delete nothing
+  -h, --help                      Show this help`;
+
+type Scope =
+    | { kind: 'all' }
+    | { kind: 'account'; accountNumber: string }
+    | { kind: 'county'; county: County };
+
+interface ClearOptions {
+    scope: Scope;
+    documentsOnly: boolean;
+    dryRun: boolean;
 }
-const supabase = createClient(supabaseUrl, supabaseKey);
 
-async function clearDatabase() {
-  console.log('--- Clearing existing data from database ---');
-  
-  // Important: Delete from tables with foreign keys first to avoid errors.
-  // Added 'property_documents' to this list.
-  const tablesToDelete = ['ownership_history', 'value_history', 'exemptions', 'property_documents'];
+/**
+ * One table to clear: which column ties its rows to a property, and for the
+ * change log, which fields belong to documents.
+ */
+interface ClearStep {
+    table: TableName;
+    column: 'property_account_number' | 'account_number' | 'id';
+    documentChangesOnly?: boolean;
+}
+
+/**
+ * Children before parents, so no foreign key blocks a delete. Document details and
+ * parties also cascade from their documents, but are counted on their own.
+ */
+const documentSteps: ClearStep[] = [
+    { table: 'document_parties', column: 'property_account_number' },
+    { table: 'document_details', column: 'property_account_number' },
+    { table: 'property_documents', column: 'property_account_number' },
+    { table: 'property_changes', column: 'property_account_number', documentChangesOnly: true },
+    { table: 'clerk_crawls', column: 'property_account_number' },
+    { table: 'title_reports', column: 'property_account_number' },
+];
+
+const propertySteps: ClearStep[] = [
+    ...documentSteps.filter(step => !step.documentChangesOnly),
+    { table: 'property_changes', column: 'property_account_number' },
+    { table: 'property_snapshots', column: 'property_account_number' },
+    { table: 'property_owners', column: 'property_account_number' },
+    { table: 'ownership_history', column: 'property_account_number' },
+    { table: 'value_history', column: 'property_account_number' },
+    { table: 'exemptions', column: 'property_account_number' },
+    { table: 'properties', column: 'account_number' },
+];
+
+/** Owners are shared between properties, so only a full clear removes them. */
+const ownerSteps: ClearStep[] = [
+    { table: 'owners', column: 'id' },
+    { table: 'owner_entities', column: 'id' },
+];
 
-  for (const table of tablesToDelete) {
-    // Deletes all rows in the table
-    const { error } = await supabase.from(table).delete().neq('id', 0); 
-    if (error) {
-      console.error(`Error clearing ${table}:`, error.message);
+/** Account numbers per request, so the filter stays within URL limits. */
+const ACCOUNT_CHUNK = 100;
+
+function parseClearArgs(argv: string[]): ClearOptions | null {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            account: { type: 'string' },
+            county: { type: 'string' },
+            all: { type: 'boolean', default: false },
+            'documents-only': { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help) return null;
+
+    const scopes = [values.account !== undefined, values.county !== undefined, values.all].filter(Boolean).length;
+    if (scopes !== 1) throw new Error('Give exactly one of --account, --county or --all.');
+
+    let scope: Scope;
+    if (values.account !== undefined) {
+        if (!values.account.trim()) throw new Error('--account needs an account number.');
+        scope = { kind: 'account', accountNumber: values.account.trim() };
+    } else if (values.county !== undefined) {
+        const county = values.county.toLowerCase();
+        if (!isCounty(county)) throw new Error(`Unknown county '${values.county}'. Expected one of: ${counties.join(', ')}.`);
+        scope = { kind: 'county', county };
     } else {
-      console.log(`Successfully cleared ${table}.`);
+        scope = { kind: 'all' };
     }
-  }
-
-  // Now delete from the parent tables
-  const parentTables = ['properties', 'owners'];
-   for (const table of parentTables) {
-    const { error } = await supabase.from(table).delete().neq('id', 0);
-    if (error) {
-      console.error(`Error clearing ${table}:`, error.message);
-    } else {
-      console.log(`Successfully cleared ${table}.`);
+    return { scope, documentsOnly: values['documents-only'], dryRun: values['dry-run'] };
+}
+
+/** The accounts in scope, or null for every row. */
+async function scopeAccounts(scope: Scope): Promise<string[] | null> {
+    if (scope.kind === 'all') return null;
+    if (scope.kind === 'account') return [scope.accountNumber];
+    const { data, error } = await readAllPages((from, to) =>
+        supabase.from('properties').select('account_number').eq('county', scope.county).order('account_number').range(from, to));
+    if (error) throw new Error(`Failed to list ${scope.county} properties: ${error.message}`);
+    return data.map(row => row.account_number);
+}
+
+/** The filters a count or delete on any of the tables takes. */
+interface Filterable<Q> {
+    in(column: string, values: readonly string[]): Q;
+    not(column: string, operator: string, value: null): Q;
+    like(column: string, pattern: string): Q;
+}
+
+/**
+ * Runs the query `build` makes once per chunk of accounts with the step's filters
+ * applied, or once with a filter matching every row when `accounts` is null.
+ */
+async function forEachChunk<Q extends Filterable<Q> & PromiseLike<unknown>>(step: ClearStep, accounts: string[] | null, build: () => Q): Promise<Awaited<Q>[]> {
+    const filtered = (query: Q) => step.documentChangesOnly ? query.like('field', 'documents.%') : query;
+    if (accounts === null) return [await filtered(build().not(step.column, 'is', null))];
+    const results: Awaited<Q>[] = [];
+    for (let start = 0; start < accounts.length; start += ACCOUNT_CHUNK) {
+        results.push(await filtered(build().in(step.column, accounts.slice(start, start + ACCOUNT_CHUNK))));
+    }
+    return results;
+}
+
+async function countRows(step: ClearStep, accounts: string[] | null): Promise<number> {
+    const results = await forEachChunk(step, accounts, () => supabase.from(step.table).select('*', { count: 'exact', head: true }));
+    return results.reduce((total, { count, error }) => {
+        if (error) throw new Error(`Failed to count ${step.table}: ${error.message}`);
+        return total + (count ?? 0);
+    }, 0);
+}
+
+async function deleteRows(step: ClearStep, accounts: string[] | null): Promise<void> {
+    const results = await forEachChunk(step, accounts, () => supabase.from(step.table).delete());
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw new Error(`Failed to clear ${step.table}: ${failed.error.message}`);
+}
+
+function describeScope({ scope, documentsOnly }: ClearOptions): string {
+    const what = documentsOnly ? 'clerk documents' : 'rows';
+    if (scope.kind === 'all') return `every scraped ${what}`;
+    if (scope.kind === 'account') return `${what} of account ${scope.accountNumber}`;
+    return `${what} of ${scope.county} county properties`;
+}
+
+/**
+ * Deletes scraped data in a scope: one account, one county's properties, or
+ * everything. Row counts are printed per table first; with --dry-run that is all
+ * it does. Scrape runs, watched properties and archived PDFs are never touched.
+ * Usage: npm run clear-db -- --account 00000776533000000 --dry-run
+ */
+async function main() {
+    let options: ClearOptions | null;
+    try {
+        options = parseClearArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (!options) {
+        console.log(usage);
+        return;
+    }
+
+    const accounts = await scopeAccounts(options.scope);
+    const steps = options.documentsOnly
+        ? documentSteps
+        : [...propertySteps, ...(options.scope.kind === 'all' ? ownerSteps : [])];
+
+    console.log(`${options.dryRun ? 'Would delete' : 'Deleting'} ${describeScope(options)}:`);
+    if (accounts?.length === 0) {
+        console.log('  No stored properties are in scope.');
+        return;
+    }
+    const counts = new Map<ClearStep, number>();
+    for (const step of steps) counts.set(step, await countRows(step, accounts));
+    for (const [step, count] of counts) {
+        console.log(`  ${step.table.padEnd(20)} ${count}${step.documentChangesOnly ? ' (document changes)' : ''}`);
+    }
+    if (options.dryRun) return;
+
+    for (const step of steps) {
+        if (counts.get(step) === 0) continue;
+        await deleteRows(step, accounts);
     }
-  }
-  
-  console.log('--- Database clearing complete ---');
+    console.log('Done.');
 }
 
-// --- Script Execution ---
-clearDatabase()
-  .then(() => console.log('Database has been cleared successfully.'))
-  .catch((error) => console.error('An error occurred while clearing the database:', error));
+main().catch((error) => {
+    console.error('Clearing the database failed:', (error as Error).message);
+    process.exitCode = 1;
+});
@@ -0,0 +1,47 @@
+// src/cli/args.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCliArgs } from './args.js';
+
+describe('parseCliArgs', () => {
+    it('reads a new run with its defaults', () => {
+        assert.deepEqual(parseCliArgs(['targets.csv']), {
+            targetsFile: 'targets.csv', county: 'dallas', stage: 'all', limit: null, outputs: ['supabase'],
+            concurrency: 1, resumeRunId: null, retryFailed: false, fullClerk: false,
+        });
+        const options = parseCliArgs(['targets.json', '--county', 'Harris', '--stage', 'clerk', '--limit', '5', '--output', 'airtable, supabase,airtable', '--concurrency', '3', '--full-clerk']);
+        assert.deepEqual(options, {
+            targetsFile: 'targets.json', county: 'harris', stage: 'clerk', limit: 5, outputs: ['airtable', 'supabase'],
+            concurrency: 3, resumeRunId: null, retryFailed: false, fullClerk: true,
+        });
+        assert.equal(parseCliArgs(['--help']), null);
+    });
+
+    it('rejects invalid values', () => {
+        assert.throws(() => parseCliArgs([]), /exactly one targets file/);
+        assert.throws(() => parseCliArgs(['a.csv', 'b.csv']), /exactly one targets file/);
+        assert.throws(() => parseCliArgs(['t.csv', '--county', 'travis']), /Unknown county 'travis'/);
+        assert.throws(() => parseCliArgs(['t.csv', '--stage', 'ocr']), /Unknown stage 'ocr'/);
+        assert.throws(() => parseCliArgs(['t.csv', '--limit', '0']), /--limit must be a positive integer/);
+        assert.throws(() => parseCliArgs(['t.csv', '--concurrency', '1.5']), /--concurrency must be a positive integer/);
+        assert.throws(() => parseCliArgs(['t.csv', '--output', 'supabase,s3']), /Unknown output 's3'/);
+        assert.throws(() => parseCliArgs(['t.csv', '--output', ',']), /Unknown output ','/);
+    });
+
+    it('resumes a run with its own targets and options', () => {
+        assert.deepEqual(parseCliArgs(['--resume', '12', '--concurrency', '2']), {
+            targetsFile: null, county: 'dallas', stage: 'all', limit: null, outputs: null,
+            concurrency: 2, resumeRunId: 12, retryFailed: false, fullClerk: false,
+        });
+        assert.deepEqual(parseCliArgs(['--retry-failed', '12'])?.retryFailed, true);
+    });
+
+    it('rejects options that conflict with resuming', () => {
+        assert.throws(() => parseCliArgs(['--resume', '12', '--retry-failed', '12']), /either --resume or --retry-failed/);
+        assert.throws(() => parseCliArgs(['--resume', 'last']), /Invalid run id 'last'/);
+        assert.throws(() => parseCliArgs(['--resume', '12', 'targets.csv']), /do not pass a targets file/);
+        assert.throws(() => parseCliArgs(['--retry-failed', '12', '--output', 'airtable']), /do not pass --output/);
+        assert.throws(() => parseCliArgs(['--resume', '12', '--full-clerk']), /--full-clerk choice/);
+    });
+});
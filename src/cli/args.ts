@@ -0,0 +1,97 @@
+// src/cli/args.ts
+
+import { parseArgs } from 'node:util';
+import { counties, isCounty, type County } from '../counties/index.js';
+import { isOutputName, outputNames, type OutputName } from '../outputs/types.js';
+
+export type Stage = 'all' | 'assessment' | 'clerk';
+
+export interface CliOptions {
+    targetsFile: string | null;
+    county: County;
+    stage: Stage;
+    limit: number | null;
+    /** Where scraped data is saved; null when resuming (the run's own choice is used). */
+    outputs: OutputName[] | null;
+    /** How many targets are processed at once. */
+    concurrency: number;
+    /** Set when continuing an earlier run instead of starting a new one. */
+    resumeRunId: number | null;
+    /** With `resumeRunId`: re-drive only the targets that have a failed task. */
+    retryFailed: boolean;
+    /** Search the clerk's full date range and process every document again. */
+    fullClerk: boolean;
+}
+
+export const usage = `Usage: npm start -- <targets.csv|targets.json> [options]
+       npm start -- --resume <run id>
+       npm start -- --retry-failed <run id>
+
+Options:
+  --county <${counties.join('|')}>  County for targets that don't name one (default: dallas)
+  --stage <all|assessment|clerk>  Run only the assessment or only the clerk stage (default: all)
+  --limit <n>                     Process at most n targets
+  --output <${outputNames.join(',')}>  Comma-separated output targets (default: supabase)
+  --concurrency <n>               Process n targets at once, reusing browser sessions (default: 1)
+  --full-clerk                    Re-crawl every clerk document, not only new and failed ones
+  --resume <run id>               Continue a run: every task that hasn't succeeded is run
+  --retry-failed <run id>         Re-drive only the failed tasks of a run
+  -h, --help                      Show this help`;
+
+/**
+ * Parses the command line. Returns null when help was requested; throws with a
+ * readable message on invalid input.
+ */
+export function parseCliArgs(argv: string[]): CliOptions | null {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            county: { type: 'string', default: 'dallas' },
+            stage: { type: 'string', default: 'all' },
+            limit: { type: 'string' },
+            concurrency: { type: 'string', default: '1' },
+            output: { type: 'string' },
+            resume: { type: 'string' },
+            'retry-failed': { type: 'string' },
+            'full-clerk': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) return null;
+
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error(`--concurrency must be a positive integer, got '${values.concurrency}'.`);
+
+    if (values.resume !== undefined && values['retry-failed'] !== undefined) throw new Error('Use either --resume or --retry-failed, not both.');
+    const runIdValue = values.resume ?? values['retry-failed'];
+    if (runIdValue !== undefined) {
+        const resumeRunId = Number(runIdValue);
+        if (!Number.isInteger(resumeRunId) || resumeRunId < 1) throw new Error(`Invalid run id '${runIdValue}'.`);
+        if (positionals.length > 0) throw new Error('A resumed run reuses its original targets; do not pass a targets file.');
+        if (values.output !== undefined) throw new Error('A resumed run keeps its original outputs; do not pass --output.');
+        if (values['full-clerk']) throw new Error('A resumed run keeps its original --full-clerk choice; do not pass it again.');
+        return { targetsFile: null, county: 'dallas', stage: 'all', limit: null, outputs: null, concurrency, resumeRunId, retryFailed: values['retry-failed'] !== undefined, fullClerk: false };
+    }
+
+    if (positionals.length !== 1) throw new Error('Expected exactly one targets file.');
+
+    const county = values.county!.toLowerCase();
+    if (!isCounty(county)) throw new Error(`Unknown county '${values.county}'. Expected one of: ${counties.join(', ')}.`);
+
+    const stage = values.stage!;
+    if (stage !== 'all' && stage !== 'assessment' && stage !== 'clerk') throw new Error(`Unknown stage '${stage}'. Expected all, assessment or clerk.`);
+
+    let limit: number | null = null;
+    if (values.limit !== undefined) {
+        limit = Number(values.limit);
+        if (!Number.isInteger(limit) || limit < 1) throw new Error(`--limit must be a positive integer, got '${values.limit}'.`);
+    }
+
+    const outputs = (values.output ?? 'supabase').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const unknownOutput = outputs.find(name => !isOutputName(name));
+    if (unknownOutput !== undefined || outputs.length === 0) throw new Error(`Unknown output '${unknownOutput ?? values.output}'. Expected one or more of: ${outputNames.join(', ')}.`);
+
+    return { targetsFile: positionals[0], county, stage, limit, outputs: [...new Set(outputs)] as OutputName[], concurrency, resumeRunId: null, retryFailed: false, fullClerk: values['full-clerk']! };
+}
@@ -0,0 +1,51 @@
+// src/cli/targets.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCsv, parseTarget } from './targets.js';
+
+describe('parseCsv', () => {
+    it('reads quoted commas, escaped quotes and newlines inside quotes', () => {
+        const rows = parseCsv('address,note\n"9920 Gulf Palm Dr, Dallas","the ""blue"" house\non the corner"\n');
+        assert.deepEqual(rows, [{ address: '9920 Gulf Palm Dr, Dallas', note: 'the "blue" house\non the corner' }]);
+    });
+
+    it('accepts CRLF line endings, blank lines and a missing final newline', () => {
+        const rows = parseCsv('account_number,county\r\n00000776533000000,dallas\r\n\r\n0123456789012,harris');
+        assert.deepEqual(rows, [
+            { account_number: '00000776533000000', county: 'dallas' },
+            { account_number: '0123456789012', county: 'harris' },
+        ]);
+    });
+
+    it('fills short rows with empty values and returns nothing for an empty file', () => {
+        assert.deepEqual(parseCsv(' address , unit\n100 Main St\n'), [{ address: '100 Main St', unit: '' }]);
+        assert.deepEqual(parseCsv('\n\n'), []);
+    });
+});
+
+describe('parseTarget', () => {
+    it('matches column names case-insensitively in snake_case or camelCase', () => {
+        assert.deepEqual(parseTarget({ Account_Number: ' 00000776533000000 ' }, 'dallas', 'row 1'), { county: 'dallas', kind: 'account', accountNumber: '00000776533000000' });
+        assert.deepEqual(parseTarget({ addressNumber: '9920', streetName: 'Gulf Palm Dr', ZIP: '75238', County: 'Tarrant' }, 'dallas', 'row 1'),
+            { county: 'tarrant', kind: 'address', addressNumber: '9920', streetName: 'Gulf Palm Dr', zip: '75238' });
+    });
+
+    it('prefers the account number and reads a free-form address, letting unit, city and ZIP columns win', () => {
+        assert.equal(parseTarget({ account: '0123456789012', address: '9920 Gulf Palm Dr' }, 'harris', 'row 1').kind, 'account');
+        assert.deepEqual(parseTarget({ address: '9920 N Gulf Palm Drive Apt 12, Dallas, TX 75238', apt: '14' }, 'dallas', 'row 1'),
+            { county: 'dallas', kind: 'address', addressNumber: '9920', streetName: 'N GULF PALM DR', unit: '14', city: 'DALLAS', zip: '75238' });
+    });
+
+    it('names the row when it rejects a target', () => {
+        assert.throws(() => parseTarget({ account: '1', county: 'travis' }, 'dallas', 'targets.csv row 3'), /^Error: targets\.csv row 3: unknown county 'travis'$/);
+        assert.throws(() => parseTarget({ address: 'Gulf Palm Dr' }, 'dallas', 'row 2'), /^Error: row 2: cannot find a house number/);
+        assert.throws(() => parseTarget({ city: 'Dallas' }, 'dallas', 'row 4'), /^Error: row 4: needs an account number/);
+    });
+
+    it('rejects rows that are not objects', () => {
+        for (const row of ['9920 Gulf Palm Dr', null, ['9920', 'Gulf Palm Dr'], 42]) {
+            assert.throws(() => parseTarget(row, 'dallas', 'targets.json row 5'), /^Error: targets\.json row 5: expected an object/);
+        }
+    });
+});
@@ -0,0 +1,133 @@
+// src/cli/targets.ts
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { isCounty, type AddressTarget, type AssessmentLookup, type County } from '../counties/index.js';
+import { formatStreetLine, normalizeAddress } from '../lib/address.js';
+
+export type ScrapeTarget =
+    | ({ county: County; kind: 'address' } & AddressTarget)
+    | { county: County; kind: 'account'; accountNumber: string };
+
+type RawTarget = Record<string, unknown>;
+
+/**
+ * Reads scrape targets from a CSV or JSON file. Each row or object may give
+ * `address_number` + `street_name`, a free-form `address`, or an `account_number`,
+ * plus an optional `county`. Address targets may add a `unit`, `city` and `zip`;
+ * a free-form address supplies whichever of them it includes. Column names are matched case-insensitively and may be
+ * written in snake_case or camelCase.
+ * @param path Path to a `.csv` or `.json` file.
+ * @param defaultCounty County used for rows that don't name one.
+ */
+export async function loadTargets(path: string, defaultCounty: County): Promise<ScrapeTarget[]> {
+    const contents = await readFile(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    let rows: unknown[];
+    if (extension === '.json') {
+        const parsed = JSON.parse(contents);
+        if (!Array.isArray(parsed)) throw new Error(`${path}: expected a JSON array of targets`);
+        rows = parsed;
+    } else if (extension === '.csv') {
+        rows = parseCsv(contents);
+    } else {
+        throw new Error(`${path}: unsupported file type '${extension}', expected .csv or .json`);
+    }
+    return rows.map((row, index) => parseTarget(row, defaultCounty, `${path} row ${index + 1}`));
+}
+
+export function targetLabel(target: ScrapeTarget): string {
+    const where = target.kind === 'account'
+        ? `account ${target.accountNumber}`
+        : [`${target.addressNumber} ${target.streetName}${target.unit ? ` #${target.unit}` : ''}`, target.city].filter(Boolean).join(', ');
+    return `${target.county}: ${where}`;
+}
+
+export function targetLookup(target: ScrapeTarget): AssessmentLookup {
+    return target.kind === 'account'
+        ? { accountNumber: target.accountNumber }
+        : { addressNumber: target.addressNumber, streetName: target.streetName, unit: target.unit, city: target.city, zip: target.zip };
+}
+
+/**
+ * Reads one target from a row of a targets file, or any object with the same
+ * fields (e.g. an HTTP request body). Anything but an object is rejected.
+ * @param where Names the row in error messages.
+ */
+export function parseTarget(raw: unknown, defaultCounty: County, where: string): ScrapeTarget {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where}: expected an object of target fields, got ${JSON.stringify(raw)}`);
+    const row = new Map(Object.entries(raw).map(([key, value]) => [key.replace(/[_\s-]/g, '').toLowerCase(), value == null ? '' : String(value).trim()]));
+    const get = (...keys: string[]) => keys.map(key => row.get(key)).find(value => !!value) || '';
+
+    const countyValue = get('county').toLowerCase();
+    if (countyValue && !isCounty(countyValue)) throw new Error(`${where}: unknown county '${countyValue}'`);
+    const county = (countyValue || defaultCounty) as County;
+
+    const accountNumber = get('accountnumber', 'account');
+    if (accountNumber) return { county, kind: 'account', accountNumber };
+
+    const unit = get('unit', 'apt', 'suite');
+    const city = get('city');
+    const zip = get('zip', 'zipcode', 'postalcode');
+    const locality = (given: { unit?: string | null; city?: string | null; zip?: string | null }) =>
+        Object.fromEntries(Object.entries(given).filter(([, value]) => value)) as Pick<AddressTarget, 'unit' | 'city' | 'zip'>;
+
+    const addressNumber = get('addressnumber');
+    const streetName = get('streetname');
+    if (addressNumber && streetName) return { county, kind: 'address', addressNumber, streetName, ...locality({ unit, city, zip }) };
+
+    const address = get('address');
+    if (address) {
+        const normalized = normalizeAddress(address);
+        if (!normalized.number || !normalized.street) throw new Error(`${where}: cannot find a house number and street in address '${address}'`);
+        return {
+            county,
+            kind: 'address',
+            addressNumber: normalized.number,
+            streetName: formatStreetLine({ ...normalized, number: null, unit: null }),
+            ...locality({ unit: unit || normalized.unit, city: city || normalized.city, zip: zip || normalized.zip }),
+        };
+    }
+    throw new Error(`${where}: needs an account number, an address, or an address number and street name`);
+}
+
+/**
+ * Parses CSV text with a header row into objects keyed by header. Supports quoted
+ * fields containing commas, escaped quotes ("") and newlines.
+ */
+export function parseCsv(text: string): RawTarget[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim()));
+    if (nonEmpty.length === 0) return [];
+    const [header, ...rows] = nonEmpty;
+    return rows.map(values => Object.fromEntries(header.map((name, index) => [name.trim(), values[index] ?? ''])));
+}
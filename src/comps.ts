@@ -0,0 +1,177 @@
+// src/comps.ts
+
+import 'dotenv/config';
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { ScrapeTarget } from './cli/targets.js';
+import { addressKey, buildProtestPacket, DEFAULT_CRITERIA, pickNeighbors, renderProtestPacket, type CompCriteria, type CompProperty } from './comps/index.js';
+import { counties, getCountyAdapter, isCounty, scrapeStreet, type County } from './counties/index.js';
+import { loadNeighborhood, loadProperty, searchProperties } from './db/properties.js';
+import { dossierFormats, isDossierFormat } from './dossier/index.js';
+import { createRun } from './jobs/run-store.js';
+import { executeRun, groupPendingTasks } from './jobs/runner.js';
+import { formatStreetLine, normalizeAddress } from './lib/address.js';
+import { fixtureMode } from './lib/fixtures.js';
+import { validateBrowserSettings } from './lib/stagehand-config.js';
+import { createOutputTargets } from './outputs/index.js';
+
+const usage = `Usage: npm run comps -- <account number> [options]
+
+Builds an equity protest evidence packet from the subject's stored neighbors.
+
+Options:
+  --scrape                    First scrape the subject, if it isn't stored, and its unstored neighbors
+  --street <name>             Also look for neighbors on this street; repeatable
+  --neighbors <n>             Most neighbors to scrape, nearest house number first (default: 30)
+  --refresh                   Scrape neighbors again even if they are stored
+  --concurrency <n>           Neighbors scraped at once (default: 1)
+  --county <${counties.join('|')}>  County of a subject that isn't stored (default: dallas)
+  --whole-subdivision         Compare with the whole subdivision, not only the subject's block
+  --year-range <years>        Most years a comp's year built may differ (default: ${DEFAULT_CRITERIA.yearBuiltRange})
+  --area-range <percent>      Most a comp's living area may differ (default: ${DEFAULT_CRITERIA.livingAreaRange * 100})
+  --land-range <percent>      Most a comp's land value may differ (default: ${DEFAULT_CRITERIA.landValueRange * 100})
+  --count <n>                 Most favorable comps to keep (default: ${DEFAULT_CRITERIA.count})
+  --format <${dossierFormats.join('|')}>  Packet format (default: markdown)
+  --out <file>                Write the packet to a file instead of printing it
+  -h, --help                  Show this help`;
+
+type Values = {
+    scrape?: boolean; street?: string[]; neighbors?: string; refresh?: boolean; concurrency?: string; county?: string;
+    'whole-subdivision'?: boolean; 'year-range'?: string; 'area-range'?: string; 'land-range'?: string; count?: string;
+    format?: string; out?: string; help?: boolean;
+};
+
+function readNumber(values: Values, name: keyof Values, fallback: number, integer: boolean): number {
+    const raw = values[name];
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0 || (integer && (!Number.isInteger(value) || value === 0))) {
+        throw new Error(`--${name} must be ${integer ? 'a positive integer' : 'a non-negative number'}.`);
+    }
+    return value;
+}
+
+/** Records a run for the targets and scrapes their assessments, like `npm start -- --stage assessment`. */
+async function scrapeTargets(targets: ScrapeTarget[], concurrency: number, what: string) {
+    const { run, tasks } = await createRun({ stage: 'assessment', outputs: ['supabase'] }, null, targets);
+    console.error(`Scraping ${what} as run #${run.id}.`);
+    const summaries = await executeRun(run, groupPendingTasks(tasks), createOutputTargets(['supabase']), concurrency);
+    const failed = summaries.filter(summary => summary.status !== 'succeeded' || summary.message);
+    console.error(`Run #${run.id}: ${summaries.length - failed.length} saved, ${failed.length} failed or quarantined.`);
+    for (const summary of failed) console.error(`  ${summary.label}: ${summary.message ?? summary.status}`);
+}
+
+/**
+ * Lists the parcels on the subject's street and any `--street`, and scrapes the
+ * nearest ones not stored yet. Where they fall in the subdivision is only known
+ * once they are scraped, so neighbors on other blocks are scraped too.
+ */
+async function scrapeNeighbors(subject: CompProperty, county: County, values: Values, concurrency: number) {
+    const home = normalizeAddress(subject.address ?? '');
+    if (!home.number || !home.street) throw new Error(`The subject ${subject.account_number} has no street address to find its neighbors by.`);
+    const streets = [...new Set([formatStreetLine({ ...home, number: null, unit: null }), ...(values.street ?? []).map(street => street.toUpperCase())])];
+
+    const adapter = getCountyAdapter(county);
+    const searches = [];
+    const stored = new Set<string>();
+    for (const street of streets) {
+        const listed = await scrapeStreet(adapter, street);
+        if (!listed.success) throw new Error(`Could not list the parcels on ${street}: ${listed.error}`);
+        searches.push({ street, parcels: listed.data });
+        if (values.refresh) continue;
+        const { rows } = await searchProperties({ address: street, county }, { limit: 1000, offset: 0 });
+        for (const row of rows) if (row.address) stored.add(addressKey(row.address));
+    }
+
+    const neighbors = pickNeighbors(subject.address!, searches, stored, readNumber(values, 'neighbors', 30, true));
+    if (neighbors.length === 0) {
+        console.error(`Every parcel listed on ${streets.join(', ')} is already stored.`);
+        return;
+    }
+    await scrapeTargets(neighbors.map(target => ({ county, kind: 'address', ...target })), concurrency, `${neighbors.length} neighbors on ${streets.join(', ')}`);
+}
+
+/**
+ * Ranks the subject's stored neighbors as equity comparables and writes the
+ * protest evidence packet, optionally scraping the neighbors first.
+ */
+async function main() {
+    let values: Values;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args: process.argv.slice(2),
+            allowPositionals: true,
+            options: {
+                scrape: { type: 'boolean', default: false },
+                street: { type: 'string', multiple: true },
+                neighbors: { type: 'string' },
+                refresh: { type: 'boolean', default: false },
+                concurrency: { type: 'string' },
+                county: { type: 'string', default: 'dallas' },
+                'whole-subdivision': { type: 'boolean', default: false },
+                'year-range': { type: 'string' },
+                'area-range': { type: 'string' },
+                'land-range': { type: 'string' },
+                count: { type: 'string' },
+                format: { type: 'string', default: 'markdown' },
+                out: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }));
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (values.help) {
+        console.log(usage);
+        return;
+    }
+    const format = (values.format ?? 'markdown').toLowerCase();
+    const county = (values.county ?? 'dallas').toLowerCase();
+    if (positionals.length !== 1 || !isDossierFormat(format) || !isCounty(county)) {
+        const problem = positionals.length !== 1 ? 'Give one subject account number.' : !isDossierFormat(format) ? `Unknown format ${format}.` : `Unknown county ${county}.`;
+        console.error(`${problem}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    const [account] = positionals;
+    const criteria: CompCriteria = {
+        sameBlock: !values['whole-subdivision'],
+        yearBuiltRange: readNumber(values, 'year-range', DEFAULT_CRITERIA.yearBuiltRange, false),
+        livingAreaRange: readNumber(values, 'area-range', DEFAULT_CRITERIA.livingAreaRange * 100, false) / 100,
+        landValueRange: readNumber(values, 'land-range', DEFAULT_CRITERIA.landValueRange * 100, false) / 100,
+        count: readNumber(values, 'count', DEFAULT_CRITERIA.count, true),
+    };
+    const concurrency = readNumber(values, 'concurrency', 1, true);
+
+    if (values.scrape && fixtureMode() !== 'replay') validateBrowserSettings();
+    let detail = await loadProperty(account);
+    if (!detail && values.scrape) {
+        await scrapeTargets([{ county, kind: 'account', accountNumber: account }], 1, `the subject ${account}`);
+        detail = await loadProperty(account);
+    }
+    if (!detail) throw new Error(`Property ${account} is not stored; scrape it first, or pass --scrape.`);
+    const subject: CompProperty = detail.property;
+    if (!subject.subdivision) throw new Error(`Property ${account} has no parsed subdivision, which its comparables are drawn from.`);
+
+    if (values.scrape) await scrapeNeighbors(subject, isCounty(subject.county ?? '') ? subject.county as County : county, values, concurrency);
+
+    const neighborhood = await loadNeighborhood(subject.county, subject.subdivision, criteria.sameBlock ? subject.block : null);
+    const packet = buildProtestPacket(subject, neighborhood, criteria);
+    const rendered = renderProtestPacket(packet, format);
+    if (values.out) {
+        await writeFile(values.out, rendered);
+        console.log(`Wrote ${values.out}`);
+    } else {
+        process.stdout.write(rendered);
+    }
+    const suggestion = packet.suggested_value === null ? 'no reduction indicated' : `suggested value $${packet.suggested_value.toLocaleString('en-US')}`;
+    console.error(`${packet.comps.length} comps of ${packet.neighbors} neighbors; ${suggestion}.`);
+}
+
+main().catch((error) => {
+    console.error('Comparables failed:', (error as Error).message);
+    process.exitCode = 1;
+});
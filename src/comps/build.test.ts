@@ -0,0 +1,74 @@
+// src/comps/build.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildProtestPacket, DEFAULT_CRITERIA, median, renderProtestPacket, type CompProperty } from './index.js';
+
+function parcel(account: string, overrides: Partial<CompProperty> = {}): CompProperty {
+    return {
+        account_number: account, county: 'dallas', address: `${account} GULF PALM DR`, subdivision: 'LAKE HIGHLANDS', block: '3', lot1: '1',
+        year_built: 1978, living_area: 2000, land_value: 100000, improvement_value: 250000, total_market_value: 350000,
+        cad_url: `https://www.dallascad.org/AcctDetailRes.aspx?ID=${account}`, ...overrides,
+    };
+}
+
+const subject = parcel('S', { total_market_value: 400000 });
+const neighbors = [
+    subject,
+    parcel('A', { total_market_value: 300000 }),
+    parcel('B', { total_market_value: 320000, year_built: 1985 }),
+    parcel('C', { total_market_value: 340000, living_area: 2200 }),
+    parcel('D', { total_market_value: 200000, year_built: 1950 }),
+    parcel('E', { total_market_value: 250000, block: '4' }),
+    parcel('F', { total_market_value: 260000, land_value: 200000 }),
+    parcel('G', { total_market_value: null }),
+];
+const generatedAt = new Date('2026-10-19T12:00:00Z');
+
+describe('buildProtestPacket', () => {
+    it('ranks comparable neighbors by $/sqft and suggests the median applied to the subject', () => {
+        const packet = buildProtestPacket(subject, neighbors, DEFAULT_CRITERIA, generatedAt);
+        // D is 28 years older, E on another block, F's land is twice the subject's, and G has no market value.
+        assert.deepEqual(packet.comps.map(comp => comp.account_number), ['A', 'C', 'B']);
+        assert.deepEqual(packet.comps.map(comp => comp.price_per_sqft), [150, 154.55, 160]);
+        assert.equal(packet.comps[2].year_built_diff, 7);
+        assert.equal(packet.subject.price_per_sqft, 200);
+        assert.equal(packet.median_price_per_sqft, 154.55);
+        assert.equal(packet.indicated_value, 309100);
+        assert.equal(packet.suggested_value, 309100);
+        assert.deepEqual([packet.neighbors, packet.comparable], [7, 3]);
+        assert.deepEqual(packet.notes, []);
+    });
+
+    it('keeps the most favorable comps and widens to the subdivision on request', () => {
+        const packet = buildProtestPacket(subject, neighbors, { ...DEFAULT_CRITERIA, sameBlock: false, count: 2 }, generatedAt);
+        assert.deepEqual(packet.comps.map(comp => comp.account_number), ['E', 'A']);
+        assert.equal(packet.comparable, 4);
+        assert.match(packet.notes.join(' '), /Only 2 of 7 stored neighbors/);
+    });
+
+    it('suggests nothing when the comps do not support a lower value', () => {
+        const packet = buildProtestPacket(parcel('S', { total_market_value: 250000 }), neighbors, DEFAULT_CRITERIA, generatedAt);
+        assert.equal(packet.indicated_value, 309100);
+        assert.equal(packet.suggested_value, null);
+        assert.match(packet.notes.join(' '), /does not indicate a value below/);
+    });
+
+    it('takes the median of an even count as the midpoint', () => {
+        assert.equal(median([150, 160, 140, 170]), 155);
+        assert.equal(median([]), null);
+    });
+});
+
+describe('renderProtestPacket', () => {
+    it('renders the comparison table and value analysis in the dossier formats', () => {
+        const packet = buildProtestPacket(subject, neighbors, DEFAULT_CRITERIA, generatedAt);
+        const markdown = renderProtestPacket(packet, 'markdown');
+        assert.match(markdown, /^# Equity Protest Evidence: S GULF PALM DR$/m);
+        assert.match(markdown, /^- \*\*Median comparable \$\/sq ft:\*\* \$154\.55$/m);
+        assert.match(markdown, /^- \*\*Suggested value:\*\* \$309,100$/m);
+        assert.match(markdown, /^\| 3 \| \[B\]\(<https:\/\/www\.dallascad\.org\/AcctDetailRes\.aspx\?ID=B>\) \| B GULF PALM DR \| 3 \/ 1 \| 1985 \(\+7\) \|/m);
+        assert.match(renderProtestPacket(packet, 'html'), /<h2>Equity Comparables<\/h2>/);
+        assert.deepEqual(JSON.parse(renderProtestPacket(packet, 'json')), packet);
+    });
+});
@@ -0,0 +1,118 @@
+// src/comps/build.ts
+
+import type { CompCriteria, CompProperty, EquityComp, ProtestPacket } from './types.js';
+
+export const DEFAULT_CRITERIA: CompCriteria = { sameBlock: true, yearBuiltRange: 10, livingAreaRange: 0.25, landValueRange: 0.25, count: 10 };
+
+/** Fewer comps than this make a weak equity case before the appraisal review board. */
+export const MIN_COMPS = 3;
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+/** Market value per square foot of living area, or null when either is unknown. */
+export function pricePerSqft(property: Pick<CompProperty, 'total_market_value' | 'living_area'>): number | null {
+    const { total_market_value: value, living_area: area } = property;
+    return value != null && area != null && area > 0 ? cents(value / area) : null;
+}
+
+export function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : cents((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Whether `value` is within `range` of the subject's. A value the subject has
+ * but the neighbor lacks can't be compared, so it fails; one the subject lacks is not checked.
+ */
+function within(subject: number | null, value: number | null, range: (subject: number) => number): boolean {
+    if (subject == null) return true;
+    return value != null && Math.abs(value - subject) <= range(subject);
+}
+
+function isComparable(subject: CompProperty, neighbor: CompProperty, criteria: CompCriteria): boolean {
+    if (criteria.sameBlock && subject.block && neighbor.block?.toUpperCase() !== subject.block.toUpperCase()) return false;
+    return within(subject.year_built, neighbor.year_built, () => criteria.yearBuiltRange)
+        && within(subject.living_area, neighbor.living_area, area => area * criteria.livingAreaRange)
+        && within(subject.land_value, neighbor.land_value, land => land * criteria.landValueRange);
+}
+
+const difference = (value: number | null, subject: number | null) => value != null && subject != null ? value - subject : null;
+
+/**
+ * Builds the equity evidence for protesting the subject's market value: the
+ * neighbors similar in year built, living area and land value, ranked by market
+ * value per square foot with the lowest (most favorable to the owner) first. The
+ * median $/sqft of the kept comps, applied to the subject's living area, is the
+ * indicated value; it is suggested when it is below the subject's market value.
+ */
+export function buildProtestPacket(subject: CompProperty, neighbors: CompProperty[], criteria: CompCriteria = DEFAULT_CRITERIA, generatedAt: Date = new Date()): ProtestPacket {
+    const others = neighbors.filter(neighbor => neighbor.account_number !== subject.account_number);
+    const comparable = others
+        .filter(neighbor => pricePerSqft(neighbor) !== null && isComparable(subject, neighbor, criteria))
+        .map((neighbor): EquityComp => ({
+            account_number: neighbor.account_number,
+            address: neighbor.address,
+            block: neighbor.block,
+            lot: neighbor.lot1,
+            year_built: neighbor.year_built,
+            year_built_diff: difference(neighbor.year_built, subject.year_built),
+            living_area: neighbor.living_area!,
+            land_value: neighbor.land_value,
+            land_value_diff: difference(neighbor.land_value, subject.land_value),
+            improvement_value: neighbor.improvement_value,
+            total_market_value: neighbor.total_market_value!,
+            price_per_sqft: pricePerSqft(neighbor)!,
+            cad_url: neighbor.cad_url,
+        }))
+        .sort((a, b) => a.price_per_sqft - b.price_per_sqft || a.account_number.localeCompare(b.account_number));
+    const comps = comparable.slice(0, criteria.count);
+
+    const notes: string[] = [];
+    const subjectPrice = pricePerSqft(subject);
+    const medianPrice = median(comps.map(comp => comp.price_per_sqft));
+    const indicated = medianPrice !== null && subject.living_area ? Math.floor(medianPrice * subject.living_area / 100) * 100 : null;
+    const suggested = indicated !== null && subject.total_market_value != null && indicated < subject.total_market_value ? indicated : null;
+
+    if (subjectPrice === null) notes.push('The subject has no living area or market value on record, so its $/sqft cannot be compared.');
+    if (criteria.sameBlock && !subject.block) notes.push('The subject has no block on record, so comps were drawn from its whole subdivision.');
+    if (comps.length < MIN_COMPS) {
+        notes.push(`Only ${comps.length} of ${others.length} stored neighbors are comparable; a protest usually needs at least ${MIN_COMPS}. Scrape more neighbors or widen the criteria.`);
+    }
+    if (indicated !== null && suggested === null) notes.push('The median $/sqft of the comps does not indicate a value below the subject\'s market value.');
+
+    return {
+        format_version: 1,
+        generated_at: generatedAt.toISOString(),
+        subject: {
+            account_number: subject.account_number,
+            county: subject.county,
+            address: subject.address,
+            subdivision: subject.subdivision,
+            block: subject.block,
+            lot1: subject.lot1,
+            year_built: subject.year_built,
+            living_area: subject.living_area,
+            land_value: subject.land_value,
+            improvement_value: subject.improvement_value,
+            total_market_value: subject.total_market_value,
+            cad_url: subject.cad_url,
+            price_per_sqft: subjectPrice,
+        },
+        criteria: {
+            same_block: criteria.sameBlock,
+            year_built_range: criteria.yearBuiltRange,
+            living_area_range: criteria.livingAreaRange,
+            land_value_range: criteria.landValueRange,
+            count: criteria.count,
+        },
+        neighbors: others.length,
+        comparable: comparable.length,
+        comps,
+        median_price_per_sqft: medianPrice,
+        indicated_value: indicated,
+        suggested_value: suggested,
+        notes,
+    };
+}
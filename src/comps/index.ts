@@ -0,0 +1,22 @@
+// src/comps/index.ts
+
+import { htmlDocument } from '../dossier/html.js';
+import { markdownDocument } from '../dossier/markdown.js';
+import type { DossierFormat } from '../dossier/types.js';
+import { packetSections, packetTitle } from './sections.js';
+import type { ProtestPacket } from './types.js';
+
+export type * from './types.js';
+export { buildProtestPacket, DEFAULT_CRITERIA, median, MIN_COMPS, pricePerSqft } from './build.js';
+export { addressKey, pickNeighbors } from './neighbors.js';
+
+/** Packets come in the dossier formats; the JSON is the packet as built. */
+const renderers: Record<DossierFormat, (packet: ProtestPacket) => string> = {
+    markdown: packet => markdownDocument(packetTitle(packet), packet.generated_at, packetSections(packet)),
+    html: packet => htmlDocument(packetTitle(packet), packet.generated_at, packetSections(packet)),
+    json: packet => `${JSON.stringify(packet, null, 2)}\n`,
+};
+
+export function renderProtestPacket(packet: ProtestPacket, format: DossierFormat): string {
+    return renderers[format](packet);
+}
@@ -0,0 +1,25 @@
+// src/comps/neighbors.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addressKey, pickNeighbors } from './neighbors.js';
+
+const listed = (...addresses: string[]) => addresses.map(address => {
+    const [addressNumber, ...street] = address.split(' ');
+    return { addressNumber, streetName: street.join(' '), city: 'DALLAS' };
+});
+
+describe('pickNeighbors', () => {
+    it('picks unstored parcels on the searched street, nearest house number first', () => {
+        const parcels = listed('9900 GULF PALM DR', '9920 GULF PALM DR', '9924 GULF PALM DR', '9930 GULF PALM CT', '9916 GULF PALM DR', '9950 GULF PALM DR');
+        const stored = new Set([addressKey('9924 Gulf Palm Drive, Dallas')]);
+        const picked = pickNeighbors('9920 GULF PALM DR', [{ street: 'GULF PALM DR', parcels }], stored, 2);
+        assert.deepEqual(picked.map(target => `${target.addressNumber} ${target.streetName}`), ['9916 GULF PALM DR', '9900 GULF PALM DR']);
+    });
+
+    it('takes every suffix for a street given without one, and each address once', () => {
+        const parcels = listed('9930 GULF PALM CT', '9930 GULF PALM CT', '9914 GULF PALM DR');
+        const picked = pickNeighbors('9920 GULF PALM DR', [{ street: 'GULF PALM', parcels }, { street: 'GULF PALM CT', parcels }], new Set(), 10);
+        assert.deepEqual(picked.map(target => target.addressNumber), ['9914', '9930']);
+    });
+});
@@ -0,0 +1,46 @@
+// src/comps/neighbors.ts
+
+import type { AddressTarget } from '../counties/types.js';
+import { formatStreetLine, normalizeAddress, type NormalizedAddress } from '../lib/address.js';
+
+/** The normalized street line without a unit, e.g. '9920 GULF PALM DR', for telling parcels apart by address. */
+export function addressKey(address: string): string {
+    return formatStreetLine({ ...normalizeAddress(address), unit: null });
+}
+
+/** Whether the address is on the street; a street given without a suffix or directional matches any. */
+function isOnStreet(address: NormalizedAddress, street: NormalizedAddress): boolean {
+    return address.street === street.street
+        && (!street.suffix || address.suffix === street.suffix)
+        && (!street.predirectional || address.predirectional === street.predirectional)
+        && (!street.postdirectional || address.postdirectional === street.postdirectional);
+}
+
+const houseNumber = (value: string | null) => Number.parseInt(value ?? '', 10);
+
+/**
+ * Picks which parcels listed by street searches to scrape as the subject's
+ * neighbors: those on the searched street (a bare street name search returns
+ * other suffixes too) that are neither the subject nor already stored, nearest
+ * house number to the subject's first.
+ * @param stored Address keys (see `addressKey`) of the parcels already stored.
+ */
+export function pickNeighbors(subjectAddress: string, searches: { street: string; parcels: AddressTarget[] }[], stored: ReadonlySet<string>, limit: number): AddressTarget[] {
+    const subject = addressKey(subjectAddress);
+    const subjectNumber = houseNumber(normalizeAddress(subjectAddress).number);
+    const picked = new Map<string, { target: AddressTarget; distance: number }>();
+    for (const { street, parcels } of searches) {
+        const wanted = normalizeAddress(street);
+        for (const target of parcels) {
+            const address = normalizeAddress(`${target.addressNumber} ${target.streetName}`);
+            const key = formatStreetLine({ ...address, unit: null });
+            if (!isOnStreet(address, wanted) || key === subject || stored.has(key) || picked.has(key)) continue;
+            const distance = Math.abs(houseNumber(address.number) - subjectNumber);
+            picked.set(key, { target, distance: Number.isNaN(distance) ? Infinity : distance });
+        }
+    }
+    return [...picked.values()]
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit)
+        .map(({ target }) => target);
+}
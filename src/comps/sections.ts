@@ -0,0 +1,105 @@
+// src/comps/sections.ts
+
+import type { Cell, Section } from '../dossier/sections.js';
+import type { ProtestPacket } from './types.js';
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+const perSqft = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const count = new Intl.NumberFormat('en-US');
+
+const dash = '—';
+const text = (value: string | number | null | undefined) => value == null || value === '' ? dash : String(value);
+const dollars = (value: number | null) => value == null ? dash : money.format(value);
+const rate = (value: number | null) => value == null ? dash : perSqft.format(value);
+const sqft = (value: number | null) => value == null ? dash : `${count.format(value)} sq ft`;
+const signed = (value: number | null, format: (value: number) => string) =>
+    value == null || value === 0 ? '' : ` (${value > 0 ? '+' : '−'}${format(Math.abs(value))})`;
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+const link = (label: string, href: string | null): Cell => href ? { text: label, href } : label;
+
+/**
+ * The packet laid out as the dossier's titled sections, so it renders with the
+ * dossier's Markdown and HTML documents.
+ */
+export function packetSections(packet: ProtestPacket): Section[] {
+    const { subject, criteria } = packet;
+    const reduction = packet.suggested_value !== null && subject.total_market_value != null ? subject.total_market_value - packet.suggested_value : null;
+
+    const sections: Section[] = [{
+        title: 'Subject Property',
+        blocks: [{
+            kind: 'facts',
+            rows: [
+                ['Account number', link(subject.account_number, subject.cad_url)],
+                ['Address', text(subject.address)],
+                ['Subdivision', text(subject.subdivision)],
+                ['Block and lot', [subject.block && `Block ${subject.block}`, subject.lot1 && `Lot ${subject.lot1}`].filter(Boolean).join(', ') || dash],
+                ['Year built', text(subject.year_built)],
+                ['Living area', sqft(subject.living_area)],
+                ['Land value', dollars(subject.land_value)],
+                ['Improvement value', dollars(subject.improvement_value)],
+                ['Market value', dollars(subject.total_market_value)],
+                ['Market value per sq ft', rate(subject.price_per_sqft)],
+            ],
+        }],
+    }];
+
+    sections.push({
+        title: 'Value Analysis',
+        blocks: [{
+            kind: 'facts',
+            rows: [
+                ['Subject $/sq ft', rate(subject.price_per_sqft)],
+                ['Median comparable $/sq ft', rate(packet.median_price_per_sqft)],
+                ['Comparables used', `${packet.comps.length} of ${packet.comparable} comparable (${packet.neighbors} neighbors considered)`],
+                ['Indicated value', dollars(packet.indicated_value)],
+                ['Current market value', dollars(subject.total_market_value)],
+                ['Suggested value', packet.suggested_value === null ? 'No reduction indicated' : dollars(packet.suggested_value)],
+                ['Reduction', reduction === null ? dash : dollars(reduction)],
+            ],
+        }],
+    });
+
+    sections.push({
+        title: 'Equity Comparables',
+        blocks: packet.comps.length === 0
+            ? [{ kind: 'text', text: 'No comparable parcels are stored.' }]
+            : [{
+                kind: 'table',
+                headers: ['#', 'Account', 'Address', 'Block / lot', 'Year built', 'Living area', 'Land value', 'Market value', '$/sq ft'],
+                numeric: [true, false, false, false, true, true, true, true, true],
+                rows: packet.comps.map((comp, index) => [
+                    String(index + 1),
+                    link(comp.account_number, comp.cad_url),
+                    text(comp.address),
+                    [comp.block, comp.lot].map(text).join(' / '),
+                    `${text(comp.year_built)}${signed(comp.year_built_diff, String)}`,
+                    sqft(comp.living_area),
+                    `${dollars(comp.land_value)}${signed(comp.land_value_diff, money.format)}`,
+                    dollars(comp.total_market_value),
+                    rate(comp.price_per_sqft),
+                ]),
+            }],
+    });
+
+    sections.push({
+        title: 'Selection Criteria',
+        blocks: [{
+            kind: 'facts',
+            rows: [
+                ['Neighborhood', criteria.same_block && subject.block ? `Block ${subject.block} of ${text(subject.subdivision)}` : text(subject.subdivision)],
+                ['Year built', `within ${criteria.year_built_range} years of the subject`],
+                ['Living area', `within ${percent(criteria.living_area_range)} of the subject`],
+                ['Land value', `within ${percent(criteria.land_value_range)} of the subject`],
+                ['Ranking', `lowest market value per sq ft first; the ${criteria.count} most favorable are kept`],
+            ],
+        }],
+    });
+
+    if (packet.notes.length > 0) sections.push({ title: 'Notes', blocks: [{ kind: 'text', text: packet.notes.join('\n\n') }] });
+    return sections;
+}
+
+export function packetTitle(packet: ProtestPacket): string {
+    return `Equity Protest Evidence: ${packet.subject.address ?? packet.subject.account_number}`;
+}
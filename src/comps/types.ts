@@ -0,0 +1,72 @@
+// src/comps/types.ts
+
+import type { Tables } from '../db/database.types.js';
+
+/** The stored columns a parcel is compared on, for the subject and every candidate. */
+export type CompProperty = Pick<Tables<'properties'>,
+    'account_number' | 'county' | 'address' | 'subdivision' | 'block' | 'lot1' | 'year_built' | 'living_area'
+    | 'land_value' | 'improvement_value' | 'total_market_value' | 'cad_url'>;
+
+/** Which neighbors count as comparable to the subject. */
+export interface CompCriteria {
+    /** Only parcels in the subject's block, rather than anywhere in its subdivision. */
+    sameBlock: boolean;
+    /** Most years a comp's year built may differ from the subject's. */
+    yearBuiltRange: number;
+    /** Most a comp's living area may differ from the subject's, as a fraction of it. */
+    livingAreaRange: number;
+    /** Most a comp's land value may differ from the subject's, as a fraction of it. */
+    landValueRange: number;
+    /** How many of the most favorable comps the packet keeps. */
+    count: number;
+}
+
+/** A comparable parcel, with its differences from the subject. */
+export interface EquityComp {
+    account_number: string;
+    address: string | null;
+    block: string | null;
+    lot: string | null;
+    year_built: number | null;
+    /** The comp's year built less the subject's. */
+    year_built_diff: number | null;
+    living_area: number;
+    land_value: number | null;
+    /** The comp's land value less the subject's. */
+    land_value_diff: number | null;
+    improvement_value: number | null;
+    total_market_value: number;
+    /** Market value per square foot of living area, to the cent. */
+    price_per_sqft: number;
+    cad_url: string | null;
+}
+
+/**
+ * An equity protest evidence packet: the subject, its most favorable comparables
+ * ranked by market value per square foot, and the value their median indicates.
+ */
+export interface ProtestPacket {
+    /** Raised when a field is renamed or removed, so consumers of the JSON can tell. */
+    format_version: 1;
+    generated_at: string;
+    subject: CompProperty & { price_per_sqft: number | null };
+    criteria: {
+        same_block: boolean;
+        year_built_range: number;
+        living_area_range: number;
+        land_value_range: number;
+        count: number;
+    };
+    /** Stored neighbors that were considered, and how many of them met the criteria. */
+    neighbors: number;
+    comparable: number;
+    /** The most favorable comps, lowest $/sqft first. */
+    comps: EquityComp[];
+    median_price_per_sqft: number | null;
+    /** The median $/sqft applied to the subject's living area, rounded down to $100; null without comps. */
+    indicated_value: number | null;
+    /** The indicated value when it is below the subject's market value, otherwise null: the comps don't support a reduction. */
+    suggested_value: number | null;
+    /** Why the packet is weak or empty, e.g. too few comps. */
+    notes: string[];
+}
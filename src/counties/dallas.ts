@@ -0,0 +1,23 @@
+// src/counties/dallas.ts
+
+import { stagehandConfig } from '../lib/stagehand-config.js';
+import * as assessment from '../scrapers/dallas/assessment-scraper.js';
+import * as clerk from '../scrapers/dallas/clerk-scraper.js';
+import type { CountyAdapter } from './types.js';
+
+const dallas: CountyAdapter = {
+    county: 'dallas',
+    name: 'Dallas County',
+    // DCAD accounts are 17 characters, e.g. 00000776533000000.
+    accountNumberPattern: /^[0-9A-Z]{17}$/,
+    assessmentSession: () => stagehandConfig(),
+    clerkSession: () => stagehandConfig(),
+    searchByAddress: assessment.searchByAddress,
+    searchByAccount: assessment.searchByAccount,
+    searchStreet: assessment.searchStreet,
+    extractAssessment: assessment.extractAssessment,
+    buildClerkQuery: clerk.buildClerkQuery,
+    fetchDocuments: clerk.fetchDocuments,
+};
+
+export default dallas;
@@ -0,0 +1,22 @@
+// src/counties/harris.ts
+
+import { stagehandConfig } from '../lib/stagehand-config.js';
+import * as assessment from '../scrapers/harris/assessment-scraper.js';
+import * as clerk from '../scrapers/harris/clerk-scraper.js';
+import type { CountyAdapter } from './types.js';
+
+const harris: CountyAdapter = {
+    county: 'harris',
+    name: 'Harris County',
+    // HCAD accounts are 13 digits.
+    accountNumberPattern: /^\d{13}$/,
+    assessmentSession: () => stagehandConfig(),
+    clerkSession: () => stagehandConfig(),
+    searchByAddress: assessment.searchByAddress,
+    searchByAccount: assessment.searchByAccount,
+    extractAssessment: assessment.extractAssessment,
+    buildClerkQuery: clerk.buildClerkQuery,
+    fetchDocuments: clerk.fetchDocuments,
+};
+
+export default harris;
@@ -0,0 +1,56 @@
+// src/counties/index.ts
+
+import { runWithStagehand } from '../lib/stagehand-session.js';
+import dallas from './dallas.js';
+import harris from './harris.js';
+import tarrant from './tarrant.js';
+import type { AddressTarget, AssessmentData, AssessmentLookup, CapturedDocument, ClerkCrawl, ClerkQuery, County, CountyAdapter, ScrapeResult } from './types.js';
+
+export type * from './types.js';
+
+const adapters: Record<County, CountyAdapter> = { dallas, harris, tarrant };
+
+export const counties = Object.keys(adapters) as County[];
+
+export function isCounty(value: string): value is County {
+    return Object.prototype.hasOwnProperty.call(adapters, value);
+}
+
+export function getCountyAdapter(county: County): CountyAdapter {
+    return adapters[county];
+}
+
+/**
+ * Runs a county's assessment stage in its own Stagehand session: search by address
+ * or account number, then extract from the detail page. The data is tagged with
+ * the adapter's county.
+ */
+export function scrapeAssessment(adapter: CountyAdapter, lookup: AssessmentLookup): Promise<ScrapeResult<AssessmentData>> {
+    return runWithStagehand(adapter.assessmentSession(), async (page) => {
+        if ('accountNumber' in lookup) {
+            await adapter.searchByAccount(page, lookup.accountNumber);
+        } else {
+            await adapter.searchByAddress(page, lookup);
+        }
+        return { ...await adapter.extractAssessment(page), county: adapter.county };
+    }, `${adapter.county}:assessment`);
+}
+
+/**
+ * Lists the parcels on a street with the adapter's `searchStreet`, in an
+ * assessment session. Fails for counties without one.
+ */
+export function scrapeStreet(adapter: CountyAdapter, streetName: string): Promise<ScrapeResult<AddressTarget[]>> {
+    const { searchStreet } = adapter;
+    if (!searchStreet) return Promise.resolve({ success: false, error: `${adapter.name} does not support listing the parcels on a street.` });
+    return runWithStagehand(adapter.assessmentSession(), (page) => searchStreet(page, streetName), `${adapter.county}:assessment`);
+}
+
+/**
+ * Runs a county's clerk search and image capture in its own Stagehand session. OCR
+ * and summarization happen afterwards, without the browser. With a `crawl`, only
+ * the documents it doesn't skip are captured.
+ */
+export function scrapeClerkDocuments(adapter: CountyAdapter, query: ClerkQuery, crawl?: ClerkCrawl): Promise<ScrapeResult<CapturedDocument[]>> {
+    return runWithStagehand(adapter.clerkSession(), (page) => adapter.fetchDocuments(page, query, crawl), `${adapter.county}:clerk`);
+}
@@ -0,0 +1,22 @@
+// src/counties/tarrant.ts
+
+import { stagehandConfig } from '../lib/stagehand-config.js';
+import * as assessment from '../scrapers/tarrant/assessment-scraper.js';
+import * as clerk from '../scrapers/tarrant/clerk-scraper.js';
+import type { CountyAdapter } from './types.js';
+
+const tarrant: CountyAdapter = {
+    county: 'tarrant',
+    name: 'Tarrant County',
+    // TAD accounts are 8 digits.
+    accountNumberPattern: /^\d{8}$/,
+    assessmentSession: () => stagehandConfig(),
+    clerkSession: () => stagehandConfig(),
+    searchByAddress: assessment.searchByAddress,
+    searchByAccount: assessment.searchByAccount,
+    extractAssessment: assessment.extractAssessment,
+    buildClerkQuery: clerk.buildClerkQuery,
+    fetchDocuments: clerk.fetchDocuments,
+};
+
+export default tarrant;
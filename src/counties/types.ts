@@ -0,0 +1,166 @@
+// src/counties/types.ts
+
+import type { ConstructorParams, Page } from '@browserbasehq/stagehand';
+import type { TokenUsage } from '../document-ai/types.js';
+import type { DocumentDetails } from '../lib/document-extraction.js';
+import type { LegalDescription, LotParcel } from '../lib/legal-description.js';
+
+export type County = 'dallas' | 'harris' | 'tarrant';
+
+export interface AddressTarget {
+    addressNumber: string;
+    streetName: string;
+    /** Unit, city and ZIP pick between search results that share the street address. */
+    unit?: string;
+    city?: string;
+    zip?: string;
+}
+
+/** How the assessment stage finds a parcel: by street address or by account number. */
+export type AssessmentLookup = AddressTarget | { accountNumber: string };
+
+/**
+ * The assessment record every county scraper returns. Values are kept as the raw
+ * strings shown on the appraisal district site; `buildAssessmentRecords` cleans them.
+ */
+export interface AssessmentData {
+    address?: string;
+    accountNumber?: string;
+    legalDescription?: string;
+    int_number?: string;
+    deed_xfer_date?: string;
+    propertyValue?: {
+        improvementValue?: string;
+        landValue?: string;
+        totalMarketValue?: string;
+    };
+    propertyDetails?: {
+        yearBuilt?: string;
+        livingArea?: string;
+    };
+    currentOwners?: {
+        name: string;
+        address?: string;
+        percentage?: string;
+        isPrimary?: boolean;
+    }[];
+    ownershipHistory?: {
+        year?: string;
+        ownerNameAndAddress?: string;
+        int_number?: string;
+        deed_xfer_date?: string;
+    }[];
+    marketValueHistory?: {
+        year?: string;
+        totalMarketValue?: string;
+    }[];
+    exemptions?: {
+        year?: string;
+        code?: string;
+    }[];
+    cad_url: string;
+    /** The county whose appraisal district was scraped; set by `scrapeAssessment`. */
+    county?: County;
+    /** Which path filled each page, for scrapers that parse the DOM before asking the LLM. */
+    extraction?: {
+        detail: ExtractionPath;
+        history: ExtractionPath;
+    };
+}
+
+/** `parser` when a DOM parser read the page, `llm` when `page.extract` had to. */
+export type ExtractionPath = 'parser' | 'llm';
+
+/**
+ * What a clerk search is run with, one variant per kind of legal description.
+ * Sites are searched as narrowly as their forms allow, and results are then
+ * filtered with `matchesClerkQuery`.
+ */
+export type ClerkQuery =
+    | { kind: 'platted'; subdivision: string; parcels: LotParcel[] }
+    | { kind: 'tract'; abstract: string; tract: string | null; survey: string | null }
+    | { kind: 'condo'; condominium: string; building: string | null; unit: string };
+
+/** A row from a clerk search result, as extracted from the results table. */
+export interface ClerkSearchResult {
+    document_type?: string;
+    grantor?: string;
+    grantee?: string;
+    filing_date?: string;
+    instrument_number?: string;
+    book_and_page?: string;
+    legal_description?: string;
+}
+
+/** A clerk search result with the page images captured from the document viewer. */
+export interface CapturedDocument extends ClerkSearchResult {
+    documentUrl: string | null;
+    /** Base64 encoded JPEG page screenshots, in page order. */
+    images: string[];
+    /** Set when the viewer could not be opened or paged through; `images` may be partial. */
+    captureError?: string;
+    /** Where the pages were archived as a PDF (see src/archive), once they have been. */
+    archive_key?: string | null;
+    page_count?: number | null;
+}
+
+/** A clerk search result after its images have been OCR'd, classified and summarized. */
+export interface ClerkDocument extends ClerkSearchResult {
+    /** Null when the text couldn't be read or summarized. */
+    summary: string | null;
+    documentUrl: string | null;
+    /** The typed fields of the document's class; null when the text couldn't be read or extracted. */
+    details?: DocumentDetails | null;
+    /** Document-AI requests and tokens spent on this document. */
+    usage?: TokenUsage;
+    archive_key?: string | null;
+    page_count?: number | null;
+}
+
+/**
+ * Narrows a clerk crawl to what earlier crawls left undone (see `planClerkCrawl`).
+ * Without one, the full date range is searched and every match is captured.
+ */
+export interface ClerkCrawl {
+    /** Search only documents recorded on or after this date; null searches the full range. */
+    since: Date | null;
+    /** Instrument numbers already processed; they are neither opened nor returned. */
+    skip: ReadonlySet<string>;
+}
+
+export type ScrapeResult<T> =
+    | { success: true; data: T; error?: undefined }
+    | { success: false; data?: undefined; error: string };
+
+/**
+ * The contract every county module implements. The orchestrator only talks to
+ * counties through this interface, so adding a county means writing one adapter
+ * and registering it in `src/counties/index.ts`.
+ */
+export interface CountyAdapter {
+    county: County;
+    /** Human-readable name used in logs, e.g. "Dallas County". */
+    name: string;
+    /** The form of the appraisal district's account numbers, which validation holds scraped records to. */
+    accountNumberPattern: RegExp;
+    /** Stagehand options for the appraisal district session. */
+    assessmentSession(): ConstructorParams;
+    /** Stagehand options for the county clerk session. */
+    clerkSession(): ConstructorParams;
+    /** Navigates from the appraisal district's search page to the parcel's detail page. */
+    searchByAddress(page: Page, target: AddressTarget): Promise<void>;
+    /** Navigates straight to the detail page for an appraisal district account number. */
+    searchByAccount(page: Page, accountNumber: string): Promise<void>;
+    /**
+     * Lists the parcels the appraisal district's address search returns for a
+     * street name alone, for finding a property's neighbors. Counties without it
+     * can't discover comparables to scrape.
+     */
+    searchStreet?(page: Page, streetName: string): Promise<AddressTarget[]>;
+    /** Extracts the assessment record from the detail page `searchByAddress` left open. */
+    extractAssessment(page: Page): Promise<AssessmentData>;
+    /** Builds the clerk search for a parsed legal description, or null if it lacks the parts the clerk needs. */
+    buildClerkQuery(legal: LegalDescription): ClerkQuery | null;
+    /** Runs the clerk search and captures the page images of each relevant document the crawl doesn't skip. */
+    fetchDocuments(page: Page, query: ClerkQuery, crawl?: ClerkCrawl): Promise<CapturedDocument[]>;
+}
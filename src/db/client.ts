@@ -0,0 +1,14 @@
+// src/db/client.ts
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+    throw new Error("Supabase URL and Key are required in the .env file");
+}
+/** Typed from database.types.ts, so a query on a renamed column fails to compile. */
+export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
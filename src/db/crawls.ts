@@ -0,0 +1,39 @@
+// src/db/crawls.ts
+
+import type { StoredClerkDocument } from '../lib/clerk-crawl.js';
+import { supabase } from './client.js';
+
+/** When the account's last clerk crawl finished, and the documents stored for it. */
+export async function loadClerkCrawlState(accountNumber: string): Promise<{ lastCrawledAt: Date | null; documents: StoredClerkDocument[] }> {
+    const { data: crawl, error: crawlError } = await supabase
+        .from('clerk_crawls')
+        .select('last_crawled_at')
+        .eq('property_account_number', accountNumber)
+        .maybeSingle<{ last_crawled_at: string }>();
+    if (crawlError) throw new Error(`Failed to load the last clerk crawl for ${accountNumber}: ${crawlError.message}`);
+
+    const { data: documents, error: documentError } = await supabase
+        .from('property_documents')
+        .select('instrument_number, filing_date, summary')
+        .eq('property_account_number', accountNumber)
+        .not('instrument_number', 'is', null)
+        .returns<{ instrument_number: string; filing_date: string | null; summary: string | null }[]>();
+    if (documentError) throw new Error(`Failed to load stored documents for ${accountNumber}: ${documentError.message}`);
+
+    return {
+        lastCrawledAt: crawl ? new Date(crawl.last_crawled_at) : null,
+        documents: (documents ?? []).map(doc => ({ instrument_number: doc.instrument_number, filing_date: doc.filing_date, processed: doc.summary !== null })),
+    };
+}
+
+/** Records a successful clerk crawl, started at `crawledAt`, for the next crawl to continue from. */
+export async function recordClerkCrawl(accountNumber: string, crawledAt: string, full: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('clerk_crawls')
+        .upsert({
+            property_account_number: accountNumber,
+            last_crawled_at: crawledAt,
+            ...(full ? { last_full_crawl_at: crawledAt } : {}),
+        }, { onConflict: 'property_account_number' });
+    if (error) throw new Error(`Failed to record the clerk crawl for ${accountNumber}: ${error.message}`);
+}
@@ -0,0 +1,831 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      clerk_crawls: {
+        Row: {
+          last_crawled_at: string
+          last_full_crawl_at: string | null
+          property_account_number: string
+        }
+        Insert: {
+          last_crawled_at: string
+          last_full_crawl_at?: string | null
+          property_account_number: string
+        }
+        Update: {
+          last_crawled_at?: string
+          last_full_crawl_at?: string | null
+          property_account_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clerk_crawls_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: true
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      document_details: {
+        Row: {
+          consideration: number | null
+          details: Json
+          document_class: string
+          execution_date: string | null
+          extracted_at: string
+          instrument_number: string
+          lender: string | null
+          loan_amount: number | null
+          maturity_date: string | null
+          notary_date: string | null
+          property_account_number: string
+          referenced_instruments: string[]
+        }
+        Insert: {
+          consideration?: number | null
+          details: Json
+          document_class: string
+          execution_date?: string | null
+          extracted_at: string
+          instrument_number: string
+          lender?: string | null
+          loan_amount?: number | null
+          maturity_date?: string | null
+          notary_date?: string | null
+          property_account_number: string
+          referenced_instruments?: string[]
+        }
+        Update: {
+          consideration?: number | null
+          details?: Json
+          document_class?: string
+          execution_date?: string | null
+          extracted_at?: string
+          instrument_number?: string
+          lender?: string | null
+          loan_amount?: number | null
+          maturity_date?: string | null
+          notary_date?: string | null
+          property_account_number?: string
+          referenced_instruments?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_details_property_account_number_instrument_number_fkey"
+            columns: ["property_account_number", "instrument_number"]
+            isOneToOne: true
+            referencedRelation: "property_documents"
+            referencedColumns: ["property_account_number", "instrument_number"]
+          },
+        ]
+      }
+      document_parties: {
+        Row: {
+          id: number
+          instrument_number: string
+          name: string
+          property_account_number: string
+          role: string
+        }
+        Insert: {
+          id?: never
+          instrument_number: string
+          name: string
+          property_account_number: string
+          role: string
+        }
+        Update: {
+          id?: never
+          instrument_number?: string
+          name?: string
+          property_account_number?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_parties_property_account_number_instrument_number_fkey"
+            columns: ["property_account_number", "instrument_number"]
+            isOneToOne: false
+            referencedRelation: "property_documents"
+            referencedColumns: ["property_account_number", "instrument_number"]
+          },
+        ]
+      }
+      exemptions: {
+        Row: {
+          code: string
+          end_year: number
+          id: number
+          property_account_number: string
+          start_year: number
+        }
+        Insert: {
+          code: string
+          end_year: number
+          id?: never
+          property_account_number: string
+          start_year: number
+        }
+        Update: {
+          code?: string
+          end_year?: number
+          id?: never
+          property_account_number?: string
+          start_year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exemptions_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      owner_entities: {
+        Row: {
+          canonical_key: string
+          created_at: string
+          display_name: string
+          entity_type: string
+          id: number
+        }
+        Insert: {
+          canonical_key: string
+          created_at?: string
+          display_name: string
+          entity_type: string
+          id?: never
+        }
+        Update: {
+          canonical_key?: string
+          created_at?: string
+          display_name?: string
+          entity_type?: string
+          id?: never
+        }
+        Relationships: []
+      }
+      owners: {
+        Row: {
+          entity_id: number | null
+          id: number
+          owner_name: string
+        }
+        Insert: {
+          entity_id?: number | null
+          id?: never
+          owner_name: string
+        }
+        Update: {
+          entity_id?: number | null
+          id?: never
+          owner_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "owners_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "owner_entities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ownership_history: {
+        Row: {
+          deed_xfer_date: string | null
+          end_year: number
+          id: number
+          int_number: string | null
+          owner_id: number
+          property_account_number: string
+          start_year: number
+        }
+        Insert: {
+          deed_xfer_date?: string | null
+          end_year: number
+          id?: never
+          int_number?: string | null
+          owner_id: number
+          property_account_number: string
+          start_year: number
+        }
+        Update: {
+          deed_xfer_date?: string | null
+          end_year?: number
+          id?: never
+          int_number?: string | null
+          owner_id?: number
+          property_account_number?: string
+          start_year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ownership_history_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "owners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ownership_history_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      properties: {
+        Row: {
+          account_number: string
+          address: string | null
+          block: string | null
+          cad_url: string | null
+          city_block: string | null
+          county: string | null
+          deed_xfer_date: string | null
+          id: number
+          improvement_value: number | null
+          int_number: string | null
+          land_value: number | null
+          legal_description: string | null
+          living_area: number | null
+          lot1: string | null
+          lot2: string | null
+          subdivision: string | null
+          total_market_value: number | null
+          year_built: number | null
+        }
+        Insert: {
+          account_number: string
+          address?: string | null
+          block?: string | null
+          cad_url?: string | null
+          city_block?: string | null
+          county?: string | null
+          deed_xfer_date?: string | null
+          id?: never
+          improvement_value?: number | null
+          int_number?: string | null
+          land_value?: number | null
+          legal_description?: string | null
+          living_area?: number | null
+          lot1?: string | null
+          lot2?: string | null
+          subdivision?: string | null
+          total_market_value?: number | null
+          year_built?: number | null
+        }
+        Update: {
+          account_number?: string
+          address?: string | null
+          block?: string | null
+          cad_url?: string | null
+          city_block?: string | null
+          county?: string | null
+          deed_xfer_date?: string | null
+          id?: never
+          improvement_value?: number | null
+          int_number?: string | null
+          land_value?: number | null
+          legal_description?: string | null
+          living_area?: number | null
+          lot1?: string | null
+          lot2?: string | null
+          subdivision?: string | null
+          total_market_value?: number | null
+          year_built?: number | null
+        }
+        Relationships: []
+      }
+      property_changes: {
+        Row: {
+          field: string
+          id: number
+          new_value: Json | null
+          old_value: Json | null
+          property_account_number: string
+          scraped_at: string
+          snapshot_id: number | null
+        }
+        Insert: {
+          field: string
+          id?: never
+          new_value?: Json | null
+          old_value?: Json | null
+          property_account_number: string
+          scraped_at: string
+          snapshot_id?: number | null
+        }
+        Update: {
+          field?: string
+          id?: never
+          new_value?: Json | null
+          old_value?: Json | null
+          property_account_number?: string
+          scraped_at?: string
+          snapshot_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_changes_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+          {
+            foreignKeyName: "property_changes_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "property_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_documents: {
+        Row: {
+          archive_key: string | null
+          book_and_page: string | null
+          document_class: string | null
+          document_type: string | null
+          document_url: string | null
+          filing_date: string | null
+          grantee: string | null
+          grantor: string | null
+          id: number
+          instrument_number: string | null
+          page_count: number | null
+          property_account_number: string
+          summary: string | null
+        }
+        Insert: {
+          archive_key?: string | null
+          book_and_page?: string | null
+          document_class?: string | null
+          document_type?: string | null
+          document_url?: string | null
+          filing_date?: string | null
+          grantee?: string | null
+          grantor?: string | null
+          id?: never
+          instrument_number?: string | null
+          page_count?: number | null
+          property_account_number: string
+          summary?: string | null
+        }
+        Update: {
+          archive_key?: string | null
+          book_and_page?: string | null
+          document_class?: string | null
+          document_type?: string | null
+          document_url?: string | null
+          filing_date?: string | null
+          grantee?: string | null
+          grantor?: string | null
+          id?: never
+          instrument_number?: string | null
+          page_count?: number | null
+          property_account_number?: string
+          summary?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_documents_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      property_owners: {
+        Row: {
+          is_primary: boolean
+          owner_id: number
+          percentage: number | null
+          property_account_number: string
+          updated_at: string
+        }
+        Insert: {
+          is_primary?: boolean
+          owner_id: number
+          percentage?: number | null
+          property_account_number: string
+          updated_at?: string
+        }
+        Update: {
+          is_primary?: boolean
+          owner_id?: number
+          percentage?: number | null
+          property_account_number?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_owners_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "owners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_owners_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      property_snapshots: {
+        Row: {
+          content_hash: string
+          id: number
+          payload: Json
+          property_account_number: string
+          scraped_at: string
+        }
+        Insert: {
+          content_hash: string
+          id?: never
+          payload: Json
+          property_account_number: string
+          scraped_at: string
+        }
+        Update: {
+          content_hash?: string
+          id?: never
+          payload?: Json
+          property_account_number?: string
+          scraped_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_snapshots_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      quarantined_records: {
+        Row: {
+          county: string | null
+          created_at: string
+          id: number
+          instrument_number: string | null
+          kind: string
+          payload: Json
+          property_account_number: string | null
+          reasons: Json
+          review_note: string | null
+          reviewed_at: string | null
+          run_id: number | null
+          status: string
+        }
+        Insert: {
+          county?: string | null
+          created_at?: string
+          id?: never
+          instrument_number?: string | null
+          kind: string
+          payload: Json
+          property_account_number?: string | null
+          reasons: Json
+          review_note?: string | null
+          reviewed_at?: string | null
+          run_id?: number | null
+          status?: string
+        }
+        Update: {
+          county?: string | null
+          created_at?: string
+          id?: never
+          instrument_number?: string | null
+          kind?: string
+          payload?: Json
+          property_account_number?: string | null
+          reasons?: Json
+          review_note?: string | null
+          reviewed_at?: string | null
+          run_id?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quarantined_records_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "scrape_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_runs: {
+        Row: {
+          created_at: string
+          id: number
+          options: Json
+          status: string
+          targets_file: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          options: Json
+          status?: string
+          targets_file?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          options?: Json
+          status?: string
+          targets_file?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      scrape_tasks: {
+        Row: {
+          attempts: number
+          finished_at: string | null
+          id: number
+          last_error: string | null
+          output: Json | null
+          run_id: number
+          stage: string
+          started_at: string | null
+          status: string
+          target: Json
+          target_index: number
+        }
+        Insert: {
+          attempts?: number
+          finished_at?: string | null
+          id?: never
+          last_error?: string | null
+          output?: Json | null
+          run_id: number
+          stage: string
+          started_at?: string | null
+          status?: string
+          target: Json
+          target_index: number
+        }
+        Update: {
+          attempts?: number
+          finished_at?: string | null
+          id?: never
+          last_error?: string | null
+          output?: Json | null
+          run_id?: number
+          stage?: string
+          started_at?: string | null
+          status?: string
+          target?: Json
+          target_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrape_tasks_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "scrape_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      title_reports: {
+        Row: {
+          generated_at: string
+          issue_count: number
+          open_encumbrances: number
+          property_account_number: string
+          report: Json
+        }
+        Insert: {
+          generated_at: string
+          issue_count: number
+          open_encumbrances: number
+          property_account_number: string
+          report: Json
+        }
+        Update: {
+          generated_at?: string
+          issue_count?: number
+          open_encumbrances?: number
+          property_account_number?: string
+          report?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "title_reports_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: true
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      value_history: {
+        Row: {
+          id: number
+          property_account_number: string
+          total_market_value: number | null
+          year: number
+        }
+        Insert: {
+          id?: never
+          property_account_number: string
+          total_market_value?: number | null
+          year: number
+        }
+        Update: {
+          id?: never
+          property_account_number?: string
+          total_market_value?: number | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "value_history_property_account_number_fkey"
+            columns: ["property_account_number"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["account_number"]
+          },
+        ]
+      }
+      watched_properties: {
+        Row: {
+          created_at: string
+          event_types: string[] | null
+          label: string | null
+          property_account_number: string
+        }
+        Insert: {
+          created_at?: string
+          event_types?: string[] | null
+          label?: string | null
+          property_account_number: string
+        }
+        Update: {
+          created_at?: string
+          event_types?: string[] | null
+          label?: string | null
+          property_account_number?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      apply_assessment_snapshot: {
+        Args: {
+          p_account: string
+          p_changes: Json
+          p_content_hash: string
+          p_county?: string
+          p_current_owners: Json
+          p_exemptions: Json
+          p_ownership_history: Json
+          p_payload: Json
+          p_property: Json
+          p_scraped_at: string
+          p_value_history: Json
+        }
+        Returns: number
+      }
+      apply_document_snapshot: {
+        Args: {
+          p_account: string
+          p_changes: Json
+          p_details: Json
+          p_documents: Json
+          p_parties: Json
+          p_scraped_at: string
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
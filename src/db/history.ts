@@ -0,0 +1,28 @@
+// src/db/history.ts
+
+import type { Snapshot } from '../lib/snapshot-diff.js';
+import { supabase } from './client.js';
+
+/** The payload of the account's most recent assessment snapshot, or null for a new account. */
+export async function loadLatestSnapshot(accountNumber: string): Promise<Snapshot | null> {
+    const { data, error } = await supabase
+        .from('property_snapshots')
+        .select('payload')
+        .eq('property_account_number', accountNumber)
+        .order('scraped_at', { ascending: false })
+        .limit(1)
+        .maybeSingle<{ payload: Snapshot }>();
+    if (error) throw new Error(`Failed to load the last snapshot for ${accountNumber}: ${error.message}`);
+    return data?.payload ?? null;
+}
+
+/** Instrument numbers of the clerk documents already stored for the account. */
+export async function loadKnownInstruments(accountNumber: string): Promise<Set<string>> {
+    const { data, error } = await supabase
+        .from('property_documents')
+        .select('instrument_number')
+        .eq('property_account_number', accountNumber)
+        .returns<{ instrument_number: string | null }[]>();
+    if (error) throw new Error(`Failed to load stored documents for ${accountNumber}: ${error.message}`);
+    return new Set((data ?? []).flatMap(row => row.instrument_number ? [row.instrument_number] : []));
+}
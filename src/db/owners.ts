@@ -0,0 +1,155 @@
+// src/db/owners.ts
+
+import type { AssessmentRecords } from '../lib/assessment-records.js';
+import { resolveOwner, type OwnerEntityType } from '../lib/owner-resolution.js';
+import { supabase } from './client.js';
+
+export interface OwnerEntity {
+    id: number;
+    canonical_key: string;
+    display_name: string;
+    entity_type: OwnerEntityType;
+}
+
+/** One property an owner holds or has held, under any of its aliases. */
+export interface PortfolioProperty {
+    account_number: string;
+    address: string | null;
+    /** The alias names the owner appears under on this property. */
+    held_as: string[];
+    /** Runs of years from the ownership history, newest first. */
+    years: { start_year: number; end_year: number }[];
+    /** Whether the owner is on the current roll, with its share if known. */
+    current: boolean;
+    percentage: number | null;
+    is_primary: boolean;
+}
+
+export interface OwnerPortfolio {
+    entity: OwnerEntity;
+    aliases: string[];
+    properties: PortfolioProperty[];
+}
+
+/**
+ * Stores every owner name of a scrape: one `owner_entities` row per canonical
+ * owner (created on first sight; its display name and type are kept after that)
+ * and one `owners` row per alias, linked to its entity. Returns the `owners` id of
+ * every alias, keyed by the exact scraped name.
+ */
+export async function upsertOwners(owners: AssessmentRecords['owners']): Promise<Map<string, number>> {
+    if (owners.length === 0) return new Map();
+
+    const entityRows = [...new Map(owners.map(owner => [owner.canonicalKey, {
+        canonical_key: owner.canonicalKey,
+        display_name: owner.name,
+        entity_type: owner.entityType,
+    }])).values()];
+    const { error: insertError } = await supabase
+        .from('owner_entities')
+        .upsert(entityRows, { onConflict: 'canonical_key', ignoreDuplicates: true });
+    if (insertError) throw new Error(`Failed to save owner entities: ${insertError.message}`);
+
+    const { data: entities, error: entityError } = await supabase
+        .from('owner_entities')
+        .select('id, canonical_key')
+        .in('canonical_key', entityRows.map(row => row.canonical_key))
+        .returns<{ id: number; canonical_key: string }[]>();
+    if (entityError) throw new Error(`Failed to load owner entities: ${entityError.message}`);
+    const entityIdByKey = new Map((entities ?? []).map(entity => [entity.canonical_key, entity.id]));
+
+    const { data: aliases, error: aliasError } = await supabase
+        .from('owners')
+        .upsert(owners.map(owner => ({ owner_name: owner.name, entity_id: entityIdByKey.get(owner.canonicalKey) ?? null })), { onConflict: 'owner_name' })
+        .select('id, owner_name')
+        .returns<{ id: number; owner_name: string }[]>();
+    if (aliasError) throw new Error(`Failed to save owners: ${aliasError.message}`);
+    return new Map((aliases ?? []).map(alias => [alias.owner_name, alias.id]));
+}
+
+/**
+ * Finds the canonical owner for a name as typed by a user: first by canonical
+ * key, then by any stored alias containing the text.
+ */
+export async function findOwnerEntity(name: string): Promise<OwnerEntity | null> {
+    const { canonicalKey } = resolveOwner(name);
+    const { data: exact, error } = await supabase
+        .from('owner_entities')
+        .select('id, canonical_key, display_name, entity_type')
+        .eq('canonical_key', canonicalKey)
+        .maybeSingle<OwnerEntity>();
+    if (error) throw new Error(`Failed to look up owner ${name}: ${error.message}`);
+    if (exact) return exact;
+
+    const { data: alias, error: aliasError } = await supabase
+        .from('owners')
+        .select('owner_entities (id, canonical_key, display_name, entity_type)')
+        .ilike('owner_name', `%${name.trim()}%`)
+        .not('entity_id', 'is', null)
+        .limit(1)
+        .maybeSingle<{ owner_entities: OwnerEntity | null }>();
+    if (aliasError) throw new Error(`Failed to look up owner ${name}: ${aliasError.message}`);
+    return alias?.owner_entities ?? null;
+}
+
+/**
+ * Every property an owner has ever held, under any alias: the ownership history
+ * rows of all its aliases, plus the properties where it is a current owner.
+ */
+export async function loadOwnerPortfolio(entity: OwnerEntity): Promise<OwnerPortfolio> {
+    const { data: aliasRows, error: aliasError } = await supabase
+        .from('owners')
+        .select('id, owner_name')
+        .eq('entity_id', entity.id)
+        .returns<{ id: number; owner_name: string }[]>();
+    if (aliasError) throw new Error(`Failed to load aliases of ${entity.display_name}: ${aliasError.message}`);
+    const aliasById = new Map((aliasRows ?? []).map(row => [row.id, row.owner_name]));
+    const aliasIds = [...aliasById.keys()];
+    if (aliasIds.length === 0) return { entity, aliases: [], properties: [] };
+
+    const { data: history, error: historyError } = await supabase
+        .from('ownership_history')
+        .select('property_account_number, owner_id, start_year, end_year')
+        .in('owner_id', aliasIds)
+        .returns<{ property_account_number: string; owner_id: number; start_year: number; end_year: number }[]>();
+    if (historyError) throw new Error(`Failed to load ownership history of ${entity.display_name}: ${historyError.message}`);
+
+    const { data: current, error: currentError } = await supabase
+        .from('property_owners')
+        .select('property_account_number, owner_id, percentage, is_primary')
+        .in('owner_id', aliasIds)
+        .returns<{ property_account_number: string; owner_id: number; percentage: number | null; is_primary: boolean }[]>();
+    if (currentError) throw new Error(`Failed to load current holdings of ${entity.display_name}: ${currentError.message}`);
+
+    const byAccount = new Map<string, PortfolioProperty>();
+    const entryFor = (accountNumber: string, ownerId: number) => {
+        let entry = byAccount.get(accountNumber);
+        if (!entry) {
+            entry = { account_number: accountNumber, address: null, held_as: [], years: [], current: false, percentage: null, is_primary: false };
+            byAccount.set(accountNumber, entry);
+        }
+        const alias = aliasById.get(ownerId);
+        if (alias && !entry.held_as.includes(alias)) entry.held_as.push(alias);
+        return entry;
+    };
+    for (const row of history ?? []) entryFor(row.property_account_number, row.owner_id).years.push({ start_year: row.start_year, end_year: row.end_year });
+    for (const row of current ?? []) {
+        const entry = entryFor(row.property_account_number, row.owner_id);
+        entry.current = true;
+        entry.percentage = row.percentage;
+        entry.is_primary = entry.is_primary || row.is_primary;
+    }
+
+    const { data: properties, error: propertyError } = await supabase
+        .from('properties')
+        .select('account_number, address')
+        .in('account_number', [...byAccount.keys()])
+        .returns<{ account_number: string; address: string | null }[]>();
+    if (propertyError) throw new Error(`Failed to load properties of ${entity.display_name}: ${propertyError.message}`);
+    for (const property of properties ?? []) byAccount.get(property.account_number)!.address = property.address;
+
+    for (const entry of byAccount.values()) entry.years.sort((a, b) => b.start_year - a.start_year);
+    const lastYear = (entry: PortfolioProperty) => entry.years[0]?.end_year ?? 0;
+    const sorted = [...byAccount.values()].sort((a, b) => Number(b.current) - Number(a.current) || lastYear(b) - lastYear(a));
+    return { entity, aliases: [...aliasById.values()], properties: sorted };
+}
@@ -0,0 +1,180 @@
+// src/db/properties.ts
+
+import type { CompProperty } from '../comps/types.js';
+import { formatStreetLine, normalizeAddress } from '../lib/address.js';
+import { supabase } from './client.js';
+import type { Json, Tables } from './database.types.js';
+import { readAllPages } from './rows.js';
+
+/** Everything stored about one property, as served by `GET /properties/:account`. */
+export interface PropertyDetail {
+    property: Omit<Tables<'properties'>, 'id'>;
+    current_owners: { owner_name: string; percentage: number | null; is_primary: boolean }[];
+    /** Newest first. */
+    ownership_history: { owner_name: string; start_year: number; end_year: number; int_number: string | null; deed_xfer_date: string | null }[];
+    /** Newest first. */
+    value_history: { year: number; total_market_value: number | null }[];
+    exemptions: { code: string; start_year: number; end_year: number }[];
+    /** Newest filing first, each with its extracted details and parties when it was classified. */
+    documents: (Omit<Tables<'property_documents'>, 'id' | 'property_account_number'> & {
+        details: Json | null;
+        parties: { name: string; role: string }[];
+    })[];
+}
+
+/** One search result. */
+export type PropertySummary = Pick<Tables<'properties'>,
+    'account_number' | 'county' | 'address' | 'subdivision' | 'block' | 'lot1' | 'lot2' | 'total_market_value'>;
+
+/** Search filters; every one given must match. */
+export interface PropertySearch {
+    /** Any part of the street address, e.g. '9920 Gulf Palm Drive'; normalized before matching. */
+    address?: string;
+    subdivision?: string;
+    block?: string;
+    /** Letters, digits and dashes only; it is matched against both lot columns. */
+    lot?: string;
+    /** Any part of a current or past owner's name, under any of the owner's aliases. */
+    owner?: string;
+    county?: string;
+}
+
+export interface PageRequest {
+    limit: number;
+    offset: number;
+}
+
+export interface PropertyPage {
+    rows: PropertySummary[];
+    /** Matches across all pages. */
+    total: number;
+}
+
+/** Escapes the wildcards of an `ilike` pattern, so user input only matches literally. */
+export function literal(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/** The stored property with its owners, history and documents, or null when the account isn't stored. */
+export async function loadProperty(accountNumber: string): Promise<PropertyDetail | null> {
+    const { data: property, error } = await supabase
+        .from('properties')
+        .select('account_number, county, address, improvement_value, land_value, total_market_value, year_built, living_area, cad_url, legal_description, subdivision, block, city_block, lot1, lot2, int_number, deed_xfer_date')
+        .eq('account_number', accountNumber)
+        .maybeSingle();
+    if (error) throw new Error(`Failed to load property ${accountNumber}: ${error.message}`);
+    if (!property) return null;
+
+    const [current, history, values, exemptions, documents, details, parties] = await Promise.all([
+        supabase.from('property_owners').select('percentage, is_primary, owners (owner_name)').eq('property_account_number', accountNumber),
+        supabase.from('ownership_history').select('start_year, end_year, int_number, deed_xfer_date, owners (owner_name)').eq('property_account_number', accountNumber).order('start_year', { ascending: false }),
+        supabase.from('value_history').select('year, total_market_value').eq('property_account_number', accountNumber).order('year', { ascending: false }),
+        supabase.from('exemptions').select('code, start_year, end_year').eq('property_account_number', accountNumber).order('start_year', { ascending: false }),
+        supabase.from('property_documents')
+            .select('document_type, document_class, grantor, grantee, filing_date, instrument_number, book_and_page, summary, document_url, archive_key, page_count')
+            .eq('property_account_number', accountNumber)
+            .order('filing_date', { ascending: false, nullsFirst: false }),
+        supabase.from('document_details').select('instrument_number, details').eq('property_account_number', accountNumber),
+        supabase.from('document_parties').select('instrument_number, name, role').eq('property_account_number', accountNumber),
+    ]);
+    const failed = [current, history, values, exemptions, documents, details, parties].find(result => result.error);
+    if (failed?.error) throw new Error(`Failed to load the records of property ${accountNumber}: ${failed.error.message}`);
+
+    const detailsByInstrument = new Map((details.data ?? []).map(row => [row.instrument_number, row.details]));
+    const partiesByInstrument = new Map<string, { name: string; role: string }[]>();
+    for (const { instrument_number, ...party } of parties.data ?? []) {
+        partiesByInstrument.set(instrument_number, [...(partiesByInstrument.get(instrument_number) ?? []), party]);
+    }
+
+    return {
+        property,
+        current_owners: (current.data ?? []).flatMap(({ owners, ...share }) => owners ? [{ owner_name: owners.owner_name, ...share }] : []),
+        ownership_history: (history.data ?? []).flatMap(({ owners, ...period }) => owners ? [{ owner_name: owners.owner_name, ...period }] : []),
+        value_history: values.data ?? [],
+        exemptions: exemptions.data ?? [],
+        documents: (documents.data ?? []).map(doc => ({
+            ...doc,
+            details: doc.instrument_number ? detailsByInstrument.get(doc.instrument_number) ?? null : null,
+            parties: doc.instrument_number ? partiesByInstrument.get(doc.instrument_number) ?? [] : [],
+        })),
+    };
+}
+
+/**
+ * Accounts a matching owner holds or has held. A name matches any of its owner's
+ * aliases, so "SMITH JOHN" also finds the properties held as "JOHN SMITH TRUSTEE"
+ * when both resolved to the same owner.
+ */
+async function ownerAccounts(name: string): Promise<string[]> {
+    const { data: matches, error } = await readAllPages((from, to) =>
+        supabase.from('owners').select('id, entity_id').ilike('owner_name', `%${literal(name)}%`).order('id').range(from, to));
+    if (error) throw new Error(`Failed to search owners for '${name}': ${error.message}`);
+    const ownerIds = new Set(matches.map(row => row.id));
+    const entityIds = [...new Set(matches.flatMap(row => row.entity_id ?? []))];
+    if (entityIds.length > 0) {
+        const { data: aliases, error: aliasError } = await readAllPages((from, to) =>
+            supabase.from('owners').select('id').in('entity_id', entityIds).order('id').range(from, to));
+        if (aliasError) throw new Error(`Failed to load owner aliases: ${aliasError.message}`);
+        for (const alias of aliases) ownerIds.add(alias.id);
+    }
+    if (ownerIds.size === 0) return [];
+
+    const [history, current] = await Promise.all([
+        readAllPages((from, to) => supabase.from('ownership_history').select('property_account_number').in('owner_id', [...ownerIds]).order('id').range(from, to)),
+        readAllPages((from, to) => supabase.from('property_owners').select('property_account_number')
+            .in('owner_id', [...ownerIds]).order('property_account_number').order('owner_id').range(from, to)),
+    ]);
+    const failed = history.error ?? current.error;
+    if (failed) throw new Error(`Failed to load the properties of owners matching '${name}': ${failed.message}`);
+    return [...new Set([...history.data, ...current.data].map(row => row.property_account_number))];
+}
+
+/**
+ * One page of the stored properties matching every given filter, ordered by
+ * account number. Text filters are case-insensitive; the address and owner match
+ * anywhere in the value, the subdivision from its start, and block and lot exactly.
+ */
+export async function searchProperties(search: PropertySearch, page: PageRequest): Promise<PropertyPage> {
+    let query = supabase
+        .from('properties')
+        .select('account_number, county, address, subdivision, block, lot1, lot2, total_market_value', { count: 'exact' });
+
+    if (search.owner) {
+        const accounts = await ownerAccounts(search.owner);
+        if (accounts.length === 0) return { rows: [], total: 0 };
+        query = query.in('account_number', accounts);
+    }
+    if (search.address) {
+        const normalized = normalizeAddress(search.address);
+        const street = formatStreetLine({ ...normalized, unit: null }) || search.address.toUpperCase();
+        query = query.ilike('address', `%${literal(street)}%`);
+    }
+    if (search.subdivision) query = query.ilike('subdivision', `${literal(search.subdivision)}%`);
+    if (search.block) query = query.ilike('block', literal(search.block));
+    if (search.lot) query = query.or(`lot1.ilike.${search.lot},lot2.ilike.${search.lot}`);
+    if (search.county) query = query.eq('county', search.county);
+
+    const { data, count, error } = await query
+        .order('account_number')
+        .range(page.offset, page.offset + page.limit - 1);
+    if (error) throw new Error(`Failed to search properties: ${error.message}`);
+    return { rows: data ?? [], total: count ?? 0 };
+}
+
+/**
+ * The stored properties in a subdivision, or one block of it, for comparing with
+ * a subject. Names are matched case-insensitively; a null county matches any.
+ */
+export async function loadNeighborhood(county: string | null, subdivision: string, block: string | null): Promise<CompProperty[]> {
+    const { data, error } = await readAllPages((from, to) => {
+        let query = supabase
+            .from('properties')
+            .select('account_number, county, address, subdivision, block, lot1, year_built, living_area, land_value, improvement_value, total_market_value, cad_url')
+            .ilike('subdivision', literal(subdivision));
+        if (block) query = query.ilike('block', literal(block));
+        if (county) query = query.eq('county', county);
+        return query.order('account_number').range(from, to);
+    });
+    if (error) throw new Error(`Failed to load the properties of ${subdivision}${block ? ` block ${block}` : ''}: ${error.message}`);
+    return data;
+}
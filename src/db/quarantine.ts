@@ -0,0 +1,85 @@
+// src/db/quarantine.ts
+
+import type { AssessmentData, ClerkDocument, County } from '../counties/types.js';
+import type { ValidationIssue } from '../lib/validation.js';
+import { supabase } from './client.js';
+import { asJson } from './rows.js';
+
+export type QuarantineStatus = 'pending' | 'released' | 'discarded';
+
+/** A scraped record held back from the save step, with the payload as scraped. */
+export type QuarantinedRecord = {
+    id: number;
+    county: County | null;
+    property_account_number: string | null;
+    instrument_number: string | null;
+    run_id: number | null;
+    reasons: ValidationIssue[];
+    status: QuarantineStatus;
+    created_at: string;
+    reviewed_at: string | null;
+    review_note: string | null;
+} & (
+    | { kind: 'assessment'; payload: AssessmentData }
+    | { kind: 'document'; payload: ClerkDocument }
+);
+
+export type QuarantineEntry = Pick<QuarantinedRecord, 'kind' | 'county' | 'property_account_number' | 'instrument_number' | 'run_id' | 'reasons' | 'payload'>;
+
+/** Stores a record that failed validation and returns its id. */
+export async function quarantineRecord(entry: QuarantineEntry): Promise<number> {
+    const { data, error } = await supabase
+        .from('quarantined_records')
+        .insert({ ...entry, reasons: asJson(entry.reasons), payload: asJson(entry.payload) })
+        .select('id')
+        .single();
+    if (error) throw new Error(`Failed to quarantine the ${entry.kind} of ${entry.property_account_number ?? 'an unknown account'}: ${error.message}`);
+    return data.id;
+}
+
+/**
+ * Stores several records that failed validation in one insert, so either all of
+ * them are quarantined or none are, and returns their ids in order.
+ */
+export async function quarantineRecords(entries: QuarantineEntry[]): Promise<number[]> {
+    if (entries.length === 0) return [];
+    const { data, error } = await supabase
+        .from('quarantined_records')
+        .insert(entries.map(entry => ({ ...entry, reasons: asJson(entry.reasons), payload: asJson(entry.payload) })))
+        .select('id');
+    if (error) throw new Error(`Failed to quarantine ${entries.length} ${entries[0].kind}s of ${entries[0].property_account_number ?? 'an unknown account'}: ${error.message}`);
+    return data.map(row => row.id);
+}
+
+/** Quarantined records, oldest first, optionally narrowed to a status and an account. */
+export async function listQuarantined(filter: { status?: QuarantineStatus; accountNumber?: string; limit?: number } = {}): Promise<QuarantinedRecord[]> {
+    let query = supabase.from('quarantined_records').select().order('created_at').order('id');
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.accountNumber) query = query.eq('property_account_number', filter.accountNumber);
+    if (filter.limit) query = query.limit(filter.limit);
+    const { data, error } = await query.returns<QuarantinedRecord[]>();
+    if (error) throw new Error(`Failed to list quarantined records: ${error.message}`);
+    return data ?? [];
+}
+
+export async function findQuarantined(id: number): Promise<QuarantinedRecord | null> {
+    const { data, error } = await supabase
+        .from('quarantined_records')
+        .select()
+        .eq('id', id)
+        .maybeSingle<QuarantinedRecord>();
+    if (error) throw new Error(`Failed to load quarantined record ${id}: ${error.message}`);
+    return data;
+}
+
+/** Records the review of a pending record; fails if it was already reviewed. */
+export async function markReviewed(id: number, status: Exclude<QuarantineStatus, 'pending'>, note: string | null): Promise<void> {
+    const { data, error } = await supabase
+        .from('quarantined_records')
+        .update({ status, reviewed_at: new Date().toISOString(), review_note: note })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('id');
+    if (error) throw new Error(`Failed to mark quarantined record ${id} ${status}: ${error.message}`);
+    if (!data?.length) throw new Error(`Quarantined record ${id} is not pending review.`);
+}
@@ -0,0 +1,31 @@
+// src/db/rows.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readAllPages } from './rows.js';
+
+describe('readAllPages', () => {
+    const table = Array.from({ length: 7 }, (_, index) => index);
+    const ranges: [number, number][] = [];
+    const page = async (from: number, to: number) => {
+        ranges.push([from, to]);
+        return { data: table.slice(from, to + 1), error: null };
+    };
+
+    it('reads page after page until one comes back short', async () => {
+        ranges.length = 0;
+        assert.deepEqual(await readAllPages(page, 3), { data: table, error: null });
+        assert.deepEqual(ranges, [[0, 2], [3, 5], [6, 8]]);
+    });
+
+    it('reads one more, empty page when the rows fill the last page exactly', async () => {
+        ranges.length = 0;
+        assert.deepEqual((await readAllPages(async (from, to) => page(from, Math.min(to, 5)), 3)).data, [0, 1, 2, 3, 4, 5]);
+        assert.deepEqual(ranges, [[0, 2], [3, 5], [6, 5]]);
+    });
+
+    it('stops at an error', async () => {
+        const result = await readAllPages(async from => from === 0 ? { data: [1, 2], error: null } : { data: null, error: { message: 'timeout' } }, 2);
+        assert.deepEqual(result, { data: [1, 2], error: { message: 'timeout' } });
+    });
+});
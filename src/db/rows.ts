@@ -0,0 +1,53 @@
+// src/db/rows.ts
+
+import type { Database, Json, TablesInsert } from './database.types.js';
+
+type TableName = keyof Database['public']['Tables'];
+
+/**
+ * What a record may hold to be written to `Name`: only the table's columns, with
+ * their types. jsonb columns take any value, since interfaces don't satisfy `Json`.
+ */
+export type ColumnsOf<Name extends TableName, R> = R
+    & { [Column in keyof TablesInsert<Name>]?: Json extends TablesInsert<Name>[Column] ? unknown : TablesInsert<Name>[Column] }
+    & Record<Exclude<keyof R, keyof TablesInsert<Name>>, never>;
+
+/**
+ * Rows handed to a database function as jsonb, which reads them with
+ * `jsonb_to_recordset` and so would silently drop a key that isn't a column. Typing
+ * them against the table makes a renamed column fail to compile instead.
+ */
+export function tableRows<Name extends TableName, R>(table: Name, rows: ColumnsOf<Name, R>[]): Json {
+    return rows as unknown as Json;
+}
+
+/** One row for a database function, checked like `tableRows`. */
+export function tableRow<Name extends TableName, R>(table: Name, row: ColumnsOf<Name, R>): Json {
+    return row as unknown as Json;
+}
+
+/** A value stored whole in a jsonb column, such as a run's options or a report. */
+export function asJson(value: unknown): Json {
+    return value as Json;
+}
+
+/** PostgREST answers with at most this many rows by default, so longer reads go page by page. */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query rather than its first page. `page` runs the query
+ * for rows `from` to `to` (inclusive, as `.range` takes them) and must be ordered,
+ * so pages neither overlap nor skip rows. Stops at the first short page or error.
+ */
+export async function readAllPages<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+    pageSize = PAGE_SIZE,
+): Promise<{ data: T[]; error: { message: string } | null }> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += pageSize) {
+        const { data, error } = await page(from, from + pageSize - 1);
+        if (error) return { data: rows, error };
+        rows.push(...data ?? []);
+        if ((data ?? []).length < pageSize) return { data: rows, error: null };
+    }
+}
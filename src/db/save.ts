@@ -0,0 +1,155 @@
+// src/db/save.ts
+
+import type { ScrapeTarget } from '../cli/targets.js';
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import { formatStreetLine, normalizeAddress, normalizeAddressTarget, type NormalizedAddress } from '../lib/address.js';
+import { buildAssessmentRecords, buildDocumentDetailRecords, buildDocumentRecords, type DocumentRecord } from '../lib/assessment-records.js';
+import type { LegalColumns, LegalDescription } from '../lib/legal-description.js';
+import { buildAssessmentSnapshot, buildDocumentSnapshot, diffSnapshots, snapshotHash, type FieldChange, type Snapshot } from '../lib/snapshot-diff.js';
+import { supabase } from './client.js';
+import { loadLatestSnapshot } from './history.js';
+import { literal } from './properties.js';
+import { upsertOwners } from './owners.js';
+import { asJson, tableRow, tableRows } from './rows.js';
+
+/**
+ * Saves an assessment scrape without discarding history: the scrape is diffed
+ * against the account's last snapshot, and the property, snapshot, change log and
+ * history rows are written in one transaction by `apply_assessment_snapshot`
+ * (supabase/migrations). Owner names are resolved to canonical owners first
+ * (see `upsertOwners`). Every record passed to it is checked against the table's
+ * columns in database.types.ts (see `tableRows`). Returns the changed fields; the first scrape of an account
+ * has no previous snapshot and logs no changes.
+ */
+export async function saveDataToSupabase(scrapedData: AssessmentData, legal: LegalDescription): Promise<{ error: { message: string } | null; changes: FieldChange[] }> {
+    const records = buildAssessmentRecords(scrapedData, legal);
+    const { property, owners, currentOwnership, valueHistory, exemptions, ownershipHistory } = records;
+    const accountNumber = property.account_number;
+    if (!accountNumber) return { error: new Error("Cannot save a property without an account number."), changes: [] };
+
+    let ownerIds: Map<string, number>;
+    try {
+        ownerIds = await upsertOwners(owners);
+    } catch (error) {
+        return { error: error as Error, changes: [] };
+    }
+    if (owners.length === 0) console.log("No owners found in scraped data.");
+
+    let previous: Snapshot | null;
+    try {
+        previous = await loadLatestSnapshot(accountNumber);
+    } catch (error) {
+        return { error: error as Error, changes: [] };
+    }
+
+    const snapshot = buildAssessmentSnapshot(records);
+    const changes = previous ? diffSnapshots(previous, snapshot) : [];
+
+    // Every owner name was upserted above, so a missing id means the upsert returned short.
+    const unresolved = [...ownershipHistory.map(rec => rec.ownerName), ...currentOwnership.map(rec => rec.ownerName)].filter(name => !ownerIds.has(name));
+    if (unresolved.length > 0) return { error: new Error(`No owner id was returned for ${[...new Set(unresolved)].join(', ')}.`), changes: [] };
+
+    const ownershipRecords = ownershipHistory.map(({ ownerName, ...range }) => ({ owner_id: ownerIds.get(ownerName)!, ...range }));
+    const currentOwnerRecords = currentOwnership.map(({ ownerName, percentage, isPrimary }) => ({ owner_id: ownerIds.get(ownerName)!, percentage, is_primary: isPrimary }));
+
+    const { error } = await supabase.rpc('apply_assessment_snapshot', {
+        p_account: accountNumber,
+        p_scraped_at: new Date().toISOString(),
+        p_content_hash: snapshotHash(snapshot),
+        p_payload: asJson(snapshot),
+        p_changes: tableRows('property_changes', changes),
+        p_property: tableRow('properties', property),
+        p_value_history: tableRows('value_history', valueHistory),
+        p_exemptions: tableRows('exemptions', exemptions),
+        p_ownership_history: tableRows('ownership_history', ownershipRecords),
+        p_current_owners: tableRows('property_owners', currentOwnerRecords),
+        p_county: scrapedData.county,
+    });
+    if (error) return { error, changes: [] };
+
+    console.log(previous
+        ? `Successfully saved assessment snapshot (${changes.length} changed fields).`
+        : "Successfully saved the first assessment snapshot for this property.");
+    return { error: null, changes };
+}
+
+/**
+ * Upserts clerk documents by instrument number and logs changed fields; documents
+ * from earlier crawls that aren't returned again are kept. Each classified
+ * document's typed fields and parties replace the ones stored for it before.
+ * Written atomically by `apply_document_snapshot` (supabase/migrations).
+ */
+export async function saveClerkDataToSupabase(accountNumber: string, documents: ClerkDocument[]): Promise<{ error: { message: string } | null; changes: FieldChange[] }> {
+    const documentRecords = buildDocumentRecords(documents);
+    const trackable = documentRecords.filter(rec => rec.instrument_number);
+    if (trackable.length < documentRecords.length) {
+        console.warn(`Skipping ${documentRecords.length - trackable.length} clerk documents without an instrument number.`);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+        .from('property_documents')
+        .select('document_type, grantor, grantee, filing_date, instrument_number, book_and_page, summary, document_url, document_class, archive_key, page_count')
+        .eq('property_account_number', accountNumber)
+        .returns<DocumentRecord[]>();
+    if (existingError) return { error: existingError, changes: [] };
+
+    // Only documents in this crawl are compared, so ones that weren't returned again aren't reported as removed.
+    const existingByInstrument = new Map((existing ?? []).map(rec => [rec.instrument_number, rec]));
+    const previous = buildDocumentSnapshot(trackable.flatMap(rec => existingByInstrument.get(rec.instrument_number) ?? []));
+    // Null summaries, classes and archive keys keep the stored values (see apply_document_snapshot), so they aren't changes.
+    const changes = diffSnapshots(previous, buildDocumentSnapshot(trackable.map(rec => keepStoredValues(rec, existingByInstrument.get(rec.instrument_number)))));
+    const { details, parties } = buildDocumentDetailRecords(documents);
+
+    const { error } = await supabase.rpc('apply_document_snapshot', {
+        p_account: accountNumber,
+        p_scraped_at: new Date().toISOString(),
+        p_changes: tableRows('property_changes', changes),
+        p_documents: tableRows('property_documents', trackable),
+        p_details: tableRows('document_details', details),
+        p_parties: tableRows('document_parties', parties),
+    });
+    if (error) {
+        console.error("Error saving clerk data:", error);
+        return { error, changes: [] };
+    }
+    console.log(`Successfully saved clerk documents with summaries and URLs (${changes.length} changed fields).`);
+    return { error: null, changes };
+}
+
+function keepStoredValues(rec: DocumentRecord, stored: DocumentRecord | undefined): DocumentRecord {
+    if (!stored) return rec;
+    return {
+        ...rec,
+        summary: rec.summary ?? stored.summary,
+        document_class: rec.document_class ?? stored.document_class,
+        archive_key: rec.archive_key ?? stored.archive_key,
+        page_count: rec.page_count ?? stored.page_count,
+    };
+}
+
+/**
+ * Looks up a previously saved property so the clerk stage can run on its own. An
+ * address target matches a stored property of its county whose normalized street
+ * line is the same (with the unit, when the target gives one); an address that
+ * matches several stored properties fails rather than picking one of them.
+ */
+export async function loadStoredProperty(target: ScrapeTarget) {
+    let query = supabase
+        .from('properties')
+        .select('account_number, address, legal_description, subdivision, block, city_block, lot1, lot2')
+        .eq('county', target.county);
+    query = target.kind === 'account'
+        ? query.eq('account_number', target.accountNumber)
+        : query.ilike('address', `${literal(target.addressNumber)} %`);
+    const { data, error } = await query.order('account_number').returns<(LegalColumns & { account_number: string; address: string | null })[]>();
+    if (error) throw error;
+    if (target.kind === 'account') return data?.[0] ?? null;
+
+    const wanted = normalizeAddressTarget(target);
+    const streetLine = (address: NormalizedAddress) => formatStreetLine(wanted.unit ? address : { ...address, unit: null });
+    const matches = (data ?? []).filter(row => row.address && streetLine(normalizeAddress(row.address)) === streetLine(wanted));
+    if (matches.length > 1) {
+        throw new Error(`The address matches ${matches.length} stored properties (${matches.map(row => row.account_number).join(', ')}); give the account number or unit instead.`);
+    }
+    return matches[0] ?? null;
+}
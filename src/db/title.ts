@@ -0,0 +1,70 @@
+// src/db/title.ts
+
+import type { DocumentDetails, DocumentType } from '../lib/document-extraction.js';
+import { buildTitleReport, type TitleDocument, type TitleInputs, type TitleOwnershipPeriod, type TitleReport } from '../lib/chain-of-title.js';
+import { supabase } from './client.js';
+import { asJson } from './rows.js';
+
+/** Everything the chain-of-title report for an account is built from: its documents, CAD ownership history and current owners. */
+export async function loadTitleInputs(accountNumber: string): Promise<TitleInputs> {
+    const { data: documents, error: documentError } = await supabase
+        .from('property_documents')
+        .select('instrument_number, document_type, document_class, grantor, grantee, filing_date')
+        .eq('property_account_number', accountNumber)
+        .returns<Omit<TitleDocument, 'details'>[]>();
+    if (documentError) throw new Error(`Failed to load documents for ${accountNumber}: ${documentError.message}`);
+
+    const { data: details, error: detailError } = await supabase
+        .from('document_details')
+        .select('instrument_number, details')
+        .eq('property_account_number', accountNumber)
+        .returns<{ instrument_number: string; details: DocumentDetails }[]>();
+    if (detailError) throw new Error(`Failed to load document details for ${accountNumber}: ${detailError.message}`);
+    const detailsByInstrument = new Map((details ?? []).map(row => [row.instrument_number, row.details]));
+
+    const { data: history, error: historyError } = await supabase
+        .from('ownership_history')
+        .select('start_year, end_year, int_number, deed_xfer_date, owners (owner_name)')
+        .eq('property_account_number', accountNumber)
+        .returns<(Omit<TitleOwnershipPeriod, 'ownerName'> & { owners: { owner_name: string } | null })[]>();
+    if (historyError) throw new Error(`Failed to load ownership history for ${accountNumber}: ${historyError.message}`);
+
+    const { data: current, error: currentError } = await supabase
+        .from('property_owners')
+        .select('owners (owner_name)')
+        .eq('property_account_number', accountNumber)
+        .returns<{ owners: { owner_name: string } | null }[]>();
+    if (currentError) throw new Error(`Failed to load current owners for ${accountNumber}: ${currentError.message}`);
+
+    return {
+        accountNumber,
+        documents: (documents ?? []).map(doc => ({
+            ...doc,
+            document_class: doc.document_class as DocumentType | null,
+            details: doc.instrument_number ? detailsByInstrument.get(doc.instrument_number) ?? null : null,
+        })),
+        ownershipHistory: (history ?? []).flatMap(({ owners, ...period }) => owners ? [{ ownerName: owners.owner_name, ...period }] : []),
+        currentOwners: (current ?? []).flatMap(row => row.owners ? [row.owners.owner_name] : []),
+    };
+}
+
+/** Stores the account's latest report, replacing the previous one. */
+export async function saveTitleReport(report: TitleReport): Promise<void> {
+    const { error } = await supabase
+        .from('title_reports')
+        .upsert({
+            property_account_number: report.account_number,
+            generated_at: report.generated_at,
+            issue_count: report.issues.length,
+            open_encumbrances: report.open_encumbrances,
+            report: asJson(report),
+        }, { onConflict: 'property_account_number' });
+    if (error) throw new Error(`Failed to save the title report for ${report.account_number}: ${error.message}`);
+}
+
+/** Rebuilds the account's chain-of-title report from what is stored, saves it and returns it. */
+export async function refreshTitleReport(accountNumber: string): Promise<TitleReport> {
+    const report = buildTitleReport(await loadTitleInputs(accountNumber));
+    await saveTitleReport(report);
+    return report;
+}
@@ -0,0 +1,99 @@
+// src/document-ai/gemini.test.ts
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { chunkPages, createGeminiDocumentAI, imageMimeType } from './gemini.js';
+import { createStubDocumentAI } from './stub.js';
+
+const FAST_RETRY = { attempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+function answer(text: string, status = 200) {
+    const body = status === 200
+        ? JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 } })
+        : text;
+    return new Response(body, { status });
+}
+
+describe('chunkPages', () => {
+    it('splits by page count and by request size', () => {
+        assert.deepEqual(chunkPages(['a', 'b', 'c', 'd', 'e'], 2), [['a', 'b'], ['c', 'd'], ['e']]);
+        assert.deepEqual(chunkPages(['aaaa', 'bb', 'cc', 'dddddd'], 10, 5), [['aaaa'], ['bb', 'cc'], ['dddddd']]);
+    });
+
+    it('detects JPEG pages', () => {
+        assert.equal(imageMimeType('/9j/4AAQSkZJRg'), 'image/jpeg');
+        assert.equal(imageMimeType('iVBORw0KGgo'), 'image/png');
+    });
+});
+
+describe('createGeminiDocumentAI', () => {
+    const realFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('sends the key in a header and OCRs long documents in several requests', async () => {
+        const requests: { url: string; headers: Record<string, string>; pages: number }[] = [];
+        globalThis.fetch = async (url, init) => {
+            const body = JSON.parse(String(init?.body));
+            requests.push({ url: String(url), headers: init?.headers as Record<string, string>, pages: body.contents[0].parts.length - 1 });
+            return answer(`chunk ${requests.length}`);
+        };
+        const gemini = createGeminiDocumentAI({ apiKey: 'secret', model: 'test-model', pagesPerRequest: 2 });
+        const result = await gemini.ocr(['p1', 'p2', 'p3']);
+
+        assert.ok(result.success);
+        assert.equal(result.data, 'chunk 1\n\nchunk 2');
+        assert.deepEqual(requests.map(request => request.pages), [2, 1]);
+        assert.ok(requests.every(request => !request.url.includes('secret') && request.url.includes('test-model')));
+        assert.equal(requests[0].headers['x-goog-api-key'], 'secret');
+        assert.deepEqual(result.usage, { requests: 2, promptTokens: 20, outputTokens: 10 });
+    });
+
+    it('retries rate limits and server errors', async () => {
+        const statuses = [429, 503, 200];
+        globalThis.fetch = async () => answer('summary', statuses.shift());
+        const result = await createGeminiDocumentAI({ apiKey: 'k', retry: FAST_RETRY }).summarize('text');
+
+        assert.ok(result.success);
+        assert.equal(result.data, 'summary');
+        assert.equal(result.usage.requests, 3);
+    });
+
+    it('returns a typed error instead of text', async () => {
+        let calls = 0;
+        globalThis.fetch = async () => {
+            calls++;
+            return answer('API key not valid', 400);
+        };
+        const result = await createGeminiDocumentAI({ apiKey: 'k', retry: FAST_RETRY }).ocr(['p1']);
+
+        assert.ok(!result.success);
+        assert.equal(result.error.kind, 'bad_request');
+        assert.equal(result.error.status, 400);
+        assert.equal(result.error.retryable, false);
+        assert.equal(calls, 1);
+    });
+
+    it('fails with a typed error when a successful response is not JSON', async () => {
+        globalThis.fetch = async () => new Response('<html>upstream proxy</html>', { status: 200 });
+        const result = await createGeminiDocumentAI({ apiKey: 'k', retry: FAST_RETRY }).summarize('text');
+
+        assert.ok(!result.success);
+        assert.equal(result.error.kind, 'invalid_response');
+        assert.equal(result.error.retryable, false);
+        assert.equal(result.usage.requests, 1);
+    });
+});
+
+describe('createStubDocumentAI', () => {
+    it('answers deterministically without requests', async () => {
+        const stub = createStubDocumentAI();
+        const ocr = await stub.ocr([Buffer.from('WARRANTY DEED. Jane Doe to John Smith.').toString('base64'), Buffer.from([0xff, 0xd8, 0x00]).toString('base64')]);
+        assert.ok(ocr.success);
+        assert.equal(ocr.data, 'WARRANTY DEED. Jane Doe to John Smith.\n\n[page 2]');
+        assert.deepEqual(await stub.summarize(ocr.data), { success: true, data: 'WARRANTY DEED.', usage: { requests: 0, promptTokens: 0, outputTokens: 0 } });
+        assert.equal((await stub.classify(ocr.data)).data, 'warranty_deed');
+    });
+});
@@ -0,0 +1,167 @@
+// src/document-ai/gemini.ts
+
+import { z } from 'zod';
+import { DOCUMENT_TYPES } from '../lib/document-extraction.js';
+import { fixtureFetch } from '../lib/fixtures.js';
+import { isTransientError, withRetry, type RetryOptions } from '../lib/retry.js';
+import { addUsage, DocumentAIError, NO_USAGE, type AIResult, type DocumentAI, type TokenUsage } from './types.js';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash-latest';
+/** Pages sent in one OCR request; long documents are read in several. */
+const DEFAULT_PAGES_PER_REQUEST = 8;
+/** Gemini rejects requests with more than 20 MB of inline data; stay well under it. */
+const MAX_REQUEST_BYTES = 15 * 1024 * 1024;
+const RETRY: Pick<RetryOptions, 'attempts' | 'baseDelayMs' | 'maxDelayMs'> = { attempts: 4, baseDelayMs: 2000, maxDelayMs: 30000 };
+
+export interface GeminiOptions {
+    apiKey?: string;
+    model?: string;
+    pagesPerRequest?: number;
+    retry?: Pick<RetryOptions, 'attempts' | 'baseDelayMs' | 'maxDelayMs'>;
+}
+
+type Part = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+/** Screenshots are PNG unless their bytes say JPEG. */
+export function imageMimeType(base64: string): string {
+    return base64.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+}
+
+/**
+ * Splits pages into requests of at most `pagesPerRequest` pages and about
+ * `maxBytes` of image data. A single page over the limit still gets a request.
+ */
+export function chunkPages(pages: string[], pagesPerRequest: number, maxBytes = MAX_REQUEST_BYTES): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let bytes = 0;
+    for (const page of pages) {
+        if (current.length > 0 && (current.length >= pagesPerRequest || bytes + page.length > maxBytes)) {
+            chunks.push(current);
+            current = [];
+            bytes = 0;
+        }
+        current.push(page);
+        bytes += page.length;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+}
+
+function errorForStatus(status: number, detail: string): DocumentAIError {
+    const message = `Gemini request failed with status ${status}${detail ? `: ${detail}` : ''}`;
+    if (status === 429) return new DocumentAIError(message, 'rate_limited', status);
+    if (status >= 500) return new DocumentAIError(message, 'server', status);
+    if (status === 401 || status === 403) return new DocumentAIError(message, 'auth', status);
+    return new DocumentAIError(message, 'bad_request', status);
+}
+
+const classificationSchema = z.object({ type: z.enum(DOCUMENT_TYPES) });
+
+/**
+ * Document AI on the Gemini API. The key goes in the `x-goog-api-key` header,
+ * never the URL. Rate limits, 5xx responses and network errors are retried with
+ * backoff; anything else fails at once.
+ */
+export function createGeminiDocumentAI(options: GeminiOptions = {}): DocumentAI {
+    const apiKey = options.apiKey ?? process.env.GOOGLE_API_KEY ?? '';
+    const model = options.model ?? process.env.GEMINI_MODEL ?? DEFAULT_MODEL;
+    const pagesPerRequest = options.pagesPerRequest ?? (Number(process.env.DOCUMENT_AI_PAGES_PER_REQUEST) || DEFAULT_PAGES_PER_REQUEST);
+    const retry = options.retry ?? RETRY;
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+
+    /** One generateContent call, retried; returns the response text and the tokens of every attempt. */
+    async function generate(parts: Part[], json = false): Promise<AIResult<string>> {
+        let usage = NO_USAGE;
+        const body = JSON.stringify({
+            contents: [{ parts }],
+            ...(json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+        });
+        try {
+            const text = await withRetry(async () => {
+                let response: Response;
+                try {
+                    response = await fixtureFetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey }, body });
+                } catch (error) {
+                    const transient = isTransientError(error);
+                    throw new DocumentAIError(`Gemini request failed: ${(error as Error).message}`, transient ? 'network' : 'bad_request');
+                } finally {
+                    usage = addUsage(usage, { ...NO_USAGE, requests: 1 });
+                }
+                if (!response.ok) throw errorForStatus(response.status, (await response.text()).slice(0, 300));
+
+                let result;
+                try {
+                    result = await response.json();
+                } catch {
+                    throw new DocumentAIError(`Gemini answered with status ${response.status} but a body that is not JSON.`, 'invalid_response', response.status);
+                }
+                usage = addUsage(usage, {
+                    requests: 0,
+                    promptTokens: result.usageMetadata?.promptTokenCount ?? 0,
+                    outputTokens: result.usageMetadata?.candidatesTokenCount ?? 0,
+                });
+                const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+                if (!text) {
+                    const reason = result.candidates?.[0]?.finishReason ?? result.promptFeedback?.blockReason ?? 'no candidates';
+                    throw new DocumentAIError(`Gemini returned no text (${reason}).`, 'empty_response');
+                }
+                return text as string;
+            }, { ...retry, isRetryable: error => error instanceof DocumentAIError && error.retryable });
+            return { success: true, data: text, usage };
+        } catch (error) {
+            const failure = error instanceof DocumentAIError ? error : new DocumentAIError(`Gemini request failed: ${(error as Error).message}`, 'invalid_response');
+            return { success: false, error: failure, usage };
+        }
+    }
+
+    async function generateJson(parts: Part[]): Promise<AIResult<unknown>> {
+        const result = await generate(parts, true);
+        if (!result.success) return result;
+        try {
+            return { success: true, data: JSON.parse(result.data), usage: result.usage };
+        } catch {
+            return { success: false, error: new DocumentAIError('Gemini returned structured content that is not valid JSON.', 'invalid_response'), usage: result.usage };
+        }
+    }
+
+    return {
+        name: 'gemini',
+
+        async ocr(pages) {
+            const chunks = chunkPages(pages, pagesPerRequest);
+            console.log(`  - Extracting text from ${pages.length} image pages in ${chunks.length} request(s)...`);
+            const texts: string[] = [];
+            let usage = NO_USAGE;
+            for (const chunk of chunks) {
+                const result = await generate([
+                    { text: 'Extract all text from these document images, in order. Concatenate the text from all pages into a single response.' },
+                    ...chunk.map(data => ({ inlineData: { mimeType: imageMimeType(data), data } })),
+                ]);
+                usage = addUsage(usage, result.usage);
+                // A partial text would read as the whole document, so one failed chunk fails the OCR.
+                if (!result.success) return { ...result, usage };
+                texts.push(result.data);
+            }
+            return { success: true, data: texts.join('\n\n'), usage };
+        },
+
+        async summarize(text) {
+            console.log('  - Summarizing extracted text...');
+            return generate([{ text: `Summarize the following legal document, focusing on the key parties, dates, and purpose of the document:\n\n${text}` }]);
+        },
+
+        async classify(text) {
+            const result = await generateJson([{ text: `Classify the following recorded county clerk document. Return a JSON object {"type": ...} where type is one of: ${DOCUMENT_TYPES.join(', ')}.\n\n${text}` }]);
+            if (!result.success) return result;
+            const parsed = classificationSchema.safeParse(result.data);
+            return parsed.success
+                ? { success: true, data: parsed.data.type, usage: result.usage }
+                : { success: false, error: new DocumentAIError('Gemini returned an unknown document class.', 'invalid_response'), usage: result.usage };
+        },
+
+        async extractJson(instruction, text) {
+            return generateJson([{ text: `${instruction}\n\n${text}` }]);
+        },
+    };
+}
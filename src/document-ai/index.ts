@@ -0,0 +1,27 @@
+// src/document-ai/index.ts
+
+import { createGeminiDocumentAI } from './gemini.js';
+import { createStubDocumentAI } from './stub.js';
+import type { DocumentAI, DocumentAIName } from './types.js';
+
+export * from './types.js';
+export { chunkPages, createGeminiDocumentAI, imageMimeType } from './gemini.js';
+export { createStubDocumentAI } from './stub.js';
+
+const factories: Record<DocumentAIName, () => DocumentAI> = {
+    gemini: () => createGeminiDocumentAI(),
+    stub: createStubDocumentAI,
+};
+
+let provider: DocumentAI | null = null;
+
+/** The provider named by `DOCUMENT_AI_PROVIDER` (`gemini` by default, or `stub`), created on first use. */
+export function getDocumentAI(): DocumentAI {
+    if (provider) return provider;
+    const name = process.env.DOCUMENT_AI_PROVIDER || 'gemini';
+    if (!Object.prototype.hasOwnProperty.call(factories, name)) {
+        throw new Error(`Unknown DOCUMENT_AI_PROVIDER "${name}"; expected one of: ${Object.keys(factories).join(', ')}.`);
+    }
+    provider = factories[name as DocumentAIName]();
+    return provider;
+}
@@ -0,0 +1,41 @@
+// src/document-ai/stub.ts
+
+import { classifyDocumentLabel } from '../lib/document-extraction.js';
+import { NO_USAGE, type AIResult, type DocumentAI } from './types.js';
+
+function ok<T>(data: T): AIResult<T> {
+    return { success: true, data, usage: NO_USAGE };
+}
+
+/**
+ * A deterministic provider for tests and offline runs; it makes no requests and
+ * uses no tokens. A page whose bytes are plain text "OCRs" to that text, and
+ * any other page to a placeholder. Summaries are the first sentence, classes come
+ * from the clerk label patterns, and structured extraction returns an empty object
+ * so every field takes its default.
+ */
+export function createStubDocumentAI(): DocumentAI {
+    return {
+        name: 'stub',
+
+        async ocr(pages) {
+            return ok(pages.map((page, index) => {
+                const text = Buffer.from(page, 'base64').toString('utf8');
+                return /^[\x20-\x7e\s]+$/.test(text) ? text : `[page ${index + 1}]`;
+            }).join('\n\n'));
+        },
+
+        async summarize(text) {
+            const normalized = text.replace(/\s+/g, ' ').trim();
+            return ok(normalized.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? normalized.slice(0, 200));
+        },
+
+        async classify(text) {
+            return ok(classifyDocumentLabel(text.slice(0, 500)) ?? 'other');
+        },
+
+        async extractJson() {
+            return ok({});
+        },
+    };
+}
@@ -0,0 +1,62 @@
+// src/document-ai/types.ts
+
+import type { DocumentType } from '../lib/document-extraction.js';
+
+/** Tokens and requests spent on one call, or summed over every call for one document. */
+export interface TokenUsage {
+    requests: number;
+    promptTokens: number;
+    outputTokens: number;
+}
+
+export type DocumentAIErrorKind =
+    | 'rate_limited'
+    | 'server'
+    | 'auth'
+    | 'bad_request'
+    | 'network'
+    | 'empty_response'
+    | 'invalid_response';
+
+/**
+ * A failed document-AI call. `retryable` errors (rate limits, 5xx, network) have
+ * already been retried by the provider; a caller may still fail its stage on one so
+ * the run can be resumed later.
+ */
+export class DocumentAIError extends Error {
+    constructor(message: string, readonly kind: DocumentAIErrorKind, readonly status: number | null = null) {
+        super(message);
+        this.name = 'DocumentAIError';
+    }
+
+    get retryable(): boolean {
+        return this.kind === 'rate_limited' || this.kind === 'server' || this.kind === 'network';
+    }
+}
+
+export type AIResult<T> =
+    | { success: true; data: T; error?: undefined; usage: TokenUsage }
+    | { success: false; data?: undefined; error: DocumentAIError; usage: TokenUsage };
+
+/**
+ * OCR, summarization, classification and structured extraction for clerk
+ * documents. Every call returns a typed result with the tokens it used; failures
+ * are never returned as text.
+ */
+export interface DocumentAI {
+    name: DocumentAIName;
+    /** Reads the text of every page, in order. Pages are base64 PNG or JPEG screenshots. */
+    ocr(pages: string[]): Promise<AIResult<string>>;
+    summarize(text: string): Promise<AIResult<string>>;
+    classify(text: string): Promise<AIResult<DocumentType>>;
+    /** Answers `instruction` about `text` with a JSON value; the caller validates its shape. */
+    extractJson(instruction: string, text: string): Promise<AIResult<unknown>>;
+}
+
+export type DocumentAIName = 'gemini' | 'stub';
+
+export const NO_USAGE: TokenUsage = { requests: 0, promptTokens: 0, outputTokens: 0 };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return { requests: a.requests + b.requests, promptTokens: a.promptTokens + b.promptTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
@@ -0,0 +1,59 @@
+// src/dossier/build.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { PropertyDetail } from '../db/properties.js';
+import { buildDossier, marketValueTrend } from './build.js';
+
+const detail = {
+    property: { account_number: '00000776533000000', county: 'dallas', address: '9920 GULF PALM DR', total_market_value: 350000 },
+    current_owners: [
+        { owner_name: 'SMITH JANE', percentage: 50, is_primary: false },
+        { owner_name: 'SMITH JOHN', percentage: 50, is_primary: true },
+    ],
+    ownership_history: [
+        // Stored by two scrapes; together they are one run of years.
+        { owner_name: 'SMITH JOHN', start_year: 2022, end_year: 2024, int_number: null, deed_xfer_date: null },
+        { owner_name: 'SMITH JOHN', start_year: 2019, end_year: 2021, int_number: '201900123456', deed_xfer_date: '2019-03-01' },
+        { owner_name: 'DOE MARY', start_year: 2015, end_year: 2018, int_number: '201500654321', deed_xfer_date: '2015-06-15' },
+    ],
+    value_history: [
+        { year: 2024, total_market_value: 350000 },
+        { year: 2023, total_market_value: 320000 },
+        { year: 2021, total_market_value: null },
+        { year: 2022, total_market_value: 300000 },
+    ],
+    exemptions: [{ code: 'HS', start_year: 2020, end_year: 2024 }],
+    documents: [
+        { instrument_number: '202300000002', filing_date: '2023-05-01', document_type: 'DEED OF TRUST', parties: [] },
+        { instrument_number: '201900123456', filing_date: '2019-03-01', document_type: 'WARRANTY DEED', parties: [] },
+    ],
+} as unknown as PropertyDetail;
+
+describe('marketValueTrend', () => {
+    it('lists values oldest first with the change from the previous year on record', () => {
+        assert.deepEqual(marketValueTrend(detail.value_history), [
+            { year: 2021, total_market_value: null, change: null, change_pct: null },
+            { year: 2022, total_market_value: 300000, change: null, change_pct: null },
+            { year: 2023, total_market_value: 320000, change: 20000, change_pct: 6.7 },
+            { year: 2024, total_market_value: 350000, change: 30000, change_pct: 9.4 },
+        ]);
+    });
+});
+
+describe('buildDossier', () => {
+    const dossier = buildDossier(detail, new Date('2026-10-19T12:00:00Z'));
+
+    it('merges touching ownership periods and keeps the deed of the first year', () => {
+        assert.deepEqual(dossier.ownership_periods, [
+            { owner_name: 'DOE MARY', start_year: 2015, end_year: 2018, int_number: '201500654321', deed_xfer_date: '2015-06-15' },
+            { owner_name: 'SMITH JOHN', start_year: 2019, end_year: 2024, int_number: '201900123456', deed_xfer_date: '2019-03-01' },
+        ]);
+    });
+
+    it('orders owners primary first and documents by filing date', () => {
+        assert.deepEqual(dossier.current_owners.map(owner => owner.owner_name), ['SMITH JOHN', 'SMITH JANE']);
+        assert.deepEqual(dossier.documents.map(doc => doc.instrument_number), ['201900123456', '202300000002']);
+        assert.equal(dossier.generated_at, '2026-10-19T12:00:00.000Z');
+    });
+});
@@ -0,0 +1,96 @@
+// src/dossier/build.ts
+
+import type { PropertyDetail } from '../db/properties.js';
+import { collapseYearRanges } from '../lib/assessment-records.js';
+import type { Dossier } from './types.js';
+
+type Period = { start_year: number; end_year: number };
+
+/**
+ * Re-derives runs of consecutive years per key with `collapseYearRanges`, the
+ * collapsing the save path applies, so periods stored by separate scrapes merge
+ * when they touch. Each run keeps the extra fields of the stored period it starts with.
+ */
+function collapsePeriods<T extends Period>(periods: T[], keyOf: (period: T) => string): (T & Period)[] {
+    const byKey = new Map<string, T[]>();
+    for (const period of periods) byKey.set(keyOf(period), [...(byKey.get(keyOf(period)) ?? []), period]);
+    const collapsed: (T & Period)[] = [];
+    for (const group of byKey.values()) {
+        const years = group.flatMap(period => Array.from({ length: period.end_year - period.start_year + 1 }, (_, index) => period.start_year + index));
+        for (const range of collapseYearRanges(years)) {
+            const first = group.filter(period => period.start_year >= range.start_year && period.start_year <= range.end_year)
+                .sort((a, b) => a.start_year - b.start_year)[0];
+            collapsed.push({ ...first, ...range });
+        }
+    }
+    return collapsed.sort((a, b) => a.start_year - b.start_year || a.end_year - b.end_year);
+}
+
+/** Rounds a percentage to one decimal place. */
+const roundPct = (value: number) => Math.round(value * 10) / 10;
+
+/** The year-by-year market values, oldest first, each with its change from the previous year on record. */
+export function marketValueTrend(history: PropertyDetail['value_history']): Dossier['market_values'] {
+    const sorted = [...history].sort((a, b) => a.year - b.year);
+    return sorted.map((row, index) => {
+        const previous = sorted[index - 1]?.total_market_value;
+        const value = row.total_market_value;
+        const comparable = previous != null && value != null;
+        return {
+            year: row.year,
+            total_market_value: value,
+            change: comparable ? value - previous : null,
+            change_pct: comparable && previous !== 0 ? roundPct((value - previous) / previous * 100) : null,
+        };
+    });
+}
+
+/** Builds the canonical dossier of a stored property. */
+export function buildDossier(detail: PropertyDetail, generatedAt: Date = new Date()): Dossier {
+    const { property } = detail;
+    return {
+        format_version: 1,
+        generated_at: generatedAt.toISOString(),
+        property: {
+            account_number: property.account_number,
+            county: property.county,
+            address: property.address,
+            legal_description: property.legal_description,
+            subdivision: property.subdivision,
+            block: property.block,
+            city_block: property.city_block,
+            lot1: property.lot1,
+            lot2: property.lot2,
+            year_built: property.year_built,
+            living_area: property.living_area,
+            improvement_value: property.improvement_value,
+            land_value: property.land_value,
+            total_market_value: property.total_market_value,
+            int_number: property.int_number,
+            deed_xfer_date: property.deed_xfer_date,
+            cad_url: property.cad_url,
+        },
+        current_owners: [...detail.current_owners]
+            .sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.owner_name.localeCompare(b.owner_name))
+            .map(({ owner_name, percentage, is_primary }) => ({ owner_name, percentage, is_primary })),
+        market_values: marketValueTrend(detail.value_history),
+        ownership_periods: collapsePeriods(detail.ownership_history, period => period.owner_name)
+            .map(({ owner_name, start_year, end_year, int_number, deed_xfer_date }) => ({ owner_name, start_year, end_year, int_number, deed_xfer_date })),
+        exemption_periods: collapsePeriods(detail.exemptions, period => period.code)
+            .map(({ code, start_year, end_year }) => ({ code, start_year, end_year })),
+        documents: [...detail.documents]
+            .sort((a, b) => (a.filing_date ?? '').localeCompare(b.filing_date ?? '') || (a.instrument_number ?? '').localeCompare(b.instrument_number ?? ''))
+            .map(doc => ({
+                instrument_number: doc.instrument_number,
+                filing_date: doc.filing_date,
+                document_type: doc.document_type,
+                document_class: doc.document_class,
+                grantor: doc.grantor,
+                grantee: doc.grantee,
+                book_and_page: doc.book_and_page,
+                summary: doc.summary,
+                document_url: doc.document_url,
+                parties: [...doc.parties].sort((a, b) => a.role.localeCompare(b.role) || a.name.localeCompare(b.name)),
+            })),
+    };
+}
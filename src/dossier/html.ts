@@ -0,0 +1,85 @@
+// src/dossier/html.ts
+
+import { dossierSections, dossierTitle, type Block, type Cell, type Section } from './sections.js';
+import type { DossierRenderer } from './types.js';
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+/** Only web links are rendered as links; anything else is shown as text. */
+function cell(value: Cell): string {
+    if (typeof value === 'string') return escapeHtml(value);
+    if (!/^https?:\/\//i.test(value.href)) return escapeHtml(value.text);
+    return `<a href="${escapeHtml(value.href)}">${escapeHtml(value.text)}</a>`;
+}
+
+function renderBlock(block: Block): string {
+    switch (block.kind) {
+        case 'facts':
+            return `<dl>${block.rows.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${cell(value)}</dd>`).join('')}</dl>`;
+        case 'table': {
+            const align = (index: number) => block.numeric[index] ? ' class="num"' : '';
+            const head = block.headers.map((header, index) => `<th${align(index)}>${escapeHtml(header)}</th>`).join('');
+            const body = block.rows.map(cells => `<tr>${cells.map((value, index) => `<td${align(index)}>${cell(value)}</td>`).join('')}</tr>`).join('\n');
+            return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+        }
+        case 'text':
+            return block.text.split(/\n\s*\n/).map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`).join('\n');
+    }
+}
+
+function renderSection(section: Section, level: number): string {
+    return [
+        `<section>`,
+        `<h${level}>${escapeHtml(section.title)}</h${level}>`,
+        ...section.blocks.map(renderBlock),
+        ...(section.subsections ?? []).map(subsection => renderSection(subsection, level + 1)),
+        `</section>`,
+    ].join('\n');
+}
+
+/** Inline styles only, so the file renders the same when mailed or opened offline. */
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+h2 { font-size: 1.25rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.2rem; margin-top: 2rem; }
+h3 { font-size: 1rem; margin-top: 1.5rem; }
+.generated { color: #656d76; margin-top: 0; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.6rem; text-align: left; }
+th { background: #f6f8fa; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`.trim();
+
+/** A self-contained HTML page of titled sections; other reports built from sections render with it too. */
+export function htmlDocument(title: string, generatedAt: string, sections: Section[]): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(title)}</title>`,
+        `<style>\n${STYLE}\n</style>`,
+        '</head>',
+        '<body>',
+        `<h1>${escapeHtml(title)}</h1>`,
+        `<p class="generated">Generated ${escapeHtml(generatedAt)}</p>`,
+        ...sections.map(section => renderSection(section, 2)),
+        '</body>',
+        '</html>',
+    ].join('\n') + '\n';
+}
+
+export const htmlRenderer: DossierRenderer = {
+    format: 'html',
+    extension: 'html',
+    render: dossier => htmlDocument(dossierTitle(dossier), dossier.generated_at, dossierSections(dossier)),
+};
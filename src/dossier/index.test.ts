@@ -0,0 +1,50 @@
+// src/dossier/index.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getDossierRenderer, type Dossier } from './index.js';
+
+const dossier: Dossier = {
+    format_version: 1,
+    generated_at: '2026-10-19T12:00:00.000Z',
+    property: {
+        account_number: '00000776533000000', county: 'dallas', address: '9920 GULF PALM DR', legal_description: 'LAKE HIGHLANDS BLK 3 LT 12',
+        subdivision: 'LAKE HIGHLANDS', block: '3', city_block: null, lot1: '12', lot2: null, year_built: 1978, living_area: 2150,
+        improvement_value: 250000, land_value: 100000, total_market_value: 350000, int_number: '201900123456', deed_xfer_date: '2019-03-01',
+        cad_url: 'https://www.dallascad.org/AcctDetailRes.aspx?ID=00000776533000000',
+    },
+    current_owners: [{ owner_name: 'SMITH JOHN', percentage: 100, is_primary: true }],
+    market_values: [
+        { year: 2023, total_market_value: 320000, change: null, change_pct: null },
+        { year: 2024, total_market_value: 350000, change: 30000, change_pct: 9.4 },
+    ],
+    ownership_periods: [{ owner_name: 'SMITH JOHN', start_year: 2019, end_year: 2024, int_number: '201900123456', deed_xfer_date: '2019-03-01' }],
+    exemption_periods: [{ code: 'HS', start_year: 2020, end_year: 2024 }],
+    documents: [{
+        instrument_number: '201900123456', filing_date: '2019-03-01', document_type: 'WARRANTY DEED', document_class: 'deed',
+        grantor: 'DOE MARY', grantee: 'SMITH JOHN | <SPOUSE>', book_and_page: null,
+        summary: 'Warranty deed from Mary Doe to John Smith.', document_url: 'https://dallas.tx.publicsearch.us/doc/1', parties: [],
+    }],
+};
+
+describe('dossier renderers', () => {
+    it('renders Markdown with the value trend and escaped table cells', () => {
+        const markdown = getDossierRenderer('markdown').render(dossier);
+        assert.match(markdown, /^# Property Dossier: 9920 GULF PALM DR$/m);
+        assert.match(markdown, /^\| 2024 \| \$350,000 \| \+\$30,000 \| \+9\.4% \|$/m);
+        assert.match(markdown, /^- \*\*Grantee:\*\* SMITH JOHN \\\| \\<SPOUSE\\>$/m);
+        assert.match(markdown, /\[https:\/\/dallas\.tx\.publicsearch\.us\/doc\/1\]\(<https:\/\/dallas\.tx\.publicsearch\.us\/doc\/1>\)/);
+    });
+
+    it('renders self-contained, escaped HTML', () => {
+        const html = getDossierRenderer('html').render(dossier);
+        assert.match(html, /<style>/);
+        assert.doesNotMatch(html, /<(link|script)\b/);
+        assert.match(html, /SMITH JOHN \| &lt;SPOUSE&gt;/);
+        assert.match(html, /<a href="https:\/\/dallas\.tx\.publicsearch\.us\/doc\/1">/);
+    });
+
+    it('renders the canonical JSON as built', () => {
+        assert.deepEqual(JSON.parse(getDossierRenderer('json').render(dossier)), dossier);
+    });
+});
@@ -0,0 +1,25 @@
+// src/dossier/index.ts
+
+import { htmlRenderer } from './html.js';
+import { jsonRenderer } from './json.js';
+import { markdownRenderer } from './markdown.js';
+import type { DossierFormat, DossierRenderer } from './types.js';
+
+export type * from './types.js';
+export { buildDossier, marketValueTrend } from './build.js';
+
+const renderers: Record<DossierFormat, DossierRenderer> = {
+    markdown: markdownRenderer,
+    html: htmlRenderer,
+    json: jsonRenderer,
+};
+
+export const dossierFormats = Object.keys(renderers) as DossierFormat[];
+
+export function isDossierFormat(value: string): value is DossierFormat {
+    return Object.prototype.hasOwnProperty.call(renderers, value);
+}
+
+export function getDossierRenderer(format: DossierFormat): DossierRenderer {
+    return renderers[format];
+}
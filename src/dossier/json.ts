@@ -0,0 +1,13 @@
+// src/dossier/json.ts
+
+import type { DossierRenderer } from './types.js';
+
+/**
+ * The dossier as built: fixed key order, raw numbers and ISO dates, lists oldest
+ * first. Two exports of unchanged data differ only in `generated_at`.
+ */
+export const jsonRenderer: DossierRenderer = {
+    format: 'json',
+    extension: 'json',
+    render: dossier => `${JSON.stringify(dossier, null, 2)}\n`,
+};
@@ -0,0 +1,53 @@
+// src/dossier/markdown.ts
+
+import { dossierSections, dossierTitle, type Block, type Cell, type Section } from './sections.js';
+import type { DossierRenderer } from './types.js';
+
+/** Keeps a value on one line and stops it from breaking the surrounding table or markup. */
+function inline(value: string): string {
+    return value.replace(/\s*\n\s*/g, ' ').replace(/([\\|*_`[\]<>])/g, '\\$1');
+}
+
+function cell(value: Cell): string {
+    return typeof value === 'string' ? inline(value) : `[${inline(value.text)}](<${value.href.replace(/[<>]/g, encodeURIComponent)}>)`;
+}
+
+function renderBlock(block: Block): string {
+    switch (block.kind) {
+        case 'facts':
+            return block.rows.map(([label, value]) => `- **${label}:** ${cell(value)}`).join('\n');
+        case 'table': {
+            const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+            return [
+                row(block.headers),
+                row(block.numeric.map(numeric => numeric ? '---:' : '---')),
+                ...block.rows.map(cells => row(cells.map(cell))),
+            ].join('\n');
+        }
+        case 'text':
+            return block.text.split(/\n\s*\n/).map(paragraph => inline(paragraph.trim())).join('\n\n');
+    }
+}
+
+function renderSection(section: Section, level: number): string {
+    return [
+        `${'#'.repeat(level)} ${inline(section.title)}`,
+        ...section.blocks.map(renderBlock),
+        ...(section.subsections ?? []).map(subsection => renderSection(subsection, level + 1)),
+    ].join('\n\n');
+}
+
+/** A Markdown document of titled sections; other reports built from sections, like the protest packet, render with it too. */
+export function markdownDocument(title: string, generatedAt: string, sections: Section[]): string {
+    return [
+        `# ${inline(title)}`,
+        `_Generated ${generatedAt}_`,
+        ...sections.map(section => renderSection(section, 2)),
+    ].join('\n\n') + '\n';
+}
+
+export const markdownRenderer: DossierRenderer = {
+    format: 'markdown',
+    extension: 'md',
+    render: dossier => markdownDocument(dossierTitle(dossier), dossier.generated_at, dossierSections(dossier)),
+};
@@ -0,0 +1,148 @@
+// src/dossier/sections.ts
+
+import type { Dossier } from './types.js';
+
+/** A cell or fact value: plain text, or a link. */
+export type Cell = string | { text: string; href: string };
+
+export type Block =
+    | { kind: 'facts'; rows: [string, Cell][] }
+    | { kind: 'table'; headers: string[]; rows: Cell[][]; numeric: boolean[] }
+    | { kind: 'text'; text: string };
+
+/** A titled part of the dossier; documents are subsections of theirs. */
+export interface Section {
+    title: string;
+    blocks: Block[];
+    subsections?: Section[];
+}
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+const count = new Intl.NumberFormat('en-US');
+
+const dash = '—';
+const text = (value: string | number | null | undefined) => value == null || value === '' ? dash : String(value);
+const dollars = (value: number | null) => value == null ? dash : money.format(value);
+const signed = (value: number | null, format: (value: number) => string) =>
+    value == null ? dash : `${value > 0 ? '+' : value < 0 ? '−' : ''}${format(Math.abs(value))}`;
+const years = ({ start_year, end_year }: { start_year: number; end_year: number }) =>
+    start_year === end_year ? String(start_year) : `${start_year}–${end_year}`;
+const link = (href: string | null): Cell => href ? { text: href, href } : dash;
+
+/**
+ * The dossier laid out as titled sections of facts, tables and text, so every
+ * human-readable format shows the same content in the same order.
+ */
+export function dossierSections(dossier: Dossier): Section[] {
+    const { property } = dossier;
+    const legal = [
+        property.subdivision && `Subdivision ${property.subdivision}`,
+        property.block && `Block ${property.block}`,
+        property.city_block && `City block ${property.city_block}`,
+        property.lot1 && `Lot ${property.lot1}${property.lot2 ? `–${property.lot2}` : ''}`,
+    ].filter(Boolean).join(', ');
+
+    const sections: Section[] = [{
+        title: 'Property',
+        blocks: [{
+            kind: 'facts',
+            rows: [
+                ['Account number', property.account_number],
+                ['County', text(property.county && property.county[0].toUpperCase() + property.county.slice(1))],
+                ['Address', text(property.address)],
+                ['Legal description', text(property.legal_description)],
+                ['Parsed legal', text(legal)],
+                ['Year built', text(property.year_built)],
+                ['Living area', property.living_area == null ? dash : `${count.format(property.living_area)} sq ft`],
+                ['Improvement value', dollars(property.improvement_value)],
+                ['Land value', dollars(property.land_value)],
+                ['Total market value', dollars(property.total_market_value)],
+                ['Current deed', [property.int_number, property.deed_xfer_date && `transferred ${property.deed_xfer_date}`].filter(Boolean).join(', ') || dash],
+                ['Appraisal district page', link(property.cad_url)],
+            ],
+        }],
+    }];
+
+    sections.push({
+        title: 'Current Owners',
+        blocks: dossier.current_owners.length === 0
+            ? [{ kind: 'text', text: 'No current owners on record.' }]
+            : [{
+                kind: 'table',
+                headers: ['Owner', 'Share', 'Primary'],
+                numeric: [false, true, false],
+                rows: dossier.current_owners.map(owner => [owner.owner_name, owner.percentage == null ? dash : `${owner.percentage}%`, owner.is_primary ? 'Yes' : '']),
+            }],
+    });
+
+    sections.push({
+        title: 'Market Value History',
+        blocks: dossier.market_values.length === 0
+            ? [{ kind: 'text', text: 'No market value history on record.' }]
+            : [{
+                kind: 'table',
+                headers: ['Year', 'Total market value', 'Change', 'Change %'],
+                numeric: [false, true, true, true],
+                rows: dossier.market_values.map(row => [
+                    String(row.year),
+                    dollars(row.total_market_value),
+                    signed(row.change, money.format),
+                    signed(row.change_pct, value => `${value.toFixed(1)}%`),
+                ]),
+            }],
+    });
+
+    sections.push({
+        title: 'Ownership History',
+        blocks: dossier.ownership_periods.length === 0
+            ? [{ kind: 'text', text: 'No ownership history on record.' }]
+            : [{
+                kind: 'table',
+                headers: ['Years', 'Owner', 'Deed', 'Transferred'],
+                numeric: [false, false, false, false],
+                rows: dossier.ownership_periods.map(period => [years(period), period.owner_name, text(period.int_number), text(period.deed_xfer_date)]),
+            }],
+    });
+
+    sections.push({
+        title: 'Exemptions',
+        blocks: dossier.exemption_periods.length === 0
+            ? [{ kind: 'text', text: 'No exemptions on record.' }]
+            : [{
+                kind: 'table',
+                headers: ['Years', 'Code'],
+                numeric: [false, false],
+                rows: dossier.exemption_periods.map(period => [years(period), period.code]),
+            }],
+    });
+
+    sections.push({
+        title: 'Clerk Documents',
+        blocks: dossier.documents.length === 0 ? [{ kind: 'text', text: 'No clerk documents on record.' }] : [],
+        subsections: dossier.documents.map(doc => ({
+            title: [doc.filing_date, doc.document_type ?? doc.document_class, doc.instrument_number].filter(Boolean).join(' · ') || 'Document',
+            blocks: [
+                {
+                    kind: 'facts',
+                    rows: [
+                        ['Instrument', text(doc.instrument_number)],
+                        ['Filed', text(doc.filing_date)],
+                        ['Type', [doc.document_type, doc.document_class && `(${doc.document_class})`].filter(Boolean).join(' ') || dash],
+                        ['Grantor', text(doc.grantor)],
+                        ['Grantee', text(doc.grantee)],
+                        ['Parties', doc.parties.map(party => `${party.name} (${party.role})`).join('; ') || dash],
+                        ['Book and page', text(doc.book_and_page)],
+                        ['Document', link(doc.document_url)],
+                    ],
+                },
+                { kind: 'text', text: doc.summary ?? 'No summary.' },
+            ],
+        })),
+    });
+
+    return sections;
+}
+
+export function dossierTitle(dossier: Dossier): string {
+    return `Property Dossier: ${dossier.property.address ?? dossier.property.account_number}`;
+}
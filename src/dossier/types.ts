@@ -0,0 +1,58 @@
+// src/dossier/types.ts
+
+/**
+ * Everything known about one property, in the canonical form every dossier
+ * format renders. Lists are in chronological order, oldest first.
+ */
+export interface Dossier {
+    /** Raised when a field is renamed or removed, so consumers of the JSON can tell. */
+    format_version: 1;
+    generated_at: string;
+    property: {
+        account_number: string;
+        county: string | null;
+        address: string | null;
+        legal_description: string | null;
+        subdivision: string | null;
+        block: string | null;
+        city_block: string | null;
+        lot1: string | null;
+        lot2: string | null;
+        year_built: number | null;
+        living_area: number | null;
+        improvement_value: number | null;
+        land_value: number | null;
+        total_market_value: number | null;
+        /** The deed the appraisal district lists for the current owner. */
+        int_number: string | null;
+        deed_xfer_date: string | null;
+        cad_url: string | null;
+    };
+    current_owners: { owner_name: string; percentage: number | null; is_primary: boolean }[];
+    /** One row per year on record, with the change from the previous year on record. */
+    market_values: { year: number; total_market_value: number | null; change: number | null; change_pct: number | null }[];
+    /** Runs of consecutive years per owner, with the deed listed in the first year of each run. */
+    ownership_periods: { owner_name: string; start_year: number; end_year: number; int_number: string | null; deed_xfer_date: string | null }[];
+    exemption_periods: { code: string; start_year: number; end_year: number }[];
+    documents: {
+        instrument_number: string | null;
+        filing_date: string | null;
+        document_type: string | null;
+        document_class: string | null;
+        grantor: string | null;
+        grantee: string | null;
+        book_and_page: string | null;
+        summary: string | null;
+        document_url: string | null;
+        parties: { name: string; role: string }[];
+    }[];
+}
+
+export type DossierFormat = 'markdown' | 'html' | 'json';
+
+export interface DossierRenderer {
+    format: DossierFormat;
+    /** File extension for exported dossiers, without the dot. */
+    extension: string;
+    render(dossier: Dossier): string;
+}
@@ -0,0 +1,78 @@
+// src/events/detect.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Snapshot } from '../lib/snapshot-diff.js';
+import { detectAssessmentEvents, detectDocumentEvents } from './detect.js';
+import { signPayload } from './sinks.js';
+
+const account = '00000776533000000';
+const now = new Date('2026-10-19T12:00:00Z');
+
+const previous: Snapshot = {
+    total_market_value: 300000,
+    'current_owners.SMITH JOHN & JANE': true,
+    'exemptions.HS.2020': 2024,
+    'exemptions.OV65.2022': 2024,
+};
+
+const detect = (next: Snapshot) => detectAssessmentEvents(account, 'dallas', previous, next, now);
+const types = (next: Snapshot) => detect(next).map(event => event.type);
+
+describe('detectAssessmentEvents', () => {
+    it('reports nothing for an unchanged scrape or a first scrape', () => {
+        assert.deepEqual(detect({ ...previous }), []);
+        assert.deepEqual(detectAssessmentEvents(account, 'dallas', null, { ...previous, total_market_value: 900000 }, now), []);
+    });
+
+    it('reports a transfer to other owners, but not the same owners written differently', () => {
+        const next = { ...previous };
+        delete next['current_owners.SMITH JOHN & JANE'];
+        const [event] = detect({ ...next, 'current_owners.DOE MARY': true });
+        assert.equal(event.type, 'ownership.transferred');
+        assert.deepEqual(event, {
+            id: event.id, account_number: account, county: 'dallas', occurred_at: now.toISOString(),
+            type: 'ownership.transferred', previous_owners: ['SMITH JOHN & JANE'], new_owners: ['DOE MARY'],
+        });
+        assert.deepEqual(types({ ...next, 'current_owners.SMITH JOHN ET AL': true }), []);
+    });
+
+    it('reports market value changes from the threshold up, in either direction', () => {
+        assert.deepEqual(types({ ...previous, total_market_value: 329999 }), []);
+        const [rise] = detect({ ...previous, total_market_value: 330000 });
+        assert.deepEqual(rise.type === 'market_value.changed' && [rise.previous_value, rise.new_value, rise.change_pct], [300000, 330000, 10]);
+        const [fall] = detect({ ...previous, total_market_value: 255000 });
+        assert.deepEqual(fall.type === 'market_value.changed' && fall.change_pct, -15);
+        assert.deepEqual(types({ ...previous, total_market_value: null }), []);
+    });
+
+    it('reports an exemption that lapsed once a later tax year is listed', () => {
+        const events = detect({ ...previous, 'exemptions.HS.2020': 2025 });
+        assert.deepEqual(events.map(event => event.type === 'exemption.removed' && [event.code, event.last_year]), [['OV65', 2024]]);
+        assert.deepEqual(types({ ...previous, 'exemptions.OV65.2022': 2023 }), []);
+    });
+});
+
+describe('detectDocumentEvents', () => {
+    it('reports documents whose instrument number was not stored before', () => {
+        const events = detectDocumentEvents(account, 'dallas', new Set(['202200004567']), [
+            { instrument_number: '202200004567', document_type: 'WARRANTY DEED' },
+            { instrument_number: '202600001234', document_type: 'DEED OF TRUST', filing_date: '2026-10-01', grantor: 'DOE MARY', grantee: 'FIRST BANK' },
+            { document_type: 'RELEASE' },
+        ], now);
+        assert.deepEqual(events, [{
+            id: events[0].id, account_number: account, county: 'dallas', occurred_at: now.toISOString(), type: 'document.filed',
+            instrument_number: '202600001234', document_type: 'DEED OF TRUST', filing_date: '2026-10-01', grantor: 'DOE MARY', grantee: 'FIRST BANK',
+        }]);
+        assert.deepEqual(detectDocumentEvents(account, 'dallas', new Set(['202600001234']), [{ instrument_number: '202600001234' }], now), []);
+    });
+});
+
+describe('signPayload', () => {
+    it('signs the timestamp and body with HMAC-SHA256', () => {
+        const body = '{"type":"document.filed"}';
+        assert.equal(signPayload('whsec_test', '1760875200', body), 'sha256=c01f44925405d090e4b3f35c49466484b61e5e3ed1aa385f156eb16544f20e79');
+        assert.notEqual(signPayload('whsec_test', '1760875201', body), signPayload('whsec_test', '1760875200', body));
+        assert.notEqual(signPayload('whsec_other', '1760875200', body), signPayload('whsec_test', '1760875200', body));
+    });
+});
@@ -0,0 +1,83 @@
+// src/events/detect.ts
+
+import { randomUUID } from 'node:crypto';
+import type { County } from '../counties/types.js';
+import type { DocumentRecord } from '../lib/assessment-records.js';
+import { ownerEntityKey } from '../lib/owner-resolution.js';
+import { snapshotSection, type Snapshot } from '../lib/snapshot-diff.js';
+import type { PropertyEvent } from './types.js';
+
+/** Market value changes smaller than this percentage don't produce an event. */
+const DEFAULT_VALUE_THRESHOLD_PCT = 10;
+
+function valueThresholdPct(): number {
+    const configured = Number(process.env.EVENT_MARKET_VALUE_THRESHOLD_PCT);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_VALUE_THRESHOLD_PCT;
+}
+
+/** Exemption codes that applied in the most recent tax year of the snapshot, and that year. */
+function currentExemptions(snapshot: Snapshot): { year: number | null; codes: Set<string> } {
+    const ranges = [...snapshotSection(snapshot, 'exemptions')].map(([path, endYear]) => ({ code: path.split('.')[0], endYear: Number(endYear) }));
+    if (ranges.length === 0) return { year: null, codes: new Set() };
+    const year = Math.max(...ranges.map(range => range.endYear));
+    return { year, codes: new Set(ranges.filter(range => range.endYear === year).map(range => range.code)) };
+}
+
+/**
+ * Compares a property's previous snapshot with the one just scraped and returns
+ * ownership, market value and exemption events. A first scrape (no previous
+ * snapshot) produces no events.
+ */
+export function detectAssessmentEvents(accountNumber: string, county: County, previous: Snapshot | null, next: Snapshot, now = new Date()): PropertyEvent[] {
+    if (!previous) return [];
+    const base = () => ({ id: randomUUID(), account_number: accountNumber, county, occurred_at: now.toISOString() });
+    const events: PropertyEvent[] = [];
+
+    const previousOwners = [...snapshotSection(previous, 'current_owners').keys()].sort();
+    const newOwners = [...snapshotSection(next, 'current_owners').keys()].sort();
+    // Owners are compared by canonical owner, so "SMITH JOHN & JANE" becoming "SMITH JOHN ET AL" isn't a transfer.
+    const canonical = (names: string[]) => [...new Set(names.map(name => ownerEntityKey(name)))].sort().join('|');
+    if (previousOwners.length > 0 && newOwners.length > 0 && canonical(previousOwners) !== canonical(newOwners)) {
+        events.push({ ...base(), type: 'ownership.transferred', previous_owners: previousOwners, new_owners: newOwners });
+    }
+
+    const previousValue = previous.total_market_value;
+    const newValue = next.total_market_value;
+    if (typeof previousValue === 'number' && typeof newValue === 'number' && previousValue > 0) {
+        const changePct = (newValue - previousValue) / previousValue * 100;
+        if (Math.abs(changePct) >= valueThresholdPct()) {
+            events.push({ ...base(), type: 'market_value.changed', previous_value: previousValue, new_value: newValue, change_pct: Math.round(changePct * 100) / 100 });
+        }
+    }
+
+    const before = currentExemptions(previous);
+    const after = currentExemptions(next);
+    // Only compare once the new scrape covers a later tax year; until then nothing has lapsed.
+    if (before.year !== null && after.year !== null && after.year > before.year) {
+        for (const code of before.codes) {
+            if (!after.codes.has(code)) events.push({ ...base(), type: 'exemption.removed', code, last_year: before.year });
+        }
+    }
+    return events;
+}
+
+/**
+ * Returns a `document.filed` event for every crawled document whose instrument
+ * number wasn't stored for the account before.
+ */
+export function detectDocumentEvents(accountNumber: string, county: County, knownInstruments: Set<string>, documents: Partial<DocumentRecord>[], now = new Date()): PropertyEvent[] {
+    return documents
+        .filter(doc => doc.instrument_number && !knownInstruments.has(doc.instrument_number))
+        .map(doc => ({
+            id: randomUUID(),
+            account_number: accountNumber,
+            county,
+            occurred_at: now.toISOString(),
+            type: 'document.filed',
+            instrument_number: doc.instrument_number!,
+            document_type: doc.document_type ?? null,
+            filing_date: doc.filing_date ?? null,
+            grantor: doc.grantor ?? null,
+            grantee: doc.grantee ?? null,
+        }));
+}
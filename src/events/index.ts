@@ -0,0 +1,56 @@
+// src/events/index.ts
+
+import { supabase } from '../db/client.js';
+import { createEventSinksFromEnv } from './sinks.js';
+import type { EventSink, PropertyEvent, PropertyEventType } from './types.js';
+
+export type * from './types.js';
+export { detectAssessmentEvents, detectDocumentEvents } from './detect.js';
+
+let sinks: EventSink[] | null = null;
+
+/**
+ * The watchlist entry for an account, or null if the account isn't watched. A
+ * null `event_types` means every event type is wanted.
+ */
+export async function getWatch(accountNumber: string): Promise<{ event_types: PropertyEventType[] | null } | null> {
+    const { data, error } = await supabase
+        .from('watched_properties')
+        .select('event_types')
+        .eq('property_account_number', accountNumber)
+        .maybeSingle<{ event_types: PropertyEventType[] | null }>();
+    if (error) throw new Error(`Failed to read the watchlist: ${error.message}`);
+    return data;
+}
+
+/**
+ * Delivers the events of a watched account to every configured sink. Delivery
+ * failures are logged rather than thrown: the data they describe is already saved,
+ * and failing the stage would re-scrape without re-detecting the change.
+ */
+export async function publishEvents(accountNumber: string, events: PropertyEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    sinks ??= createEventSinksFromEnv();
+    if (sinks.length === 0) return;
+
+    let watch;
+    try {
+        watch = await getWatch(accountNumber);
+    } catch (error) {
+        console.error((error as Error).message);
+        return;
+    }
+    if (!watch) return;
+
+    const wanted = events.filter(event => !watch.event_types || watch.event_types.includes(event.type));
+    for (const event of wanted) {
+        for (const sink of sinks) {
+            try {
+                await sink.deliver(event);
+                console.log(`Delivered ${event.type} for ${accountNumber} to ${sink.name}.`);
+            } catch (error) {
+                console.error(`Failed to deliver ${event.type} (${event.id}) to ${sink.name}:`, (error as Error).message);
+            }
+        }
+    }
+}
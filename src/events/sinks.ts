@@ -0,0 +1,76 @@
+// src/events/sinks.ts
+
+import { createHmac } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import { isTransientError, withRetry } from '../lib/retry.js';
+import type { EventSink, PropertyEvent } from './types.js';
+
+class WebhookError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'WebhookError';
+    }
+}
+
+/**
+ * Signs `${timestamp}.${body}` with HMAC-SHA256. Receivers recompute it from the
+ * `X-Signature-Timestamp` header and the raw body, and compare it with `X-Signature-256`.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POSTs each event as JSON. Network errors, 429s and 5xx responses are retried
+ * with backoff; other 4xx responses are not.
+ */
+export function createWebhookSink(url: string, secret: string | undefined): EventSink {
+    return {
+        name: `webhook ${new URL(url).host}`,
+        async deliver(event) {
+            const body = JSON.stringify(event);
+            await withRetry(async () => {
+                const timestamp = Math.floor(Date.now() / 1000).toString();
+                const headers: Record<string, string> = {
+                    'Content-Type': 'application/json',
+                    'X-Event-Id': event.id,
+                    'X-Event-Type': event.type,
+                    'X-Signature-Timestamp': timestamp,
+                };
+                if (secret) headers['X-Signature-256'] = signPayload(secret, timestamp, body);
+                const response = await fetch(url, { method: 'POST', headers, body });
+                if (!response.ok) throw new WebhookError(`Webhook responded with ${response.status}`, response.status);
+            }, {
+                attempts: 5,
+                baseDelayMs: 1000,
+                maxDelayMs: 30000,
+                isRetryable: error => error instanceof WebhookError ? error.status === 429 || error.status >= 500 : isTransientError(error),
+            });
+        },
+    };
+}
+
+/** Appends each event as one JSON line; meant for local testing. */
+export function createJsonLinesSink(path: string): EventSink {
+    return {
+        name: `file ${path}`,
+        async deliver(event: PropertyEvent) {
+            await appendFile(path, `${JSON.stringify(event)}\n`);
+        },
+    };
+}
+
+/**
+ * Builds the sinks configured in the environment: `WEBHOOK_URLS` (comma-separated)
+ * signed with `WEBHOOK_SECRET`, and `EVENTS_FILE` for a local JSON-lines file.
+ */
+export function createEventSinksFromEnv(): EventSink[] {
+    const sinks: EventSink[] = [];
+    const urls = (process.env.WEBHOOK_URLS ?? '').split(',').map(url => url.trim()).filter(Boolean);
+    if (urls.length > 0 && !process.env.WEBHOOK_SECRET) {
+        console.warn('WEBHOOK_SECRET is not set; webhook deliveries will not be signed.');
+    }
+    for (const url of urls) sinks.push(createWebhookSink(url, process.env.WEBHOOK_SECRET));
+    if (process.env.EVENTS_FILE) sinks.push(createJsonLinesSink(process.env.EVENTS_FILE));
+    return sinks;
+}
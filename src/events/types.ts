@@ -0,0 +1,50 @@
+// src/events/types.ts
+
+import type { County } from '../counties/types.js';
+
+interface BaseEvent {
+    /** Unique per event; receivers can use it to drop duplicate deliveries. */
+    id: string;
+    account_number: string;
+    county: County;
+    occurred_at: string;
+}
+
+export interface OwnershipTransferredEvent extends BaseEvent {
+    type: 'ownership.transferred';
+    previous_owners: string[];
+    new_owners: string[];
+}
+
+export interface DocumentFiledEvent extends BaseEvent {
+    type: 'document.filed';
+    instrument_number: string;
+    document_type: string | null;
+    filing_date: string | null;
+    grantor: string | null;
+    grantee: string | null;
+}
+
+export interface MarketValueChangedEvent extends BaseEvent {
+    type: 'market_value.changed';
+    previous_value: number;
+    new_value: number;
+    /** Signed percentage change, e.g. 12.5 or -8. */
+    change_pct: number;
+}
+
+export interface ExemptionRemovedEvent extends BaseEvent {
+    type: 'exemption.removed';
+    code: string;
+    /** The last tax year the exemption applied. */
+    last_year: number;
+}
+
+export type PropertyEvent = OwnershipTransferredEvent | DocumentFiledEvent | MarketValueChangedEvent | ExemptionRemovedEvent;
+export type PropertyEventType = PropertyEvent['type'];
+
+/** Somewhere events are delivered to. */
+export interface EventSink {
+    name: string;
+    deliver(event: PropertyEvent): Promise<void>;
+}
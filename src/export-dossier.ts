@@ -0,0 +1,108 @@
+// src/export-dossier.ts
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseCsv } from './cli/targets.js';
+import { loadProperty } from './db/properties.js';
+import { buildDossier, dossierFormats, getDossierRenderer, isDossierFormat, type DossierFormat } from './dossier/index.js';
+
+const usage = `Usage: npm run dossier -- <account number>... [options]
+
+Options:
+  --accounts <file>               Also export the accounts listed in a file: one per line, or a CSV with an account_number column
+  --format <${dossierFormats.join(',')}>  Comma-separated formats (default: markdown)
+  --out <dir>                     Write <account>.<ext> files to this directory (default: dossiers)
+  -h, --help                      Show this help
+
+A single account in a single format is printed unless --out is given.`;
+
+/** Account numbers from a file: a CSV's account_number (or account) column, otherwise one per line; '#' starts a comment. */
+async function readAccountList(path: string): Promise<string[]> {
+    const contents = await readFile(path, 'utf8');
+    if (extname(path).toLowerCase() === '.csv') {
+        return parseCsv(contents).map((row, index) => {
+            const columns = new Map(Object.entries(row).map(([key, value]) => [key.replace(/[_\s-]/g, '').toLowerCase(), String(value).trim()]));
+            const account = columns.get('accountnumber') || columns.get('account');
+            if (!account) throw new Error(`${path} row ${index + 1}: no account_number`);
+            return account;
+        });
+    }
+    return contents.split(/\r?\n/).map(line => line.replace(/#.*/, '').trim()).filter(Boolean);
+}
+
+/**
+ * Renders the dossier of each account: property facts, market value trend,
+ * ownership and exemption periods, and clerk documents.
+ */
+async function main() {
+    let values: { accounts?: string; format?: string; out?: string; help?: boolean };
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args: process.argv.slice(2),
+            allowPositionals: true,
+            options: {
+                accounts: { type: 'string' },
+                format: { type: 'string', default: 'markdown' },
+                out: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }));
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (values.help) {
+        console.log(usage);
+        return;
+    }
+
+    const formats = (values.format ?? 'markdown').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const unknown = formats.filter(name => !isDossierFormat(name));
+    const accounts = [...new Set([...positionals, ...(values.accounts ? await readAccountList(values.accounts) : [])])];
+    if (unknown.length > 0 || formats.length === 0 || accounts.length === 0) {
+        console.error(`${unknown.length > 0 ? `Unknown format ${unknown.join(', ')}.` : 'Give at least one account number and format.'}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    const renderers = (formats as DossierFormat[]).map(getDossierRenderer);
+
+    if (accounts.length === 1 && renderers.length === 1 && !values.out) {
+        const detail = await loadProperty(accounts[0]);
+        if (!detail) {
+            console.error(`Property ${accounts[0]} is not stored; scrape it first.`);
+            process.exitCode = 1;
+            return;
+        }
+        process.stdout.write(renderers[0].render(buildDossier(detail)));
+        return;
+    }
+
+    const dir = values.out ?? 'dossiers';
+    await mkdir(dir, { recursive: true });
+    const failed: string[] = [];
+    for (const account of accounts) {
+        try {
+            const detail = await loadProperty(account);
+            if (!detail) throw new Error('not stored; scrape it first');
+            const dossier = buildDossier(detail);
+            for (const renderer of renderers) {
+                const file = join(dir, `${account.replace(/[^\w.-]/g, '_')}.${renderer.extension}`);
+                await writeFile(file, renderer.render(dossier));
+                console.log(`Wrote ${file}`);
+            }
+        } catch (error) {
+            console.error(`Skipping ${account}: ${(error as Error).message}`);
+            failed.push(account);
+        }
+    }
+    console.log(`${accounts.length} accounts: ${accounts.length - failed.length} exported, ${failed.length} failed${failed.length ? ` (${failed.join(', ')})` : ''}.`);
+    if (failed.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+    console.error('Dossier export failed:', (error as Error).message);
+    process.exitCode = 1;
+});
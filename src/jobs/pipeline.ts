@@ -0,0 +1,402 @@
+// src/jobs/pipeline.ts
+
+import { archiveDocument, getDocumentArchive, readArchivedPages } from '../archive/index.js';
+import { targetLabel, targetLookup, type ScrapeTarget } from '../cli/targets.js';
+import { getCountyAdapter, scrapeAssessment, scrapeClerkDocuments, type AssessmentData, type CapturedDocument, type ClerkCrawl, type ClerkDocument, type ClerkQuery, type CountyAdapter } from '../counties/index.js';
+import { loadClerkCrawlState, recordClerkCrawl } from '../db/crawls.js';
+import { loadKnownInstruments, loadLatestSnapshot } from '../db/history.js';
+import { quarantineRecord, quarantineRecords } from '../db/quarantine.js';
+import { loadStoredProperty } from '../db/save.js';
+import { refreshTitleReport } from '../db/title.js';
+import { detectAssessmentEvents, detectDocumentEvents, publishEvents } from '../events/index.js';
+import { addUsage, getDocumentAI, NO_USAGE, type TokenUsage } from '../document-ai/index.js';
+import { buildAssessmentRecords, buildDocumentRecords } from '../lib/assessment-records.js';
+import { planClerkCrawl } from '../lib/clerk-crawl.js';
+import { processDocumentText, toClerkDocument } from '../lib/document-processing.js';
+import { legalFromColumns, parseLegalDescription } from '../lib/legal-description.js';
+import { withRetry } from '../lib/retry.js';
+import { buildAssessmentSnapshot } from '../lib/snapshot-diff.js';
+import { describeIssues, validateAssessment, validateDocument } from '../lib/validation.js';
+import { saveAssessmentToAll, saveDocumentsToAll, type OutputTarget } from '../outputs/index.js';
+import { updateTask } from './run-store.js';
+import { TASK_STAGES, type RunOptions, type ScrapeTask, type StageOutput, type TaskStage, type TargetSummary } from './types.js';
+
+const RETRY = { attempts: 4, baseDelayMs: 5000, maxDelayMs: 60000 };
+
+/** Everything later stages need from earlier ones, rebuilt from task outputs on resume. */
+interface StageContext {
+    runId?: number;
+    target: ScrapeTarget;
+    adapter: CountyAdapter;
+    outputs: OutputTarget[];
+    /** Search every date and capture every instrument, even ones processed before. */
+    fullClerk: boolean;
+    assessment?: AssessmentData;
+    accountNumber?: string;
+    /** Set once the assessment failed validation; nothing more is scraped or saved for the target. */
+    quarantined?: boolean;
+    /** Null once the legal description proved insufficient for a clerk search. */
+    clerkQuery?: ClerkQuery | null;
+    /** What the clerk stage searched and skipped; undefined for a full crawl. */
+    crawl?: ClerkCrawl;
+    /** When the clerk search started, recorded as the last crawl once the documents are saved. */
+    crawledAt?: string;
+    /** Document metadata from the clerk stage, without images. */
+    documents?: Omit<CapturedDocument, 'images'>[];
+    /** Captured images only live in memory; a resumed OCR stage reads them back from the archive, or captures again. */
+    captured?: CapturedDocument[];
+    texts?: (string | null)[];
+    /** The summary stage's processed documents, kept for its retries. */
+    processed?: ClerkDocument[];
+    /** Document-AI usage per document, summed over the OCR and summary stages. */
+    usage?: TokenUsage[];
+    documentCount?: number;
+}
+
+type StageOutcome = ({ status: 'succeeded' } & StageOutput) | { status: 'skipped'; reason: string; output?: Record<string, unknown> };
+
+/**
+ * Runs a target's outstanding tasks in stage order, persisting each task's status,
+ * attempt count, last error and output. Tasks that already succeeded are not re-run;
+ * their outputs are loaded instead. Stops at the first task that fails after retries,
+ * leaving the later tasks pending so the run can be resumed.
+ */
+export async function runTargetTasks(target: ScrapeTarget, tasks: ScrapeTask[], outputs: OutputTarget[], options: Pick<RunOptions, 'fullClerk'> = {}): Promise<TargetSummary> {
+    const label = targetLabel(target);
+    const context: StageContext = { runId: tasks[0]?.run_id, target, adapter: getCountyAdapter(target.county), outputs, fullClerk: options.fullClerk ?? false };
+    const ordered = [...tasks].sort((a, b) => TASK_STAGES.indexOf(a.stage) - TASK_STAGES.indexOf(b.stage));
+
+    for (const task of ordered) {
+        if (task.status === 'succeeded') {
+            // Stored by this stage when it succeeded, so it has the stage's output shape.
+            if (task.output) restoreOutput(context, { stage: task.stage, output: task.output } as StageOutput);
+            continue;
+        }
+        if (task.status === 'skipped') {
+            if ((task.output as { quarantineId?: number } | null)?.quarantineId) context.quarantined = true;
+            continue;
+        }
+
+        const skip = context.quarantined ? 'The assessment is quarantined.' : context.clerkQuery === null ? 'No clerk query.' : null;
+        if (skip) {
+            const unrecorded = await recordTask(task, { status: 'skipped', output: { reason: skip }, finished_at: new Date().toISOString() });
+            if (unrecorded) return { label, status: 'failed', accountNumber: context.accountNumber, message: `${task.stage} skipped, but ${unrecorded}` };
+            continue;
+        }
+
+        console.log(`--- ${label}: ${task.stage} stage ---`);
+        const unstarted = await recordTask(task, { status: 'running', started_at: new Date().toISOString(), last_error: null });
+        if (unstarted) return { label, status: 'failed', accountNumber: context.accountNumber, message: `${task.stage} did not start: ${unstarted}` };
+        let outcome: StageOutcome;
+        try {
+            outcome = await withRetry(() => runStage(task.stage, context), {
+                ...RETRY,
+                onAttempt: async () => { await recordTask(task, { attempts: task.attempts + 1 }); },
+                onRetry: (error, attempt, delayMs) =>
+                    console.warn(`${label}: ${task.stage} attempt ${attempt} failed (${(error as Error).message}); retrying in ${Math.round(delayMs / 1000)}s.`),
+            });
+        } catch (error) {
+            const message = (error as Error).message;
+            console.error(`${label}: ${task.stage} stage failed:`, message);
+            await recordTask(task, { status: 'failed', last_error: message, finished_at: new Date().toISOString() });
+            return { label, status: 'failed', accountNumber: context.accountNumber, message: `${task.stage} failed: ${message}` };
+        }
+
+        // The stage's work is done; failing to record it leaves the task to be run again on resume.
+        if (outcome.status === 'skipped') console.log(`${label}: skipping ${task.stage} stage: ${outcome.reason}`);
+        const unrecorded = outcome.status === 'skipped'
+            ? await recordTask(task, { status: 'skipped', output: { ...outcome.output, reason: outcome.reason }, finished_at: new Date().toISOString() })
+            : await recordTask(task, { status: 'succeeded', output: outcome.output, finished_at: new Date().toISOString() });
+        if (unrecorded) return { label, status: 'failed', accountNumber: context.accountNumber, message: `${task.stage} ran, but ${unrecorded}` };
+    }
+
+    const skipped = ordered.find(task => task.status === 'skipped');
+    const reason = (skipped?.output as { reason?: string } | null)?.reason;
+    return {
+        label,
+        status: ordered.length > 0 && ordered.every(task => task.status === 'skipped') ? 'skipped' : 'succeeded',
+        accountNumber: context.accountNumber,
+        documents: context.documentCount ?? context.documents?.length,
+        message: skipped ? `${skipped.stage} stage skipped${reason ? `: ${reason}` : ''}` : undefined,
+    };
+}
+
+/**
+ * Saves a task's status, attempts or output. The run store is bookkeeping, not
+ * part of the stage, so a failure to write it is logged and returned, never thrown.
+ */
+async function recordTask(task: ScrapeTask, patch: Parameters<typeof updateTask>[1]): Promise<string | null> {
+    try {
+        await updateTask(task, patch);
+        return null;
+    } catch (error) {
+        const message = `its ${patch.status ?? 'progress'} status was not recorded: ${(error as Error).message}`;
+        console.error(`Task ${task.id} (${task.stage}): ${message}`);
+        return message;
+    }
+}
+
+async function runStage(stage: TaskStage, context: StageContext): Promise<StageOutcome> {
+    switch (stage) {
+        case 'assessment': {
+            const result = await scrapeAssessment(context.adapter, targetLookup(context.target));
+            if (!result.success) throw new Error(`Assessment scraping failed: ${result.error}`);
+            context.assessment = result.data;
+            context.accountNumber = result.data.accountNumber;
+            return { status: 'succeeded', stage, output: result.data };
+        }
+        case 'save': {
+            if (!context.assessment) throw new Error('No assessment data to save.');
+            const issues = validateAssessment(context.assessment, context.adapter);
+            if (issues.length > 0) {
+                const id = await quarantineRecord({
+                    kind: 'assessment',
+                    county: context.target.county,
+                    property_account_number: context.accountNumber ?? null,
+                    instrument_number: null,
+                    run_id: context.runId ?? null,
+                    reasons: issues,
+                    payload: context.assessment,
+                });
+                console.warn(`Quarantined the assessment as record ${id}: ${describeIssues(issues)}`);
+                context.quarantined = true;
+                return { status: 'skipped', reason: `Quarantined as record ${id}.`, output: { quarantineId: id } };
+            }
+            const legal = parseLegalDescription(context.assessment.legalDescription);
+            const previous = await readHistory(context, () => loadLatestSnapshot(context.accountNumber!));
+            const { error } = await saveAssessmentToAll(context.outputs, context.assessment, legal);
+            if (error) throw new Error(`Failed to save assessment data: ${error.message}`);
+            if (previous !== undefined) {
+                const snapshot = buildAssessmentSnapshot(buildAssessmentRecords(context.assessment, legal));
+                await publishEvents(context.accountNumber!, detectAssessmentEvents(context.accountNumber!, context.target.county, previous, snapshot));
+            }
+            return { status: 'succeeded', stage, output: { accountNumber: context.accountNumber } };
+        }
+        case 'clerk': {
+            const resolved = await resolveClerkQuery(context);
+            if (!resolved) return { status: 'skipped', reason: 'Missing required legal description data.' };
+            context.crawledAt = new Date().toISOString();
+            context.crawl = await planCrawl(context);
+            const captured = await captureDocuments(context);
+            const documents = captured.map(({ images, ...metadata }) => metadata);
+            const crawl = context.crawl && { since: context.crawl.since?.toISOString() ?? null, skip: [...context.crawl.skip] };
+            return { status: 'succeeded', stage, output: { accountNumber: context.accountNumber, clerkQuery: context.clerkQuery!, documents, crawledAt: context.crawledAt, crawl } };
+        }
+        case 'ocr': {
+            if (!context.captured && !await loadArchivedDocuments(context)) {
+                console.log('Captured pages from an earlier process are gone and not all archived; capturing the documents again.');
+                await captureDocuments(context);
+            }
+            const ai = getDocumentAI();
+            const texts: (string | null)[] = [];
+            const usage: TokenUsage[] = [];
+            for (const doc of context.captured!) {
+                if (doc.images.length === 0) {
+                    texts.push(null);
+                    usage.push(NO_USAGE);
+                    continue;
+                }
+                const result = await ai.ocr(doc.images);
+                // Rate limits and outages have already been retried; fail the stage so it can be resumed.
+                if (!result.success && result.error.retryable) throw result.error;
+                if (!result.success) console.error(`Failed to read the text of ${doc.instrument_number} (${result.error.kind}):`, result.error.message);
+                texts.push(result.success ? result.data : null);
+                usage.push(result.usage);
+            }
+            context.texts = texts;
+            context.usage = usage;
+            // The documents are saved again because a re-capture may have found a different list.
+            return { status: 'succeeded', stage, output: { documents: context.documents, texts, usage } };
+        }
+        case 'summary': {
+            const documents = context.documents ?? [];
+            const texts = context.texts ?? [];
+            // Kept across attempts, so a retried save or quarantine doesn't pay for the AI calls again.
+            if (!context.processed) {
+                const processed = [];
+                for (const [index, doc] of documents.entries()) {
+                    const text = texts[index];
+                    const result = text ? await processDocumentText(doc, text) : { usage: NO_USAGE };
+                    processed.push(toClerkDocument({ ...doc, images: [] }, { ...result, usage: addUsage(context.usage?.[index] ?? NO_USAGE, result.usage) }));
+                }
+                context.processed = processed;
+            }
+            const processed = context.processed;
+            const rejected = processed.map(doc => validateDocument(doc));
+            const valid = processed.filter((doc, index) => rejected[index].length === 0);
+            if (valid.length > 0) {
+                const known = await readHistory(context, () => loadKnownInstruments(context.accountNumber!));
+                const { error } = await saveDocumentsToAll(context.outputs, context.accountNumber!, valid);
+                if (error) throw new Error(`Failed to save clerk data: ${error.message}`);
+                if (known !== undefined) {
+                    await publishEvents(context.accountNumber!, detectDocumentEvents(context.accountNumber!, context.target.county, known, buildDocumentRecords(valid)));
+                }
+                await updateTitleReport(context);
+            }
+            // Quarantined after the save and in one insert, so a retry never quarantines a document twice.
+            const invalid = processed.flatMap((doc, index) => rejected[index].length > 0 ? [{ doc, issues: rejected[index] }] : []);
+            const quarantined = await quarantineRecords(invalid.map(({ doc, issues }) => ({
+                kind: 'document' as const,
+                county: context.target.county,
+                property_account_number: context.accountNumber ?? null,
+                instrument_number: doc.instrument_number ?? null,
+                run_id: context.runId ?? null,
+                reasons: issues,
+                payload: doc,
+            })));
+            for (const [index, { doc, issues }] of invalid.entries()) {
+                console.warn(`Quarantined ${doc.instrument_number ?? 'a document'} as record ${quarantined[index]}: ${describeIssues(issues)}`);
+            }
+            await recordCrawl(context);
+            context.documentCount = valid.length;
+            const usage = processed.map(doc => ({ instrument_number: doc.instrument_number, ...doc.usage }));
+            return { status: 'succeeded', stage, output: { documents: valid.length, quarantined, usage } };
+        }
+    }
+}
+
+/**
+ * Finds the clerk query for the target: from this run's assessment if it ran,
+ * otherwise from the property saved by an earlier run. Returns false (and records a
+ * null query, so the later clerk stages are skipped) when the legal description is insufficient.
+ */
+async function resolveClerkQuery(context: StageContext): Promise<boolean> {
+    if (context.clerkQuery) return true;
+    if (context.assessment) {
+        context.clerkQuery = context.adapter.buildClerkQuery(parseLegalDescription(context.assessment.legalDescription));
+    } else {
+        const stored = await loadStoredProperty(context.target);
+        if (!stored) throw new Error('Property not found in the database; run the assessment stage first.');
+        context.accountNumber = stored.account_number;
+        context.clerkQuery = context.adapter.buildClerkQuery(legalFromColumns(stored));
+    }
+    return context.clerkQuery !== null;
+}
+
+/**
+ * Reads the stored history that change events (or an incremental crawl) are based
+ * on. It lives in Supabase, so this returns undefined (no events, a full crawl)
+ * when Supabase isn't an output or the read fails; neither should fail the stage.
+ */
+async function readHistory<T>(context: StageContext, read: () => Promise<T>, skipping = 'change events'): Promise<T | undefined> {
+    if (!context.accountNumber || !context.outputs.some(output => output.name === 'supabase')) return undefined;
+    try {
+        return await read();
+    } catch (error) {
+        console.error(`Skipping ${skipping}: ${(error as Error).message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Narrows the clerk search to what earlier crawls of the account left undone,
+ * unless the run asked for a full crawl.
+ */
+async function planCrawl(context: StageContext): Promise<ClerkCrawl | undefined> {
+    if (context.fullClerk) return undefined;
+    const state = await readHistory(context, () => loadClerkCrawlState(context.accountNumber!), 'the incremental crawl');
+    if (!state) return undefined;
+    const crawl = planClerkCrawl(state.lastCrawledAt, state.documents);
+    const window = crawl.since ? `documents recorded since ${crawl.since.toISOString().slice(0, 10)}` : 'the full date range';
+    console.log(`Searching ${window}; skipping ${crawl.skip.size} instruments processed before.`);
+    return crawl;
+}
+
+/**
+ * Records the crawl once its documents are saved, so the next one can start
+ * from it. A failure is logged: it only makes the next crawl search further back.
+ */
+async function recordCrawl(context: StageContext) {
+    if (!context.crawledAt || !context.accountNumber || !context.outputs.some(output => output.name === 'supabase')) return;
+    try {
+        await recordClerkCrawl(context.accountNumber, context.crawledAt, !context.crawl?.since);
+    } catch (error) {
+        console.error(`Not recording the clerk crawl: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Rebuilds the chain-of-title report from the stored documents and history. Like
+ * change events it needs Supabase, and a failure is logged without failing the stage.
+ */
+async function updateTitleReport(context: StageContext) {
+    if (!context.outputs.some(output => output.name === 'supabase')) return;
+    try {
+        const report = await refreshTitleReport(context.accountNumber!);
+        console.log(`Title report: ${report.chain.length} conveyances, ${report.issues.length} issues, ${report.open_encumbrances} open encumbrances.`);
+    } catch (error) {
+        console.error(`Skipping the title report: ${(error as Error).message}`);
+    }
+}
+
+async function captureDocuments(context: StageContext): Promise<CapturedDocument[]> {
+    const result = await scrapeClerkDocuments(context.adapter, context.clerkQuery!, context.crawl);
+    if (!result.success) throw new Error(`Clerk scraping failed: ${result.error}`);
+    await archiveDocuments(context, result.data);
+    context.captured = result.data;
+    context.documents = result.data.map(({ images, ...metadata }) => metadata);
+    return result.data;
+}
+
+/**
+ * Stores each captured document's pages as a PDF and records the key and page
+ * count on it. A failure is logged: the pages are still OCR'd from memory.
+ */
+async function archiveDocuments(context: StageContext, documents: CapturedDocument[]) {
+    const archive = getDocumentArchive();
+    if (!archive) return;
+    for (const doc of documents) {
+        try {
+            const archived = await archiveDocument(archive, context.target.county, doc);
+            if (archived) Object.assign(doc, archived);
+        } catch (error) {
+            console.error(`Failed to archive ${doc.instrument_number}: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Rebuilds the captured documents of an earlier process from the archive. Returns
+ * false, leaving the context as it was, unless every document was archived.
+ */
+async function loadArchivedDocuments(context: StageContext): Promise<boolean> {
+    const archive = getDocumentArchive();
+    if (!archive || !context.documents) return false;
+    const captured: CapturedDocument[] = [];
+    for (const doc of context.documents) {
+        if (!doc.archive_key) return false;
+        const images = await readArchivedPages(archive, doc.archive_key);
+        if (!images) return false;
+        captured.push({ ...doc, images });
+    }
+    console.log(`Read the pages of ${captured.length} documents from the archive.`);
+    context.captured = captured;
+    return true;
+}
+
+function restoreOutput(context: StageContext, { stage, output }: StageOutput) {
+    switch (stage) {
+        case 'assessment':
+            context.assessment = output;
+            context.accountNumber = output.accountNumber;
+            break;
+        case 'save':
+            context.accountNumber = output.accountNumber ?? context.accountNumber;
+            break;
+        case 'clerk':
+            context.accountNumber = output.accountNumber ?? context.accountNumber;
+            context.clerkQuery = output.clerkQuery;
+            context.documents = output.documents;
+            context.crawledAt = output.crawledAt;
+            context.crawl = output.crawl && { since: output.crawl.since ? new Date(output.crawl.since) : null, skip: new Set(output.crawl.skip) };
+            break;
+        case 'ocr':
+            context.documents = output.documents ?? context.documents;
+            context.texts = output.texts;
+            context.usage = output.usage;
+            break;
+        case 'summary':
+            context.documentCount = output.documents;
+            break;
+    }
+}
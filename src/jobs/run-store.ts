@@ -0,0 +1,93 @@
+// src/jobs/run-store.ts
+
+import type { ScrapeTarget } from '../cli/targets.js';
+import { supabase } from '../db/client.js';
+import { asJson } from '../db/rows.js';
+import { stagesFor, type RunOptions, type RunStatus, type ScrapeRun, type ScrapeTask } from './types.js';
+
+type TaskPatch = Partial<Pick<ScrapeTask, 'status' | 'attempts' | 'last_error' | 'output' | 'started_at' | 'finished_at'>>;
+
+/**
+ * Creates a run with one pending task per target per stage. Runs queued through
+ * the HTTP API have no targets file.
+ */
+export async function createRun(options: RunOptions, targetsFile: string | null, targets: ScrapeTarget[]): Promise<{ run: ScrapeRun; tasks: ScrapeTask[] }> {
+    const { data: run, error: runError } = await supabase
+        .from('scrape_runs')
+        .insert({ options: asJson(options), targets_file: targetsFile })
+        .select()
+        .single<ScrapeRun>();
+    if (runError) throw new Error(`Failed to create scrape run: ${runError.message}`);
+
+    const taskRecords = targets.flatMap((target, target_index) =>
+        stagesFor(options.stage).map(stage => ({ run_id: run.id, target_index, target: asJson(target), stage })));
+    if (taskRecords.length === 0) return { run, tasks: [] };
+
+    const { data: tasks, error: taskError } = await supabase
+        .from('scrape_tasks')
+        .insert(taskRecords)
+        .select()
+        .returns<ScrapeTask[]>();
+    if (taskError) throw new Error(`Failed to create scrape tasks: ${taskError.message}`);
+    return { run, tasks: tasks ?? [] };
+}
+
+export async function loadRun(runId: number): Promise<{ run: ScrapeRun; tasks: ScrapeTask[] }> {
+    const found = await findRun(runId);
+    if (!found) throw new Error(`Scrape run ${runId} does not exist.`);
+    return found;
+}
+
+/** The run and its tasks, or null when there is no such run. */
+export async function findRun(runId: number): Promise<{ run: ScrapeRun; tasks: ScrapeTask[] } | null> {
+    const { data: run, error: runError } = await supabase
+        .from('scrape_runs')
+        .select()
+        .eq('id', runId)
+        .maybeSingle<ScrapeRun>();
+    if (runError) throw new Error(`Failed to load scrape run ${runId}: ${runError.message}`);
+    if (!run) return null;
+
+    const { data: tasks, error: taskError } = await supabase
+        .from('scrape_tasks')
+        .select()
+        .eq('run_id', runId)
+        .order('target_index')
+        .returns<ScrapeTask[]>();
+    if (taskError) throw new Error(`Failed to load tasks for scrape run ${runId}: ${taskError.message}`);
+    return { run, tasks: tasks ?? [] };
+}
+
+/**
+ * Puts a run's failed tasks back to pending so they can be re-driven. Returns the
+ * indexes of the targets that had a failed task.
+ */
+export async function resetFailedTasks(runId: number): Promise<Set<number>> {
+    const { data, error } = await supabase
+        .from('scrape_tasks')
+        .update({ status: 'pending' })
+        .eq('run_id', runId)
+        .eq('status', 'failed')
+        .select('target_index')
+        .returns<{ target_index: number }[]>();
+    if (error) throw new Error(`Failed to reset failed tasks for scrape run ${runId}: ${error.message}`);
+    return new Set((data ?? []).map(task => task.target_index));
+}
+
+export async function updateTask(task: ScrapeTask, patch: TaskPatch): Promise<void> {
+    Object.assign(task, patch);
+    const { output, ...columns } = patch;
+    const { error } = await supabase
+        .from('scrape_tasks')
+        .update(output === undefined ? columns : { ...columns, output: asJson(output) })
+        .eq('id', task.id);
+    if (error) throw new Error(`Failed to update scrape task ${task.id}: ${error.message}`);
+}
+
+export async function setRunStatus(runId: number, status: RunStatus): Promise<void> {
+    const { error } = await supabase
+        .from('scrape_runs')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', runId);
+    if (error) throw new Error(`Failed to update scrape run ${runId}: ${error.message}`);
+}
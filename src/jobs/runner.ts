@@ -0,0 +1,45 @@
+// src/jobs/runner.ts
+
+import { runPool } from '../lib/pool.js';
+import { closeSessionPool, configureSessionPool } from '../lib/stagehand-session.js';
+import type { OutputTarget } from '../outputs/index.js';
+import { runTargetTasks } from './pipeline.js';
+import { setRunStatus } from './run-store.js';
+import type { ScrapeRun, ScrapeTask, TargetSummary } from './types.js';
+
+/**
+ * Groups a run's tasks by target, leaving out targets with nothing left to do and,
+ * when `onlyTargets` is given, every target not in it.
+ */
+export function groupPendingTasks(tasks: ScrapeTask[], onlyTargets: Set<number> | null = null): Map<number, ScrapeTask[]> {
+    const pending = new Map<number, ScrapeTask[]>();
+    for (const task of tasks) {
+        if (onlyTargets && !onlyTargets.has(task.target_index)) continue;
+        pending.set(task.target_index, [...(pending.get(task.target_index) ?? []), task]);
+    }
+    for (const [targetIndex, targetTasks] of pending) {
+        if (targetTasks.every(task => task.status === 'succeeded' || task.status === 'skipped')) pending.delete(targetIndex);
+    }
+    return pending;
+}
+
+/**
+ * Runs the pending tasks of a run, `concurrency` targets at a time in a shared
+ * browser session pool, and records whether the run completed or failed. Used by
+ * the CLI and by scrapes queued through the HTTP API.
+ */
+export async function executeRun(run: ScrapeRun, pending: Map<number, ScrapeTask[]>, outputs: OutputTarget[], concurrency: number): Promise<TargetSummary[]> {
+    configureSessionPool(concurrency);
+    let summaries: TargetSummary[];
+    try {
+        summaries = await runPool([...pending.values()], concurrency, (tasks) => runTargetTasks(tasks[0].target, tasks, outputs, run.options));
+    } catch (error) {
+        // Not left 'running', so the run reads as resumable.
+        await setRunStatus(run.id, 'failed').catch(statusError => console.error(`Run ${run.id}: ${(statusError as Error).message}`));
+        throw error;
+    } finally {
+        await closeSessionPool();
+    }
+    await setRunStatus(run.id, summaries.some(s => s.status === 'failed') ? 'failed' : 'completed');
+    return summaries;
+}
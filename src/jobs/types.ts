@@ -0,0 +1,81 @@
+// src/jobs/types.ts
+
+import type { Stage } from '../cli/args.js';
+import type { ScrapeTarget } from '../cli/targets.js';
+import type { AssessmentData, CapturedDocument, ClerkQuery } from '../counties/types.js';
+import type { TokenUsage } from '../document-ai/types.js';
+import type { OutputName } from '../outputs/types.js';
+
+/** Pipeline stages, in the order they run for a target. */
+export const TASK_STAGES = ['assessment', 'save', 'clerk', 'ocr', 'summary'] as const;
+export type TaskStage = typeof TASK_STAGES[number];
+
+/** What each stage stores as its task's output when it succeeds; a resumed run reads it back. */
+export interface StageOutputs {
+    assessment: AssessmentData;
+    save: { accountNumber?: string };
+    clerk: {
+        accountNumber?: string;
+        clerkQuery: ClerkQuery;
+        /** Document metadata, without the page images. */
+        documents: Omit<CapturedDocument, 'images'>[];
+        crawledAt: string;
+        /** Undefined for a full crawl. */
+        crawl?: { since: string | null; skip: string[] };
+    };
+    ocr: { documents?: Omit<CapturedDocument, 'images'>[]; texts: (string | null)[]; usage: TokenUsage[] };
+    summary: { documents: number; quarantined: number[]; usage: (Partial<TokenUsage> & { instrument_number?: string })[] };
+}
+
+/** A stage with its output, narrowed by `stage`. */
+export type StageOutput = { [S in TaskStage]: { stage: S; output: StageOutputs[S] } }[TaskStage];
+
+export type TaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+export type RunStatus = 'running' | 'completed' | 'failed';
+
+/** The CLI options a run was started with; restored when the run is resumed. */
+export interface RunOptions {
+    stage: Stage;
+    /** Where scraped data is saved. Runs created before outputs were selectable default to Supabase. */
+    outputs?: OutputName[];
+    /** Re-crawl every clerk document instead of only new and failed ones. */
+    fullClerk?: boolean;
+}
+
+export interface ScrapeRun {
+    id: number;
+    status: RunStatus;
+    options: RunOptions;
+    targets_file: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface ScrapeTask {
+    id: number;
+    run_id: number;
+    target_index: number;
+    target: ScrapeTarget;
+    stage: TaskStage;
+    status: TaskStatus;
+    attempts: number;
+    last_error: string | null;
+    output: unknown;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+export interface TargetSummary {
+    label: string;
+    status: 'succeeded' | 'failed' | 'skipped';
+    accountNumber?: string;
+    documents?: number;
+    message?: string;
+}
+
+/** The stages a run executes for each target, given the CLI `--stage` option. */
+export function stagesFor(stage: Stage): TaskStage[] {
+    if (stage === 'assessment') return ['assessment', 'save'];
+    if (stage === 'clerk') return ['clerk', 'ocr', 'summary'];
+    return [...TASK_STAGES];
+}
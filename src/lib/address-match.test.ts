@@ -0,0 +1,51 @@
+// src/lib/address-match.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeAddress } from './address.js';
+import { AddressMatchError, pickAddressMatch, requireAddressMatch, scoreAddressMatch } from './address-match.js';
+
+const candidates = (...addresses: string[]) => addresses.map((address, index) => ({ address: normalizeAddress(address), ref: index }));
+
+describe('scoreAddressMatch', () => {
+    it('rules out another number, street, suffix or city', () => {
+        const wanted = normalizeAddress('9920 Gulf Palm Dr, Dallas');
+        assert.equal(scoreAddressMatch(wanted, normalizeAddress('9920 GULF PALM DR, DALLAS')), 115);
+        assert.equal(scoreAddressMatch(wanted, normalizeAddress('9922 GULF PALM DR, DALLAS')), null);
+        assert.equal(scoreAddressMatch(wanted, normalizeAddress('9920 GULF PALMS DR, DALLAS')), null);
+        assert.equal(scoreAddressMatch(wanted, normalizeAddress('9920 GULF PALM CT, DALLAS')), null);
+        assert.equal(scoreAddressMatch(wanted, normalizeAddress('9920 GULF PALM DR, GARLAND')), null);
+    });
+});
+
+describe('pickAddressMatch', () => {
+    it('picks the only result that fits, so a missing directional is ambiguous', () => {
+        const match = pickAddressMatch(normalizeAddress('9920 Gulf Palm Drive'), candidates('9920 GULF PALM CT', '9920 GULF PALM DR', '9920 W GULF PALM DR'));
+        assert.equal(match.kind, 'ambiguous');
+        const exact = pickAddressMatch(normalizeAddress('9920 W Gulf Palm Drive'), candidates('9920 GULF PALM CT', '9920 E GULF PALM DR', '9920 W GULF PALM DR'));
+        assert.ok(exact.kind === 'match');
+        assert.equal(exact.candidate.ref, 2);
+    });
+
+    it('prefers the building to its units unless a unit is asked for', () => {
+        const rows = candidates('1204 TURTLE CREEK BLVD', '1204 TURTLE CREEK BLVD #1', '1204 TURTLE CREEK BLVD #2');
+        const building = pickAddressMatch(normalizeAddress('1204 Turtle Creek Blvd'), rows);
+        assert.ok(building.kind === 'match');
+        assert.equal(building.candidate.ref, 0);
+        const unit = pickAddressMatch(normalizeAddress('1204 Turtle Creek Blvd Unit 2'), rows);
+        assert.ok(unit.kind === 'match');
+        assert.equal(unit.candidate.ref, 2);
+    });
+
+    it('reports ties and misses instead of guessing', () => {
+        assert.throws(
+            () => requireAddressMatch(normalizeAddress('9920 Gulf Palm'), candidates('9920 GULF PALM DR, DALLAS', '9920 GULF PALM CT, DALLAS')),
+            (error: unknown) => error instanceof AddressMatchError && error.kind === 'ambiguous'
+                && error.message.includes('9920 GULF PALM DR, DALLAS | 9920 GULF PALM CT, DALLAS'),
+        );
+        assert.throws(
+            () => requireAddressMatch(normalizeAddress('100 Main St'), candidates('102 MAIN ST')),
+            (error: unknown) => error instanceof AddressMatchError && error.kind === 'not_found' && error.candidates[0] === '102 MAIN ST',
+        );
+    });
+});
@@ -0,0 +1,78 @@
+// src/lib/address-match.ts
+
+import { formatAddress, type NormalizedAddress } from './address.js';
+
+/** One row of an appraisal district's address search results. */
+export interface AddressCandidate<T = unknown> {
+    address: NormalizedAddress;
+    /** What the caller needs to open the result, e.g. the row's link. */
+    ref: T;
+}
+
+export type AddressMatch<T> =
+    | { kind: 'match'; candidate: AddressCandidate<T>; score: number }
+    | { kind: 'ambiguous'; candidates: AddressCandidate<T>[] }
+    | { kind: 'not_found' };
+
+/** Thrown when a search has no result for the address, or more than one equally good one. */
+export class AddressMatchError extends Error {
+    constructor(readonly kind: 'ambiguous' | 'not_found', readonly wanted: string, readonly candidates: string[]) {
+        super(kind === 'ambiguous'
+            ? `Address '${wanted}' is ambiguous; it matches ${candidates.join(' | ')}. Add the suffix, unit, city or ZIP to the target to pick one.`
+            : `No search result matches address '${wanted}'${candidates.length > 0 ? `; the results were ${candidates.slice(0, 10).join(' | ')}${candidates.length > 10 ? ` and ${candidates.length - 10} more` : ''}` : ''}.`);
+        this.name = 'AddressMatchError';
+    }
+}
+
+const compact = (value: string) => value.replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Scores how well a search result fits the wanted address, or null when they
+ * can't be the same place. The house number and street name must match. Every
+ * other part counts when both sides give it, and rules the result out when they
+ * differ; a part only one side gives is neutral. A unit the wanted address
+ * doesn't ask for costs a little, so the building itself beats its units.
+ */
+export function scoreAddressMatch(wanted: NormalizedAddress, candidate: NormalizedAddress): number | null {
+    if (!wanted.number || wanted.number !== candidate.number) return null;
+    if (compact(wanted.street) !== compact(candidate.street)) return null;
+
+    let score = 100;
+    const parts: [keyof NormalizedAddress, number][] = [['suffix', 10], ['predirectional', 10], ['postdirectional', 10], ['unit', 10], ['city', 5], ['zip', 5]];
+    for (const [part, weight] of parts) {
+        const [mine, theirs] = [wanted[part], candidate[part]];
+        if (mine && theirs) {
+            if (compact(mine) !== compact(theirs)) return null;
+            score += weight;
+        }
+    }
+    if (!wanted.unit && candidate.unit) score -= 5;
+    return score;
+}
+
+/**
+ * Picks the search result for the wanted address: the single best-scoring
+ * compatible result. When several tie for best, they are returned as ambiguous
+ * rather than guessed between.
+ */
+export function pickAddressMatch<T>(wanted: NormalizedAddress, candidates: AddressCandidate<T>[]): AddressMatch<T> {
+    const scored = candidates
+        .map(candidate => ({ candidate, score: scoreAddressMatch(wanted, candidate.address) }))
+        .filter((entry): entry is { candidate: AddressCandidate<T>; score: number } => entry.score !== null);
+    if (scored.length === 0) return { kind: 'not_found' };
+    const best = Math.max(...scored.map(entry => entry.score));
+    const top = scored.filter(entry => entry.score === best);
+    if (top.length > 1) return { kind: 'ambiguous', candidates: top.map(entry => entry.candidate) };
+    return { kind: 'match', candidate: top[0].candidate, score: best };
+}
+
+/**
+ * `pickAddressMatch`, throwing instead of returning anything but a match.
+ * @throws {AddressMatchError} listing the tied results, or every result when none fits.
+ */
+export function requireAddressMatch<T>(wanted: NormalizedAddress, candidates: AddressCandidate<T>[]): AddressCandidate<T> {
+    const match = pickAddressMatch(wanted, candidates);
+    if (match.kind === 'match') return match.candidate;
+    const listed = match.kind === 'ambiguous' ? match.candidates : candidates;
+    throw new AddressMatchError(match.kind, formatAddress(wanted), listed.map(candidate => formatAddress(candidate.address)));
+}
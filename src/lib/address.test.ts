@@ -0,0 +1,39 @@
+// src/lib/address.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatAddress, normalizeAddress, normalizeAddressTarget } from './address.js';
+
+describe('normalizeAddress', () => {
+    it('abbreviates suffixes and directionals and splits off the unit, city and ZIP', () => {
+        assert.deepEqual(normalizeAddress('9920 North Gulf Palm Drive, Apt. 12, Dallas, Texas 75238-1234'), {
+            number: '9920',
+            predirectional: 'N',
+            street: 'GULF PALM',
+            suffix: 'DR',
+            postdirectional: null,
+            unit: '12',
+            city: 'DALLAS',
+            state: 'TX',
+            zip: '75238',
+        });
+    });
+
+    it('reads an address written without commas', () => {
+        const address = normalizeAddress('1204 Turtle Creek Blvd #1204 Dallas TX 75219');
+        assert.equal(formatAddress(address), '1204 TURTLE CREEK BLVD #1204, DALLAS, TX 75219');
+        assert.equal(normalizeAddress('500 Main St W Fort Worth').postdirectional, 'W');
+        assert.equal(normalizeAddress('500 Main St W Fort Worth').city, 'FORT WORTH');
+    });
+
+    it('keeps directionals and suffix words that are the street name', () => {
+        assert.deepEqual(normalizeAddress('100 North St'), { ...normalizeAddress('100 North St'), predirectional: null, street: 'NORTH', suffix: 'ST' });
+        assert.equal(normalizeAddress('100 Park').street, 'PARK');
+        assert.equal(normalizeAddress('100 E Main').predirectional, 'E');
+    });
+
+    it('lets a target\'s own unit, city and ZIP win', () => {
+        const address = normalizeAddressTarget({ addressNumber: '9920', streetName: 'Gulf Palm Dr Apt 3', unit: '#12', city: 'Dallas', zip: '75238-0001' });
+        assert.equal(formatAddress(address), '9920 GULF PALM DR #12, DALLAS, 75238');
+    });
+});
@@ -0,0 +1,205 @@
+// src/lib/address.ts
+
+import type { AddressTarget } from '../counties/types.js';
+
+/**
+ * Street address normalization for matching search results: USPS street suffixes
+ * and directionals are abbreviated, unit designators dropped, and the city, state
+ * and ZIP split off.
+ */
+
+export interface NormalizedAddress {
+    /** House number, e.g. '9920' or '1204A'. */
+    number: string | null;
+    predirectional: string | null;
+    /** The street name alone, e.g. 'GULF PALM'. */
+    street: string;
+    /** USPS suffix abbreviation, e.g. 'DR'. */
+    suffix: string | null;
+    postdirectional: string | null;
+    /** Unit number without its designator: 'APT 12', 'STE 12' and '#12' are all '12'. */
+    unit: string | null;
+    city: string | null;
+    state: string | null;
+    /** Five-digit ZIP. */
+    zip: string | null;
+}
+
+const DIRECTIONALS: Record<string, string> = {
+    N: 'N', NORTH: 'N', S: 'S', SOUTH: 'S', E: 'E', EAST: 'E', W: 'W', WEST: 'W',
+    NE: 'NE', NORTHEAST: 'NE', NW: 'NW', NORTHWEST: 'NW', SE: 'SE', SOUTHEAST: 'SE', SW: 'SW', SOUTHWEST: 'SW',
+};
+
+/** USPS Publication 28 suffixes the counties use, by every spelling seen, mapped to the standard abbreviation. */
+const SUFFIXES: Record<string, string> = Object.fromEntries(Object.entries({
+    ALY: ['ALLEY', 'ALLY'],
+    AVE: ['AVENUE', 'AV', 'AVEN', 'AVN'],
+    BND: ['BEND'],
+    BLVD: ['BOULEVARD', 'BOUL', 'BLV'],
+    CIR: ['CIRCLE', 'CIRC', 'CRCL'],
+    CT: ['COURT', 'CRT'],
+    CV: ['COVE'],
+    CRK: ['CREEK'],
+    XING: ['CROSSING', 'CRSSNG'],
+    DR: ['DRIVE', 'DRV'],
+    EXPY: ['EXPRESSWAY', 'EXPRESS', 'EXP'],
+    FWY: ['FREEWAY', 'FRWY'],
+    GLN: ['GLEN'],
+    GRN: ['GREEN'],
+    GRV: ['GROVE'],
+    HTS: ['HEIGHTS', 'HT'],
+    HL: ['HILL'],
+    HOLW: ['HOLLOW', 'HLLW'],
+    HWY: ['HIGHWAY', 'HIWAY'],
+    LNDG: ['LANDING'],
+    LN: ['LANE'],
+    LOOP: ['LP'],
+    MDW: ['MEADOW'],
+    MDWS: ['MEADOWS'],
+    PARK: ['PRK'],
+    PKWY: ['PARKWAY', 'PKY', 'PARKWY'],
+    PASS: [],
+    PATH: [],
+    PL: ['PLACE'],
+    PLZ: ['PLAZA'],
+    PT: ['POINT'],
+    RDG: ['RIDGE'],
+    RD: ['ROAD'],
+    ROW: [],
+    RUN: [],
+    SPGS: ['SPRINGS'],
+    SQ: ['SQUARE', 'SQR'],
+    ST: ['STREET', 'STR'],
+    TER: ['TERRACE', 'TERR'],
+    TRCE: ['TRACE'],
+    TRL: ['TRAIL', 'TR'],
+    VW: ['VIEW'],
+    VIS: ['VISTA'],
+    WALK: [],
+    WAY: ['WY'],
+}).flatMap(([abbreviation, spellings]) => [abbreviation, ...spellings].map(spelling => [spelling, abbreviation])));
+
+const UNIT_DESIGNATORS = new Set(['APT', 'APARTMENT', 'UNIT', 'STE', 'SUITE', 'BLDG', 'BUILDING', 'RM', 'ROOM', 'NO', 'NUM']);
+
+const HOUSE_NUMBER = /^\d+[A-Z]?$/;
+
+/** The standard abbreviation of a street suffix in any of its spellings, or null. */
+export function normalizeSuffix(word: string): string | null {
+    return SUFFIXES[word.toUpperCase()] ?? null;
+}
+
+/** The one- or two-letter form of a directional ('NORTH' is 'N'), or null. */
+export function normalizeDirectional(word: string): string | null {
+    return DIRECTIONALS[word.toUpperCase()] ?? null;
+}
+
+function words(text: string): string[] {
+    return text.toUpperCase().replace(/[.]/g, '').replace(/#\s*/g, ' # ').split(/\s+/).filter(Boolean);
+}
+
+/** Splits the city, state and ZIP off the end of `tail` (everything after the street line). */
+function parseLocality(tail: string[]): Pick<NormalizedAddress, 'city' | 'state' | 'zip'> {
+    const tokens = [...tail];
+    let zip: string | null = null;
+    let state: string | null = null;
+    const zipMatch = tokens.at(-1)?.match(/^(\d{5})(?:-\d{4})?$/);
+    if (zipMatch) {
+        zip = zipMatch[1];
+        tokens.pop();
+    }
+    if (tokens.at(-1) === 'TX' || tokens.at(-1) === 'TEXAS') {
+        state = 'TX';
+        tokens.pop();
+    }
+    return { city: tokens.join(' ') || null, state, zip };
+}
+
+/**
+ * Normalizes a free-form address such as "9920 Gulf Palm Drive, Apt 12, Dallas, TX
+ * 75238". Commas help find the city but aren't needed: without them the city is
+ * whatever follows the last street suffix and the unit, which misreads cities
+ * such as Cedar Hill. Only the street is required; every other part is null when
+ * the input doesn't have it.
+ */
+export function normalizeAddress(input: string): NormalizedAddress {
+    const parts = input.split(',').map(part => words(part)).filter(part => part.length > 0);
+    let tokens = parts[0] ?? [];
+    let tail = parts.slice(1);
+
+    let unit: string | null = null;
+    // A unit given in its own comma-separated part: "9920 GULF PALM DR, APT 12, DALLAS".
+    const unitPart = tail.findIndex(part => (UNIT_DESIGNATORS.has(part[0]) || part[0] === '#') && part.length === 2);
+    if (unitPart !== -1) {
+        unit = tail[unitPart][1];
+        tail = tail.filter((_, index) => index !== unitPart);
+    }
+
+    const number = tokens[0] && HOUSE_NUMBER.test(tokens[0]) ? tokens[0] : null;
+    if (number) tokens = tokens.slice(1);
+
+    // A unit in the street line ends the street: "9920 GULF PALM DR APT 12 DALLAS TX".
+    const unitIndex = tokens.findIndex((token, index) => index > 0 && (UNIT_DESIGNATORS.has(token) || token === '#') && tokens[index + 1] !== undefined);
+    let afterStreet: string[] = [];
+    if (unitIndex !== -1) {
+        unit ??= tokens[unitIndex + 1];
+        afterStreet = tokens.slice(unitIndex + 2);
+        tokens = tokens.slice(0, unitIndex);
+    }
+
+    // The last suffix ends the street name; what follows it is a post-directional, then the city.
+    let suffixIndex = -1;
+    for (let index = tokens.length - 1; index > 0; index--) {
+        if (normalizeSuffix(tokens[index])) {
+            suffixIndex = index;
+            break;
+        }
+    }
+    let suffix: string | null = null;
+    let postdirectional: string | null = null;
+    if (suffixIndex !== -1) {
+        suffix = normalizeSuffix(tokens[suffixIndex]);
+        let rest = tokens.slice(suffixIndex + 1);
+        if (rest[0] && normalizeDirectional(rest[0])) {
+            postdirectional = normalizeDirectional(rest[0]);
+            rest = rest.slice(1);
+        }
+        afterStreet = [...rest, ...afterStreet];
+        tokens = tokens.slice(0, suffixIndex);
+    } else if (tokens.length > 1 && normalizeDirectional(tokens[tokens.length - 1])) {
+        postdirectional = normalizeDirectional(tokens.pop()!);
+    }
+
+    // A leading directional is part of the name when nothing else is: "100 NORTH ST" is North Street.
+    let predirectional: string | null = null;
+    if (tokens.length > 1 && normalizeDirectional(tokens[0])) {
+        predirectional = normalizeDirectional(tokens[0]);
+        tokens = tokens.slice(1);
+    }
+
+    const locality = parseLocality([...afterStreet, ...tail.flat()]);
+    return { number, predirectional, street: tokens.join(' '), suffix, postdirectional, unit, ...locality };
+}
+
+/** Normalizes a scrape target; its own unit, city and ZIP fields win over any in the street name. */
+export function normalizeAddressTarget(target: AddressTarget): NormalizedAddress {
+    const address = normalizeAddress(`${target.addressNumber} ${target.streetName}`);
+    return {
+        ...address,
+        unit: target.unit?.replace(/^#\s*/, '').toUpperCase() || address.unit,
+        city: target.city?.toUpperCase() || address.city,
+        zip: target.zip?.slice(0, 5) || address.zip,
+    };
+}
+
+/** The street line in normalized form, e.g. '9920 N GULF PALM DR #12'. */
+export function formatStreetLine(address: NormalizedAddress): string {
+    return [address.number, address.predirectional, address.street, address.suffix, address.postdirectional, address.unit && `#${address.unit}`]
+        .filter(Boolean)
+        .join(' ');
+}
+
+/** The whole address in normalized form, e.g. '9920 GULF PALM DR, DALLAS, TX 75238'. */
+export function formatAddress(address: NormalizedAddress): string {
+    const region = [address.state, address.zip].filter(Boolean).join(' ');
+    return [formatStreetLine(address), address.city, region].filter(Boolean).join(', ');
+}
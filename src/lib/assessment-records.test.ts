@@ -0,0 +1,161 @@
+// src/lib/assessment-records.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AssessmentData } from '../counties/types.js';
+import { buildAssessmentRecords, cleanAndParseNumber, collapseYearRanges, formatAsDate, normalizeInstrumentNumber, normalizeOwnerName } from './assessment-records.js';
+import { parseLegalDescription } from './legal-description.js';
+
+describe('cleanAndParseNumber', () => {
+    it('strips currency symbols, separators and units', () => {
+        assert.equal(cleanAndParseNumber('$1,234,567'), 1234567);
+        assert.equal(cleanAndParseNumber('2,100 sqft'), 2100);
+        assert.equal(cleanAndParseNumber('12.5%'), 12.5);
+        assert.equal(cleanAndParseNumber('-$300'), -300);
+    });
+
+    it('returns null for missing or non-numeric values', () => {
+        assert.equal(cleanAndParseNumber(undefined), null);
+        assert.equal(cleanAndParseNumber(null), null);
+        assert.equal(cleanAndParseNumber(''), null);
+        assert.equal(cleanAndParseNumber('N/A'), null);
+    });
+});
+
+describe('formatAsDate', () => {
+    it('reads ISO, US and written-out dates as the calendar date given', () => {
+        assert.equal(formatAsDate('2019-03-01'), '2019-03-01');
+        assert.equal(formatAsDate('2019-03-01T23:30:00-06:00'), '2019-03-01');
+        assert.equal(formatAsDate('3/1/2019'), '2019-03-01');
+        assert.equal(formatAsDate('03-01-2019'), '2019-03-01');
+        assert.equal(formatAsDate('March 1, 2019'), '2019-03-01');
+    });
+
+    it('returns null instead of throwing for text that is not a date', () => {
+        for (const value of [undefined, null, '', 'garbage', '12', '2/30/2019', '2019-13-01', 'garbage 2019']) {
+            assert.equal(formatAsDate(value), null, String(value));
+        }
+    });
+});
+
+describe('normalizeOwnerName', () => {
+    it('ignores case, punctuation and spacing', () => {
+        assert.equal(normalizeOwnerName('Smith,  John  A.'), 'SMITH JOHN A');
+        assert.equal(normalizeOwnerName('SMITH JOHN A'), normalizeOwnerName('smith, john a.'));
+    });
+
+    it('drops ET AL and ESTATE suffixes', () => {
+        assert.equal(normalizeOwnerName('SMITH JOHN & ET AL'), 'SMITH JOHN');
+        assert.equal(normalizeOwnerName('SMITH JOHN ESTATE'), 'SMITH JOHN');
+    });
+});
+
+describe('normalizeInstrumentNumber', () => {
+    it('reads the instrument number from a DCAD deed reference', () => {
+        assert.equal(normalizeInstrumentNumber('INT201500123456 DD01012015 CO-DC'), '201500123456');
+        assert.equal(normalizeInstrumentNumber('2015-0012345'), '20150012345');
+        assert.equal(normalizeInstrumentNumber(''), null);
+    });
+});
+
+describe('collapseYearRanges', () => {
+    it('collapses consecutive years into ranges, newest first', () => {
+        assert.deepEqual(collapseYearRanges([2019, 2022, 2024, 2023]), [
+            { start_year: 2022, end_year: 2024 },
+            { start_year: 2019, end_year: 2019 },
+        ]);
+    });
+
+    it('handles empty and single-year input', () => {
+        assert.deepEqual(collapseYearRanges([]), []);
+        assert.deepEqual(collapseYearRanges([2020]), [{ start_year: 2020, end_year: 2020 }]);
+    });
+
+    it('counts a repeated year once', () => {
+        assert.deepEqual(collapseYearRanges([2024, 2024, 2023]), [{ start_year: 2023, end_year: 2024 }]);
+    });
+});
+
+describe('buildAssessmentRecords', () => {
+    const scraped: AssessmentData = {
+        accountNumber: '00000776533000000',
+        address: '9920 GULF PALM DR',
+        legalDescription: 'GULF PALM ADDN\nBLK 3 LOT 12',
+        propertyValue: { improvementValue: '$300,000', landValue: '$100,000', totalMarketValue: '$400,000' },
+        propertyDetails: { yearBuilt: '1978', livingArea: '2,100 sqft' },
+        currentOwners: [{ name: 'SMITH JOHN', address: '9920 GULF PALM DR', isPrimary: true }],
+        ownershipHistory: [
+            { year: '2024', ownerNameAndAddress: 'SMITH JOHN\n9920 GULF PALM DR', int_number: 'INT202200004567', deed_xfer_date: '2022-11-30' },
+            { year: '2023', ownerNameAndAddress: 'SMITH JOHN\n9920 GULF PALM DR', int_number: 'INT202200004567', deed_xfer_date: '2022-11-30' },
+            { year: '2022', ownerNameAndAddress: 'DOE JANE\nPO BOX 1' },
+            { year: '2021', ownerNameAndAddress: 'DOE JANE\nPO BOX 1' },
+            { year: '2019', ownerNameAndAddress: 'SMITH JOHN\n9920 GULF PALM DR' },
+        ],
+        marketValueHistory: [{ year: '2024', totalMarketValue: '$400,000' }, { year: '', totalMarketValue: '$1' }],
+        exemptions: [
+            { year: '2024', code: 'HS' },
+            { year: '2023', code: 'HS' },
+            { year: '2021', code: 'HS' },
+            { year: '2024', code: 'OV65' },
+        ],
+        cad_url: 'https://www.dallascad.org/AcctDetailRes.aspx?ID=00000776533000000',
+    };
+    const records = buildAssessmentRecords(scraped, parseLegalDescription(scraped.legalDescription));
+
+    it('cleans property values', () => {
+        assert.equal(records.property.total_market_value, 400000);
+        assert.equal(records.property.living_area, 2100);
+        assert.equal(records.property.subdivision, 'GULF PALM ADDN');
+    });
+
+    it('stores no year built for vacant land', () => {
+        const land = buildAssessmentRecords({ ...scraped, propertyValue: { landValue: '$85,000', totalMarketValue: '$85,000' }, propertyDetails: { yearBuilt: '0', livingArea: '0' } }, parseLegalDescription(undefined));
+        assert.equal(land.property.year_built, null);
+        assert.equal(land.property.living_area, 0);
+        assert.equal(records.property.year_built, 1978);
+    });
+
+    it('collapses ownership years per owner', () => {
+        assert.deepEqual(records.ownershipHistory, [
+            { ownerName: 'SMITH JOHN', start_year: 2023, end_year: 2024, int_number: '202200004567', deed_xfer_date: '2022-11-30' },
+            { ownerName: 'SMITH JOHN', start_year: 2019, end_year: 2019, int_number: null, deed_xfer_date: null },
+            { ownerName: 'DOE JANE', start_year: 2021, end_year: 2022, int_number: null, deed_xfer_date: null },
+        ]);
+    });
+
+    it('collapses exemption years per code', () => {
+        assert.deepEqual(records.exemptions, [
+            { code: 'HS', start_year: 2023, end_year: 2024 },
+            { code: 'HS', start_year: 2021, end_year: 2021 },
+            { code: 'OV65', start_year: 2024, end_year: 2024 },
+        ]);
+    });
+
+    it('drops value history rows without a year', () => {
+        assert.deepEqual(records.valueHistory, [{ year: 2024, total_market_value: 400000 }]);
+    });
+
+    it('merges aliases of one owner into one history and keeps current shares', () => {
+        const joint = buildAssessmentRecords({
+            ...scraped,
+            currentOwners: [
+                { name: 'SMITH JOHN & JANE', percentage: '75%' },
+                { name: 'ACME HOLDINGS LLC', percentage: '25%' },
+            ],
+            ownershipHistory: [
+                { year: '2024', ownerNameAndAddress: 'SMITH JOHN & JANE' },
+                { year: '2023', ownerNameAndAddress: 'SMITH JOHN ET AL' },
+            ],
+        }, parseLegalDescription(scraped.legalDescription));
+        assert.deepEqual(joint.owners.map(owner => [owner.name, owner.canonicalKey, owner.entityType]), [
+            ['SMITH JOHN & JANE', 'SMITH JOHN', 'individual'],
+            ['ACME HOLDINGS LLC', 'ACME HOLDINGS LLC', 'llc'],
+            ['SMITH JOHN ET AL', 'SMITH JOHN', 'individual'],
+        ]);
+        assert.deepEqual(joint.ownershipHistory, [{ ownerName: 'SMITH JOHN & JANE', start_year: 2023, end_year: 2024, int_number: null, deed_xfer_date: null }]);
+        assert.deepEqual(joint.currentOwnership, [
+            { ownerName: 'SMITH JOHN & JANE', percentage: 75, isPrimary: true },
+            { ownerName: 'ACME HOLDINGS LLC', percentage: 25, isPrimary: false },
+        ]);
+    });
+});
@@ -0,0 +1,281 @@
+// src/lib/assessment-records.ts
+
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import type { DocumentDetails, DocumentType } from './document-extraction.js';
+import { toLegalColumns, type LegalDescription } from './legal-description.js';
+import { resolveOwner, type ResolvedOwner } from './owner-resolution.js';
+
+// --- Helper Functions ---
+export function cleanAndParseNumber(value: string | undefined | null): number | null {
+    if (!value) return null;
+    const cleaned = value.replace(/[^0-9.-]+/g, "");
+    const number = parseFloat(cleaned);
+    return isNaN(number) ? null : number;
+}
+const MONTH_NAME = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\b/i;
+/**
+ * The calendar date in "2019-03-01", "3/1/2019", "03-01-2019" or "March 1, 2019" as
+ * YYYY-MM-DD, or null when there is none: impossible dates like "2/30/2019" and
+ * text `Date` can't read are rejected rather than thrown or rolled over. Dates are
+ * read as written, never shifted by the local time zone.
+ */
+export function formatAsDate(dateString: string | undefined | null): string | null {
+    const value = dateString?.trim();
+    if (!value) return null;
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+    if (iso) return calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    const us = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (us) return calendarDate(Number(us[3]), Number(us[1]), Number(us[2]));
+    // Anything else needs a month name and a four-digit year: `Date` also reads "12" and "garbage 2019".
+    if (!MONTH_NAME.test(value) || !/\b\d{4}\b/.test(value)) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : calendarDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+function calendarDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+/**
+ * The clerk instrument number in a CAD deed reference: "INT201500123456 DD01012015 CO-DC"
+ * becomes "201500123456". Harris and Tarrant give the bare number, which is kept as is.
+ */
+export function normalizeInstrumentNumber(value: string | undefined | null): string | null {
+    if (!value?.trim()) return null;
+    const int = value.match(/\bINT\s*([0-9-]+)/i);
+    const number = (int ? int[1] : value.trim().split(/\s+/)[0]).replace(/-/g, '');
+    return number || null;
+}
+export function normalizeOwnerName(name: string): string {
+    return name
+        .toUpperCase()
+        .replace(/[,.]/g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/&\s*ET\s*AL/g, '')
+        .replace(/\s*ESTATE/g, '')
+        .trim();
+}
+
+/**
+ * Collapses a list of years into runs of consecutive years, newest run first:
+ * [2024, 2023, 2022, 2019] becomes [{ start_year: 2022, end_year: 2024 }, { start_year: 2019, end_year: 2019 }].
+ * Repeated years count once.
+ */
+export function collapseYearRanges(years: number[]): { start_year: number; end_year: number }[] {
+    const sorted = [...new Set(years)].sort((a, b) => b - a);
+    const ranges: { start_year: number; end_year: number }[] = [];
+    let end_year = sorted[0];
+    for (let i = 0; i < sorted.length; i++) {
+        if (i === sorted.length - 1 || sorted[i + 1] !== sorted[i] - 1) {
+            ranges.push({ start_year: sorted[i], end_year });
+            if (i < sorted.length - 1) end_year = sorted[i + 1];
+        }
+    }
+    return ranges;
+}
+
+export interface PropertyRecord {
+    account_number: string | undefined;
+    address: string | undefined;
+    improvement_value: number | null;
+    land_value: number | null;
+    total_market_value: number | null;
+    year_built: number | null;
+    living_area: number | null;
+    cad_url: string;
+    legal_description: string | null;
+    subdivision: string | null;
+    block: string | null;
+    city_block: string | null;
+    lot1: string | null;
+    lot2: string | null;
+    /** The clerk instrument number and transfer date of the deed that conveyed the property to its current owner. */
+    int_number: string | null;
+    deed_xfer_date: string | null;
+}
+
+/**
+ * The rows an assessment scrape produces, independent of where they are stored.
+ * History rows are keyed by owner name rather than database id.
+ */
+export interface AssessmentRecords {
+    property: PropertyRecord;
+    /** Every owner name seen, with the canonical owner it resolves to. */
+    owners: (ResolvedOwner & { address?: string })[];
+    /** Names of the owners currently on record, as listed on the detail page. */
+    currentOwners: string[];
+    /** Each current owner's share; when the page marks no primary owner, the first listed is primary. */
+    currentOwnership: { ownerName: string; percentage: number | null; isPrimary: boolean }[];
+    valueHistory: { year: number; total_market_value: number | null }[];
+    exemptions: { code: string; start_year: number; end_year: number }[];
+    /**
+     * One row per run of consecutive years a canonical owner held the property;
+     * `ownerName` is the first of its aliases in `owners`. The deed reference is the
+     * one listed in the earliest year of the run, i.e. the deed that started it.
+     */
+    ownershipHistory: { ownerName: string; start_year: number; end_year: number; int_number: string | null; deed_xfer_date: string | null }[];
+}
+
+export interface DocumentRecord {
+    document_type: string | undefined;
+    grantor: string | undefined;
+    grantee: string | undefined;
+    filing_date: string | null;
+    instrument_number: string | undefined;
+    book_and_page: string | undefined;
+    summary: string | null;
+    document_url: string | null;
+    document_class: DocumentType | null;
+    archive_key: string | null;
+    page_count: number | null;
+}
+
+/**
+ * The typed fields of one classified document. The fields most worth querying get
+ * their own column; `details` holds everything extracted for the document's class.
+ */
+export interface DocumentDetailRecord {
+    instrument_number: string;
+    document_class: DocumentType;
+    consideration: number | null;
+    lender: string | null;
+    loan_amount: number | null;
+    maturity_date: string | null;
+    execution_date: string | null;
+    notary_date: string | null;
+    referenced_instruments: string[];
+    details: DocumentDetails;
+}
+
+export interface DocumentPartyRecord {
+    instrument_number: string;
+    name: string;
+    role: string;
+}
+
+/**
+ * Cleans a scraped assessment into storable rows: parses numbers, collects every
+ * current and historical owner, and collapses yearly exemption and ownership rows
+ * into year ranges.
+ */
+export function buildAssessmentRecords(scrapedData: AssessmentData, legal: LegalDescription): AssessmentRecords {
+    const { accountNumber, address, propertyValue, propertyDetails, currentOwners, ownershipHistory, marketValueHistory, exemptions, cad_url, int_number, deed_xfer_date } = scrapedData;
+
+    const property: PropertyRecord = {
+        account_number: accountNumber,
+        address: address,
+        improvement_value: cleanAndParseNumber(propertyValue?.improvementValue),
+        land_value: cleanAndParseNumber(propertyValue?.landValue),
+        total_market_value: cleanAndParseNumber(propertyValue?.totalMarketValue),
+        // Vacant land is listed with a year built of 0: there is no building to date.
+        year_built: cleanAndParseNumber(propertyDetails?.yearBuilt) || null,
+        living_area: cleanAndParseNumber(propertyDetails?.livingArea),
+        cad_url: cad_url,
+        ...toLegalColumns(legal),
+        int_number: normalizeInstrumentNumber(int_number),
+        deed_xfer_date: formatAsDate(deed_xfer_date),
+    };
+
+    const allOwners = new Map<string, { address?: string }>();
+    currentOwners?.forEach((owner) => { if (owner.name) allOwners.set(owner.name.trim(), { address: owner.address?.trim() }); });
+    ownershipHistory?.forEach((rec) => { const name = (rec.ownerNameAndAddress?.split('\n')[0] || '').trim(); if (name && !allOwners.has(name)) allOwners.set(name, { address: rec.ownerNameAndAddress?.split('\n').slice(1).join(' ').trim() }); });
+    const owners = Array.from(allOwners.entries()).map(([name, { address }]) => ({ ...resolveOwner(name), address }));
+    const listedOwners = (currentOwners ?? []).filter((owner, index, all) => owner.name?.trim() && all.findIndex(other => other.name?.trim() === owner.name.trim()) === index);
+    const currentOwnerNames = listedOwners.map(owner => owner.name.trim());
+    const hasPrimary = listedOwners.some(owner => owner.isPrimary);
+    const currentOwnership = listedOwners.map((owner, index) => ({
+        ownerName: owner.name.trim(),
+        percentage: cleanAndParseNumber(owner.percentage),
+        isPrimary: hasPrimary ? !!owner.isPrimary : index === 0,
+    }));
+
+    const valueHistory = (marketValueHistory ?? []).map((rec) => ({
+        year: cleanAndParseNumber(rec.year),
+        total_market_value: cleanAndParseNumber(rec.totalMarketValue)
+    })).filter((r): r is { year: number; total_market_value: number | null } => !!r.year);
+
+    const exemptionRecords: AssessmentRecords['exemptions'] = [];
+    const cleanedExemptions = (exemptions ?? []).map((e) => ({ code: e.code?.trim(), year: cleanAndParseNumber(e.year) })).filter((e): e is { code: string, year: number } => !!e.code && e.year != null);
+    const groupedByCode = cleanedExemptions.reduce((acc: Record<string, number[]>, curr) => {
+        (acc[curr.code] = acc[curr.code] || []).push(curr.year);
+        return acc;
+    }, {});
+    for (const code in groupedByCode) {
+        for (const range of collapseYearRanges(groupedByCode[code])) exemptionRecords.push({ code, ...range });
+    }
+
+    // Owners are grouped by canonical owner, so "SMITH JOHN & JANE" and "SMITH, JOHN ET AL" share one history.
+    const ownerByKey = new Map<string, string>();
+    for (const owner of owners) if (!ownerByKey.has(owner.canonicalKey)) ownerByKey.set(owner.canonicalKey, owner.name);
+    const yearsByOwner = new Map<string, number[]>();
+    const deedByOwnerYear = new Map<string, { int_number: string | null; deed_xfer_date: string | null }>();
+    for (const rec of ownershipHistory ?? []) {
+        const name = (rec.ownerNameAndAddress?.split('\n')[0] || '').trim();
+        const year = cleanAndParseNumber(rec.year);
+        if (!name || year == null) continue;
+        const ownerName = ownerByKey.get(resolveOwner(name).canonicalKey)!;
+        yearsByOwner.set(ownerName, [...(yearsByOwner.get(ownerName) ?? []), year]);
+        const deed = { int_number: normalizeInstrumentNumber(rec.int_number), deed_xfer_date: formatAsDate(rec.deed_xfer_date) };
+        if (deed.int_number || deed.deed_xfer_date) deedByOwnerYear.set(`${ownerName}|${year}`, deed);
+    }
+    const ownershipRecords: AssessmentRecords['ownershipHistory'] = [];
+    for (const [ownerName, years] of yearsByOwner) {
+        for (const range of collapseYearRanges(years)) {
+            let deed = { int_number: null as string | null, deed_xfer_date: null as string | null };
+            for (let year = range.end_year; year >= range.start_year; year--) deed = deedByOwnerYear.get(`${ownerName}|${year}`) ?? deed;
+            ownershipRecords.push({ ownerName, ...range, ...deed });
+        }
+    }
+
+    return { property, owners, currentOwners: currentOwnerNames, currentOwnership, valueHistory, exemptions: exemptionRecords, ownershipHistory: ownershipRecords };
+}
+
+export function buildDocumentRecords(documents: ClerkDocument[]): DocumentRecord[] {
+    return documents.map((doc) => ({
+        document_type: doc.document_type,
+        grantor: doc.grantor,
+        grantee: doc.grantee,
+        filing_date: formatAsDate(doc.filing_date),
+        instrument_number: doc.instrument_number,
+        book_and_page: doc.book_and_page,
+        summary: doc.summary,
+        document_url: doc.documentUrl,
+        document_class: doc.details?.type ?? null,
+        archive_key: doc.archive_key ?? null,
+        page_count: doc.page_count ?? null,
+    }));
+}
+
+/**
+ * The detail and party rows of every classified document with an instrument
+ * number. Documents whose extraction failed have no rows, so details stored by an
+ * earlier crawl are kept.
+ */
+export function buildDocumentDetailRecords(documents: ClerkDocument[]): { details: DocumentDetailRecord[]; parties: DocumentPartyRecord[] } {
+    const details: DocumentDetailRecord[] = [];
+    const parties: DocumentPartyRecord[] = [];
+    for (const doc of documents) {
+        if (!doc.details || !doc.instrument_number) continue;
+        const fields = doc.details;
+        details.push({
+            instrument_number: doc.instrument_number,
+            document_class: fields.type,
+            consideration: 'consideration' in fields ? fields.consideration : null,
+            lender: 'lender' in fields ? fields.lender : 'lienholder' in fields ? fields.lienholder : null,
+            loan_amount: 'loan_amount' in fields ? fields.loan_amount : 'amount' in fields ? fields.amount : null,
+            maturity_date: 'maturity_date' in fields ? fields.maturity_date : null,
+            execution_date: fields.execution_date,
+            notary_date: fields.notary_date,
+            referenced_instruments: fields.referenced_instruments,
+            details: fields,
+        });
+        const seen = new Set<string>();
+        for (const party of fields.parties) {
+            const key = `${party.role.trim().toLowerCase()}|${party.name.trim()}`;
+            if (!party.name.trim() || seen.has(key)) continue;
+            seen.add(key);
+            parties.push({ instrument_number: doc.instrument_number, name: party.name.trim(), role: party.role.trim().toLowerCase() });
+        }
+    }
+    return { details, parties };
+}
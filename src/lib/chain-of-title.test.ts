@@ -0,0 +1,82 @@
+// src/lib/chain-of-title.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildTitleReport, type TitleDocument } from './chain-of-title.js';
+
+function doc(fields: Partial<TitleDocument> & Pick<TitleDocument, 'instrument_number' | 'document_type'>): TitleDocument {
+    return { document_class: null, grantor: null, grantee: null, filing_date: null, details: null, ...fields };
+}
+
+const documents: TitleDocument[] = [
+    doc({ instrument_number: '201500123456', document_type: 'WARRANTY DEED', grantor: 'DOE JANE', grantee: 'SMITH JOHN & JANE', filing_date: '2015-01-02' }),
+    doc({ instrument_number: '200800000111', document_type: 'WARRANTY DEED', grantor: 'BUILDER INC', grantee: 'DOE JANE', filing_date: '2008-06-10' }),
+    doc({ instrument_number: '201500123457', document_type: 'DEED OF TRUST', grantor: 'SMITH JOHN', grantee: 'FIRST BANK', filing_date: '2015-01-02' }),
+    doc({ instrument_number: '200800000112', document_type: 'DEED OF TRUST', grantor: 'DOE JANE', grantee: 'OLD BANK', filing_date: '2008-06-10' }),
+    doc({
+        instrument_number: '201500200000',
+        document_type: 'RELEASE OF LIEN',
+        filing_date: '2015-03-01',
+        details: { type: 'release', releasing_party: 'OLD BANK', released_parties: ['DOE JANE'], referenced_instruments: ['200800000112'], parties: [], execution_date: null, notary_date: null },
+    }),
+    doc({ instrument_number: '201900000001', document_type: 'ABSTRACT OF JUDGMENT', grantor: 'ACME SUPPLY', grantee: 'SMITH JOHN', filing_date: '2019-05-05' }),
+];
+
+describe('buildTitleReport', () => {
+    const report = buildTitleReport({
+        accountNumber: '00000776533000000',
+        documents,
+        ownershipHistory: [
+            { ownerName: 'SMITH JOHN & JANE', start_year: 2015, end_year: 2024, int_number: '201500123456', deed_xfer_date: '2015-01-02' },
+            { ownerName: 'DOE JANE', start_year: 2009, end_year: 2014, int_number: null, deed_xfer_date: null },
+        ],
+        currentOwners: ['SMITH JOHN & JANE'],
+    }, new Date('2025-01-01T00:00:00Z'));
+
+    it('orders conveyances and links each grantee to the next grantor', () => {
+        assert.deepEqual(report.chain.map(link => [link.instrument_number, link.follows_previous, link.cad_owner]), [
+            ['200800000111', null, 'DOE JANE'],
+            ['201500123456', true, 'SMITH JOHN & JANE'],
+        ]);
+        assert.deepEqual(report.issues, []);
+    });
+
+    it('pairs deeds of trust and liens with their releases', () => {
+        assert.deepEqual(report.encumbrances.map(item => [item.instrument_number, item.status, item.released_by, item.release_match]), [
+            ['200800000112', 'released', '201500200000', 'reference'],
+            ['201500123457', 'open', null, null],
+            ['201900000001', 'open', null, null],
+        ]);
+        assert.equal(report.open_encumbrances, 2);
+    });
+
+    it('flags gaps, name mismatches and CAD disagreements', () => {
+        const broken = buildTitleReport({
+            accountNumber: '00000776533000000',
+            documents: [
+                documents[1],
+                doc({ instrument_number: '201500123456', document_type: 'WARRANTY DEED', grantor: 'STRANGER BOB', grantee: 'SMITH JOHN', filing_date: '2015-06-30' }),
+            ],
+            ownershipHistory: [
+                { ownerName: 'SMITH JOHN', start_year: 2015, end_year: 2020, int_number: 'INT201500123456 DD01012015', deed_xfer_date: '2015-01-02' },
+                { ownerName: 'JONES MARY', start_year: 2021, end_year: 2024, int_number: 'INT202100000009', deed_xfer_date: '2021-02-01' },
+            ],
+            currentOwners: ['JONES MARY'],
+        });
+        assert.deepEqual(broken.issues.map(issue => issue.kind), ['grantor_mismatch', 'date_mismatch', 'instrument_not_found', 'current_owner_mismatch']);
+    });
+
+    it('matches a release without a reference by its parties', () => {
+        const released = buildTitleReport({
+            accountNumber: '1',
+            documents: [
+                documents[2],
+                doc({ instrument_number: '202000000001', document_type: 'RELEASE', grantor: 'FIRST BANK', grantee: 'SMITH JOHN', filing_date: '2020-01-01' }),
+            ],
+            ownershipHistory: [],
+            currentOwners: [],
+        });
+        assert.equal(released.encumbrances[0].status, 'released');
+        assert.equal(released.encumbrances[0].release_match, 'parties');
+    });
+});
@@ -0,0 +1,306 @@
+// src/lib/chain-of-title.ts
+
+import { normalizeInstrumentNumber } from './assessment-records.js';
+import { classifyDocumentLabel, type DocumentDetails, type DocumentType } from './document-extraction.js';
+import { detectEntityType, ownerEntityKey } from './owner-resolution.js';
+
+/** A stored clerk document, with its typed details when it was classified. */
+export interface TitleDocument {
+    instrument_number: string | null;
+    document_type: string | null;
+    document_class: DocumentType | null;
+    grantor: string | null;
+    grantee: string | null;
+    filing_date: string | null;
+    details: DocumentDetails | null;
+}
+
+/** A run of years one owner held the property on the CAD roll, with the deed the CAD lists for it. */
+export interface TitleOwnershipPeriod {
+    ownerName: string;
+    start_year: number;
+    end_year: number;
+    int_number: string | null;
+    deed_xfer_date: string | null;
+}
+
+export interface TitleInputs {
+    accountNumber: string;
+    documents: TitleDocument[];
+    ownershipHistory: TitleOwnershipPeriod[];
+    currentOwners: string[];
+}
+
+export interface ChainLink {
+    instrument_number: string | null;
+    document_class: DocumentType;
+    filing_date: string | null;
+    grantors: string[];
+    grantees: string[];
+    /** Whether a grantor is a grantee of the previous link; null for the first link. */
+    follows_previous: boolean | null;
+    /** The CAD owner whose period this conveyance starts, if one matched. */
+    cad_owner: string | null;
+}
+
+export type TitleIssueKind =
+    | 'grantor_mismatch'
+    | 'missing_deed'
+    | 'instrument_not_found'
+    | 'owner_mismatch'
+    | 'date_mismatch'
+    | 'current_owner_mismatch';
+
+export interface TitleIssue {
+    kind: TitleIssueKind;
+    message: string;
+    instrument_number: string | null;
+}
+
+export interface Encumbrance {
+    instrument_number: string | null;
+    document_class: 'deed_of_trust' | 'lien';
+    filing_date: string | null;
+    debtors: string[];
+    holder: string | null;
+    amount: number | null;
+    /** The latest assignee, when the note or lien was assigned. */
+    assigned_to: string | null;
+    status: 'open' | 'released';
+    released_by: string | null;
+    /** How the release was matched: it cites the instrument, or only its parties line up. */
+    release_match: 'reference' | 'parties' | null;
+}
+
+export interface TitleReport {
+    account_number: string;
+    generated_at: string;
+    chain: ChainLink[];
+    issues: TitleIssue[];
+    encumbrances: Encumbrance[];
+    open_encumbrances: number;
+}
+
+const CONVEYANCE_CLASSES: DocumentType[] = ['warranty_deed', 'special_warranty_deed', 'quitclaim_deed', 'affidavit_of_heirship'];
+
+/** Filing and CAD transfer dates further apart than this are reported. */
+const DATE_TOLERANCE_DAYS = 31;
+
+function classOf(doc: TitleDocument): DocumentType {
+    return doc.details?.type ?? doc.document_class ?? classifyDocumentLabel(doc.document_type ?? undefined) ?? 'other';
+}
+
+/** Clerk indexes list several parties in one cell, one per line or separated by semicolons. */
+function splitParties(value: string | null): string[] {
+    return (value ?? '').split(/\n|;/).map(name => name.trim()).filter(name => name);
+}
+
+/**
+ * Every person a name stands for: "SMITH JOHN & JANE" is both "SMITH JOHN" and
+ * "SMITH JANE", so a later deed from either of them continues the chain. An
+ * estate counts as the person, so a deed out of "SMITH JOHN ESTATE" follows one to
+ * "SMITH JOHN".
+ */
+function partyKeys(name: string): string[] {
+    const key = ownerEntityKey(name).replace(/ ESTATE$/, '');
+    if (detectEntityType(name) !== 'individual') return [key];
+    const [first, ...others] = name.toUpperCase().replace(/[,.]/g, ' ').split('&').map(part => part.trim()).filter(part => part);
+    const surname = first?.split(/\s+/)[0];
+    const joint = others
+        .filter(part => !/^ET\s*(AL|UX|VIR)\b/.test(part))
+        .map(part => ownerEntityKey(part.split(/\s+/).length === 1 ? `${surname} ${part}` : part));
+    return [key, ...joint];
+}
+
+function sameParty(a: string[], b: string[]): boolean {
+    const keys = new Set(a.flatMap(partyKeys));
+    return b.some(name => partyKeys(name).some(key => keys.has(key)));
+}
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function byFilingDate<T extends { filing_date: string | null; instrument_number: string | null }>(a: T, b: T): number {
+    if (a.filing_date !== b.filing_date) {
+        if (!a.filing_date) return 1;
+        if (!b.filing_date) return -1;
+        return a.filing_date < b.filing_date ? -1 : 1;
+    }
+    return (a.instrument_number ?? '').localeCompare(b.instrument_number ?? '');
+}
+
+function conveyanceParties(doc: TitleDocument): { grantors: string[]; grantees: string[] } {
+    const details = doc.details;
+    if (details && 'grantees' in details && details.grantees.length > 0 && 'grantors' in details) {
+        return { grantors: details.grantors.length > 0 ? details.grantors : splitParties(doc.grantor), grantees: details.grantees };
+    }
+    if (details?.type === 'affidavit_of_heirship' && details.decedent && details.heirs.length > 0) {
+        return { grantors: [details.decedent], grantees: details.heirs };
+    }
+    return { grantors: splitParties(doc.grantor), grantees: splitParties(doc.grantee) };
+}
+
+/** Orders the conveyances and checks that each grantor was the previous grantee. */
+function buildChain(documents: TitleDocument[], issues: TitleIssue[]): ChainLink[] {
+    const conveyances = documents.filter(doc => CONVEYANCE_CLASSES.includes(classOf(doc))).sort(byFilingDate);
+    const chain: ChainLink[] = [];
+    for (const doc of conveyances) {
+        const previous = chain[chain.length - 1];
+        const { grantors, grantees } = conveyanceParties(doc);
+        const follows = previous ? sameParty(previous.grantees, grantors) : null;
+        if (follows === false) {
+            issues.push({
+                kind: 'grantor_mismatch',
+                message: `${doc.instrument_number ?? 'A conveyance'} is from ${grantors.join(', ') || 'an unknown grantor'}, but the previous deed conveyed to ${previous!.grantees.join(', ') || 'an unknown grantee'}.`,
+                instrument_number: doc.instrument_number,
+            });
+        }
+        chain.push({ instrument_number: doc.instrument_number, document_class: classOf(doc), filing_date: doc.filing_date, grantors, grantees, follows_previous: follows, cad_owner: null });
+    }
+    return chain;
+}
+
+/**
+ * Matches each CAD ownership period to the conveyance that started it: by the
+ * INT number the CAD lists when there is one, otherwise by grantee and year.
+ * The first period is only reported when the clerk records reach back to it.
+ */
+function crossCheckCad(chain: ChainLink[], periods: TitleOwnershipPeriod[], issues: TitleIssue[]) {
+    const ordered = [...periods].sort((a, b) => a.start_year - b.start_year);
+    const firstFiledYear = chain.find(link => link.filing_date)?.filing_date?.slice(0, 4);
+    for (const [index, period] of ordered.entries()) {
+        // A later run of the same owner (e.g. after a gap year on the roll) was started by the same deed.
+        if (ordered.slice(0, index).some(earlier => sameParty([earlier.ownerName], [period.ownerName]))) continue;
+
+        const instrument = normalizeInstrumentNumber(period.int_number);
+        if (instrument) {
+            const link = chain.find(candidate => normalizeInstrumentNumber(candidate.instrument_number) === instrument);
+            if (!link) {
+                issues.push({ kind: 'instrument_not_found', message: `The CAD lists instrument ${instrument} for ${period.ownerName} (${period.start_year}), but no conveyance with that number was found at the clerk.`, instrument_number: instrument });
+                continue;
+            }
+            link.cad_owner = period.ownerName;
+            if (!sameParty(link.grantees, [period.ownerName])) {
+                issues.push({ kind: 'owner_mismatch', message: `Instrument ${instrument} conveys to ${link.grantees.join(', ')}, but the CAD lists ${period.ownerName} as the owner.`, instrument_number: instrument });
+            }
+            if (period.deed_xfer_date && link.filing_date && daysBetween(period.deed_xfer_date, link.filing_date) > DATE_TOLERANCE_DAYS) {
+                issues.push({ kind: 'date_mismatch', message: `Instrument ${instrument} was filed ${link.filing_date}, but the CAD transfer date is ${period.deed_xfer_date}.`, instrument_number: instrument });
+            }
+            continue;
+        }
+
+        const candidates = chain.filter(link => sameParty(link.grantees, [period.ownerName]) && (!link.filing_date || Number(link.filing_date.slice(0, 4)) <= period.start_year));
+        const link = candidates[candidates.length - 1];
+        if (link) {
+            link.cad_owner ??= period.ownerName;
+        } else if (index > 0 || (firstFiledYear && Number(firstFiledYear) <= period.start_year)) {
+            issues.push({ kind: 'missing_deed', message: `No conveyance to ${period.ownerName} was found for the CAD ownership starting ${period.start_year}.`, instrument_number: null });
+        }
+    }
+}
+
+/**
+ * Pairs deeds of trust and liens with their releases. A release that cites the
+ * instrument number is matched first; the rest are matched by parties (released by
+ * the holder, for the debtor, filed later), each release used once.
+ */
+function buildEncumbrances(documents: TitleDocument[]): Encumbrance[] {
+    const encumbrances: (Encumbrance & { doc: TitleDocument })[] = [];
+    for (const doc of [...documents].sort(byFilingDate)) {
+        const details = doc.details;
+        const documentClass = classOf(doc);
+        if (documentClass === 'deed_of_trust') {
+            const fields = details?.type === 'deed_of_trust' ? details : null;
+            encumbrances.push({
+                doc,
+                instrument_number: doc.instrument_number,
+                document_class: 'deed_of_trust',
+                filing_date: doc.filing_date,
+                debtors: fields?.borrowers.length ? fields.borrowers : splitParties(doc.grantor),
+                holder: fields?.lender ?? splitParties(doc.grantee)[0] ?? null,
+                amount: fields?.loan_amount ?? null,
+                assigned_to: null, status: 'open', released_by: null, release_match: null,
+            });
+        } else if (documentClass === 'lien') {
+            const fields = details?.type === 'lien' ? details : null;
+            encumbrances.push({
+                doc,
+                instrument_number: doc.instrument_number,
+                document_class: 'lien',
+                filing_date: doc.filing_date,
+                debtors: fields?.debtors.length ? fields.debtors : splitParties(doc.grantee),
+                holder: fields?.lienholder ?? splitParties(doc.grantor)[0] ?? null,
+                amount: fields?.amount ?? null,
+                assigned_to: null, status: 'open', released_by: null, release_match: null,
+            });
+        }
+    }
+
+    const references = (doc: TitleDocument) => new Set((doc.details?.referenced_instruments ?? []).map(normalizeInstrumentNumber).filter(number => number));
+    const cites = (doc: TitleDocument, encumbrance: Encumbrance) =>
+        !!encumbrance.instrument_number && references(doc).has(normalizeInstrumentNumber(encumbrance.instrument_number));
+
+    for (const assignment of documents.filter(doc => classOf(doc) === 'assignment').sort(byFilingDate)) {
+        const assignee = assignment.details?.type === 'assignment' ? assignment.details.assignee : splitParties(assignment.grantee)[0] ?? null;
+        for (const encumbrance of encumbrances) if (cites(assignment, encumbrance)) encumbrance.assigned_to = assignee;
+    }
+
+    const releases = documents.filter(doc => classOf(doc) === 'release').sort(byFilingDate);
+    const used = new Set<TitleDocument>();
+    const release = (encumbrance: Encumbrance, doc: TitleDocument, match: 'reference' | 'parties') => {
+        encumbrance.status = 'released';
+        encumbrance.released_by = doc.instrument_number;
+        encumbrance.release_match = match;
+        used.add(doc);
+    };
+    for (const encumbrance of encumbrances) {
+        const cited = releases.find(doc => !used.has(doc) && cites(doc, encumbrance));
+        if (cited) release(encumbrance, cited, 'reference');
+    }
+    for (const encumbrance of encumbrances) {
+        if (encumbrance.status === 'released') continue;
+        const holders = [encumbrance.holder, encumbrance.assigned_to].filter((name): name is string => !!name);
+        const match = releases.find(doc => {
+            if (used.has(doc) || references(doc).size > 0) return false;
+            if (encumbrance.filing_date && doc.filing_date && doc.filing_date < encumbrance.filing_date) return false;
+            const fields = doc.details?.type === 'release' ? doc.details : null;
+            const releasedBy = fields?.releasing_party ? [fields.releasing_party] : splitParties(doc.grantor);
+            const releasedFor = fields?.released_parties.length ? fields.released_parties : splitParties(doc.grantee);
+            return holders.length > 0 && sameParty(holders, releasedBy) && sameParty(encumbrance.debtors, releasedFor);
+        });
+        if (match) release(encumbrance, match, 'parties');
+    }
+    return encumbrances.map(({ doc, ...encumbrance }) => encumbrance);
+}
+
+/**
+ * Builds the chain-of-title report for one property from its stored clerk
+ * documents and CAD ownership history: the conveyances in filing order with a
+ * check that each grantor was the previous grantee, a cross-check of the CAD's
+ * deed references, and every deed of trust and lien with its release, if any.
+ */
+export function buildTitleReport(inputs: TitleInputs, now = new Date()): TitleReport {
+    const issues: TitleIssue[] = [];
+    const chain = buildChain(inputs.documents, issues);
+    crossCheckCad(chain, inputs.ownershipHistory, issues);
+
+    const last = chain[chain.length - 1];
+    if (last && inputs.currentOwners.length > 0 && !sameParty(last.grantees, inputs.currentOwners)) {
+        issues.push({
+            kind: 'current_owner_mismatch',
+            message: `The last conveyance found is to ${last.grantees.join(', ') || 'an unknown grantee'}, but the CAD lists ${inputs.currentOwners.join(', ')} as the current owner.`,
+            instrument_number: last.instrument_number,
+        });
+    }
+
+    const encumbrances = buildEncumbrances(inputs.documents);
+    return {
+        account_number: inputs.accountNumber,
+        generated_at: now.toISOString(),
+        chain,
+        issues,
+        encumbrances,
+        open_encumbrances: encumbrances.filter(encumbrance => encumbrance.status === 'open').length,
+    };
+}
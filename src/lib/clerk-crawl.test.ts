@@ -0,0 +1,48 @@
+// src/lib/clerk-crawl.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { documentsToCapture, formatSearchDate, INDEXING_LAG_DAYS, planClerkCrawl } from './clerk-crawl.js';
+
+describe('planClerkCrawl', () => {
+    const lastCrawl = new Date(2025, 2, 31, 15, 30);
+
+    it('searches the full range the first time, skipping processed instruments', () => {
+        const crawl = planClerkCrawl(null, [{ instrument_number: '201500123456', filing_date: '2015-01-02', processed: true }]);
+        assert.equal(crawl.since, null);
+        assert.deepEqual([...crawl.skip], ['201500123456']);
+    });
+
+    it('starts an indexing lag before the last crawl', () => {
+        const crawl = planClerkCrawl(lastCrawl, [{ instrument_number: '201500123456', filing_date: '2015-01-02', processed: true }]);
+        assert.deepEqual(crawl.since, new Date(2025, 2, 31 - INDEXING_LAG_DAYS));
+    });
+
+    it('reaches back to documents that still need processing', () => {
+        const crawl = planClerkCrawl(lastCrawl, [
+            { instrument_number: '201500123456', filing_date: '2015-01-02', processed: true },
+            { instrument_number: '201900000001', filing_date: '2019-05-05', processed: false },
+        ]);
+        assert.deepEqual(crawl.since, new Date(2019, 4, 5));
+        assert.deepEqual([...crawl.skip], ['201500123456']);
+
+        const undated = planClerkCrawl(lastCrawl, [{ instrument_number: '201900000001', filing_date: null, processed: false }]);
+        assert.equal(undated.since, null);
+    });
+});
+
+describe('documentsToCapture', () => {
+    it('drops skipped instruments and keeps ones without a number', () => {
+        const documents = [{ instrument_number: '201500123456' }, { instrument_number: ' 202400000001 ' }, { document_type: 'RELEASE' }];
+        const crawl = { since: null, skip: new Set(['201500123456']) };
+        assert.deepEqual(documentsToCapture(documents, crawl), documents.slice(1));
+        assert.equal(documentsToCapture(documents, undefined), documents);
+    });
+});
+
+describe('formatSearchDate', () => {
+    it('formats dates for each search form', () => {
+        assert.equal(formatSearchDate(new Date(2025, 0, 5), 'compact'), '20250105');
+        assert.equal(formatSearchDate(new Date(2025, 0, 5), 'us'), '01/05/2025');
+    });
+});
@@ -0,0 +1,57 @@
+// src/lib/clerk-crawl.ts
+
+import type { ClerkCrawl, ClerkSearchResult } from '../counties/types.js';
+
+/** Where a full clerk search starts. */
+export const CLERK_SEARCH_START = new Date(2000, 0, 1);
+
+/**
+ * Days searched again before the last crawl. Clerks index a document some days
+ * after its recorded date, so a document recorded just before the last crawl may
+ * only show up now.
+ */
+export const INDEXING_LAG_DAYS = 30;
+
+/** A clerk document already stored for the account, as the crawl planner needs it. */
+export interface StoredClerkDocument {
+    instrument_number: string;
+    filing_date: string | null;
+    /** False when its OCR or summary failed, so it should be processed again. */
+    processed: boolean;
+}
+
+/**
+ * Narrows a clerk crawl to what earlier crawls left undone. The search starts
+ * `INDEXING_LAG_DAYS` before the last successful crawl, or earlier if a stored
+ * document still needs processing; processed instruments are skipped. Without
+ * an earlier crawl, or with an unprocessed document of unknown date, the full
+ * date range is searched.
+ */
+export function planClerkCrawl(lastCrawledAt: Date | null, stored: StoredClerkDocument[]): ClerkCrawl {
+    const skip = new Set(stored.filter(doc => doc.processed).map(doc => doc.instrument_number.trim()));
+    if (!lastCrawledAt) return { since: null, skip };
+
+    let since = new Date(lastCrawledAt.getFullYear(), lastCrawledAt.getMonth(), lastCrawledAt.getDate() - INDEXING_LAG_DAYS);
+    for (const doc of stored) {
+        if (doc.processed) continue;
+        if (!doc.filing_date) return { since: null, skip };
+        const [year, month, day] = doc.filing_date.split('-').map(Number);
+        const filed = new Date(year, month - 1, day);
+        if (filed < since) since = filed;
+    }
+    return { since: since <= CLERK_SEARCH_START ? null : since, skip };
+}
+
+/** The search results a crawl still has to open: those whose instrument isn't skipped. */
+export function documentsToCapture<T extends ClerkSearchResult>(documents: T[], crawl: ClerkCrawl | undefined): T[] {
+    if (!crawl || crawl.skip.size === 0) return documents;
+    return documents.filter(doc => !doc.instrument_number || !crawl.skip.has(doc.instrument_number.trim()));
+}
+
+/** A date as a clerk search form wants it: `YYYYMMDD` or `MM/DD/YYYY`. */
+export function formatSearchDate(date: Date, format: 'compact' | 'us'): string {
+    const year = date.getFullYear().toString();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return format === 'compact' ? `${year}${month}${day}` : `${month}/${day}/${year}`;
+}
@@ -0,0 +1,56 @@
+// src/lib/clerk-query.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { clerkQueryFor, matchesClerkQuery } from './clerk-query.js';
+import { parseLegalDescription } from './legal-description.js';
+
+const queryFor = (description: string) => {
+    const query = clerkQueryFor(parseLegalDescription(description));
+    assert.ok(query, `no clerk query for ${description}`);
+    return query;
+};
+
+describe('clerkQueryFor', () => {
+    it('needs a subdivision and a lot for platted parcels', () => {
+        assert.equal(clerkQueryFor(parseLegalDescription('BLK 3 LOT 12')), null);
+        assert.equal(clerkQueryFor(parseLegalDescription('GULF PALM ADDN BLK 3')), null);
+        assert.equal(queryFor('GULF PALM ADDN BLK 3 LOT 12').kind, 'platted');
+    });
+
+    it('builds queries for tracts and condos, but not unparsed descriptions', () => {
+        assert.deepEqual(queryFor('ABST 1234 TR 5 2.5 ACS'), { kind: 'tract', abstract: '1234', tract: '5', survey: null });
+        assert.deepEqual(queryFor('TURTLE CREEK CONDOS UNIT 1204'), { kind: 'condo', condominium: 'TURTLE CREEK', building: null, unit: '1204' });
+        assert.equal(clerkQueryFor(parseLegalDescription('SOMETHING WEIRD')), null);
+    });
+});
+
+describe('matchesClerkQuery', () => {
+    it('matches a lot inside a range or list on the document', () => {
+        const query = queryFor('HIGHLAND PARK WEST BLK 2 LOT 3');
+        assert.equal(matchesClerkQuery(query, 'Lot: 1-4 Block: 2 HIGHLAND PARK WEST'), true);
+        assert.equal(matchesClerkQuery(query, 'LOTS 3 & 4 BLK 2 HIGHLAND PARK WEST'), true);
+        assert.equal(matchesClerkQuery(query, 'LOT 5 BLK 2 HIGHLAND PARK WEST'), false);
+        assert.equal(matchesClerkQuery(query, 'LOT 3 BLK 9 HIGHLAND PARK WEST'), false);
+    });
+
+    it('matches any lot of a multi-lot parcel', () => {
+        const query = queryFor('HIGHLAND PARK WEST BLK 2 LTS 1-4 & PT LT 5');
+        assert.equal(matchesClerkQuery(query, 'PT LOT 5 BLOCK 2'), true);
+        assert.equal(matchesClerkQuery(query, 'LOT 6 BLOCK 2'), false);
+    });
+
+    it('matches tracts by abstract and tract', () => {
+        const query = queryFor('ABST 1234 TR 5 2.5 ACS');
+        assert.equal(matchesClerkQuery(query, 'A-1234 TRACT 5'), true);
+        assert.equal(matchesClerkQuery(query, 'ABSTRACT 1234 TR 6'), false);
+        assert.equal(matchesClerkQuery(query, 'ABST 999 TR 5'), false);
+    });
+
+    it('matches condos by unit', () => {
+        const query = queryFor('TURTLE CREEK CONDOS BLDG A UNIT 1204');
+        assert.equal(matchesClerkQuery(query, 'TURTLE CREEK CONDOMINIUMS UNIT 1204'), true);
+        assert.equal(matchesClerkQuery(query, 'TURTLE CREEK CONDOMINIUMS BLDG B UNIT 1204'), false);
+        assert.equal(matchesClerkQuery(query, undefined), false);
+    });
+});
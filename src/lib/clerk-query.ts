@@ -0,0 +1,61 @@
+// src/lib/clerk-query.ts
+
+import type { ClerkQuery } from '../counties/types.js';
+import { parseLegalDescription, type LegalDescription } from './legal-description.js';
+
+/**
+ * Builds the clerk search for a parsed legal description. Platted lots need a
+ * subdivision and at least one lot, tracts an abstract number and condos a
+ * condominium name; anything less (or an unparsed description) returns null.
+ */
+export function clerkQueryFor(legal: LegalDescription): ClerkQuery | null {
+    switch (legal.kind) {
+        case 'platted': {
+            const parcels = legal.parcels.filter(parcel => parcel.lots.length > 0);
+            if (!legal.subdivision || parcels.length === 0) return null;
+            return { kind: 'platted', subdivision: legal.subdivision, parcels };
+        }
+        case 'tract':
+            if (!legal.abstract) return null;
+            return { kind: 'tract', abstract: legal.abstract, tract: legal.tract, survey: legal.survey };
+        case 'condo':
+            if (!legal.condominium) return null;
+            return { kind: 'condo', condominium: legal.condominium, building: legal.building, unit: legal.unit };
+        case 'unparsed':
+            return null;
+    }
+}
+
+/**
+ * Whether a clerk document's legal description names the queried parcel. The
+ * document's description is parsed with the same grammar, so "LTS 1-4" matches a
+ * query for lot 3. A platted document matches when one of its parcels shares a lot
+ * (and the block, when the query has one) with a queried parcel.
+ */
+export function matchesClerkQuery(query: ClerkQuery, documentLegal: string | undefined): boolean {
+    const legal = parseLegalDescription(documentLegal);
+    switch (query.kind) {
+        case 'platted':
+            if (legal.kind !== 'platted') return false;
+            return query.parcels.some(parcel => legal.parcels.some(found =>
+                (!parcel.block || found.block === parcel.block) && found.lots.some(lot => parcel.lots.includes(lot))));
+        case 'tract':
+            if (legal.kind !== 'tract' || legal.abstract !== query.abstract) return false;
+            return !query.tract || !legal.tract || legal.tract === query.tract;
+        case 'condo':
+            if (legal.kind !== 'condo' || legal.unit !== query.unit) return false;
+            return !query.building || !legal.building || legal.building === query.building;
+    }
+}
+
+/** A short description of the query for log lines, e.g. "GULF PALM ADDN BLK 3 LOT 12". */
+export function describeClerkQuery(query: ClerkQuery): string {
+    switch (query.kind) {
+        case 'platted':
+            return `${query.subdivision} ${query.parcels.map(parcel => `${parcel.block ? `BLK ${parcel.block} ` : ''}LOT ${parcel.lots.join(', ')}`).join('; ')}`;
+        case 'tract':
+            return `ABST ${query.abstract}${query.tract ? ` TR ${query.tract}` : ''}`;
+        case 'condo':
+            return `${query.condominium}${query.building ? ` BLDG ${query.building}` : ''} UNIT ${query.unit}`;
+    }
+}
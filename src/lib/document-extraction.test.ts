@@ -0,0 +1,80 @@
+// src/lib/document-extraction.test.ts
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createGeminiDocumentAI, createStubDocumentAI } from '../document-ai/index.js';
+import { classifyDocumentLabel, extractDocumentDetails } from './document-extraction.js';
+
+describe('classifyDocumentLabel', () => {
+    it('maps clerk index labels to document classes', () => {
+        assert.equal(classifyDocumentLabel('WARRANTY DEED W/VENDORS LIEN'), 'warranty_deed');
+        assert.equal(classifyDocumentLabel('Special Warranty Deed'), 'special_warranty_deed');
+        assert.equal(classifyDocumentLabel('DEED OF TRUST'), 'deed_of_trust');
+        assert.equal(classifyDocumentLabel('AFFIDAVIT OF HEIRSHIP'), 'affidavit_of_heirship');
+        assert.equal(classifyDocumentLabel('LIS PENDENS'), 'lis_pendens');
+    });
+
+    it('prefers the most specific class', () => {
+        assert.equal(classifyDocumentLabel('RELEASE OF LIEN'), 'release');
+        assert.equal(classifyDocumentLabel('TRANSFER OF LIEN'), 'assignment');
+        assert.equal(classifyDocumentLabel('MECHANICS LIEN'), 'lien');
+    });
+
+    it('returns null for missing or unknown labels', () => {
+        assert.equal(classifyDocumentLabel(undefined), null);
+        assert.equal(classifyDocumentLabel('MISCELLANEOUS'), null);
+    });
+});
+
+describe('extractDocumentDetails', () => {
+    const realFetch = globalThis.fetch;
+    const gemini = createGeminiDocumentAI({ apiKey: 'test' });
+    let answers: unknown[] = [];
+
+    before(() => {
+        globalThis.fetch = async () => new Response(JSON.stringify({
+            candidates: [{ content: { parts: [{ text: JSON.stringify(answers.shift()) }] } }],
+            usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 20 },
+        }), { status: 200 });
+    });
+
+    after(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('extracts and normalizes the fields of a deed of trust', async () => {
+        answers = [{ borrowers: ['SMITH JOHN'], lender: 'FIRST BANK', loan_amount: '$250,000.00', maturity_date: '2055-03-01', referenced_instruments: ['201500123456'] }];
+        const result = await extractDocumentDetails(gemini, 'DEED OF TRUST', 'text');
+        assert.ok(result.success);
+        const details = result.data;
+        assert.ok(details.type === 'deed_of_trust');
+        assert.equal(details.loan_amount, 250000);
+        assert.equal(details.maturity_date, '2055-03-01');
+        assert.equal(details.trustee, null);
+        assert.deepEqual(details.parties, []);
+        assert.deepEqual(details.referenced_instruments, ['201500123456']);
+    });
+
+    it('asks the model to classify when the label is unknown', async () => {
+        answers = [{ type: 'easement' }, { purpose: 'utilities', grantees: ['ONCOR ELECTRIC'] }];
+        const result = await extractDocumentDetails(gemini, 'MISCELLANEOUS', 'text');
+        assert.ok(result.success && result.data.type === 'easement');
+        assert.equal(result.data.purpose, 'utilities');
+        assert.deepEqual(result.usage, { requests: 2, promptTokens: 200, outputTokens: 40 });
+    });
+
+    it('rejects answers that do not match the schema', async () => {
+        answers = [{ heirs: 'JANE' }];
+        const result = await extractDocumentDetails(gemini, 'AFFIDAVIT OF HEIRSHIP', 'text');
+        assert.ok(!result.success);
+        assert.equal(result.error.kind, 'invalid_response');
+        assert.match(result.error.message, /heirs/);
+    });
+
+    it('falls back to schema defaults with the stub provider', async () => {
+        const result = await extractDocumentDetails(createStubDocumentAI(), 'QUITCLAIM DEED', 'text');
+        assert.ok(result.success && result.data.type === 'quitclaim_deed');
+        assert.deepEqual(result.data.grantees, []);
+        assert.deepEqual(result.usage, { requests: 0, promptTokens: 0, outputTokens: 0 });
+    });
+});
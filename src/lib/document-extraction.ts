@@ -0,0 +1,178 @@
+// src/lib/document-extraction.ts
+
+import { z } from 'zod';
+import { addUsage, DocumentAIError, NO_USAGE, type AIResult, type DocumentAI, type TokenUsage } from '../document-ai/types.js';
+import { cleanAndParseNumber, formatAsDate } from './assessment-records.js';
+
+/** The document classes clerk instruments are sorted into; anything else is `other`. */
+export const DOCUMENT_TYPES = [
+    'warranty_deed',
+    'special_warranty_deed',
+    'quitclaim_deed',
+    'deed_of_trust',
+    'release',
+    'assignment',
+    'lien',
+    'lis_pendens',
+    'affidavit_of_heirship',
+    'easement',
+    'plat',
+    'other',
+] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+// Field helpers. The model leaves out what a document doesn't say, so every field
+// defaults to null or an empty list; amounts and dates are normalized after parsing.
+const text = (description: string) => z.string().nullable().default(null).describe(description);
+const names = (description: string) => z.array(z.string()).default([]).describe(description);
+const amount = (description: string) => z.union([z.number(), z.string()]).nullable().default(null)
+    .transform(value => typeof value === 'string' ? cleanAndParseNumber(value) : value)
+    .describe(`${description}, as a number`);
+const date = (description: string) => z.string().nullable().default(null)
+    .transform(value => formatAsDate(value))
+    .describe(`${description}, as YYYY-MM-DD`);
+
+const commonFields = {
+    parties: z.array(z.object({ name: z.string(), role: z.string() })).default([])
+        .describe('Every person or entity named in the document, each with its role (e.g. grantor, grantee, borrower, lender, trustee, heir, notary)'),
+    referenced_instruments: names('Instrument or document numbers of other recorded documents this one refers to'),
+    execution_date: date('The date the document was signed'),
+    notary_date: date('The date of the notary acknowledgment'),
+};
+
+const deedSchema = z.object({
+    ...commonFields,
+    grantors: names('The sellers or grantors'),
+    grantees: names('The buyers or grantees'),
+    consideration: amount('The stated consideration or sale price, if a dollar amount is given'),
+    vendors_lien: z.boolean().nullable().default(null).describe("Whether a vendor's lien is retained"),
+});
+
+/** One zod schema per document class, listing the fields extracted for it. */
+export const documentSchemas = {
+    warranty_deed: deedSchema,
+    special_warranty_deed: deedSchema,
+    quitclaim_deed: deedSchema,
+    deed_of_trust: z.object({
+        ...commonFields,
+        borrowers: names('The borrowers or grantors of the deed of trust'),
+        lender: text('The lender or beneficiary'),
+        trustee: text('The trustee'),
+        loan_amount: amount('The principal amount of the note'),
+        maturity_date: date('The maturity date of the note'),
+    }),
+    release: z.object({
+        ...commonFields,
+        releasing_party: text('The lender or lienholder granting the release'),
+        released_parties: names('The borrowers or owners being released'),
+    }),
+    assignment: z.object({
+        ...commonFields,
+        assignor: text('The party assigning the lien or note'),
+        assignee: text('The party receiving it'),
+    }),
+    lien: z.object({
+        ...commonFields,
+        lien_kind: text("The kind of lien, e.g. mechanic's, tax, HOA, judgment or federal tax"),
+        lienholder: text('The party claiming the lien'),
+        debtors: names('The owners or debtors the lien is against'),
+        amount: amount('The amount claimed'),
+    }),
+    lis_pendens: z.object({
+        ...commonFields,
+        plaintiffs: names('The plaintiffs'),
+        defendants: names('The defendants'),
+        cause_number: text('The court cause number'),
+        court: text('The court the suit is pending in'),
+    }),
+    affidavit_of_heirship: z.object({
+        ...commonFields,
+        decedent: text('The person who died'),
+        date_of_death: date('The date of death'),
+        heirs: names('The heirs named in the affidavit'),
+    }),
+    easement: z.object({
+        ...commonFields,
+        grantors: names('The owners granting the easement'),
+        grantees: names('The parties receiving the easement'),
+        purpose: text('What the easement is for, e.g. utilities, access, drainage'),
+    }),
+    plat: z.object({
+        ...commonFields,
+        subdivision: text('The name of the subdivision or addition being platted'),
+        owners: names('The owners dedicating the plat'),
+        surveyor: text('The surveyor'),
+    }),
+    other: z.object({
+        ...commonFields,
+        description: text('What the document does, in a few words'),
+    }),
+} satisfies Record<DocumentType, z.AnyZodObject>;
+
+/** The typed details of one document; `type` picks the schema the rest follows. */
+export type DocumentDetails = { [T in DocumentType]: { type: T } & z.infer<typeof documentSchemas[T]> }[DocumentType];
+
+/**
+ * Clerk index labels, most specific first: "RELEASE OF LIEN" is a release and
+ * "TRANSFER OF LIEN" an assignment, not a lien.
+ */
+const LABEL_PATTERNS: [RegExp, DocumentType][] = [
+    [/SPECIAL WARRANTY|\bSWD\b/, 'special_warranty_deed'],
+    [/RELEASE|\bREL\b/, 'release'],
+    [/ASSIGNMENT|\bASSIGN\b|TRANSFER OF LIEN/, 'assignment'],
+    [/DEED OF TRUST|\bDOT\b|\bD\/T\b/, 'deed_of_trust'],
+    [/WARRANTY DEED|\bWD\b|DEED W(?:ITH|\/)\s*VENDOR/, 'warranty_deed'],
+    [/QUIT\s*CLAIM|\bQCD\b/, 'quitclaim_deed'],
+    [/LIS PENDENS/, 'lis_pendens'],
+    [/HEIRSHIP/, 'affidavit_of_heirship'],
+    [/EASEMENT|RIGHT OF WAY/, 'easement'],
+    [/\bPLAT\b/, 'plat'],
+    [/LIEN|JUDGMENT/, 'lien'],
+];
+
+/** Classifies a document from the type label in the clerk's index, or null if the label isn't recognized. */
+export function classifyDocumentLabel(label: string | undefined): DocumentType | null {
+    const normalized = (label ?? '').toUpperCase().replace(/\s+/g, ' ').trim();
+    if (!normalized) return null;
+    return LABEL_PATTERNS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+}
+
+function fieldList(schema: z.AnyZodObject): string {
+    return Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+        .map(([field, fieldSchema]) => `- ${field}: ${fieldSchema.description ?? ''}`)
+        .join('\n');
+}
+
+/**
+ * Classifies an OCR'd clerk document and extracts the fields of its class. The
+ * clerk's own label is tried first; the model classifies only when the label is
+ * missing or unrecognized. An answer that doesn't match the class's schema is an
+ * `invalid_response` error.
+ * @param ai The document AI provider.
+ * @param label The document type shown in the clerk's search results.
+ * @param documentText The OCR text of every page.
+ */
+export async function extractDocumentDetails(ai: DocumentAI, label: string | undefined, documentText: string): Promise<AIResult<DocumentDetails>> {
+    let type = classifyDocumentLabel(label);
+    let usage: TokenUsage = NO_USAGE;
+    if (!type) {
+        const classified = await ai.classify(documentText);
+        if (!classified.success) return classified;
+        type = classified.data;
+        usage = classified.usage;
+    }
+
+    const schema: z.AnyZodObject = documentSchemas[type];
+    const answer = await ai.extractJson(
+        `Extract these fields from the following recorded document (${type.replace(/_/g, ' ')}) and return them as one JSON object. Use null or an empty list for anything the document doesn't state.\n${fieldList(schema)}`,
+        documentText,
+    );
+    usage = addUsage(usage, answer.usage);
+    if (!answer.success) return { ...answer, usage };
+    const parsed = schema.safeParse(answer.data);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return { success: false, error: new DocumentAIError(`Extracted ${type} fields don't match the schema: ${issue.path.join('.')}: ${issue.message}`, 'invalid_response'), usage };
+    }
+    return { success: true, data: { type, ...parsed.data } as DocumentDetails, usage };
+}
@@ -0,0 +1,67 @@
+// src/lib/document-processing.ts
+
+import type { CapturedDocument, ClerkDocument } from '../counties/types.js';
+import { addUsage, getDocumentAI, NO_USAGE, type DocumentAI, type DocumentAIError, type TokenUsage } from '../document-ai/index.js';
+import { extractDocumentDetails, type DocumentDetails } from './document-extraction.js';
+
+/** What the AI produced for one document. Null fields failed; the reason was logged. */
+export interface ProcessedText {
+    summary: string | null;
+    details: DocumentDetails | null;
+    usage: TokenUsage;
+}
+
+/**
+ * OCRs, summarizes and classifies captured clerk documents one at a time. A
+ * failure on one document is logged and leaves its summary and details null
+ * rather than failing the batch.
+ * @param documents The documents returned by a county adapter's `fetchDocuments`.
+ */
+export async function processCapturedDocuments(documents: CapturedDocument[], ai: DocumentAI = getDocumentAI()): Promise<ClerkDocument[]> {
+    const processedDocs: ClerkDocument[] = [];
+    for (const doc of documents) {
+        let processed: ProcessedText = { summary: null, details: null, usage: NO_USAGE };
+        if (doc.images.length > 0) {
+            const ocr = await ai.ocr(doc.images);
+            if (ocr.success) {
+                processed = await processDocumentText(doc, ocr.data, ai);
+                processed.usage = addUsage(ocr.usage, processed.usage);
+            } else {
+                logFailure('read the text of', doc.instrument_number, ocr.error);
+                processed.usage = ocr.usage;
+            }
+        }
+        processedDocs.push(toClerkDocument(doc, processed));
+    }
+    return processedDocs;
+}
+
+/**
+ * Summarizes a document's OCR text and extracts the typed fields of its class.
+ * Either failing is logged and leaves that field null.
+ */
+export async function processDocumentText(
+    doc: Pick<CapturedDocument, 'document_type' | 'instrument_number'>,
+    text: string,
+    ai: DocumentAI = getDocumentAI(),
+): Promise<ProcessedText> {
+    const summary = await ai.summarize(text);
+    if (!summary.success) logFailure('summarize', doc.instrument_number, summary.error);
+    const details = await extractDocumentDetails(ai, doc.document_type, text);
+    if (!details.success) logFailure('extract typed fields for', doc.instrument_number, details.error);
+    return {
+        summary: summary.success ? summary.data : null,
+        details: details.success ? details.data : null,
+        usage: addUsage(summary.usage, details.usage),
+    };
+}
+
+function logFailure(action: string, instrumentNumber: string | undefined, error: DocumentAIError) {
+    console.error(`Failed to ${action} ${instrumentNumber ?? 'a document'} (${error.kind}):`, error.message);
+}
+
+/** Drops the captured images and attaches the summary, typed details and token usage, ready to be saved. */
+export function toClerkDocument(doc: CapturedDocument, processed: Partial<ProcessedText> = {}): ClerkDocument {
+    const { images, captureError, ...metadata } = doc;
+    return { ...metadata, summary: processed.summary ?? null, details: processed.details ?? null, usage: processed.usage ?? NO_USAGE };
+}
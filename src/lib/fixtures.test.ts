@@ -0,0 +1,174 @@
+// src/lib/fixtures.test.ts
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { getCountyAdapter, type ClerkQuery } from '../counties/index.js';
+import { createGeminiDocumentAI } from '../document-ai/index.js';
+import { dcadSteps } from '../scrapers/dallas/assessment-scraper.js';
+import { extractDocumentDetails } from './document-extraction.js';
+import { processCapturedDocuments } from './document-processing.js';
+import { selectorDriftReport } from './navigation-steps.js';
+import { runWithStagehand } from './stagehand-session.js';
+
+const dallas = getCountyAdapter('dallas');
+const DETAIL_URL = 'https://www.dallascad.org/AcctDetailRes.aspx?ID=00000776533000000';
+const HISTORY_URL = 'https://www.dallascad.org/AcctHistory.aspx?ID=00000776533000000';
+const DOCUMENT_URL = 'https://dallas.tx.publicsearch.us/doc/202400012345';
+const PAGE_IMAGE = Buffer.from('page one');
+
+const detailPage = {
+    text: [
+        'Property Location (Current 2025)',
+        'Address: 9920 GULF PALM DR',
+        'Owner (Current 2025)',
+        'SMITH JOHN',
+        '9920 GULF PALM DR',
+        'DALLAS, TEXAS 75238',
+        'Legal Desc (Current 2025)',
+        '1: GULF PALM ADDN',
+        '2: BLK 3 LOT 12',
+        '4: INT201500123456 DD01012015 CO-DC',
+        'Deed Transfer Date: 1/2/2015',
+        'Improvement:\t$300,000',
+        'Land:\t+ $100,000',
+        'Market Value:\t=$400,000',
+        'Year Built: 1978',
+        'Total Living Area: 2,100 sqft',
+    ].join('\n'),
+    tables: [],
+};
+
+const historyPage = {
+    text: '',
+    tables: [
+        [['Year', 'Owner', 'Legal Description'], ['2024', 'SMITH JOHN\n9920 GULF PALM DR', '1: GULF PALM ADDN\nINT201500123456\nDeed Transfer Date: 1/2/2015']],
+        [['Year', 'Total Market Value'], ['2024', '$400,000'], ['2023', '$380,000']],
+        [['Year', 'Exemptions'], ['2024', 'HS']],
+    ],
+};
+
+// The CT and the other house number don't match the target, so the DR is opened without asking.
+const resultsPage = {
+    text: '',
+    tables: [[
+        ['#', 'Property Address', 'City', 'Owner', 'Total Value'],
+        ['1', '9920 GULF PALM CT', 'DALLAS', 'DOE JANE', '$350,000'],
+        ['2', '9920 GULF PALM DR', 'DALLAS', 'SMITH JOHN', '$400,000'],
+        ['3', '9922 GULF PALM DR', 'DALLAS', 'ROE RICHARD', '$410,000'],
+    ]],
+};
+
+async function writeTape(dir: string, entries: object[]) {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'tape.json'), JSON.stringify(entries));
+}
+
+describe('fixture replay', () => {
+    let fixturesDir: string;
+    const realFetch = globalThis.fetch;
+
+    before(async () => {
+        fixturesDir = await mkdtemp(join(tmpdir(), 'fixtures-'));
+        process.env.FIXTURES_DIR = fixturesDir;
+
+        await writeTape(join(fixturesDir, 'stagehand-1'), [
+            { call: 'goto', key: 'https://www.dallascad.org/searchaddr.aspx', url: 'https://www.dallascad.org/searchaddr.aspx' },
+            { call: 'fill', key: dcadSteps.addressNumber('9920').selector, url: 'https://www.dallascad.org/searchaddr.aspx' },
+            { call: 'fill', key: dcadSteps.streetName('Gulf Palm').selector, url: 'https://www.dallascad.org/searchaddr.aspx' },
+            { call: 'click', key: dcadSteps.searchButton().selector, url: 'https://www.dallascad.org/SearchAddr.aspx' },
+            { call: 'evaluate', url: 'https://www.dallascad.org/SearchAddr.aspx', result: resultsPage },
+            // The result link moved: the AI fallback finds it.
+            { call: 'click', key: 'a:text-is("9920 GULF PALM DR") >> nth=0', url: 'https://www.dallascad.org/SearchAddr.aspx', error: 'Timeout 10000ms exceeded.' },
+            { call: 'observe', key: "click the address link '9920 GULF PALM DR' in the result row for DALLAS", url: 'https://www.dallascad.org/SearchAddr.aspx', result: [{ selector: 'xpath=/html[1]/body[1]/div[2]/a[1]', description: '9920 GULF PALM DR' }] },
+            { call: 'click', key: 'xpath=/html[1]/body[1]/div[2]/a[1]', url: DETAIL_URL },
+            { call: 'evaluate', url: DETAIL_URL, result: detailPage },
+            { call: 'click', key: dcadSteps.historyLink().selector, url: HISTORY_URL },
+            { call: 'evaluate', url: HISTORY_URL, result: historyPage },
+        ]);
+
+        const clerkTape = join(fixturesDir, 'stagehand-2');
+        await writeTape(clerkTape, [
+            { call: 'goto', key: 'https://dallas.tx.publicsearch.us/results', url: 'https://dallas.tx.publicsearch.us/results' },
+            { call: 'waitForSelector', key: 'table tbody tr', url: 'https://dallas.tx.publicsearch.us/results' },
+            {
+                call: 'extract',
+                key: 'From the search results table, extract an array of all documents shown.',
+                url: 'https://dallas.tx.publicsearch.us/results',
+                result: {
+                    documents: [
+                        { document_type: 'WARRANTY DEED', grantor: 'DOE JANE', grantee: 'SMITH JOHN', filing_date: '01/02/2015', instrument_number: '201500123456', legal_description: 'GULF PALM ADDN BLK 3 LOT 12' },
+                        { document_type: 'RELEASE', instrument_number: '201600000001', legal_description: 'GULF PALM ADDN BLK 3 LOT 14' },
+                    ],
+                },
+            },
+            { call: 'click', key: 'table tbody tr:nth-child(1)', url: DOCUMENT_URL },
+            { call: 'waitForSelector', key: 'svg image', url: DOCUMENT_URL },
+            { call: 'extract', key: "Find the page count text on the page (e.g., '1 of 6') and return only the total number of pages as an integer.", url: DOCUMENT_URL, result: { pageCount: 1 } },
+            { call: 'screenshot', key: 'svg image', url: DOCUMENT_URL, screenshot: 'screenshots/007.jpg' },
+        ]);
+        await mkdir(join(clerkTape, 'screenshots'));
+        await writeFile(join(clerkTape, 'screenshots', '007.jpg'), PAGE_IMAGE);
+
+        // Record the Gemini responses the clerk replay needs, against a stand-in API.
+        process.env.FIXTURES_MODE = 'record';
+        const answers = [
+            'WARRANTY DEED ... DOE JANE to SMITH JOHN',
+            'Deed conveying lot 12 from Jane Doe to John Smith.',
+            JSON.stringify({ grantors: ['DOE JANE'], grantees: ['SMITH JOHN'], consideration: '$10.00', parties: [{ name: 'DOE JANE', role: 'grantor' }] }),
+        ];
+        globalThis.fetch = async () => new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: answers.shift() }] } }] }), { status: 200 });
+        const gemini = createGeminiDocumentAI();
+        const ocr = await gemini.ocr([PAGE_IMAGE.toString('base64')]);
+        assert.ok(ocr.success);
+        await gemini.summarize(ocr.data);
+        await extractDocumentDetails(gemini, 'WARRANTY DEED', ocr.data);
+
+        process.env.FIXTURES_MODE = 'replay';
+        globalThis.fetch = async () => { throw new Error('Replay must not touch the network.'); };
+    });
+
+    after(async () => {
+        globalThis.fetch = realFetch;
+        delete process.env.FIXTURES_MODE;
+        delete process.env.FIXTURES_DIR;
+        await rm(fixturesDir, { recursive: true, force: true });
+    });
+
+    it('replays the DCAD assessment through the DOM parsers', async () => {
+        const result = await runWithStagehand(dallas.assessmentSession(), async (page) => {
+            await dallas.searchByAddress(page, { addressNumber: '9920', streetName: 'Gulf Palm Drive' });
+            return dallas.extractAssessment(page);
+        });
+        assert.ok(result.success, result.success ? undefined : result.error);
+        const data = result.data;
+        assert.deepEqual(data.extraction, { detail: 'parser', history: 'parser' });
+        assert.equal(data.accountNumber, '00000776533000000');
+        assert.equal(data.address, '9920 GULF PALM DR');
+        assert.equal(data.legalDescription, 'GULF PALM ADDN\nBLK 3 LOT 12\nINT201500123456 DD01012015 CO-DC');
+        assert.equal(data.deed_xfer_date, '1/2/2015');
+        assert.deepEqual(data.propertyValue, { improvementValue: '$300,000', landValue: '$100,000', totalMarketValue: '$400,000' });
+        assert.deepEqual(data.currentOwners, [{ name: 'SMITH JOHN', address: '9920 GULF PALM DR\nDALLAS, TEXAS 75238', isPrimary: true }]);
+        assert.equal(data.marketValueHistory?.length, 2);
+        assert.deepEqual(data.exemptions, [{ year: '2024', code: 'HS' }]);
+        assert.equal(data.cad_url, DETAIL_URL);
+        assert.deepEqual(selectorDriftReport().map(drift => [drift.step, drift.outcome, drift.selector]), [['dcad.address-search.result', 'healed', 'xpath=/html[1]/body[1]/div[2]/a[1]']]);
+    });
+
+    it('replays the clerk crawl and the Gemini OCR and summary', async () => {
+        const query: ClerkQuery = { kind: 'platted', subdivision: 'GULF PALM ADDN', parcels: [{ block: '3', city_block: null, lots: ['12'], partial: false }] };
+        const result = await runWithStagehand(dallas.clerkSession(), async (page) => processCapturedDocuments(await dallas.fetchDocuments(page, query)));
+        assert.ok(result.success, result.success ? undefined : result.error);
+        assert.equal(result.data.length, 1);
+        assert.equal(result.data[0].instrument_number, '201500123456');
+        assert.equal(result.data[0].documentUrl, DOCUMENT_URL);
+        assert.equal(result.data[0].summary, 'Deed conveying lot 12 from Jane Doe to John Smith.');
+        const details = result.data[0].details;
+        assert.ok(details?.type === 'warranty_deed');
+        assert.equal(details.consideration, 10);
+        assert.deepEqual(details.grantees, ['SMITH JOHN']);
+        assert.equal(result.data[0].usage?.requests, 3);
+    });
+});
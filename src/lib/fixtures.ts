@@ -0,0 +1,241 @@
+// src/lib/fixtures.ts
+
+import type { ExtractOptions, Page } from '@browserbasehq/stagehand';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AnyZodObject } from 'zod';
+
+/*
+ * Record/replay for offline runs. With FIXTURES_MODE=record, every Stagehand
+ * session is recorded to a "tape" under FIXTURES_DIR (default ./fixtures): each
+ * page call and its result, the HTML after every navigation and every screenshot.
+ * Gemini responses are stored next to the tapes, keyed by a hash of the request.
+ * With FIXTURES_MODE=replay, no browser is started and nothing is fetched: the
+ * scrapers are handed a page that plays the tape back, and Gemini calls are
+ * answered from the stored responses.
+ */
+
+export type FixtureMode = 'record' | 'replay';
+
+/** Thrown in replay when the code asks for something the tape didn't record. */
+export class FixtureMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FixtureMismatchError';
+    }
+}
+
+/** The parts of `page.act` / `page.extract` arguments that identify a call. */
+type ActArg = string | { description?: string; action?: string };
+type ExtractArg = string | { instruction?: string } | undefined;
+type ObserveArg = string | { instruction?: string } | undefined;
+
+type TapeCall = 'goto' | 'goBack' | 'act' | 'observe' | 'extract' | 'evaluate' | 'waitForSelector' | 'click' | 'fill' | 'screenshot';
+
+interface TapeEntry {
+    call: TapeCall;
+    /** What the call was about (URL, instruction, selector); replay checks it matches. */
+    key?: string;
+    /** The page URL after the call. */
+    url: string;
+    result?: unknown;
+    /** Set when the recorded call threw; replay throws the same message. */
+    error?: string;
+    /** Page HTML after a navigation, relative to the tape directory. */
+    html?: string;
+    /** Screenshot file, relative to the tape directory. */
+    screenshot?: string;
+}
+
+export interface Tape {
+    dir: string;
+    /** Wraps a live page so everything it does is recorded. */
+    record(page: Page): Page;
+    /** A page that plays the tape back without a browser. */
+    replay(): Promise<Page>;
+    /** Writes the recorded entries; call once the session is done. */
+    save(): Promise<void>;
+}
+
+export function fixtureMode(): FixtureMode | null {
+    const mode = process.env.FIXTURES_MODE;
+    if (!mode) return null;
+    if (mode !== 'record' && mode !== 'replay') throw new Error(`FIXTURES_MODE must be 'record' or 'replay', got '${mode}'.`);
+    return mode;
+}
+
+function fixturesDir(): string {
+    return process.env.FIXTURES_DIR || 'fixtures';
+}
+
+const tapeCounters = new Map<string, number>();
+
+/**
+ * Opens the tape for the next session with this name. Sessions are numbered in
+ * the order they start, so record and replay runs must use the same targets in
+ * the same order, with a concurrency of 1.
+ */
+export function openTape(name: string): Tape {
+    const safeName = name.replace(/[^A-Za-z0-9_-]+/g, '-');
+    const count = (tapeCounters.get(safeName) ?? 0) + 1;
+    tapeCounters.set(safeName, count);
+    const dir = join(fixturesDir(), `${safeName}-${count}`);
+    const entries: TapeEntry[] = [];
+
+    return {
+        dir,
+        record: page => recordPage(page, dir, entries),
+        replay: async () => replayPage(dir, JSON.parse(await readFile(join(dir, 'tape.json'), 'utf8'))),
+        async save() {
+            await mkdir(dir, { recursive: true });
+            await writeFile(join(dir, 'tape.json'), JSON.stringify(entries, null, 2));
+        },
+    };
+}
+
+function recordPage(page: Page, dir: string, entries: TapeEntry[]): Page {
+    const pad = (n: number) => n.toString().padStart(3, '0');
+
+    async function record<T>(call: TapeCall, key: string | undefined, run: () => Promise<T>, options: { html?: boolean; screenshot?: 'png' | 'jpg' } = {}): Promise<T> {
+        const entry: TapeEntry = { call, key, url: '' };
+        entries.push(entry);
+        try {
+            const result = await run();
+            if (options.screenshot) {
+                entry.screenshot = `screenshots/${pad(entries.length)}.${options.screenshot}`;
+                await mkdir(join(dir, 'screenshots'), { recursive: true });
+                await writeFile(join(dir, entry.screenshot), result as Buffer);
+            } else if (result !== undefined && call !== 'goto' && call !== 'goBack' && call !== 'click' && call !== 'fill') {
+                entry.result = result;
+            }
+            return result;
+        } catch (error) {
+            entry.error = (error as Error).message;
+            throw error;
+        } finally {
+            entry.url = page.url();
+            if (options.html) {
+                try {
+                    entry.html = `pages/${pad(entries.length)}.html`;
+                    await mkdir(join(dir, 'pages'), { recursive: true });
+                    await writeFile(join(dir, entry.html), await page.content());
+                } catch {
+                    entry.html = undefined;
+                }
+            }
+        }
+    }
+
+    const overrides: Partial<Record<keyof Page, unknown>> = {
+        goto: (url: string, options?: object) => record('goto', gotoKey(url), () => page.goto(url, options), { html: true }),
+        goBack: (options?: object) => record('goBack', undefined, () => page.goBack(options), { html: true }),
+        act: (action: Parameters<Page['act']>[0]) => record('act', actionKey(action), () => page.act(action), { html: true }),
+        observe: (options: Parameters<Page['observe']>[0]) => record('observe', extractKey(options), () => page.observe(options)),
+        // `extract` is overloaded, so `Parameters` would only see its last, argument-less form.
+        extract: (options?: string | ExtractOptions<AnyZodObject>) => record('extract', extractKey(options), () =>
+            typeof options === 'string' ? page.extract(options) : options ? page.extract(options) : page.extract()),
+        evaluate: (...args: Parameters<Page['evaluate']>) => record('evaluate', undefined, () => page.evaluate(...args)),
+        waitForSelector: (selector: string, options?: object) => record('waitForSelector', selector, () => page.waitForSelector(selector, options).then(() => undefined)),
+        locator: (selector: string) => recordLocator(page.locator(selector), selector),
+    };
+    // Locators are keyed by their selector; `first()` narrows the match without changing the key.
+    const recordLocator = (locator: ReturnType<Page['locator']>, selector: string): object => ({
+        first: () => recordLocator(locator.first(), selector),
+        click: (options?: object) => record('click', selector, () => locator.click(options), { html: true }),
+        fill: (value: string, options?: object) => record('fill', selector, () => locator.fill(value, options)),
+        // Named for the format taken, which is PNG unless the scraper asks for JPEG.
+        screenshot: (options?: { type?: 'png' | 'jpeg' }) =>
+            record('screenshot', selector, () => locator.screenshot(options), { screenshot: options?.type === 'jpeg' ? 'jpg' : 'png' }),
+    });
+    return new Proxy(page, {
+        get(target, property, receiver) {
+            if (property in overrides) return overrides[property as keyof Page];
+            const value = Reflect.get(target, property, receiver);
+            return typeof value === 'function' ? value.bind(target) : value;
+        },
+    });
+}
+
+function replayPage(dir: string, entries: TapeEntry[]): Page {
+    let position = 0;
+    let currentUrl = 'about:blank';
+
+    async function next(call: TapeCall, key?: string): Promise<TapeEntry> {
+        const entry = entries[position];
+        if (!entry) throw new FixtureMismatchError(`Tape ${dir} ended, but the scraper called ${call}${key ? ` (${key})` : ''}.`);
+        if (entry.call !== call || (entry.key !== undefined && entry.key !== key)) {
+            throw new FixtureMismatchError(`Tape ${dir} entry ${position + 1} recorded ${entry.call}${entry.key ? ` (${entry.key})` : ''}, but the scraper called ${call}${key ? ` (${key})` : ''}.`);
+        }
+        position++;
+        currentUrl = entry.url || currentUrl;
+        if (entry.error) throw new Error(entry.error);
+        return entry;
+    }
+
+    const replayed = {
+        url: () => currentUrl,
+        goto: async (url: string) => { await next('goto', gotoKey(url)); return null; },
+        goBack: async () => { await next('goBack'); return null; },
+        act: async (action: ActArg) => (await next('act', actionKey(action))).result,
+        observe: async (options: ObserveArg) => (await next('observe', extractKey(options))).result,
+        extract: async (options: ExtractArg) => (await next('extract', extractKey(options))).result,
+        evaluate: async () => (await next('evaluate')).result,
+        waitForSelector: async (selector: string) => { await next('waitForSelector', selector); return null; },
+        content: async () => {
+            const last = entries.slice(0, position).reverse().find(entry => entry.html);
+            return last?.html ? readFile(join(dir, last.html), 'utf8') : '';
+        },
+        locator: (selector: string) => replayLocator(selector),
+    };
+    const replayLocator = (selector: string): object => ({
+        first: () => replayLocator(selector),
+        click: async () => { await next('click', selector); },
+        fill: async () => { await next('fill', selector); },
+        screenshot: async () => readFile(join(dir, (await next('screenshot', selector)).screenshot!)),
+    });
+    return replayed as unknown as Page;
+}
+
+/** Query strings can hold the current date, so navigations are matched on origin and path. */
+function gotoKey(url: string): string {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}`;
+}
+
+function actionKey(action: ActArg): string {
+    if (typeof action === 'string') return action;
+    return action.description ?? action.action ?? JSON.stringify(action);
+}
+
+function extractKey(options: ExtractArg): string {
+    return typeof options === 'string' ? options : options?.instruction ?? '';
+}
+
+/**
+ * `fetch` for calls to model APIs. Recording stores each response under a hash of
+ * the request body; replaying answers from those files without any network. API
+ * keys go in headers, which are neither hashed nor stored, so they never end up
+ * in a fixture.
+ */
+export async function fixtureFetch(url: string, init: RequestInit & { body: string }): Promise<Response> {
+    const mode = fixtureMode();
+    if (!mode) return fetch(url, init);
+
+    const file = join(fixturesDir(), 'gemini', `${createHash('sha256').update(init.body).digest('hex').slice(0, 16)}.json`);
+    if (mode === 'replay') {
+        let stored: { status: number; body: string };
+        try {
+            stored = JSON.parse(await readFile(file, 'utf8'));
+        } catch {
+            throw new FixtureMismatchError(`No recorded response for this request (${file}).`);
+        }
+        return new Response(stored.body, { status: stored.status, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const response = await fetch(url, init);
+    const body = await response.text();
+    await mkdir(join(fixturesDir(), 'gemini'), { recursive: true });
+    await writeFile(file, JSON.stringify({ status: response.status, body }));
+    return new Response(body, { status: response.status, headers: response.headers });
+}
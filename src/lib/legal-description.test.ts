@@ -0,0 +1,117 @@
+// src/lib/legal-description.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { legalFromColumns, parseLegalDescription, toLegalColumns, type LegalDescription } from './legal-description.js';
+
+function platted(description: string) {
+    const legal = parseLegalDescription(description);
+    assert.equal(legal.kind, 'platted', `expected a platted lot, got ${JSON.stringify(legal)}`);
+    return legal as Extract<LegalDescription, { kind: 'platted' }>;
+}
+
+describe('parseLegalDescription', () => {
+    it('reports an empty description as unparsed', () => {
+        for (const empty of [undefined, null, '']) {
+            const legal = parseLegalDescription(empty);
+            assert.equal(legal.kind, 'unparsed');
+            assert.equal(legal.confidence, 0);
+        }
+    });
+
+    it('parses the DCAD layout with a city block and drops the INT and map code lines', () => {
+        const legal = platted('LAKE HIGHLANDS EST\nBLK 1/7654 LOT 5\nINT201500123456 DD01012015 CO-DC\n7654 001 00500 1DA7654 001');
+        assert.equal(legal.raw, 'LAKE HIGHLANDS EST BLK 1/7654 LOT 5');
+        assert.equal(legal.subdivision, 'LAKE HIGHLANDS EST');
+        assert.deepEqual(legal.parcels, [{ block: '1', city_block: '7654', lots: ['5'], partial: false }]);
+        assert.equal(legal.confidence, 1);
+    });
+
+    it('reads a lot list', () => {
+        assert.deepEqual(platted('OAK CLIFF ANNEX BLOCK 7 LOTS 4 & 5').parcels[0].lots, ['4', '5']);
+        assert.deepEqual(platted('OAK CLIFF ANNEX BLK 7 LTS 4, 5 AND 9').parcels[0].lots, ['4', '5', '9']);
+    });
+
+    it('expands lot ranges', () => {
+        assert.deepEqual(platted('HIGHLAND PARK WEST BLK 2 LTS 1-4').parcels[0].lots, ['1', '2', '3', '4']);
+        assert.deepEqual(platted('HIGHLAND PARK WEST BLK 2 LOTS 7 THRU 9').parcels[0].lots, ['7', '8', '9']);
+    });
+
+    it('marks partial lots and lowers the confidence', () => {
+        for (const description of ['PT LT 7 BLK A MILLER ADDN', 'E 1/2 LOT 7 BLK A MILLER ADDN', 'MILLER ADDN BLK A LTS 6 & PT LT 7']) {
+            const legal = platted(description);
+            assert.equal(legal.subdivision, 'MILLER ADDN', description);
+            assert.equal(legal.parcels[0].partial, true, description);
+            assert.ok(legal.confidence < 1, description);
+        }
+    });
+
+    it('puts the subdivision after the block in the HCAD layout and splits off the section', () => {
+        const legal = platted('LT 12 BLK 3 SHADOW CREEK RANCH SEC 5');
+        assert.equal(legal.subdivision, 'SHADOW CREEK RANCH');
+        assert.equal(legal.section, '5');
+        assert.deepEqual(legal.parcels, [{ block: '3', city_block: null, lots: ['12'], partial: false }]);
+    });
+
+    it('splits off replat and phase suffixes', () => {
+        const legal = platted('ROLLING HILLS REPLAT PH 2 BLK 4 LOT 9');
+        assert.equal(legal.subdivision, 'ROLLING HILLS');
+        assert.equal(legal.phase, '2');
+        assert.equal(legal.replat, true);
+    });
+
+    it('keeps each block of a multi-parcel description separate', () => {
+        assert.deepEqual(platted('SMITH ADDN BLK 3 LT 1 & BLK 4 LTS 2-3').parcels, [
+            { block: '3', city_block: null, lots: ['1'], partial: false },
+            { block: '4', city_block: null, lots: ['2', '3'], partial: false },
+        ]);
+        assert.deepEqual(platted('LT 1 BLK 3 & LT 2 BLK 4 SMITH ADDN').parcels.map(parcel => [parcel.block, parcel.lots]), [['3', ['1']], ['4', ['2']]]);
+    });
+
+    it('parses abstract and survey tracts', () => {
+        assert.deepEqual(parseLegalDescription('ABST 1234 TR 5 2.5 ACS'), {
+            kind: 'tract', raw: 'ABST 1234 TR 5 2.5 ACS', abstract: '1234', survey: null, tract: '5', acres: 2.5, confidence: 0.9,
+        });
+        const survey = parseLegalDescription('JOHN GRIGSBY SURVEY ABST 495 TR 12 1.25 ACRES');
+        assert.equal(survey.kind, 'tract');
+        if (survey.kind === 'tract') {
+            assert.equal(survey.survey, 'JOHN GRIGSBY');
+            assert.equal(survey.abstract, '495');
+        }
+    });
+
+    it('parses condo units', () => {
+        const legal = parseLegalDescription('TURTLE CREEK CONDOS BLDG A UNIT 1204');
+        assert.equal(legal.kind, 'condo');
+        if (legal.kind === 'condo') {
+            assert.equal(legal.condominium, 'TURTLE CREEK');
+            assert.equal(legal.building, 'A');
+            assert.equal(legal.unit, '1204');
+        }
+    });
+
+    it('reports descriptions without a lot, block, tract or unit as unparsed', () => {
+        assert.equal(parseLegalDescription('SOMETHING WITHOUT ANY MARKERS').kind, 'unparsed');
+    });
+});
+
+describe('toLegalColumns / legalFromColumns', () => {
+    it('flattens the first parcel into the stored columns', () => {
+        assert.deepEqual(toLegalColumns(parseLegalDescription('OAK CLIFF ANNEX BLK 7/1234 LOTS 4-6')), {
+            legal_description: 'OAK CLIFF ANNEX BLK 7/1234 LOTS 4-6',
+            subdivision: 'OAK CLIFF ANNEX',
+            block: '7',
+            city_block: '1234',
+            lot1: '4',
+            lot2: '5',
+        });
+    });
+
+    it('re-parses the stored text, or rebuilds a platted lot from older rows', () => {
+        const tract = legalFromColumns({ legal_description: 'ABST 1234 TR 5', subdivision: null, block: null, city_block: null, lot1: null, lot2: null });
+        assert.equal(tract.kind, 'tract');
+        const older = legalFromColumns({ legal_description: null, subdivision: 'GULF PALM ADDN', block: '3', city_block: null, lot1: '12', lot2: null });
+        assert.equal(older.kind, 'platted');
+        if (older.kind === 'platted') assert.deepEqual(older.parcels, [{ block: '3', city_block: null, lots: ['12'], partial: false }]);
+    });
+});
@@ -0,0 +1,461 @@
+// src/lib/legal-description.ts
+
+/** One block of a platted parcel and the lots in it. */
+export interface LotParcel {
+    block: string | null;
+    /** DCAD's city block, written after the block as "BLK 1/7654". */
+    city_block: string | null;
+    /** Every lot, with ranges expanded ("LTS 1-3" gives 1, 2, 3). */
+    lots: string[];
+    /** True when only part of a lot is included ("PT LT 7", "E 1/2 LOT 7"). */
+    partial: boolean;
+}
+
+interface ParsedBase {
+    /** The description the parse came from, joined onto one line. */
+    raw: string;
+    /** How sure the parser is, from 0 (nothing recognized) to 1. */
+    confidence: number;
+}
+
+/** A lot in a recorded subdivision plat. */
+export interface PlattedLegal extends ParsedBase {
+    kind: 'platted';
+    /** The subdivision name without its phase, section or replat suffix. */
+    subdivision: string | null;
+    phase: string | null;
+    section: string | null;
+    replat: boolean;
+    /** One entry per block; multi-parcel descriptions have several. */
+    parcels: LotParcel[];
+}
+
+/** Unplatted land, described by its abstract, survey and tract. */
+export interface TractLegal extends ParsedBase {
+    kind: 'tract';
+    abstract: string | null;
+    survey: string | null;
+    tract: string | null;
+    acres: number | null;
+}
+
+export interface CondoLegal extends ParsedBase {
+    kind: 'condo';
+    condominium: string | null;
+    building: string | null;
+    unit: string;
+}
+
+export interface UnparsedLegal extends ParsedBase {
+    kind: 'unparsed';
+    reason: string;
+}
+
+export type LegalDescription = PlattedLegal | TractLegal | CondoLegal | UnparsedLegal;
+
+/**
+ * The legal description flattened into the columns stored on `properties`. Only
+ * platted descriptions fill the block and lot columns.
+ */
+export interface LegalColumns {
+    legal_description: string | null;
+    subdivision: string | null;
+    block: string | null;
+    city_block: string | null;
+    lot1: string | null;
+    lot2: string | null;
+}
+
+const LOT_WORDS = new Set(['LOT', 'LOTS', 'LT', 'LTS']);
+const BLOCK_WORDS = new Set(['BLK', 'BLOCK', 'BLKS']);
+const PARTIAL_WORDS = new Set(['PT', 'PTS', 'PART', 'PARTS']);
+const LIST_SEPARATORS = new Set([',', '&', 'AND']);
+const RANGE_WORDS = new Set(['THRU', 'THROUGH', 'TO']);
+const ABSTRACT_WORDS = new Set(['ABST', 'ABS', 'ABSTRACT']);
+const TRACT_WORDS = new Set(['TR', 'TRS', 'TRACT', 'TRACTS']);
+const SURVEY_WORDS = new Set(['SURVEY', 'SUR', 'SURV', 'SVY']);
+const ACRE_WORDS = new Set(['AC', 'ACS', 'ACRE', 'ACRES']);
+const UNIT_WORDS = new Set(['UNIT', 'UNT', 'APT']);
+const BUILDING_WORDS = new Set(['BLDG', 'BUILDING']);
+const CONDO_WORDS = new Set(['CONDO', 'CONDOS', 'CONDOMINIUM', 'CONDOMINIUMS']);
+const PHASE_WORDS = new Set(['PH', 'PHASE']);
+const SECTION_WORDS = new Set(['SEC', 'SECTION']);
+const REPLAT_WORDS = new Set(['REPLAT', 'RPLT', 'REPL']);
+
+const LOT_ID = /^(?:\d+[A-Z]?|[A-Z])$/;
+/** Ranges wider than this are kept as written rather than expanded. */
+const MAX_LOT_RANGE = 100;
+
+/**
+ * Drops the lines DCAD appends to a legal description that aren't part of it:
+ * the "INT..." deed reference and the all-numeric map code line.
+ */
+function descriptionText(description: string): string {
+    return description
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !/^INT\d/i.test(line) && !line.split(/\s+/).every(token => /\d/.test(token)))
+        .join(' ');
+}
+
+function tokenize(text: string): string[] {
+    return text
+        .toUpperCase()
+        .replace(/\s*\/\s*/g, '/')
+        .replace(/(\d)\s*-\s*(\d)/g, '$1-$2')
+        .replace(/([,&;:#])/g, ' $1 ')
+        .split(/\s+/)
+        .filter(token => token && token !== ':' && token !== '#');
+}
+
+/** Expands "1-4" into 1, 2, 3, 4; anything else is returned as written. */
+function expandRange(start: string, end: string): string[] {
+    const from = Number(start);
+    const to = Number(end);
+    if (Number.isInteger(from) && Number.isInteger(to) && to >= from && to - from <= MAX_LOT_RANGE) {
+        return Array.from({ length: to - from + 1 }, (_, index) => String(from + index));
+    }
+    return [`${start}-${end}`];
+}
+
+/** A dimension prefix such as "E 1/2", "N 50 FT" or "W 25'" marks a partial lot. */
+function isPartialMarker(tokens: string[], index: number): boolean {
+    const token = tokens[index];
+    if (!token) return false;
+    return PARTIAL_WORDS.has(token) || /^\d\/\d$/.test(token) || token === 'FT' || /^\d+(?:\.\d+)?'$/.test(token);
+}
+
+interface Scan {
+    lotGroups: { position: number; lots: string[]; partial: boolean }[];
+    blocks: { position: number; block: string; city_block: string | null }[];
+    abstract: string | null;
+    tract: string | null;
+    survey: string | null;
+    acres: number | null;
+    unit: string | null;
+    building: string | null;
+    condo: boolean;
+    phase: string | null;
+    section: string | null;
+    replat: boolean;
+    /** Runs of words that aren't part of any keyword, in order. */
+    words: { position: number; text: string[] }[];
+}
+
+function scan(tokens: string[]): Scan {
+    const result: Scan = {
+        lotGroups: [], blocks: [], abstract: null, tract: null, survey: null, acres: null,
+        unit: null, building: null, condo: false, phase: null, section: null, replat: false, words: [],
+    };
+    let run: { position: number; text: string[] } | null = null;
+    const endRun = () => {
+        if (run && run.text.length > 0) result.words.push(run);
+        run = null;
+    };
+    const takeId = (index: number) => (tokens[index] && !LIST_SEPARATORS.has(tokens[index]) ? tokens[index] : null);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (LOT_WORDS.has(token)) {
+            endRun();
+            const partialBefore = [1, 2, 3].some(back => isPartialMarker(tokens, i - back));
+            const lots: string[] = [];
+            let partial = partialBefore;
+            let j = i + 1;
+            for (;;) {
+                while (PARTIAL_WORDS.has(tokens[j]) || tokens[j] === 'OF' || LOT_WORDS.has(tokens[j])) {
+                    if (PARTIAL_WORDS.has(tokens[j])) partial = true;
+                    j++;
+                }
+                const id = tokens[j];
+                if (!id) break;
+                const range = id.match(/^(\d+[A-Z]?)-(\d+[A-Z]?)$/);
+                if (range) {
+                    lots.push(...expandRange(range[1], range[2]));
+                    j++;
+                } else if (LOT_ID.test(id)) {
+                    if (RANGE_WORDS.has(tokens[j + 1]) && LOT_ID.test(tokens[j + 2] ?? '')) {
+                        lots.push(...expandRange(id, tokens[j + 2]));
+                        j += 3;
+                    } else {
+                        lots.push(id);
+                        j++;
+                    }
+                } else {
+                    break;
+                }
+                // Continue the list only if a separator is followed by another lot.
+                let k = j;
+                if (!LIST_SEPARATORS.has(tokens[k])) break;
+                while (LIST_SEPARATORS.has(tokens[k])) k++;
+                let peek = k;
+                while (PARTIAL_WORDS.has(tokens[peek]) || tokens[peek] === 'OF' || LOT_WORDS.has(tokens[peek])) peek++;
+                if (!tokens[peek] || !(LOT_ID.test(tokens[peek]) || /^\d+[A-Z]?-\d+[A-Z]?$/.test(tokens[peek]))) break;
+                j = k;
+            }
+            if (lots.length > 0) result.lotGroups.push({ position: i, lots: [...new Set(lots)], partial });
+            i = j - 1;
+            continue;
+        }
+
+        if (BLOCK_WORDS.has(token)) {
+            endRun();
+            const id = takeId(i + 1);
+            if (id) {
+                const [block, cityBlock] = id.split('/');
+                result.blocks.push({ position: i, block, city_block: cityBlock || null });
+                i++;
+            }
+            continue;
+        }
+
+        if (ABSTRACT_WORDS.has(token) || /^A-\d+$/.test(token)) {
+            endRun();
+            if (token.startsWith('A-')) {
+                result.abstract ??= token.slice(2);
+            } else {
+                const id = takeId(i + 1);
+                if (id) {
+                    result.abstract ??= id.replace(/^A-?/, '');
+                    i++;
+                }
+            }
+            continue;
+        }
+
+        if (TRACT_WORDS.has(token)) {
+            endRun();
+            const id = takeId(i + 1);
+            if (id && !ACRE_WORDS.has(tokens[i + 2] ?? '')) {
+                result.tract ??= id;
+                i++;
+            }
+            continue;
+        }
+
+        if (SURVEY_WORDS.has(token)) {
+            // The survey is named by the words before it: "JOHN GRIGSBY SURVEY".
+            const words = run as { position: number; text: string[] } | null;
+            if (words && words.text.length > 0) {
+                result.survey ??= words.text.join(' ');
+                run = null;
+            }
+            continue;
+        }
+
+        if (ACRE_WORDS.has(token)) {
+            endRun();
+            const before = Number(tokens[i - 1]);
+            const after = Number(tokens[i + 1]);
+            if (Number.isFinite(before) && tokens[i - 1] !== undefined) {
+                result.acres ??= before;
+                // The number was taken into the last word run; drop it from there.
+                const last = result.words[result.words.length - 1];
+                if (last && last.text[last.text.length - 1] === tokens[i - 1]) last.text.pop();
+            } else if (Number.isFinite(after) && tokens[i + 1] !== undefined) {
+                result.acres ??= after;
+                i++;
+            }
+            continue;
+        }
+
+        if (UNIT_WORDS.has(token) || BUILDING_WORDS.has(token)) {
+            endRun();
+            const id = takeId(i + 1);
+            if (id) {
+                if (UNIT_WORDS.has(token)) result.unit ??= id;
+                else result.building ??= id;
+                i++;
+            }
+            continue;
+        }
+
+        if (PHASE_WORDS.has(token) || SECTION_WORDS.has(token)) {
+            endRun();
+            const id = takeId(i + 1);
+            if (id) {
+                if (PHASE_WORDS.has(token)) result.phase ??= id;
+                else result.section ??= id;
+                i++;
+            }
+            continue;
+        }
+
+        if (REPLAT_WORDS.has(token)) {
+            endRun();
+            result.replat = true;
+            continue;
+        }
+
+        if (CONDO_WORDS.has(token)) {
+            result.condo = true;
+            endRun();
+            continue;
+        }
+
+        if (token === ';' || PARTIAL_WORDS.has(token) || (LIST_SEPARATORS.has(token) && token !== '&')) {
+            endRun();
+            continue;
+        }
+
+        run ??= { position: i, text: [] };
+        run.text.push(token);
+    }
+    endRun();
+
+    // Partial-lot dimensions ("E 1/2", "N 50 FT") end up as words; they aren't names.
+    result.words = result.words
+        .map(words => ({ ...words, text: trimSeparators(words.text.filter(word => !/^(?:[NSEW]{1,2}|\d\/\d|FT|\d+(?:\.\d+)?'?|OF)$/.test(word))) }))
+        .filter(words => words.text.length > 0);
+    return result;
+}
+
+function trimSeparators(words: string[]): string[] {
+    let start = 0;
+    let end = words.length;
+    while (start < end && LIST_SEPARATORS.has(words[start])) start++;
+    while (end > start && LIST_SEPARATORS.has(words[end - 1])) end--;
+    return words.slice(start, end);
+}
+
+/**
+ * Pairs each lot list with its block. DCAD writes the block first ("BLK 3 LT 1"),
+ * HCAD the lot first ("LT 1 BLK 3"), so lots attach to the block before them in the
+ * first layout and to the block after them in the second.
+ */
+function buildParcels(result: Scan): LotParcel[] {
+    const { blocks, lotGroups } = result;
+    if (blocks.length <= 1) {
+        const lots = [...new Set(lotGroups.flatMap(group => group.lots))];
+        return [{
+            block: blocks[0]?.block ?? null,
+            city_block: blocks[0]?.city_block ?? null,
+            lots,
+            partial: lotGroups.some(group => group.partial),
+        }];
+    }
+    const blockFirst = blocks[0].position < (lotGroups[0]?.position ?? Infinity);
+    const parcels = blocks.map(block => ({ block: block.block, city_block: block.city_block, lots: [] as string[], partial: false }));
+    for (const group of lotGroups) {
+        const index = blockFirst
+            ? blocks.reduce((found, block, i) => (block.position < group.position ? i : found), 0)
+            : Math.max(0, blocks.findIndex(block => block.position > group.position));
+        parcels[index].lots.push(...group.lots);
+        parcels[index].partial ||= group.partial;
+    }
+    return parcels;
+}
+
+const round = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+
+/**
+ * Parses a Texas appraisal-district legal description. Recognizes platted lots
+ * (lot lists and ranges, partial lots, several blocks, phase/section/replat
+ * suffixes, DCAD "BLK 1/7654" city blocks), abstract/survey tracts and condo units,
+ * in both the DCAD/TAD layout ("GULF PALM ADDN BLK 3 LOT 12") and the HCAD layout
+ * where the subdivision follows the block ("LT 12 BLK 3 SHADOW CREEK RANCH").
+ * @param description The raw, possibly multi-line, legal description.
+ * @returns The parsed description, with a confidence between 0 and 1.
+ */
+export function parseLegalDescription(description: string | undefined | null): LegalDescription {
+    const raw = description ? descriptionText(description) : '';
+    if (!raw) return { kind: 'unparsed', raw, confidence: 0, reason: 'Empty legal description.' };
+
+    const result = scan(tokenize(raw));
+    const firstKeyword = Math.min(
+        result.blocks[0]?.position ?? Infinity,
+        result.lotGroups[0]?.position ?? Infinity,
+    );
+    const leading = result.words.find(words => words.position < firstKeyword);
+    const trailing = result.words.find(words => words.position > firstKeyword);
+    const name = (leading ?? trailing)?.text.join(' ') ?? null;
+
+    if (result.unit && (result.condo || result.lotGroups.length === 0)) {
+        const condominium = result.words[0]?.text.join(' ') ?? null;
+        return {
+            kind: 'condo',
+            raw,
+            condominium,
+            building: result.building,
+            unit: result.unit,
+            confidence: round(0.9 - (condominium ? 0 : 0.3) - (result.condo ? 0 : 0.1)),
+        };
+    }
+
+    const hasPlat = result.lotGroups.length > 0 || result.blocks.length > 0;
+    if (hasPlat && !(result.abstract && result.blocks.length === 0)) {
+        const parcels = buildParcels(result);
+        const hasLots = parcels.some(parcel => parcel.lots.length > 0);
+        return {
+            kind: 'platted',
+            raw,
+            subdivision: name,
+            phase: result.phase,
+            section: result.section,
+            replat: result.replat,
+            parcels,
+            confidence: round(1
+                - (name ? 0 : 0.3)
+                - (result.blocks.length > 0 ? 0 : 0.2)
+                - (hasLots ? 0 : 0.3)
+                - (parcels.some(parcel => parcel.partial) ? 0.1 : 0)
+                - (parcels.length > 1 ? 0.1 : 0)),
+        };
+    }
+
+    if (result.abstract || result.tract || result.acres !== null || result.survey) {
+        return {
+            kind: 'tract',
+            raw,
+            abstract: result.abstract,
+            survey: result.survey ?? (result.abstract ? null : name),
+            tract: result.tract ?? result.lotGroups[0]?.lots[0] ?? null,
+            acres: result.acres,
+            confidence: round(0.9 - (result.abstract ? 0 : 0.3) - (result.tract ? 0 : 0.1) - (result.acres !== null ? 0 : 0.1)),
+        };
+    }
+
+    return { kind: 'unparsed', raw, confidence: 0, reason: 'No lot, block, tract or unit found.' };
+}
+
+/**
+ * Flattens a parsed description into the `properties` columns: the first parcel's
+ * block and its first two lots, and the condo or subdivision name.
+ */
+export function toLegalColumns(legal: LegalDescription): LegalColumns {
+    const columns: LegalColumns = { legal_description: legal.raw || null, subdivision: null, block: null, city_block: null, lot1: null, lot2: null };
+    if (legal.kind === 'platted') {
+        const [parcel] = legal.parcels;
+        columns.subdivision = legal.subdivision;
+        columns.block = parcel?.block ?? null;
+        columns.city_block = parcel?.city_block ?? null;
+        columns.lot1 = parcel?.lots[0] ?? null;
+        columns.lot2 = parcel?.lots[1] ?? null;
+    } else if (legal.kind === 'condo') {
+        columns.subdivision = legal.condominium;
+    }
+    return columns;
+}
+
+/**
+ * Rebuilds a parsed description from stored columns. Rows with the original text
+ * are parsed again; older rows only have the first block and two lots.
+ */
+export function legalFromColumns(columns: LegalColumns): LegalDescription {
+    if (columns.legal_description) return parseLegalDescription(columns.legal_description);
+    const lots = [columns.lot1, columns.lot2].filter((lot): lot is string => !!lot);
+    if (!columns.subdivision && !columns.block && lots.length === 0) {
+        return { kind: 'unparsed', raw: '', confidence: 0, reason: 'No legal description stored.' };
+    }
+    return {
+        kind: 'platted',
+        raw: '',
+        subdivision: columns.subdivision,
+        phase: null,
+        section: null,
+        replat: false,
+        parcels: [{ block: columns.block, city_block: columns.city_block, lots, partial: false }],
+        confidence: 0.5,
+    };
+}
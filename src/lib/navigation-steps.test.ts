@@ -0,0 +1,87 @@
+// src/lib/navigation-steps.test.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createSelectorCache, NavigationStepError, runStep, selectorDriftReport, type NavigationStep } from './navigation-steps.js';
+
+const step: NavigationStep = {
+    name: 'dcad.address-search.street-name',
+    description: "type 'Gulf Palm' into the Street Name field",
+    method: 'fill',
+    arguments: ['Gulf Palm'],
+    selector: '//table[2]//input[3]',
+};
+
+/** A page where only `working` selectors match, and `observe` answers with `observed`. */
+function fakePage(working: string[], observed: string[] = []) {
+    const calls: string[] = [];
+    const element = (selector: string) => ({
+        first: () => element(selector),
+        fill: async (value: string) => {
+            calls.push(`fill ${selector} ${value}`);
+            if (!working.includes(selector)) throw new Error('Timeout 10000ms exceeded.');
+        },
+    });
+    const page = {
+        url: () => 'https://www.dallascad.org/searchaddr.aspx',
+        locator: element,
+        observe: async ({ instruction }: { instruction: string }) => {
+            calls.push(`observe ${instruction}`);
+            return observed.map(selector => ({ selector, description: 'Street Name' }));
+        },
+    };
+    return { page: page as unknown as Page, calls };
+}
+
+describe('runStep', () => {
+    let dir: string;
+
+    before(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'selectors-'));
+    });
+
+    after(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('uses the preferred selector while it works', async () => {
+        const { page, calls } = fakePage([step.selector]);
+        await runStep(page, step, createSelectorCache(null));
+        assert.deepEqual(calls, [`fill ${step.selector} Gulf Palm`]);
+    });
+
+    it('heals with observe, caches the selector and reports the drift', async () => {
+        const file = join(dir, 'heal.json');
+        const healed = 'xpath=/html[1]/body[1]/form[1]/div[1]/input[2]';
+        const first = fakePage([healed], [healed]);
+        await runStep(first.page, step, createSelectorCache(file));
+        assert.deepEqual(first.calls, [`fill ${step.selector} Gulf Palm`, `observe ${step.description}`, `fill ${healed} Gulf Palm`]);
+        assert.equal(JSON.parse(await readFile(file, 'utf8'))[step.name].selector, healed);
+
+        // The next run goes straight to the cached selector.
+        const second = fakePage([healed]);
+        await runStep(second.page, step, createSelectorCache(file));
+        assert.deepEqual(second.calls, [`fill ${healed} Gulf Palm`]);
+        assert.deepEqual(selectorDriftReport().slice(-2).map(drift => [drift.outcome, drift.selector]), [['healed', healed], ['cached', healed]]);
+    });
+
+    it('ignores a cached selector once the preferred one changes', async () => {
+        const cache = createSelectorCache(null);
+        await cache.set(step, 'xpath=/old');
+        assert.equal(await cache.get({ ...step, selector: '//input[@name="street"]' }), undefined);
+    });
+
+    it('fails with the step name when nothing matches', async () => {
+        const { page } = fakePage([]);
+        await assert.rejects(runStep(page, step, createSelectorCache(null)), (error: unknown) => {
+            assert.ok(error instanceof NavigationStepError);
+            assert.equal(error.step, step.name);
+            return true;
+        });
+        assert.equal(selectorDriftReport().at(-1)?.outcome, 'failed');
+    });
+});
@@ -0,0 +1,165 @@
+// src/lib/navigation-steps.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { readFile, writeFile } from 'node:fs/promises';
+import { fixtureMode } from './fixtures.js';
+
+/**
+ * One named action on a site, e.g. filling in DCAD's Street Name field. The
+ * selector is tried first; when it no longer matches, the description is handed
+ * to Stagehand's `observe` to find the element again.
+ */
+export interface NavigationStep {
+    /** Stable name that keys the selector cache and the drift report, e.g. 'dcad.address-search.street-name'. */
+    name: string;
+    /** What the step does in plain words; the AI fallback works from this alone. */
+    description: string;
+    method: 'click' | 'fill';
+    arguments?: string[];
+    /** The preferred selector, as Playwright takes it (CSS, or XPath starting with '//' or 'xpath='). */
+    selector: string;
+    /**
+     * Whether a selector found by the AI fallback is kept for next time. Off for
+     * steps whose element depends on the target, such as the link for one address.
+     */
+    cache?: boolean;
+}
+
+/** Thrown when neither the selectors nor the AI fallback could perform a step. */
+export class NavigationStepError extends Error {
+    constructor(readonly step: string, message: string) {
+        super(`Navigation step ${step} failed: ${message}`);
+        this.name = 'NavigationStepError';
+    }
+}
+
+/**
+ * A step whose preferred selector failed. `cached` ran a selector healed on an
+ * earlier run, `healed` found the element with the AI fallback, and `failed`
+ * found nothing.
+ */
+export interface SelectorDrift {
+    step: string;
+    outcome: 'cached' | 'healed' | 'failed';
+    preferred: string;
+    /** The selector that worked, or null when the step failed. */
+    selector: string | null;
+    url: string;
+    at: string;
+}
+
+interface CacheEntry {
+    /** The preferred selector the entry replaces; a new one in code makes the entry stale. */
+    preferred: string;
+    selector: string;
+    healed_at: string;
+}
+
+export interface SelectorCache {
+    /** The healed selector for the step, unless its preferred selector changed since. */
+    get(step: NavigationStep): Promise<string | undefined>;
+    set(step: NavigationStep, selector: string): Promise<void>;
+    delete(step: NavigationStep): Promise<void>;
+}
+
+/**
+ * A cache of healed selectors, kept in a JSON file keyed by step name. With a
+ * null file the cache lives only as long as the process.
+ */
+export function createSelectorCache(file: string | null): SelectorCache {
+    let entries: Promise<Record<string, CacheEntry>> | null = null;
+    // Writes are chained so concurrent workers never interleave them.
+    let writing: Promise<void> = Promise.resolve();
+
+    const load = () => entries ??= file
+        ? readFile(file, 'utf8').then(text => JSON.parse(text), (error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') return {};
+            throw error;
+        })
+        : Promise.resolve({});
+    const save = (current: Record<string, CacheEntry>) => {
+        if (!file) return Promise.resolve();
+        writing = writing.then(() => writeFile(file, `${JSON.stringify(current, null, 2)}\n`));
+        return writing;
+    };
+
+    return {
+        async get(step) {
+            const entry = (await load())[step.name];
+            return entry?.preferred === step.selector ? entry.selector : undefined;
+        },
+        async set(step, selector) {
+            const current = await load();
+            current[step.name] = { preferred: step.selector, selector, healed_at: new Date().toISOString() };
+            await save(current);
+        },
+        async delete(step) {
+            const current = await load();
+            if (!(step.name in current)) return;
+            delete current[step.name];
+            await save(current);
+        },
+    };
+}
+
+let sharedCache: SelectorCache | null = null;
+
+/**
+ * The cache file is `SELECTOR_CACHE_FILE` (default `.selector-cache.json`). Fixture
+ * runs keep their cache in memory, so a recording and its replay heal alike.
+ */
+function defaultCache(): SelectorCache {
+    return sharedCache ??= createSelectorCache(fixtureMode() ? null : process.env.SELECTOR_CACHE_FILE || '.selector-cache.json');
+}
+
+const driftLog: SelectorDrift[] = [];
+
+/** Every step whose preferred selector failed in this process, in order. */
+export function selectorDriftReport(): SelectorDrift[] {
+    return [...driftLog];
+}
+
+/** How long a selector may take to match before the step moves on to the next one. */
+const SELECTOR_TIMEOUT_MS = 10000;
+
+async function tryStep(page: Page, step: NavigationStep, selector: string): Promise<boolean> {
+    try {
+        const element = page.locator(selector).first();
+        if (step.method === 'fill') await element.fill(step.arguments?.[0] ?? '', { timeout: SELECTOR_TIMEOUT_MS });
+        else await element.click({ timeout: SELECTOR_TIMEOUT_MS });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Performs a navigation step with Playwright: with the selector healed on an
+ * earlier run if there is one, then with the preferred selector, then with the
+ * element Stagehand's `observe` finds from the description. A selector found that way
+ * is cached for the next run. Every step that needed more than its preferred
+ * selector is logged and added to the drift report.
+ * @throws {NavigationStepError} when nothing worked.
+ */
+export async function runStep(page: Page, step: NavigationStep, cache: SelectorCache = defaultCache()): Promise<void> {
+    const drift = (outcome: SelectorDrift['outcome'], selector: string | null) => {
+        driftLog.push({ step: step.name, outcome, preferred: step.selector, selector, url: page.url(), at: new Date().toISOString() });
+        const detail = outcome === 'failed' ? 'the AI fallback found nothing either' : `${outcome === 'cached' ? 'used the cached' : 'healed to'} ${selector}`;
+        console.warn(`Selector drift in ${step.name}: ${step.selector} no longer matches; ${detail}.`);
+    };
+
+    const cached = await cache.get(step);
+    if (cached) {
+        if (await tryStep(page, step, cached)) return drift('cached', cached);
+        await cache.delete(step);
+    }
+    if (await tryStep(page, step, step.selector)) return;
+
+    const [observed] = await page.observe({ instruction: step.description, returnAction: true });
+    if (observed && await tryStep(page, step, observed.selector)) {
+        if (step.cache !== false) await cache.set(step, observed.selector);
+        return drift('healed', observed.selector);
+    }
+    drift('failed', null);
+    throw new NavigationStepError(step.name, observed ? `the AI fallback's selector ${observed.selector} didn't work either` : `no element matches '${step.description}'`);
+}
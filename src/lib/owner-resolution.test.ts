@@ -0,0 +1,44 @@
+// src/lib/owner-resolution.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectEntityType, ownerEntityKey } from './owner-resolution.js';
+
+describe('detectEntityType', () => {
+    it('recognizes trusts, LLCs, businesses, estates and government owners', () => {
+        assert.equal(detectEntityType('SMITH FAMILY TRUST THE'), 'trust');
+        assert.equal(detectEntityType('SMITH JOHN TR'), 'trust');
+        assert.equal(detectEntityType('GULF PALM HOLDINGS L.L.C.'), 'llc');
+        assert.equal(detectEntityType('ACME HOMES INC'), 'business');
+        assert.equal(detectEntityType('ESTATE OF SMITH JOHN'), 'estate');
+        assert.equal(detectEntityType('SMITH JOHN EST'), 'estate');
+        assert.equal(detectEntityType('CITY OF DALLAS'), 'government');
+        assert.equal(detectEntityType('DALLAS ISD'), 'government');
+    });
+
+    it('treats everything else as an individual', () => {
+        assert.equal(detectEntityType('SMITH JOHN & JANE'), 'individual');
+        assert.equal(detectEntityType('SMITH JOHN ET AL'), 'individual');
+    });
+});
+
+describe('ownerEntityKey', () => {
+    it('resolves joint and ET AL spellings to the first owner', () => {
+        assert.equal(ownerEntityKey('SMITH JOHN & JANE'), 'SMITH JOHN');
+        assert.equal(ownerEntityKey('SMITH, JOHN ET AL'), 'SMITH JOHN');
+        assert.equal(ownerEntityKey('SMITH JOHN ETUX'), 'SMITH JOHN');
+        assert.equal(ownerEntityKey('Smith John & Smith Jane'), 'SMITH JOHN');
+    });
+
+    it('normalizes trust and LLC spellings', () => {
+        assert.equal(ownerEntityKey('THE SMITH FAMILY TRUST'), ownerEntityKey('SMITH FAMILY TRUST DTD 1/1/2000'));
+        assert.equal(ownerEntityKey('SMITH JOHN TRUSTEE'), 'SMITH JOHN TRUST');
+        assert.equal(ownerEntityKey('GULF PALM HOLDINGS L.L.C.'), ownerEntityKey('Gulf Palm Holdings, LLC'));
+    });
+
+    it('keeps an estate apart from the person', () => {
+        assert.equal(ownerEntityKey('ESTATE OF SMITH JOHN'), 'SMITH JOHN ESTATE');
+        assert.equal(ownerEntityKey('SMITH JOHN EST'), 'SMITH JOHN ESTATE');
+        assert.notEqual(ownerEntityKey('SMITH JOHN ESTATE'), ownerEntityKey('SMITH JOHN'));
+    });
+});
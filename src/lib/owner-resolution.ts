@@ -0,0 +1,92 @@
+// src/lib/owner-resolution.ts
+
+/**
+ * The kind of legal entity an owner name describes. CAD rolls don't say, so it is
+ * inferred from the words in the name.
+ */
+export type OwnerEntityType = 'individual' | 'trust' | 'llc' | 'business' | 'estate' | 'government';
+
+/** One owner as resolved from a raw name on an assessment roll. */
+export interface ResolvedOwner {
+    /** The name exactly as scraped; stored as an alias of the canonical owner. */
+    name: string;
+    /** Identifies the canonical owner: every alias of one owner has the same key. */
+    canonicalKey: string;
+    entityType: OwnerEntityType;
+}
+
+const GOVERNMENT_PATTERNS = [
+    /\bCITY OF\b/, /\bTOWN OF\b/, /\bVILLAGE OF\b/, /\bCOUNTY\b/, /\bSTATE OF\b/, /\bUNITED STATES\b/, /\bUSA\b/,
+    /\bISD\b/, /\bINDEPENDENT SCHOOL\b/, /\bMUD\b/, /\bMUNICIPAL UTILITY\b/, /\bDISTRICT\b/, /\bHOUSING AUTHORITY\b/,
+    /\bTXDOT\b/, /\bDEPARTMENT OF\b/, /\bDALLAS AREA RAPID TRANSIT\b/, /\bTEXAS DEPT\b/,
+];
+const ESTATE_PATTERNS = [/^ESTATE OF\b/, /\bEST OF\b/, /\bESTATE$/, /\bEST$/];
+const BUSINESS_PATTERNS = [
+    /\bINC\b/, /\bCORP\b/, /\bCORPORATION\b/, /\bCOMPANY\b/, /\bCO$/, /\bLP\b/, /\bLTD\b/, /\bLLP\b/, /\bPARTNERSHIP\b/,
+    /\bBANK\b/, /\bASSOCIATION\b/, /\bASSN\b/, /\bHOLDINGS\b/, /\bPROPERTIES\b/, /\bINVESTMENTS\b/, /\bCHURCH\b/,
+];
+const TRUST_PATTERNS = [/\bTRUST\b/, /\bTRS?$/, /\bTRUSTEES?$/, /\bTRSTE?S?$/, /\bREVOCABLE\b/, /\bLIVING TR\b/];
+
+/** Uppercases, treats punctuation other than "&" as spaces, and spells LLCs one way. */
+function cleanOwnerName(name: string): string {
+    return name
+        .toUpperCase()
+        .replace(/\bL\.\s*L\.\s*C\.?/g, 'LLC')
+        .replace(/\bLIMITED LIABILITY (?:COMPANY|CO)\b/g, 'LLC')
+        .replace(/[^A-Z0-9&\s]/g, ' ')
+        .replace(/\bL L C\b/g, 'LLC')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/** Drops co-owner and marital suffixes: "ET AL", "ET UX", "ET VIR", "LIFE ESTATE". */
+function stripCoOwnerSuffixes(name: string): string {
+    return name
+        .replace(/\s*&?\s*\bET\s*(?:AL|UX|VIR)\b.*$/, '')
+        .replace(/\s*\bLIFE EST(?:ATE)?\b.*$/, '')
+        .trim();
+}
+
+export function detectEntityType(name: string): OwnerEntityType {
+    const cleaned = cleanOwnerName(name);
+    if (GOVERNMENT_PATTERNS.some(pattern => pattern.test(cleaned))) return 'government';
+    if (/\bLLC\b/.test(cleaned)) return 'llc';
+    if (BUSINESS_PATTERNS.some(pattern => pattern.test(cleaned)) || /\bTRUST CO(?:MPANY)?\b/.test(cleaned)) return 'business';
+    if (TRUST_PATTERNS.some(pattern => pattern.test(cleaned))) return 'trust';
+    if (ESTATE_PATTERNS.some(pattern => pattern.test(stripCoOwnerSuffixes(cleaned)))) return 'estate';
+    return 'individual';
+}
+
+/**
+ * The canonical key of an owner name. Spellings of one owner share a key:
+ * "SMITH JOHN & JANE", "SMITH, JOHN ET AL" and "SMITH JOHN ETUX" all become
+ * "SMITH JOHN", because the first name listed is the owner of record. Trusts,
+ * companies and estates keep their whole name, minus a leading "THE", trust dates
+ * ("DTD ...") and trustee suffixes, so "SMITH FAMILY TRUST THE" and
+ * "SMITH FAMILY TRUST DTD 1/1/2000" match. An estate is keyed apart from the
+ * person ("SMITH JOHN ESTATE"), since it is a different party on the deed.
+ */
+export function ownerEntityKey(name: string, entityType = detectEntityType(name)): string {
+    let key = stripCoOwnerSuffixes(cleanOwnerName(name));
+    switch (entityType) {
+        case 'individual':
+            // Only the first of several joint owners: "SMITH JOHN & JANE" -> "SMITH JOHN".
+            return key.split('&')[0].trim();
+        case 'estate':
+            key = key.replace(/^ESTATE OF\s+/, '').replace(/\s+EST(?:ATE)?(?: OF)?$/, '').replace(/\s+EST OF\s+/, ' ');
+            return `${key.split('&')[0].trim()} ESTATE`;
+        case 'trust':
+            key = key
+                .replace(/\s+(?:U\s?A|DTD|DATED)\b.*$/, '')
+                .replace(/\s+(?:TRS?|TRSTES?|TRSTE|TRUSTEES?)$/, ' TRUST')
+                .replace(/\bTRUST TRUST$/, 'TRUST');
+            break;
+    }
+    return key.replace(/^THE\s+/, '').replace(/\s+THE$/, '').replace(/\s+/g, ' ').trim();
+}
+
+export function resolveOwner(name: string): ResolvedOwner {
+    const entityType = detectEntityType(name);
+    return { name, canonicalKey: ownerEntityKey(name, entityType), entityType };
+}
+
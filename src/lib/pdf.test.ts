@@ -0,0 +1,40 @@
+// src/lib/pdf.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildImagePdf, PdfError, readImagePdf, readJpegInfo } from './pdf.js';
+
+/** The markers `readJpegInfo` reads: SOI, an APP0 segment, a baseline SOF, and EOI. */
+function fakeJpeg(width: number, height: number, marker = 0): Buffer {
+    const app0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+    const sof = [0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+    return Buffer.from([0xff, 0xd8, ...app0, ...sof, marker, 0xff, 0xd9]);
+}
+
+describe('readJpegInfo', () => {
+    it('reads the size and color space from the frame header', () => {
+        assert.deepEqual(readJpegInfo(fakeJpeg(816, 1056)), { width: 816, height: 1056, colorSpace: 'DeviceRGB' });
+    });
+
+    it('rejects other formats', () => {
+        assert.throws(() => readJpegInfo(Buffer.from('\x89PNG\r\n\x1a\n', 'latin1')), PdfError);
+    });
+});
+
+describe('buildImagePdf', () => {
+    it('writes one page per image and reads the images back in order', () => {
+        const pages = [fakeJpeg(800, 1000, 1), fakeJpeg(1000, 800, 2)];
+        const pdf = buildImagePdf(pages);
+        const text = pdf.toString('latin1');
+
+        assert.ok(text.startsWith('%PDF-1.4'));
+        assert.match(text, /\/Count 2/);
+        assert.match(text, /\/MediaBox \[0 0 600 750\]/);
+        assert.deepEqual(readImagePdf(pdf), pages);
+
+        const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+        assert.equal(text.slice(xref, xref + 4), 'xref');
+        const firstObject = Number(text.slice(xref).split('\n')[3].slice(0, 10));
+        assert.equal(text.slice(firstObject, firstObject + 7), '1 0 obj');
+    });
+});
@@ -0,0 +1,113 @@
+// src/lib/pdf.ts
+
+/**
+ * A minimal PDF writer and reader for archived clerk documents: one JPEG page
+ * image per PDF page, embedded as-is with the DCTDecode filter. Only PDFs written
+ * by `buildImagePdf` are read back.
+ */
+
+export class PdfError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PdfError';
+    }
+}
+
+interface JpegInfo {
+    width: number;
+    height: number;
+    colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+}
+
+/** Points per screenshot pixel, so pages come out at the size they were shown at 96 dpi. */
+const POINTS_PER_PIXEL = 0.75;
+
+/** Reads the size and color space of a JPEG from its start-of-frame marker. */
+export function readJpegInfo(jpeg: Buffer): JpegInfo {
+    if (jpeg.length < 4 || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new PdfError('Page image is not a JPEG.');
+    let offset = 2;
+    while (offset + 4 <= jpeg.length) {
+        if (jpeg[offset] !== 0xff) throw new PdfError(`Malformed JPEG marker at byte ${offset}.`);
+        const marker = jpeg[offset + 1];
+        // Fill bytes and markers without a length.
+        if (marker === 0xff) { offset++; continue; }
+        if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { offset += 2; continue; }
+        const length = jpeg.readUInt16BE(offset + 2);
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isStartOfFrame) {
+            if (offset + 10 > jpeg.length) break;
+            const components = jpeg[offset + 9];
+            return {
+                height: jpeg.readUInt16BE(offset + 5),
+                width: jpeg.readUInt16BE(offset + 7),
+                colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB',
+            };
+        }
+        offset += 2 + length;
+    }
+    throw new PdfError('JPEG has no start-of-frame marker.');
+}
+
+/**
+ * Assembles JPEG page images into a PDF, one image per page, in order.
+ * @throws {PdfError} when there are no pages or a page is not a JPEG.
+ */
+export function buildImagePdf(pages: Buffer[]): Buffer {
+    if (pages.length === 0) throw new PdfError('A PDF needs at least one page.');
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Buffer) => {
+        const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'latin1') : chunk;
+        chunks.push(buffer);
+        length += buffer.length;
+    };
+    const object = (id: number, body: string | Buffer[]) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+        if (typeof body === 'string') write(body);
+        else body.forEach(write);
+        write('\nendobj\n');
+    };
+
+    // Objects 1 and 2 are the catalog and page tree; each page then takes three: page, image and content stream.
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    pages.forEach((jpeg, index) => {
+        const { width, height, colorSpace } = readJpegInfo(jpeg);
+        const [pageId, imageId, contentId] = [pageIds[index], pageIds[index] + 1, pageIds[index] + 2];
+        const [pageWidth, pageHeight] = [width * POINTS_PER_PIXEL, height * POINTS_PER_PIXEL];
+        const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+        object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+        object(imageId, [
+            Buffer.from(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, 'latin1'),
+            jpeg,
+            Buffer.from('\nendstream', 'latin1'),
+        ]);
+        object(contentId, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const objectCount = 3 + pages.length * 3;
+    const xref = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+    return Buffer.concat(chunks);
+}
+
+/** The JPEG page images of a PDF written by `buildImagePdf`, in page order. */
+export function readImagePdf(pdf: Buffer): Buffer[] {
+    const text = pdf.toString('latin1');
+    const pages: Buffer[] = [];
+    const header = /\/Subtype \/Image [^>]*\/Filter \/DCTDecode \/Length (\d+) >>\nstream\n/g;
+    for (let match = header.exec(text); match; match = header.exec(text)) {
+        const start = match.index + match[0].length;
+        pages.push(pdf.subarray(start, start + Number(match[1])));
+        // Resume after the image data, which may contain anything.
+        header.lastIndex = start + Number(match[1]);
+    }
+    if (pages.length === 0) throw new PdfError('PDF has no JPEG page images.');
+    return pages;
+}
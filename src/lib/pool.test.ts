@@ -0,0 +1,63 @@
+// src/lib/pool.test.ts
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { runPool } from './pool.js';
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('runPool', () => {
+    afterEach(() => mock.timers.reset());
+
+    it('keeps at most `concurrency` workers in flight and returns results in input order', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        const started: number[] = [];
+        let inFlight = 0;
+        let peak = 0;
+        const results = runPool([30, 10, 25, 10, 5], 2, async (ms, index) => {
+            started.push(index);
+            peak = Math.max(peak, ++inFlight);
+            await new Promise(resolve => setTimeout(resolve, ms));
+            inFlight--;
+            return `${index}:${ms}`;
+        });
+
+        assert.deepEqual(started, [0, 1]);
+        mock.timers.tick(10);
+        await settle();
+        assert.deepEqual(started, [0, 1, 2]);
+        mock.timers.tick(20);
+        await settle();
+        assert.deepEqual(started, [0, 1, 2, 3]);
+        mock.timers.tick(5);
+        await settle();
+        assert.deepEqual(started, [0, 1, 2, 3, 4]);
+        mock.timers.tick(5);
+        assert.deepEqual(await results, ['0:30', '1:10', '2:25', '3:10', '4:5']);
+        assert.equal(peak, 2);
+    });
+
+    it('runs a single lane for a concurrency below one and nothing for no items', async () => {
+        let inFlight = 0;
+        let peak = 0;
+        const results = await runPool([1, 2, 3], 0, async item => {
+            peak = Math.max(peak, ++inFlight);
+            await settle();
+            inFlight--;
+            return item * 2;
+        });
+        assert.deepEqual(results, [2, 4, 6]);
+        assert.equal(peak, 1);
+        assert.deepEqual(await runPool([], 4, async () => assert.fail('no items to work on')), []);
+    });
+
+    it('rejects with the error of a worker that throws', async () => {
+        const started: number[] = [];
+        await assert.rejects(runPool([1, 2, 3, 4], 2, async item => {
+            started.push(item);
+            if (item === 2) throw new Error('worker 2 failed');
+            return item;
+        }), /worker 2 failed/);
+        assert.deepEqual(started.slice(0, 2), [1, 2]);
+    });
+});
@@ -0,0 +1,19 @@
+// src/lib/pool.ts
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight and returns
+ * the results in input order. A worker that throws rejects the whole pool, so workers
+ * should report per-item failures in their result instead.
+ */
+export async function runPool<T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    });
+    await Promise.all(lanes);
+    return results;
+}
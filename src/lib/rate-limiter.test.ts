@@ -0,0 +1,88 @@
+// src/lib/rate-limiter.test.ts
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { createRateLimiter } from './rate-limiter.js';
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createRateLimiter', () => {
+    const fixturesMode = process.env.FIXTURES_MODE;
+    const limiter = () => createRateLimiter({
+        'dallascad.org': { minIntervalMs: 3000, jitterMs: 2000 },
+    }, { minIntervalMs: 1000, jitterMs: 0 });
+
+    beforeEach(() => {
+        delete process.env.FIXTURES_MODE;
+        mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+        mock.method(Math, 'random', () => 0.5);
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+        if (fixturesMode === undefined) delete process.env.FIXTURES_MODE;
+        else process.env.FIXTURES_MODE = fixturesMode;
+    });
+
+    /** Starts a wait and records its label once the wait lets the request through. */
+    const track = (released: string[]) => (wait: Promise<void>, label: string) => void wait.then(() => released.push(label));
+
+    it('spaces requests to one site by the interval plus jitter, whatever the subdomain', async () => {
+        const rateLimiter = limiter();
+        const released: string[] = [];
+        const start = track(released);
+        start(rateLimiter.wait('https://www.dallascad.org/SearchAddr.aspx'), 'first');
+        start(rateLimiter.wait('dallascad.org'), 'second');
+        start(rateLimiter.wait('https://www.dallascad.org/AcctDetailRes.aspx'), 'third');
+        await settle();
+        assert.deepEqual(released, ['first']);
+
+        mock.timers.tick(3999);
+        await settle();
+        assert.deepEqual(released, ['first']);
+        mock.timers.tick(1);
+        await settle();
+        assert.deepEqual(released, ['first', 'second']);
+        mock.timers.tick(4000);
+        await settle();
+        assert.deepEqual(released, ['first', 'second', 'third']);
+    });
+
+    it('keeps hosts apart and gives hosts without a rule the fallback spacing', async () => {
+        const rateLimiter = limiter();
+        const released: string[] = [];
+        const start = track(released);
+        start(rateLimiter.wait('https://www.dallascad.org/'), 'dcad');
+        start(rateLimiter.wait('https://example.com/a'), 'example 1');
+        start(rateLimiter.wait('https://notdallascad.org/'), 'lookalike');
+        start(rateLimiter.wait('https://example.com/b'), 'example 2');
+        await settle();
+        assert.deepEqual(released, ['dcad', 'example 1', 'lookalike']);
+
+        mock.timers.tick(1000);
+        await settle();
+        assert.deepEqual(released, ['dcad', 'example 1', 'lookalike', 'example 2']);
+    });
+
+    it('does not reserve a slot once the previous one has passed', async () => {
+        const rateLimiter = limiter();
+        await rateLimiter.wait('dallascad.org');
+        mock.timers.tick(6000);
+        const released: string[] = [];
+        track(released)(rateLimiter.wait('dallascad.org'), 'later');
+        await settle();
+        assert.deepEqual(released, ['later']);
+    });
+
+    it('lets every request through at once when replaying fixtures', async () => {
+        process.env.FIXTURES_MODE = 'replay';
+        const rateLimiter = limiter();
+        const released: string[] = [];
+        const start = track(released);
+        start(rateLimiter.wait('dallascad.org'), 'first');
+        start(rateLimiter.wait('dallascad.org'), 'second');
+        await settle();
+        assert.deepEqual(released, ['first', 'second']);
+    });
+});
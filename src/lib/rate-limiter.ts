@@ -0,0 +1,60 @@
+// src/lib/rate-limiter.ts
+
+import { fixtureMode } from './fixtures.js';
+
+export interface HostRule {
+    /** Minimum time between two requests to the host, across all workers. */
+    minIntervalMs: number;
+    /** Random extra delay added to each interval so traffic doesn't look scripted. */
+    jitterMs: number;
+}
+
+export interface RateLimiter {
+    /** Resolves when a request to the URL's (or host's) site may start. */
+    wait(urlOrHost: string): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function hostOf(urlOrHost: string): string {
+    try {
+        return new URL(urlOrHost).hostname;
+    } catch {
+        return urlOrHost;
+    }
+}
+
+/**
+ * Creates a limiter that spaces requests per host. Rules are matched by domain
+ * suffix, so a rule for 'dallascad.org' also covers 'www.dallascad.org'. Slots are
+ * reserved synchronously, which keeps concurrent callers from claiming the same slot.
+ */
+export function createRateLimiter(rules: Record<string, HostRule>, fallback: HostRule): RateLimiter {
+    const nextSlot = new Map<string, number>();
+    const ruleFor = (host: string) => {
+        const match = Object.keys(rules).find(domain => host === domain || host.endsWith(`.${domain}`));
+        return { key: match ?? host, rule: match ? rules[match] : fallback };
+    };
+    return {
+        async wait(urlOrHost) {
+            // Replayed sessions never reach the site.
+            if (fixtureMode() === 'replay') return;
+            const { key, rule } = ruleFor(hostOf(urlOrHost));
+            const now = Date.now();
+            const slot = Math.max(now, nextSlot.get(key) ?? 0);
+            nextSlot.set(key, slot + rule.minIntervalMs + Math.random() * rule.jitterMs);
+            if (slot > now) await sleep(slot - now);
+        },
+    };
+}
+
+/** Shared limits for every site the scrapers visit. */
+export const siteRateLimiter = createRateLimiter({
+    'dallascad.org': { minIntervalMs: 3000, jitterMs: 2000 },
+    'dallas.tx.publicsearch.us': { minIntervalMs: 3000, jitterMs: 2000 },
+    'tarrant.tx.publicsearch.us': { minIntervalMs: 3000, jitterMs: 2000 },
+    'hcad.org': { minIntervalMs: 2000, jitterMs: 1000 },
+    'cclerk.hctx.net': { minIntervalMs: 3000, jitterMs: 2000 },
+    'tad.org': { minIntervalMs: 2000, jitterMs: 1000 },
+    'api.airtable.com': { minIntervalMs: 220, jitterMs: 0 },
+}, { minIntervalMs: 1000, jitterMs: 1000 });
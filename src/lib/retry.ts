@@ -0,0 +1,61 @@
+// src/lib/retry.ts
+
+export interface RetryOptions {
+    /** Total number of attempts, including the first one. */
+    attempts: number;
+    /** Delay before the first retry; doubled for every retry after that. */
+    baseDelayMs: number;
+    /** Upper bound for a single delay, before jitter. */
+    maxDelayMs: number;
+    /** Decides whether an error is worth retrying. Defaults to `isTransientError`. */
+    isRetryable?: (error: unknown) => boolean;
+    /** Called before every attempt, with the 1-based attempt number. */
+    onAttempt?: (attempt: number) => void | Promise<void>;
+    /** Called after a retryable failure, before sleeping. */
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Computes the delay before retry number `retry` (1-based): exponential backoff
+ * capped at `maxDelayMs`, randomized over its upper half so concurrent workers don't
+ * retry in lockstep.
+ */
+export function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+    return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+/**
+ * Heuristic for failures that are likely to succeed on a later attempt: network
+ * errors, timeouts, rate limiting, 5xx responses and dropped browser sessions.
+ */
+export function isTransientError(error: unknown): boolean {
+    const message = (error instanceof Error ? `${error.name} ${error.message}` : String(error)).toLowerCase();
+    return [
+        /timeout|timed out/,
+        /econnreset|econnrefused|etimedout|enotfound|eai_again|socket hang up|fetch failed|network/,
+        /\b(429|500|502|503|504)\b|rate limit|too many requests/,
+        /target (page, context or browser )?(has been )?closed|session (not found|closed|expired)|browserbase/,
+    ].some(pattern => pattern.test(message));
+}
+
+/**
+ * Runs `fn` until it succeeds, the error is not retryable, or `attempts` run out.
+ * The last error is rethrown.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+    const isRetryable = options.isRetryable ?? isTransientError;
+    for (let attempt = 1; ; attempt++) {
+        await options.onAttempt?.(attempt);
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt >= options.attempts || !isRetryable(error)) throw error;
+            const delayMs = backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+            options.onRetry?.(error, attempt, delayMs);
+            await sleep(delayMs);
+        }
+    }
+}
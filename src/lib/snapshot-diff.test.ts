@@ -0,0 +1,69 @@
+// src/lib/snapshot-diff.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AssessmentData } from '../counties/types.js';
+import { buildAssessmentRecords } from './assessment-records.js';
+import { parseLegalDescription } from './legal-description.js';
+import { buildAssessmentSnapshot, buildDocumentSnapshot, diffSnapshots, snapshotHash } from './snapshot-diff.js';
+
+const scraped: AssessmentData = {
+    accountNumber: '00000776533000000',
+    address: '9920 GULF PALM DR',
+    propertyValue: { improvementValue: '$300,000', landValue: '$100,000', totalMarketValue: '$400,000' },
+    currentOwners: [{ name: 'Smith, John', address: '9920 GULF PALM DR', percentage: '100%' }],
+    ownershipHistory: [{ year: '2024', ownerNameAndAddress: 'SMITH JOHN\n9920 GULF PALM DR' }, { year: '2023', ownerNameAndAddress: 'SMITH JOHN\n9920 GULF PALM DR' }],
+    marketValueHistory: [{ year: '2024', totalMarketValue: '$400,000' }, { year: '2023', totalMarketValue: '$380,000' }],
+    exemptions: [{ year: '2024', code: 'HS' }, { year: '2023', code: 'HS' }],
+    cad_url: 'https://www.dallascad.org/AcctDetailRes.aspx?ID=00000776533000000',
+};
+const snapshotOf = (data: AssessmentData) => buildAssessmentSnapshot(buildAssessmentRecords(data, parseLegalDescription(data.legalDescription)));
+
+describe('buildAssessmentSnapshot', () => {
+    it('flattens the records into field paths', () => {
+        const snapshot = snapshotOf(scraped);
+        assert.equal(snapshot.total_market_value, 400000);
+        assert.equal(snapshot.deed_xfer_date, null);
+        assert.equal(snapshot['value_history.2023'], 380000);
+        assert.equal(snapshot['exemptions.HS.2023'], 2024);
+        assert.equal(snapshot['ownership_history.SMITH JOHN.2023'], 2024);
+        assert.equal(snapshot['owner_percentages.SMITH JOHN'], 100);
+        assert.equal(Object.keys(snapshot).filter(field => field.startsWith('current_owners.')).length, 1);
+    });
+});
+
+describe('diffSnapshots', () => {
+    const before = snapshotOf(scraped);
+
+    it('finds nothing between identical snapshots, whatever their key order', () => {
+        const reordered = Object.fromEntries(Object.entries(before).reverse());
+        assert.deepEqual(diffSnapshots(before, reordered), []);
+        assert.equal(snapshotHash(reordered), snapshotHash(before));
+    });
+
+    it('lists added, removed and changed fields sorted by path, with null for the missing side', () => {
+        const after = snapshotOf({
+            ...scraped,
+            propertyValue: { ...scraped.propertyValue, totalMarketValue: '$420,000' },
+            marketValueHistory: [{ year: '2025', totalMarketValue: '$420,000' }, { year: '2024', totalMarketValue: '$400,000' }],
+            exemptions: [],
+        });
+        assert.deepEqual(diffSnapshots(before, after), [
+            { field: 'exemptions.HS.2023', old_value: 2024, new_value: null },
+            { field: 'total_market_value', old_value: 400000, new_value: 420000 },
+            { field: 'value_history.2023', old_value: 380000, new_value: null },
+            { field: 'value_history.2025', old_value: null, new_value: 420000 },
+        ]);
+        assert.notEqual(snapshotHash(after), snapshotHash(before));
+    });
+
+    it('reports every non-null field of a first snapshot as added', () => {
+        const changes = diffSnapshots(null, { total_market_value: 400000, deed_xfer_date: null });
+        assert.deepEqual(changes, [{ field: 'total_market_value', old_value: null, new_value: 400000 }]);
+    });
+
+    it('keys documents by instrument number and skips rows without one', () => {
+        const snapshot = buildDocumentSnapshot([{ instrument_number: '202200004567', document_type: 'WARRANTY DEED', summary: null }, { document_type: 'RELEASE' }]);
+        assert.deepEqual(snapshot, { 'documents.202200004567.document_type': 'WARRANTY DEED', 'documents.202200004567.summary': null });
+    });
+});
@@ -0,0 +1,73 @@
+// src/lib/snapshot-diff.ts
+
+import { createHash } from 'node:crypto';
+import { normalizeOwnerName, type AssessmentRecords, type DocumentRecord } from './assessment-records.js';
+
+export type SnapshotValue = string | number | boolean | null;
+
+/**
+ * A flattened view of everything one scrape says about a property, keyed by field
+ * path (e.g. "total_market_value", "value_history.2024", "exemptions.RES.2019").
+ * Flat keys make the diff, the change log and the stored payload all line up.
+ */
+export type Snapshot = Record<string, SnapshotValue>;
+
+export interface FieldChange {
+    field: string;
+    old_value: SnapshotValue;
+    new_value: SnapshotValue;
+}
+
+export function buildAssessmentSnapshot(records: AssessmentRecords): Snapshot {
+    const snapshot: Snapshot = {};
+    for (const [field, value] of Object.entries(records.property)) snapshot[field] = value ?? null;
+    for (const owner of records.owners) snapshot[`owners.${owner.name}`] = owner.address ?? null;
+    for (const name of records.currentOwners) snapshot[`current_owners.${normalizeOwnerName(name)}`] = true;
+    for (const share of records.currentOwnership) {
+        if (share.percentage != null) snapshot[`owner_percentages.${normalizeOwnerName(share.ownerName)}`] = share.percentage;
+    }
+    for (const rec of records.valueHistory) snapshot[`value_history.${rec.year}`] = rec.total_market_value;
+    for (const rec of records.exemptions) snapshot[`exemptions.${rec.code}.${rec.start_year}`] = rec.end_year;
+    for (const rec of records.ownershipHistory) snapshot[`ownership_history.${normalizeOwnerName(rec.ownerName)}.${rec.start_year}`] = rec.end_year;
+    return snapshot;
+}
+
+/** Documents are keyed by instrument number; rows without one can't be tracked and are skipped. */
+export function buildDocumentSnapshot(records: Partial<DocumentRecord>[]): Snapshot {
+    const snapshot: Snapshot = {};
+    for (const rec of records) {
+        if (!rec.instrument_number) continue;
+        for (const [field, value] of Object.entries(rec)) {
+            if (field === 'instrument_number') continue;
+            snapshot[`documents.${rec.instrument_number}.${field}`] = value ?? null;
+        }
+    }
+    return snapshot;
+}
+
+/** The values of every field under `prefix.`, keyed by the rest of the path. */
+export function snapshotSection(snapshot: Snapshot, prefix: string): Map<string, SnapshotValue> {
+    const section = new Map<string, SnapshotValue>();
+    for (const [field, value] of Object.entries(snapshot)) {
+        if (field.startsWith(`${prefix}.`)) section.set(field.slice(prefix.length + 1), value);
+    }
+    return section;
+}
+
+/**
+ * Lists every field whose value differs between two snapshots. A field missing
+ * from one side is compared as null. Changes are sorted by field path.
+ */
+export function diffSnapshots(previous: Snapshot | null, next: Snapshot): FieldChange[] {
+    const before = previous ?? {};
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(next)])].sort();
+    return fields
+        .map(field => ({ field, old_value: before[field] ?? null, new_value: next[field] ?? null }))
+        .filter(change => change.old_value !== change.new_value);
+}
+
+/** A stable content hash, independent of key order. */
+export function snapshotHash(snapshot: Snapshot): string {
+    const canonical = JSON.stringify(Object.keys(snapshot).sort().map(field => [field, snapshot[field]]));
+    return createHash('sha256').update(canonical).digest('hex');
+}
@@ -0,0 +1,47 @@
+// src/lib/stagehand-config.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readBrowserSettings, stagehandConfig, validateBrowserSettings } from './stagehand-config.js';
+
+describe('readBrowserSettings', () => {
+    it('needs Browserbase credentials only in BROWSERBASE mode', () => {
+        assert.throws(() => validateBrowserSettings({ GOOGLE_API_KEY: 'g' }), /BROWSERBASE_API_KEY is required[\s\S]*BROWSERBASE_PROJECT_ID is required/);
+        assert.equal(validateBrowserSettings({ STAGEHAND_ENV: 'local', GOOGLE_API_KEY: 'g' }).env, 'LOCAL');
+    });
+
+    it('lists every invalid setting', () => {
+        const { problems } = readBrowserSettings({ STAGEHAND_ENV: 'LOCAL', STAGEHAND_VERBOSE: '5', STAGEHAND_NAVIGATION_TIMEOUT_MS: 'soon', OXYLABS_USERNAME: 'user' });
+        assert.equal(problems.length, 4);
+        assert.match(problems.join('\n'), /GOOGLE_API_KEY[\s\S]*STAGEHAND_VERBOSE[\s\S]*OXYLABS_PASSWORD[\s\S]*STAGEHAND_NAVIGATION_TIMEOUT_MS/);
+    });
+});
+
+describe('stagehandConfig', () => {
+    const proxyEnv = { GOOGLE_API_KEY: 'g', OXYLABS_USERNAME: 'user', OXYLABS_PASSWORD: 'secret' };
+
+    it('launches local Chromium with the proxy', () => {
+        const config = stagehandConfig(validateBrowserSettings({ ...proxyEnv, STAGEHAND_ENV: 'LOCAL', STAGEHAND_MODEL: 'google/gemini-2.5-pro' }));
+        assert.equal(config.env, 'LOCAL');
+        assert.equal(config.modelName, 'google/gemini-2.5-pro');
+        assert.deepEqual(config.localBrowserLaunchOptions, {
+            headless: true,
+            executablePath: undefined,
+            proxy: { server: 'http://pr.oxylabs.io:7777', username: 'user', password: 'secret' },
+        });
+    });
+
+    it('passes the proxy to Browserbase as an external proxy', () => {
+        const config = stagehandConfig(validateBrowserSettings({ ...proxyEnv, BROWSERBASE_API_KEY: 'b', BROWSERBASE_PROJECT_ID: 'p', BROWSERBASE_SESSION_TIMEOUT_S: '600' }));
+        assert.equal(config.env, 'BROWSERBASE');
+        assert.deepEqual(config.browserbaseSessionCreateParams, {
+            proxies: [{ type: 'external', server: 'http://pr.oxylabs.io:7777', username: 'user', password: 'secret' }],
+            api_timeout: 600,
+        });
+    });
+
+    it('leaves the proxy out without credentials', () => {
+        const config = stagehandConfig(validateBrowserSettings({ GOOGLE_API_KEY: 'g', STAGEHAND_ENV: 'LOCAL' }));
+        assert.equal(config.localBrowserLaunchOptions?.proxy, undefined);
+    });
+});
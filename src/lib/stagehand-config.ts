@@ -0,0 +1,123 @@
+// src/lib/stagehand-config.ts
+
+import type { ConstructorParams } from '@browserbasehq/stagehand';
+
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_PROXY_SERVER = 'http://pr.oxylabs.io:7777';
+
+export type BrowserEnv = 'LOCAL' | 'BROWSERBASE';
+
+/** Every Stagehand session's settings, read from the environment. */
+export interface BrowserSettings {
+    env: BrowserEnv;
+    model: string;
+    modelApiKey: string | undefined;
+    verbose: 0 | 1 | 2;
+    /** How long Stagehand waits for the DOM to settle before acting or extracting. */
+    domSettleTimeoutMs: number;
+    /** The default timeout of `page.goto` and other navigations. */
+    navigationTimeoutMs: number;
+    /** How long a Browserbase session may live; null leaves the project default. */
+    sessionTimeoutSeconds: number | null;
+    /** LOCAL only. */
+    headless: boolean;
+    executablePath: string | undefined;
+    proxy: { server: string; username: string; password: string } | null;
+}
+
+/**
+ * Reads the browser settings, listing every problem instead of stopping at the
+ * first. Invalid values fall back to their defaults in `settings`.
+ */
+export function readBrowserSettings(env: NodeJS.ProcessEnv = process.env): { settings: BrowserSettings; problems: string[] } {
+    const problems: string[] = [];
+    const number = (name: string, fallback: number, min: number) => {
+        const raw = env[name];
+        if (raw === undefined || raw === '') return fallback;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < min) {
+            problems.push(`${name} must be an integer of at least ${min}, got '${raw}'.`);
+            return fallback;
+        }
+        return value;
+    };
+
+    const browserEnv = (env.STAGEHAND_ENV || 'BROWSERBASE').toUpperCase();
+    if (browserEnv !== 'LOCAL' && browserEnv !== 'BROWSERBASE') problems.push(`STAGEHAND_ENV must be LOCAL or BROWSERBASE, got '${env.STAGEHAND_ENV}'.`);
+    if (browserEnv === 'BROWSERBASE') {
+        for (const name of ['BROWSERBASE_API_KEY', 'BROWSERBASE_PROJECT_ID']) {
+            if (!env[name]) problems.push(`${name} is required with STAGEHAND_ENV=BROWSERBASE; set STAGEHAND_ENV=LOCAL to run Chromium on this machine.`);
+        }
+    }
+
+    const modelApiKey = env.STAGEHAND_MODEL_API_KEY || env.GOOGLE_API_KEY;
+    if (!modelApiKey) problems.push('GOOGLE_API_KEY (or STAGEHAND_MODEL_API_KEY) is required for Stagehand\'s model.');
+
+    const verbose = number('STAGEHAND_VERBOSE', 1, 0);
+    if (verbose > 2) problems.push(`STAGEHAND_VERBOSE must be 0, 1 or 2, got '${env.STAGEHAND_VERBOSE}'.`);
+
+    const username = env.OXYLABS_USERNAME;
+    const password = env.OXYLABS_PASSWORD;
+    if (!!username !== !!password) problems.push('Set both OXYLABS_USERNAME and OXYLABS_PASSWORD to use the proxy, or neither.');
+
+    const headless = (env.STAGEHAND_HEADLESS ?? 'true').toLowerCase();
+    if (headless !== 'true' && headless !== 'false') problems.push(`STAGEHAND_HEADLESS must be true or false, got '${env.STAGEHAND_HEADLESS}'.`);
+
+    const settings: BrowserSettings = {
+        env: browserEnv === 'LOCAL' ? 'LOCAL' : 'BROWSERBASE',
+        model: env.STAGEHAND_MODEL || DEFAULT_MODEL,
+        modelApiKey,
+        verbose: Math.min(verbose, 2) as 0 | 1 | 2,
+        domSettleTimeoutMs: number('STAGEHAND_DOM_SETTLE_TIMEOUT_MS', 10000, 0),
+        navigationTimeoutMs: number('STAGEHAND_NAVIGATION_TIMEOUT_MS', 30000, 1000),
+        sessionTimeoutSeconds: number('BROWSERBASE_SESSION_TIMEOUT_S', 0, 60) || null,
+        headless: headless !== 'false',
+        executablePath: env.CHROME_PATH || undefined,
+        proxy: username && password ? { server: env.OXYLABS_PROXY_SERVER || DEFAULT_PROXY_SERVER, username, password } : null,
+    };
+    return { settings, problems };
+}
+
+/**
+ * Checks the browser settings once at startup, so a missing key fails before a
+ * run is recorded rather than in the middle of one.
+ * @throws {Error} listing every problem found.
+ */
+export function validateBrowserSettings(env: NodeJS.ProcessEnv = process.env): BrowserSettings {
+    const { settings, problems } = readBrowserSettings(env);
+    if (problems.length > 0) throw new Error(`Invalid browser configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    return settings;
+}
+
+/**
+ * The Stagehand options for every scraper session. BROWSERBASE runs a remote
+ * browser; LOCAL launches Chromium on this machine. The proxy, when configured,
+ * is passed in the form each mode expects.
+ */
+export function stagehandConfig(settings: BrowserSettings = readBrowserSettings().settings): ConstructorParams {
+    const { proxy } = settings;
+    const base: ConstructorParams = {
+        env: settings.env,
+        verbose: settings.verbose,
+        modelName: settings.model,
+        modelClientOptions: { apiKey: settings.modelApiKey },
+        domSettleTimeoutMs: settings.domSettleTimeoutMs,
+    };
+    if (settings.env === 'LOCAL') {
+        return {
+            ...base,
+            localBrowserLaunchOptions: {
+                headless: settings.headless,
+                executablePath: settings.executablePath,
+                ...(proxy ? { proxy } : {}),
+            },
+        };
+    }
+    return {
+        ...base,
+        browserbaseSessionCreateParams: {
+            ...(proxy ? { proxies: [{ type: 'external', ...proxy }] } : {}),
+            ...(settings.sessionTimeoutSeconds ? { api_timeout: settings.sessionTimeoutSeconds } : {}),
+        },
+    };
+}
@@ -0,0 +1,192 @@
+// src/lib/stagehand-session.ts
+
+import { Stagehand, type ConstructorParams, type Page } from '@browserbasehq/stagehand';
+import type { ScrapeResult } from '../counties/types.js';
+import { fixtureMode, openTape } from './fixtures.js';
+import { readBrowserSettings } from './stagehand-config.js';
+
+interface PooledSession {
+    key: string;
+    stagehand: Stagehand;
+    busy: boolean;
+}
+
+interface SessionPool {
+    maxSessions: number;
+    sessions: PooledSession[];
+    waiters: (() => void)[];
+}
+
+let pool: SessionPool | null = null;
+
+/**
+ * Turns on session reuse: at most `maxSessions` Stagehand sessions are open at once,
+ * and a session is handed to the next `runWithStagehand` call with the same session
+ * key once its current work finishes cleanly. Without a pool, every call opens and
+ * closes its own session.
+ */
+export function configureSessionPool(maxSessions: number) {
+    pool = { maxSessions, sessions: [], waiters: [] };
+}
+
+/** Closes every pooled session and turns reuse off again. */
+export async function closeSessionPool() {
+    if (!pool) return;
+    const sessions = pool.sessions;
+    pool = null;
+    await Promise.all(sessions.map(session => closeQuietly(session.stagehand)));
+}
+
+/**
+ * Runs `work` against a Stagehand page. Errors are returned as a failed result
+ * rather than thrown, so the caller never receives Stagehand's circular error objects.
+ * @param config The Stagehand constructor options for this session.
+ * @param work The scraping steps to run with the session's page.
+ * @param sessionKey Identifies sessions that are interchangeable (same site and
+ * options). Only calls with a key use the session pool.
+ */
+export async function runWithStagehand<T>(config: ConstructorParams, work: (page: Page) => Promise<T>, sessionKey?: string): Promise<ScrapeResult<T>> {
+    const mode = fixtureMode();
+    if (mode) return runWithFixtures(mode, config, work, sessionKey);
+    if (pool && sessionKey) return runPooled(pool, config, work, sessionKey);
+    return runSingle(config, work);
+}
+
+/**
+ * Fixture runs bypass the pool: a recorded session gets its own tape, and a
+ * replayed one doesn't start a browser at all (see src/lib/fixtures.ts).
+ */
+async function runWithFixtures<T>(mode: 'record' | 'replay', config: ConstructorParams, work: (page: Page) => Promise<T>, sessionKey?: string): Promise<ScrapeResult<T>> {
+    const tape = openTape(sessionKey ?? 'stagehand');
+    if (mode === 'record') {
+        console.log(`Recording session to ${tape.dir}.`);
+        return runSingle(config, async page => {
+            try {
+                return await work(tape.record(page));
+            } finally {
+                await tape.save();
+            }
+        });
+    }
+    console.log(`Replaying session from ${tape.dir}.`);
+    try {
+        return { success: true, data: await work(await tape.replay()) };
+    } catch (error) {
+        console.error('Replayed workflow failed:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+async function runSingle<T>(config: ConstructorParams, work: (page: Page) => Promise<T>): Promise<ScrapeResult<T>> {
+    let stagehand: Stagehand | null = null;
+    try {
+        console.log('Initializing Stagehand...');
+        stagehand = new Stagehand(config);
+        await stagehand.init();
+        console.log('Stagehand initialized successfully.');
+
+        const page = stagehand.page;
+        if (!page) {
+            throw new Error('Failed to get page instance from Stagehand');
+        }
+        applyTimeouts(page);
+
+        const data = await work(page);
+        console.log('Workflow completed successfully.');
+        return { success: true, data };
+    } catch (error) {
+        console.error('Workflow failed:', error);
+        return { success: false, error: (error as Error).message };
+    } finally {
+        if (stagehand) {
+            console.log('Closing Stagehand connection.');
+            await stagehand.close();
+        }
+    }
+}
+
+async function runPooled<T>(activePool: SessionPool, config: ConstructorParams, work: (page: Page) => Promise<T>, key: string): Promise<ScrapeResult<T>> {
+    let session: PooledSession | null = null;
+    let healthy = false;
+    try {
+        session = await acquire(activePool, key, config);
+        const page = session.stagehand.page;
+        if (!page) {
+            throw new Error('Failed to get page instance from Stagehand');
+        }
+        const data = await work(page);
+        healthy = true;
+        console.log('Workflow completed successfully.');
+        return { success: true, data };
+    } catch (error) {
+        console.error('Workflow failed:', error);
+        return { success: false, error: (error as Error).message };
+    } finally {
+        // A session whose work failed may be stuck mid-navigation or disconnected; don't hand it on.
+        if (session) release(activePool, session, healthy);
+    }
+}
+
+async function acquire(activePool: SessionPool, key: string, config: ConstructorParams): Promise<PooledSession> {
+    for (;;) {
+        const idle = activePool.sessions.find(session => !session.busy && session.key === key);
+        if (idle) {
+            idle.busy = true;
+            return idle;
+        }
+
+        if (activePool.sessions.length >= activePool.maxSessions) {
+            // Make room by retiring an idle session opened for another site.
+            const idleOther = activePool.sessions.find(session => !session.busy);
+            if (idleOther) {
+                removeSession(activePool, idleOther);
+                void closeQuietly(idleOther.stagehand);
+            }
+        }
+
+        if (activePool.sessions.length < activePool.maxSessions) {
+            console.log(`Initializing Stagehand session for ${key}...`);
+            const session: PooledSession = { key, stagehand: new Stagehand(config), busy: true };
+            activePool.sessions.push(session);
+            try {
+                await session.stagehand.init();
+                applyTimeouts(session.stagehand.page);
+            } catch (error) {
+                release(activePool, session, false);
+                throw error;
+            }
+            console.log('Stagehand initialized successfully.');
+            return session;
+        }
+
+        await new Promise<void>(resolve => activePool.waiters.push(resolve));
+    }
+}
+
+function applyTimeouts(page: Page) {
+    page.setDefaultNavigationTimeout(readBrowserSettings().settings.navigationTimeoutMs);
+}
+
+function release(activePool: SessionPool, session: PooledSession, healthy: boolean) {
+    if (healthy && pool === activePool) {
+        session.busy = false;
+    } else {
+        removeSession(activePool, session);
+        console.log('Closing Stagehand connection.');
+        void closeQuietly(session.stagehand);
+    }
+    activePool.waiters.shift()?.();
+}
+
+function removeSession(activePool: SessionPool, session: PooledSession) {
+    const index = activePool.sessions.indexOf(session);
+    if (index >= 0) activePool.sessions.splice(index, 1);
+}
+
+async function closeQuietly(stagehand: Stagehand) {
+    try {
+        await stagehand.close();
+    } catch (error) {
+        console.warn('Failed to close Stagehand session:', (error as Error).message);
+    }
+}
@@ -0,0 +1,69 @@
+// src/lib/validation.test.ts
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import { validateAssessment, validateDocument } from './validation.js';
+
+const dallas = { name: 'Dallas County', accountNumberPattern: /^[0-9A-Z]{17}$/ };
+const today = new Date('2026-10-19T12:00:00Z');
+
+const scraped: AssessmentData = {
+    accountNumber: '00000776533000000',
+    address: '9920 GULF PALM DR',
+    deed_xfer_date: '11/30/2022',
+    propertyValue: { improvementValue: '$300,000', landValue: '$100,000', totalMarketValue: '$400,000' },
+    propertyDetails: { yearBuilt: '1978', livingArea: '2,100 sqft' },
+    ownershipHistory: [
+        { year: '2024', ownerNameAndAddress: 'SMITH JOHN', deed_xfer_date: '2022-11-30' },
+        { year: '2023', ownerNameAndAddress: 'SMITH JOHN' },
+        { year: '2023', ownerNameAndAddress: 'SMITH JANE' },
+    ],
+    marketValueHistory: [{ year: '2024', totalMarketValue: '$400,000' }, { year: '2023', totalMarketValue: '$380,000' }],
+    exemptions: [{ year: '2024', code: 'HS' }, { year: '2023', code: 'HS' }, { year: '2024', code: 'OV65' }],
+    cad_url: 'https://www.dallascad.org/AcctDetailRes.aspx?ID=00000776533000000',
+};
+
+const fields = (data: AssessmentData) => validateAssessment(data, dallas, today).map(issue => issue.field);
+
+describe('validateAssessment', () => {
+    it('accepts a consistent record, and missing values', () => {
+        assert.deepEqual(validateAssessment(scraped, dallas, today), []);
+        assert.deepEqual(fields({ accountNumber: '00000776533000000', propertyDetails: { yearBuilt: '0' }, cad_url: '' }), []);
+    });
+
+    it('rejects account numbers that are missing or not in the county format', () => {
+        assert.deepEqual(fields({ ...scraped, accountNumber: undefined }), ['accountNumber']);
+        assert.deepEqual(fields({ ...scraped, accountNumber: '776533' }), ['accountNumber']);
+    });
+
+    it('rejects implausible years built and values that do not add up', () => {
+        assert.deepEqual(fields({ ...scraped, propertyDetails: { yearBuilt: '2100' } }), ['propertyDetails.yearBuilt']);
+        assert.deepEqual(fields({ ...scraped, propertyDetails: { yearBuilt: '178' } }), ['propertyDetails.yearBuilt']);
+        assert.deepEqual(fields({ ...scraped, propertyValue: { ...scraped.propertyValue, landValue: '$10,000' } }), ['propertyValue.totalMarketValue']);
+        assert.deepEqual(fields({ ...scraped, propertyValue: { ...scraped.propertyValue, landValue: 'about a hundred' } }), ['propertyValue.landValue']);
+    });
+
+    it('rejects history years that are implausible or out of order, and dates that do not parse', () => {
+        const history = [{ year: '2023' }, { year: '2024' }, { year: '2022' }];
+        assert.deepEqual(fields({ ...scraped, marketValueHistory: history }), ['marketValueHistory']);
+        assert.deepEqual(fields({ ...scraped, marketValueHistory: [{ year: '2024' }, { year: '2024' }] }), ['marketValueHistory']);
+        assert.deepEqual(fields({ ...scraped, ownershipHistory: history }), ['ownershipHistory']);
+        assert.deepEqual(fields({ ...scraped, exemptions: [{ year: '20244', code: 'HS' }] }), ['exemptions[0].year']);
+        assert.deepEqual(fields({ ...scraped, deed_xfer_date: 'last spring' }), ['deed_xfer_date']);
+    });
+});
+
+describe('validateDocument', () => {
+    const doc: ClerkDocument = { instrument_number: '201500123456', filing_date: '01/02/2015', summary: null, documentUrl: null };
+
+    it('accepts parseable past filing dates and documents without one', () => {
+        assert.deepEqual(validateDocument(doc, today), []);
+        assert.deepEqual(validateDocument({ ...doc, filing_date: undefined }, today), []);
+    });
+
+    it('rejects filing dates that do not parse or are in the future', () => {
+        assert.match(validateDocument({ ...doc, filing_date: '13/45/2015' }, today)[0].message, /not a date/);
+        assert.match(validateDocument({ ...doc, filing_date: '2027-01-02' }, today)[0].message, /in the future/);
+    });
+});
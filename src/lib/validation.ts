@@ -0,0 +1,112 @@
+// src/lib/validation.ts
+
+import type { AssessmentData, ClerkDocument, CountyAdapter } from '../counties/types.js';
+import { cleanAndParseNumber, formatAsDate } from './assessment-records.js';
+
+/** One reason a scraped record can't be trusted as extracted. */
+export interface ValidationIssue {
+    /** Where in the scraped record, e.g. `propertyValue.landValue` or `marketValueHistory[2].year`. */
+    field: string;
+    message: string;
+}
+
+/** The oldest year built accepted; older values are misreads. */
+export const EARLIEST_YEAR_BUILT = 1800;
+/** The oldest tax year accepted in value, ownership and exemption histories. */
+export const EARLIEST_TAX_YEAR = 1900;
+/** How far land plus improvement value may be from the market value: 1%, and at least $1 of rounding. */
+export const VALUE_SUM_TOLERANCE = 0.01;
+
+/**
+ * Checks a scraped assessment before it is saved: the account number has the
+ * county's format, every value that is present parses as a non-negative number,
+ * the year built is plausible, land plus improvement value adds up to the market
+ * value, history years are plausible and run in one direction, and deed dates parse.
+ * Missing values are not issues; extracted values that can't be right are.
+ */
+export function validateAssessment(data: AssessmentData, adapter: Pick<CountyAdapter, 'name' | 'accountNumberPattern'>, today: Date = new Date()): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const issue = (field: string, message: string) => issues.push({ field, message });
+    const latestYear = today.getFullYear() + 1;
+
+    const account = data.accountNumber?.trim();
+    if (!account) issue('accountNumber', 'The account number is missing.');
+    else if (!adapter.accountNumberPattern.test(account)) issue('accountNumber', `'${account}' is not a ${adapter.name} account number.`);
+
+    const amount = (field: string, raw: string | undefined) => {
+        if (!raw?.trim()) return null;
+        const value = cleanAndParseNumber(raw);
+        if (value === null) issue(field, `'${raw}' is not a number.`);
+        else if (value < 0) issue(field, `${value} is negative.`);
+        return value;
+    };
+    const improvement = amount('propertyValue.improvementValue', data.propertyValue?.improvementValue);
+    const land = amount('propertyValue.landValue', data.propertyValue?.landValue);
+    const market = amount('propertyValue.totalMarketValue', data.propertyValue?.totalMarketValue);
+    amount('propertyDetails.livingArea', data.propertyDetails?.livingArea);
+    if (improvement !== null && land !== null && market !== null) {
+        const tolerance = Math.max(1, market * VALUE_SUM_TOLERANCE);
+        if (Math.abs(improvement + land - market) > tolerance) {
+            issue('propertyValue.totalMarketValue', `Land (${land}) plus improvement (${improvement}) value is ${improvement + land}, not the market value of ${market}.`);
+        }
+    }
+
+    // Vacant land is listed with a year built of 0.
+    const yearBuilt = amount('propertyDetails.yearBuilt', data.propertyDetails?.yearBuilt);
+    if (yearBuilt && (!Number.isInteger(yearBuilt) || yearBuilt < EARLIEST_YEAR_BUILT || yearBuilt > latestYear)) {
+        issue('propertyDetails.yearBuilt', `${yearBuilt} is not a plausible year built.`);
+    }
+
+    const years = (list: string, rows: { year?: string }[] | undefined) => {
+        const read: number[] = [];
+        for (const [index, row] of (rows ?? []).entries()) {
+            if (!row.year?.trim()) continue;
+            const year = cleanAndParseNumber(row.year);
+            if (year === null || !Number.isInteger(year) || year < EARLIEST_TAX_YEAR || year > latestYear) {
+                issue(`${list}[${index}].year`, `'${row.year}' is not a plausible tax year.`);
+            } else {
+                read.push(year);
+            }
+        }
+        return read;
+    };
+    // One market value per year; one owner per year, though co-owners may share it.
+    // Exemptions are only checked for plausible years: sites list them grouped by code.
+    const valueYears = years('marketValueHistory', data.marketValueHistory);
+    if (!isMonotonic(valueYears, true)) issue('marketValueHistory', `The years are out of order: ${valueYears.join(', ')}.`);
+    const ownerYears = years('ownershipHistory', data.ownershipHistory);
+    if (!isMonotonic(ownerYears, false)) issue('ownershipHistory', `The years are out of order: ${ownerYears.join(', ')}.`);
+    years('exemptions', data.exemptions);
+
+    const date = (field: string, raw: string | undefined) => {
+        if (raw?.trim() && formatAsDate(raw) === null) issue(field, `'${raw}' is not a date.`);
+    };
+    date('deed_xfer_date', data.deed_xfer_date);
+    for (const [index, row] of (data.ownershipHistory ?? []).entries()) date(`ownershipHistory[${index}].deed_xfer_date`, row.deed_xfer_date);
+
+    return issues;
+}
+
+/**
+ * Checks a processed clerk document before it is saved: its filing date parses
+ * and is not in the future.
+ */
+export function validateDocument(doc: ClerkDocument, today: Date = new Date()): ValidationIssue[] {
+    if (!doc.filing_date?.trim()) return [];
+    const filed = formatAsDate(doc.filing_date);
+    if (filed === null) return [{ field: 'filing_date', message: `'${doc.filing_date}' is not a date.` }];
+    if (filed > today.toISOString().slice(0, 10)) return [{ field: 'filing_date', message: `${filed} is in the future.` }];
+    return [];
+}
+
+/** The issues as one line, for logs and task outputs. */
+export function describeIssues(issues: ValidationIssue[]): string {
+    return issues.map(({ field, message }) => `${field}: ${message}`).join('; ');
+}
+
+/** Whether the values only rise or only fall; `strict` rules out repeats. */
+function isMonotonic(values: number[], strict: boolean): boolean {
+    const rising = (a: number, b: number) => strict ? b > a : b >= a;
+    return values.every((value, index) => index === 0 || rising(values[index - 1], value))
+        || values.every((value, index) => index === 0 || rising(value, values[index - 1]));
+}
@@ -1,252 +1,110 @@
 // src/main.ts
 
 import 'dotenv/config';
-import runDallasAssessmentScraper from './scrapers/dallas/assessment-scraper.js';
-import runClerkScraper from './scrapers/dallas/clerk-scraper.js';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseKey) {
-    throw new Error("Supabase URL and Key are required in the .env file");
-}
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-// --- Helper Functions ---
-function cleanAndParseNumber(value: string | undefined | null): number | null {
-    if (!value) return null;
-    const cleaned = value.replace(/[^0-9.-]+/g, "");
-    const number = parseFloat(cleaned);
-    return isNaN(number) ? null : number;
-}
-function formatAsDate(dateString: string | undefined | null): string | null {
-    if (!dateString) return null;
-    try {
-        return new Date(dateString).toISOString().split('T')[0];
-    } catch (e) {
-        return null;
-    }
-}
-function parseLegalDescription(description: string | undefined | null) {
-    if (!description) return {};
-    const lines = description.split('\n').map(line => line.trim()).filter(line => line);
-    const result: { [key: string]: string | null } = { subdivision: null, block: null, city_block: null, lot1: null, lot2: null };
-    const fullDescription = lines.join(' ');
-    const blockIndex = fullDescription.toUpperCase().indexOf('BLK');
-    if (blockIndex > 0) {
-        result.subdivision = fullDescription.substring(0, blockIndex).trim();
-    } else if (lines.length > 0 && !lines[0].toUpperCase().includes('BLK') && !lines[0].toUpperCase().includes('BLOCK')) {
-        result.subdivision = lines[0];
+import { parseCliArgs, usage, type CliOptions } from './cli/args.js';
+import { loadTargets } from './cli/targets.js';
+import { createRun, loadRun, resetFailedTasks, setRunStatus } from './jobs/run-store.js';
+import { executeRun, groupPendingTasks } from './jobs/runner.js';
+import type { ScrapeRun, ScrapeTask, TargetSummary } from './jobs/types.js';
+import { fixtureMode } from './lib/fixtures.js';
+import { selectorDriftReport, type SelectorDrift } from './lib/navigation-steps.js';
+import { validateBrowserSettings } from './lib/stagehand-config.js';
+import { createOutputTargets } from './outputs/index.js';
+
+function printSummary(summaries: TargetSummary[]) {
+    console.log('\n=== Summary ===');
+    for (const summary of summaries) {
+        const details = [
+            summary.accountNumber && `account ${summary.accountNumber}`,
+            summary.documents !== undefined && `${summary.documents} documents`,
+            summary.message,
+        ].filter(Boolean).join('; ');
+        console.log(`${summary.status.toUpperCase().padEnd(9)} ${summary.label}${details ? ` (${details})` : ''}`);
     }
-    const blockMatch = fullDescription.match(/(?:BLK|BLOCK)\s*([^\s/]+)(?:\s*\/\s*(\S+))?/i);
-    if (blockMatch) {
-        result.block = blockMatch[1] || null;
-        result.city_block = blockMatch[2] || null;
-    }
-    const lotMatch = fullDescription.match(/(?:LTS|LT|LOTS|LOT)\s*(\d+)(?:\s*&\s*(\d+))?/i);
-    if (lotMatch) {
-        result.lot1 = lotMatch[1] || null;
-        result.lot2 = lotMatch[2] || null;
-    }
-    return result;
+    const failed = summaries.filter(s => s.status === 'failed').length;
+    console.log(`${summaries.length} targets: ${summaries.length - failed} ok, ${failed} failed.`);
 }
-function normalizeOwnerName(name: string): string {
-    return name
-        .toUpperCase()
-        .replace(/[,.]/g, '')
-        .replace(/\s+/g, ' ')
-        .replace(/&\s*ET\s*AL/g, '')
-        .replace(/\s*ESTATE/g, '')
-        .trim();
-}
-
-const propertiesToScrape = [
-    { addressNumber: '9920', streetName: 'Gulf Palm' },
-];
-
-async function runAllScrapers() {
-    for (const property of propertiesToScrape) {
-        try {
-            console.log(`\n--- Starting Assessment scraper for ${property.addressNumber} ${property.streetName} ---`);
-            const assessmentResult = await runDallasAssessmentScraper(property.addressNumber, property.streetName);
-
-            if (!assessmentResult.success || !assessmentResult.data) {
-                console.error(`Assessment scraping failed:`, assessmentResult.error);
-                continue;
-            }
-
-            console.log('Assessment scraping successful.');
-            const parsedLegal = parseLegalDescription(assessmentResult.data.legalDescription);
-            
-            const { error: saveError } = await saveDataToSupabase(assessmentResult.data, parsedLegal);
-            if (saveError) {
-                console.error("Failed to save assessment data:", saveError.message);
-                continue;
-            }
 
-            if (!parsedLegal.subdivision || !parsedLegal.block || !parsedLegal.lot1) {
-                console.log("Skipping clerk scraper: Missing required legal description data.");
-                continue;
-            }
-            
-            console.log(`--- Starting Clerk scraper ---`);
-            const clerkResult = await runClerkScraper({
-                lot: parsedLegal.lot1,
-                block: parsedLegal.block,
-                subdivision: parsedLegal.subdivision,
-                city_block: parsedLegal.city_block,
-            });
-
-            if (clerkResult.success && clerkResult.data && clerkResult.data.length > 0) {
-                console.log(`Clerk scraper processed ${clerkResult.data.length} relevant documents.`);
-                
-                // ======================================================================
-                // == THE FIX: Added your requested '!' non-null assertion.          ==
-                // ======================================================================
-                await saveClerkDataToSupabase(assessmentResult.data.accountNumber!, clerkResult.data);
-
-            } else {
-                console.log("Clerk scraper failed or found no relevant documents:", clerkResult.error);
-            }
-        } catch (error) {
-            console.error(`A critical error occurred:`, error);
-        }
+/** Lists each navigation step whose preferred selector failed, so a site change gets noticed. */
+function printDriftReport(drifts: SelectorDrift[]) {
+    if (drifts.length === 0) return;
+    console.log('\n=== Selector Drift ===');
+    const byStep = new Map<string, SelectorDrift[]>();
+    for (const drift of drifts) byStep.set(drift.step, [...(byStep.get(drift.step) ?? []), drift]);
+    for (const [step, stepDrifts] of byStep) {
+        const last = stepDrifts[stepDrifts.length - 1];
+        const failed = stepDrifts.filter(drift => drift.outcome === 'failed').length;
+        console.log(`${step}: ${last.preferred} missed ${stepDrifts.length}x${failed ? ` (${failed} not healed)` : ''}; last ${last.outcome}${last.selector ? ` with ${last.selector}` : ''} at ${last.url}`);
     }
+    console.log('Update the preferred selectors in code once the healed ones prove stable.');
 }
 
-async function saveDataToSupabase(scrapedData: any, parsedLegal: any) {
-    const { accountNumber, address, propertyValue, propertyDetails, currentOwners, ownershipHistory, marketValueHistory, exemptions, cad_url } = scrapedData;
+/**
+ * Starts a new run from the targets file, or loads the run being resumed. Returns
+ * the run and the tasks to execute, grouped by target.
+ */
+async function prepareRun(options: CliOptions): Promise<{ run: ScrapeRun; pending: Map<number, ScrapeTask[]> }> {
+    let run: ScrapeRun;
+    let tasks: ScrapeTask[];
+    let onlyTargets: Set<number> | null = null;
+
+    if (options.resumeRunId) {
+        if (options.retryFailed) onlyTargets = await resetFailedTasks(options.resumeRunId);
+        ({ run, tasks } = await loadRun(options.resumeRunId));
+        await setRunStatus(run.id, 'running');
+        console.log(`Resuming run #${run.id} (stage: ${run.options.stage}).`);
+    } else {
+        const targets = await loadTargets(options.targetsFile!, options.county);
+        const selected = options.limit ? targets.slice(0, options.limit) : targets;
+        ({ run, tasks } = await createRun({ stage: options.stage, outputs: options.outputs!, fullClerk: options.fullClerk }, options.targetsFile!, selected));
+        console.log(`Loaded ${targets.length} targets from ${options.targetsFile}; running ${selected.length} as run #${run.id} (stage: ${options.stage}).`);
+    }
 
-    const { error: propertyError } = await supabase.from('properties').upsert({
-        account_number: accountNumber,
-        address: address,
-        improvement_value: cleanAndParseNumber(propertyValue?.improvementValue),
-        land_value: cleanAndParseNumber(propertyValue?.landValue),
-        total_market_value: cleanAndParseNumber(propertyValue?.totalMarketValue),
-        year_built: cleanAndParseNumber(propertyDetails?.yearBuilt),
-        living_area: cleanAndParseNumber(propertyDetails?.livingArea),
-        cad_url: cad_url,
-        subdivision: parsedLegal.subdivision,
-        block: parsedLegal.block,
-        city_block: parsedLegal.city_block,
-        lot1: parsedLegal.lot1,
-        lot2: parsedLegal.lot2,
-    }, { onConflict: 'account_number' });
-    if (propertyError) return { error: propertyError };
+    return { run, pending: groupPendingTasks(tasks, onlyTargets) };
+}
 
-    const allOwners = new Map<string, { address?: string }>();
-    currentOwners?.forEach((owner: any) => { if (owner.name) allOwners.set(owner.name.trim(), { address: owner.address?.trim() }); });
-    ownershipHistory?.forEach((rec: any) => { const name = (rec.ownerNameAndAddress?.split('\n')[0] || '').trim(); if (name && !allOwners.has(name)) allOwners.set(name, { address: rec.ownerNameAndAddress?.split('\n').slice(1).join(' ').trim() }); });
-    if (allOwners.size === 0) { 
-        console.log("No owners found in scraped data.");
-        return { error: null };
+async function main() {
+    let options: CliOptions | null;
+    try {
+        options = parseCliArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error((error as Error).message);
+        console.error(usage);
+        process.exitCode = 2;
+        return;
     }
-    
-    const ownerRecords = Array.from(allOwners.keys()).map(name => ({ owner_name: name }));
-    const { data: upsertedOwners, error: ownerError } = await supabase
-        .from('owners')
-        .upsert(ownerRecords, { onConflict: 'owner_name' })
-        .select('id, owner_name')
-        .returns<{ id: number; owner_name: string }[]>();
-
-    if (ownerError) return { error: ownerError };
-    if (!upsertedOwners) return { error: new Error("Upserted owners data is null.") };
-    
-    const ownerNameToIdMap = new Map(upsertedOwners.map(o => [normalizeOwnerName(o.owner_name), o.id]));
-    
-    await supabase.from('ownership_history').delete().eq('property_account_number', accountNumber);
-    await supabase.from('value_history').delete().eq('property_account_number', accountNumber);
-    await supabase.from('exemptions').delete().eq('property_account_number', accountNumber);
-    
-    if (marketValueHistory?.length > 0) {
-        const valueRecords = marketValueHistory.map((rec: any) => ({
-            property_account_number: accountNumber,
-            year: cleanAndParseNumber(rec.year),
-            total_market_value: cleanAndParseNumber(rec.totalMarketValue)
-        })).filter((r: any) => r.year);
-        if(valueRecords.length > 0) await supabase.from('value_history').insert(valueRecords);
+    if (!options) {
+        console.log(usage);
+        return;
     }
 
-    if (exemptions?.length > 0) {
-        const cleaned = exemptions.map((e: any) => ({ code: e.code?.trim(), year: cleanAndParseNumber(e.year) })).filter((e: any): e is { code: string, year: number } => !!e.code && e.year != null);
-        const groupedByCode = cleaned.reduce((acc: Record<string, number[]>, curr: { code: string, year: number }) => {
-            (acc[curr.code] = acc[curr.code] || []).push(curr.year);
-            return acc;
-        }, {});
-
-        const recordsToInsert = [];
-        for (const code in groupedByCode) {
-            const years = groupedByCode[code].sort((a: number, b: number) => b - a);
-            let end_year = years[0];
-            for(let i=0; i < years.length; i++) {
-                if (i === years.length - 1 || years[i+1] !== years[i] - 1) {
-                    recordsToInsert.push({ property_account_number: accountNumber, code, start_year: years[i], end_year });
-                    if (i < years.length - 1) end_year = years[i+1];
-                }
-            }
+    // Browser settings and outputs are checked first so missing credentials fail before a run is recorded.
+    if (fixtureMode() !== 'replay') {
+        try {
+            validateBrowserSettings();
+        } catch (error) {
+            console.error((error as Error).message);
+            process.exitCode = 1;
+            return;
         }
-        if(recordsToInsert.length > 0) await supabase.from('exemptions').insert(recordsToInsert);
     }
-    
-    if (ownershipHistory?.length > 0) {
-        const cleaned = ownershipHistory
-            .map((rec: any) => {
-                const ownerName = (rec.ownerNameAndAddress?.split('\n')[0] || '').trim();
-                const ownerId = ownerNameToIdMap.get(normalizeOwnerName(ownerName));
-                return {
-                    owner_id: ownerId,
-                    year: cleanAndParseNumber(rec.year),
-                };
-            })
-            .filter((rec: any): rec is { owner_id: number; year: number } => rec.owner_id != null && rec.year != null);
-
-        const groupedByOwner = cleaned.reduce((acc: Record<number, number[]>, curr: { owner_id: number, year: number }) => {
-            (acc[curr.owner_id] = acc[curr.owner_id] || []).push(curr.year);
-            return acc;
-        }, {});
-
-        const recordsToInsert = [];
-        for (const ownerId in groupedByOwner) {
-            const years = groupedByOwner[ownerId].sort((a: number, b: number) => b - a);
-            let end_year = years[0];
-            for(let i=0; i < years.length; i++) {
-                if (i === years.length - 1 || years[i+1] !== years[i] - 1) {
-                    recordsToInsert.push({ 
-                        property_account_number: accountNumber, 
-                        owner_id: parseInt(ownerId), 
-                        start_year: years[i], 
-                        end_year 
-                    });
-                    if (i < years.length - 1) end_year = years[i+1];
-                }
-            }
-        }
-        if(recordsToInsert.length > 0) await supabase.from('ownership_history').insert(recordsToInsert);
+    const requestedOutputs = options.outputs && createOutputTargets(options.outputs);
+    const { run, pending } = await prepareRun(options);
+    const outputs = requestedOutputs ?? createOutputTargets(run.options.outputs ?? ['supabase']);
+
+    const summaries = await executeRun(run, pending, outputs, options.concurrency);
+    const failed = summaries.some(s => s.status === 'failed');
+    printSummary(summaries);
+    printDriftReport(selectorDriftReport());
+    if (failed) {
+        console.log(`Re-drive the failures with: npm start -- --retry-failed ${run.id}`);
+        process.exitCode = 1;
     }
-    
-    console.log("Successfully saved all assessment and history data.");
-    return { error: null };
-}
-
-async function saveClerkDataToSupabase(accountNumber: string, documents: any[]) {
-    await supabase.from('property_documents').delete().eq('property_account_number', accountNumber);
-    const documentRecords = documents.map((doc: any) => ({
-        property_account_number: accountNumber,
-        document_type: doc.document_type,
-        grantor: doc.grantor,
-        grantee: doc.grantee,
-        filing_date: formatAsDate(doc.filing_date),
-        instrument_number: doc.instrument_number,
-        book_and_page: doc.book_and_page,
-        summary: doc.summary,
-        document_url: doc.documentUrl,
-    }));
-    const { error } = await supabase.from('property_documents').insert(documentRecords);
-    if (error) console.error("Error saving clerk data:", error);
-    else console.log("Successfully saved clerk documents with summaries and URLs.");
 }
 
-runAllScrapers()
+main()
     .then(() => console.log('All scraping tasks have been completed.'))
-    .catch((error) => console.error('An unhandled error occurred in the main execution:', error));
\ No newline at end of file
+    .catch((error) => {
+        console.error('An unhandled error occurred in the main execution:', error);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,220 @@
+// src/outputs/airtable.ts
+
+import Airtable from 'airtable';
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import { buildAssessmentRecords, buildDocumentDetailRecords, buildDocumentRecords, normalizeOwnerName } from '../lib/assessment-records.js';
+import type { LegalDescription } from '../lib/legal-description.js';
+import { siteRateLimiter } from '../lib/rate-limiter.js';
+import type { OutputTarget } from './types.js';
+
+type Fields = Airtable.FieldSet;
+
+/** Airtable accepts at most 10 records per create, update or delete request. */
+const BATCH_SIZE = 10;
+/** Keys per lookup request, keeping the filterByFormula URL well under Airtable's limit. */
+const LOOKUP_BATCH_SIZE = 50;
+
+/**
+ * Table and primary-field names in the Airtable base. Every child table also has a
+ * plain "Account Number" field so its rows for one property are easy to filter.
+ */
+const TABLES = {
+    properties: { name: 'Properties', key: 'Account Number' },
+    owners: { name: 'Owners', key: 'Name' },
+    propertyOwners: { name: 'Property Owners', key: 'Key' },
+    ownershipHistory: { name: 'Ownership History', key: 'Key' },
+    valueHistory: { name: 'Value History', key: 'Key' },
+    exemptions: { name: 'Exemptions', key: 'Key' },
+    documents: { name: 'Property Documents', key: 'Instrument Number' },
+} as const;
+
+type TableConfig = typeof TABLES[keyof typeof TABLES];
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+function escapeFormulaString(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/** Drops null values, which Airtable's field types don't accept; an absent field is left unchanged. */
+function compact(fields: Record<string, string | number | boolean | readonly string[] | null | undefined>): Fields {
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value != null)) as Fields;
+}
+
+/**
+ * Writes properties, owners, history and documents to an Airtable base, with linked
+ * records between them. Rows are upserted on their key field (account number,
+ * owner name, instrument number, or a composite key for history rows). Like the
+ * Supabase target, rows missing from a later scrape are kept rather than deleted,
+ * except in Property Owners, which lists only the current owners.
+ */
+export function createAirtableOutput(): OutputTarget {
+    const apiKey = process.env.AIRTABLE_API_KEY;
+    const baseId = process.env.AIRTABLE_BASE_ID;
+    if (!apiKey || !baseId) {
+        throw new Error("AIRTABLE_API_KEY and AIRTABLE_BASE_ID are required in the .env file to use the Airtable output");
+    }
+    const base = new Airtable({ apiKey }).base(baseId);
+
+    /** Airtable allows five requests per second per base. */
+    const throttle = () => siteRateLimiter.wait('api.airtable.com');
+
+    async function findByField(table: TableConfig, field: string, values: string[]): Promise<Map<string, string[]>> {
+        const found = new Map<string, string[]>();
+        for (const batch of chunk([...new Set(values)], LOOKUP_BATCH_SIZE)) {
+            const formula = `OR(${batch.map(value => `{${field}}='${escapeFormulaString(value)}'`).join(',')})`;
+            await throttle();
+            const records = await base(table.name).select({ filterByFormula: formula, fields: [field] }).all();
+            for (const record of records) {
+                const value = String(record.get(field) ?? '');
+                found.set(value, [...(found.get(value) ?? []), record.id]);
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Creates or updates one record per key and returns the record id for every key.
+     */
+    async function upsert(table: TableConfig, rows: { key: string; fields: Fields }[]): Promise<Map<string, string>> {
+        const ids = new Map<string, string>();
+        if (rows.length === 0) return ids;
+        const existing = await findByField(table, table.key, rows.map(row => row.key));
+
+        const toUpdate = rows.filter(row => existing.has(row.key));
+        const toCreate = rows.filter(row => !existing.has(row.key));
+        for (const batch of chunk(toUpdate, BATCH_SIZE)) {
+            await throttle();
+            const updated = await base(table.name).update(batch.map(row => ({ id: existing.get(row.key)![0], fields: row.fields })), { typecast: true });
+            updated.forEach((record, index) => ids.set(batch[index].key, record.id));
+        }
+        for (const batch of chunk(toCreate, BATCH_SIZE)) {
+            await throttle();
+            const created = await base(table.name).create(batch.map(row => ({ fields: { [table.key]: row.key, ...row.fields } })), { typecast: true });
+            created.forEach((record, index) => ids.set(batch[index].key, record.id));
+        }
+        return ids;
+    }
+
+    /** Deletes the account's rows in `table` whose key isn't in `keep`. */
+    async function deleteOthers(table: TableConfig, accountNumber: string, keep: Set<string>) {
+        await throttle();
+        const records = await base(table.name)
+            .select({ filterByFormula: `{Account Number}='${escapeFormulaString(accountNumber)}'`, fields: [table.key] })
+            .all();
+        const stale = records.filter(record => !keep.has(String(record.get(table.key) ?? ''))).map(record => record.id);
+        for (const batch of chunk(stale, BATCH_SIZE)) {
+            await throttle();
+            await base(table.name).destroy(batch);
+        }
+    }
+
+    async function saveAssessment(scrapedData: AssessmentData, legal: LegalDescription) {
+        try {
+            const { property, owners, currentOwnership, valueHistory, exemptions, ownershipHistory } = buildAssessmentRecords(scrapedData, legal);
+            const accountNumber = property.account_number;
+            if (!accountNumber) return { error: { message: 'Cannot save to Airtable without an account number.' } };
+
+            const ownerIds = await upsert(TABLES.owners, owners.map(owner => ({
+                key: owner.name,
+                fields: compact({ 'Address': owner.address, 'Canonical Name': owner.canonicalKey, 'Entity Type': owner.entityType }),
+            })));
+
+            const propertyIds = await upsert(TABLES.properties, [{
+                key: accountNumber,
+                fields: compact({
+                    'Address': property.address,
+                    'Improvement Value': property.improvement_value,
+                    'Land Value': property.land_value,
+                    'Total Market Value': property.total_market_value,
+                    'Year Built': property.year_built,
+                    'Living Area': property.living_area,
+                    'CAD URL': property.cad_url,
+                    'Legal Description': property.legal_description,
+                    'Subdivision': property.subdivision,
+                    'Block': property.block,
+                    'City Block': property.city_block,
+                    'Lot 1': property.lot1,
+                    'Lot 2': property.lot2,
+                    'INT Number': property.int_number,
+                    'Deed Transfer Date': property.deed_xfer_date,
+                    'Owners': [...new Set(ownerIds.values())],
+                }),
+            }]);
+            const propertyLink = [propertyIds.get(accountNumber)!];
+
+            // Like Supabase's property_owners, this table holds the current owners only.
+            const shareRows = currentOwnership.map(rec => ({
+                key: `${accountNumber}:${normalizeOwnerName(rec.ownerName)}`,
+                fields: compact({ 'Account Number': accountNumber, 'Property': propertyLink, 'Owner': [ownerIds.get(rec.ownerName)!], 'Percentage': rec.percentage, 'Primary': rec.isPrimary }),
+            }));
+            await upsert(TABLES.propertyOwners, shareRows);
+            await deleteOthers(TABLES.propertyOwners, accountNumber, new Set(shareRows.map(row => row.key)));
+
+            await upsert(TABLES.valueHistory, valueHistory.map(rec => ({
+                key: `${accountNumber}:${rec.year}`,
+                fields: compact({ 'Account Number': accountNumber, 'Property': propertyLink, 'Year': rec.year, 'Total Market Value': rec.total_market_value }),
+            })));
+
+            await upsert(TABLES.exemptions, exemptions.map(rec => ({
+                key: `${accountNumber}:${rec.code}:${rec.start_year}`,
+                fields: compact({ 'Account Number': accountNumber, 'Property': propertyLink, 'Code': rec.code, 'Start Year': rec.start_year, 'End Year': rec.end_year }),
+            })));
+
+            await upsert(TABLES.ownershipHistory, ownershipHistory.map(rec => ({
+                key: `${accountNumber}:${normalizeOwnerName(rec.ownerName)}:${rec.start_year}`,
+                fields: compact({ 'Account Number': accountNumber, 'Property': propertyLink, 'Owner': [ownerIds.get(rec.ownerName)!], 'Start Year': rec.start_year, 'End Year': rec.end_year, 'INT Number': rec.int_number, 'Deed Transfer Date': rec.deed_xfer_date }),
+            })));
+
+            console.log("Successfully saved assessment and history data to Airtable.");
+            return { error: null };
+        } catch (error) {
+            return { error: { message: (error as Error).message } };
+        }
+    }
+
+    async function saveDocuments(accountNumber: string, documents: ClerkDocument[]) {
+        try {
+            const propertyIds = await findByField(TABLES.properties, TABLES.properties.key, [accountNumber]);
+            const propertyLink = propertyIds.get(accountNumber)?.slice(0, 1);
+            const records = buildDocumentRecords(documents).filter(rec => rec.instrument_number);
+            const detailsByInstrument = new Map(buildDocumentDetailRecords(documents).details.map(rec => [rec.instrument_number, rec]));
+            await upsert(TABLES.documents, records.map(rec => {
+                const details = detailsByInstrument.get(rec.instrument_number!);
+                return {
+                    key: rec.instrument_number!,
+                    fields: compact({
+                        'Account Number': accountNumber,
+                        'Property': propertyLink,
+                        'Document Type': rec.document_type,
+                        'Grantor': rec.grantor,
+                        'Grantee': rec.grantee,
+                        'Filing Date': rec.filing_date,
+                        'Book and Page': rec.book_and_page,
+                        'Summary': rec.summary,
+                        'Document URL': rec.document_url,
+                        'Document Class': rec.document_class,
+                        'Archive Key': rec.archive_key,
+                        'Page Count': rec.page_count,
+                        'Consideration': details?.consideration,
+                        'Lender': details?.lender,
+                        'Loan Amount': details?.loan_amount,
+                        'Maturity Date': details?.maturity_date,
+                        'Referenced Instruments': details?.referenced_instruments.join(', ') || null,
+                        'Parties': details?.details.parties.map(party => `${party.name} (${party.role})`).join('; ') || null,
+                    }),
+                };
+            }));
+            console.log("Successfully saved clerk documents to Airtable.");
+            return { error: null };
+        } catch (error) {
+            return { error: { message: (error as Error).message } };
+        }
+    }
+
+    return { name: 'airtable', saveAssessment, saveDocuments };
+}
@@ -0,0 +1,37 @@
+// src/outputs/index.ts
+
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import type { LegalDescription } from '../lib/legal-description.js';
+import { createAirtableOutput } from './airtable.js';
+import { createSupabaseOutput } from './supabase.js';
+import type { OutputName, OutputTarget } from './types.js';
+
+export type * from './types.js';
+
+const factories: Record<OutputName, () => OutputTarget> = {
+    supabase: createSupabaseOutput,
+    airtable: createAirtableOutput,
+};
+
+export { isOutputName, outputNames } from './types.js';
+
+export function createOutputTargets(names: OutputName[]): OutputTarget[] {
+    return names.map(name => factories[name]());
+}
+
+/**
+ * Saves to every target, even if an earlier one fails, and reports the failures together.
+ */
+export async function saveAssessmentToAll(targets: OutputTarget[], scrapedData: AssessmentData, legal: LegalDescription) {
+    return collectErrors(await Promise.all(targets.map(async target => ({ target, ...await target.saveAssessment(scrapedData, legal) }))));
+}
+
+export async function saveDocumentsToAll(targets: OutputTarget[], accountNumber: string, documents: ClerkDocument[]) {
+    return collectErrors(await Promise.all(targets.map(async target => ({ target, ...await target.saveDocuments(accountNumber, documents) }))));
+}
+
+function collectErrors(results: { target: OutputTarget; error: { message: string } | null }[]) {
+    const failures = results.filter(result => result.error);
+    if (failures.length === 0) return { error: null };
+    return { error: { message: failures.map(result => `${result.target.name}: ${result.error!.message}`).join('; ') } };
+}
@@ -0,0 +1,12 @@
+// src/outputs/supabase.ts
+
+import { saveClerkDataToSupabase, saveDataToSupabase } from '../db/save.js';
+import type { OutputTarget } from './types.js';
+
+export function createSupabaseOutput(): OutputTarget {
+    return {
+        name: 'supabase',
+        saveAssessment: saveDataToSupabase,
+        saveDocuments: saveClerkDataToSupabase,
+    };
+}
@@ -0,0 +1,22 @@
+// src/outputs/types.ts
+
+import type { AssessmentData, ClerkDocument } from '../counties/types.js';
+import type { LegalDescription } from '../lib/legal-description.js';
+
+/** Kept apart from the output factories, so validating `--output` doesn't load the clients. */
+export const outputNames = ['supabase', 'airtable'] as const;
+export type OutputName = typeof outputNames[number];
+
+export function isOutputName(value: string): value is OutputName {
+    return (outputNames as readonly string[]).includes(value);
+}
+
+/**
+ * A destination for scraped data. Every target stores the same rows that
+ * `buildAssessmentRecords` and `buildDocumentRecords` produce.
+ */
+export interface OutputTarget {
+    name: OutputName;
+    saveAssessment(scrapedData: AssessmentData, legal: LegalDescription): Promise<{ error: { message: string } | null }>;
+    saveDocuments(accountNumber: string, documents: ClerkDocument[]): Promise<{ error: { message: string } | null }>;
+}
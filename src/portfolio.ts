@@ -0,0 +1,39 @@
+// src/portfolio.ts
+
+import { findOwnerEntity, loadOwnerPortfolio } from './db/owners.js';
+
+/**
+ * Prints every property an owner holds or has held, under any alias.
+ * Usage: npm run portfolio -- "SMITH JOHN"
+ */
+async function main() {
+    const name = process.argv.slice(2).join(' ').trim();
+    if (!name) {
+        console.error('Usage: npm run portfolio -- "<owner name>"');
+        process.exitCode = 1;
+        return;
+    }
+
+    const entity = await findOwnerEntity(name);
+    if (!entity) {
+        console.log(`No stored owner matches "${name}".`);
+        return;
+    }
+
+    const { aliases, properties } = await loadOwnerPortfolio(entity);
+    console.log(`${entity.display_name} (${entity.entity_type})`);
+    console.log(`Aliases: ${aliases.join('; ')}`);
+    console.log(`${properties.length} properties:`);
+    for (const property of properties) {
+        const years = property.years.map(range => range.start_year === range.end_year ? `${range.start_year}` : `${range.start_year}-${range.end_year}`).join(', ');
+        const share = property.current
+            ? ` current${property.percentage != null ? ` ${property.percentage}%` : ''}${property.is_primary ? ' primary' : ''}`
+            : '';
+        console.log(`  ${property.account_number}  ${property.address ?? ''}  [${years || 'no history'}]${share}  as ${property.held_as.join('; ')}`);
+    }
+}
+
+main().catch((error) => {
+    console.error('Portfolio lookup failed:', (error as Error).message);
+    process.exitCode = 1;
+});
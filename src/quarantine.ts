@@ -0,0 +1,137 @@
+// src/quarantine.ts
+
+import { parseArgs } from 'node:util';
+import { findQuarantined, listQuarantined, markReviewed, type QuarantinedRecord, type QuarantineStatus } from './db/quarantine.js';
+import { refreshTitleReport } from './db/title.js';
+import { findRun } from './jobs/run-store.js';
+import { parseLegalDescription } from './lib/legal-description.js';
+import { describeIssues } from './lib/validation.js';
+import { createOutputTargets, isOutputName, outputNames, saveAssessmentToAll, saveDocumentsToAll, type OutputName } from './outputs/index.js';
+
+const usage = `Usage: npm run quarantine -- <command> [options]
+
+Commands:
+  list                  List records awaiting review
+  show <id>             Print a record's reasons and scraped payload
+  release <id>...       Save records as they were scraped, skipping validation
+  discard <id>...       Drop records without saving them
+
+Options:
+  --status <pending|released|discarded|all>  Which records list shows (default: pending)
+  --account <number>                         Only list records of this account
+  --output <${outputNames.join(',')}>           Where release saves (default: the outputs of the record's run)
+  --note <text>                              Why a record was released or discarded
+  -h, --help                                 Show this help`;
+
+const STATUSES = ['pending', 'released', 'discarded', 'all'] as const;
+
+function describe(record: QuarantinedRecord): string {
+    const subject = record.kind === 'document' ? `document ${record.instrument_number ?? '(no number)'}` : 'assessment';
+    return `#${record.id}  ${record.created_at.slice(0, 10)}  ${record.status.padEnd(9)}  ${record.county ?? '?'}  ${record.property_account_number ?? '(no account)'}  ${subject}`;
+}
+
+/** The outputs the record's run saved to, unless --output names others. */
+async function releaseOutputs(record: QuarantinedRecord, requested: OutputName[] | null): Promise<OutputName[]> {
+    if (requested) return requested;
+    const run = record.run_id === null ? null : await findRun(record.run_id);
+    return run?.run.options.outputs ?? ['supabase'];
+}
+
+/** Saves the payload through the same outputs as the pipeline's save and summary stages. */
+async function release(record: QuarantinedRecord, outputs: OutputName[]) {
+    const targets = createOutputTargets(outputs);
+    if (record.kind === 'assessment') {
+        const { error } = await saveAssessmentToAll(targets, record.payload, parseLegalDescription(record.payload.legalDescription));
+        if (error) throw new Error(error.message);
+        return;
+    }
+    if (!record.property_account_number) throw new Error('the document has no account to be saved under');
+    const { error } = await saveDocumentsToAll(targets, record.property_account_number, [record.payload]);
+    if (error) throw new Error(error.message);
+    if (outputs.includes('supabase')) await refreshTitleReport(record.property_account_number);
+}
+
+/**
+ * Reviews the scraped records validation held back: lists and shows them, then
+ * releases them to be saved or discards them.
+ */
+async function main() {
+    let values: { status?: string; account?: string; output?: string; note?: string; help?: boolean };
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args: process.argv.slice(2),
+            allowPositionals: true,
+            options: {
+                status: { type: 'string', default: 'pending' },
+                account: { type: 'string' },
+                output: { type: 'string' },
+                note: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }));
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${usage}`);
+        process.exitCode = 1;
+        return;
+    }
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+        console.log(usage);
+        return;
+    }
+
+    if (command === 'list') {
+        const status = values.status as typeof STATUSES[number];
+        if (!STATUSES.includes(status)) throw new Error(`Unknown status '${values.status}'. Expected one of: ${STATUSES.join(', ')}.`);
+        const records = await listQuarantined({ status: status === 'all' ? undefined : status as QuarantineStatus, accountNumber: values.account });
+        for (const record of records) console.log(`${describe(record)}\n    ${describeIssues(record.reasons)}`);
+        console.log(`${records.length} ${status === 'all' ? '' : `${status} `}records.`);
+        return;
+    }
+
+    const ids = args.map(Number);
+    if (ids.length === 0 || ids.some(id => !Number.isInteger(id) || id <= 0)) throw new Error(`Give the ids of the records to ${command}.\n\n${usage}`);
+
+    if (command === 'show') {
+        for (const id of ids) {
+            const record = await findQuarantined(id);
+            if (!record) throw new Error(`Quarantined record ${id} does not exist.`);
+            console.log(describe(record));
+            for (const reason of record.reasons) console.log(`  ${reason.field}: ${reason.message}`);
+            if (record.review_note) console.log(`  Review note: ${record.review_note}`);
+            console.log(JSON.stringify(record.payload, null, 2));
+        }
+        return;
+    }
+
+    if (command !== 'release' && command !== 'discard') throw new Error(`Unknown command '${command}'.\n\n${usage}`);
+    let requested: OutputName[] | null = null;
+    if (values.output !== undefined) {
+        const names = values.output.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+        const unknown = names.find(name => !isOutputName(name));
+        if (unknown !== undefined || names.length === 0) throw new Error(`Unknown output '${unknown ?? values.output}'. Expected one or more of: ${outputNames.join(', ')}.`);
+        requested = [...new Set(names)] as OutputName[];
+    }
+
+    const failed: number[] = [];
+    for (const id of ids) {
+        try {
+            const record = await findQuarantined(id);
+            if (!record) throw new Error('it does not exist');
+            if (record.status !== 'pending') throw new Error(`it was already ${record.status}`);
+            if (command === 'release') await release(record, await releaseOutputs(record, requested));
+            await markReviewed(id, command === 'release' ? 'released' : 'discarded', values.note ?? null);
+            console.log(`${command === 'release' ? 'Released' : 'Discarded'} record ${id} (${record.property_account_number ?? 'no account'}, ${record.kind}).`);
+        } catch (error) {
+            console.error(`Could not ${command} record ${id}: ${(error as Error).message}`);
+            failed.push(id);
+        }
+    }
+    if (failed.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+    console.error('Quarantine review failed:', (error as Error).message);
+    process.exitCode = 1;
+});
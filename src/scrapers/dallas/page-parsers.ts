@@ -0,0 +1,288 @@
+// src/scrapers/dallas/page-parsers.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+
+/*
+ * DCAD's detail and history pages are server-rendered ASP.NET tables, so they can
+ * be read straight from the DOM. The parsers below work on a plain snapshot of the
+ * page (its rendered text and data tables) and fill the same zod schemas the
+ * `page.extract` fallback uses. When a page doesn't look the way the parser
+ * expects, it returns an error instead of guessing, and the caller falls back to
+ * the LLM.
+ */
+
+export const detailPageSchema = z.object({
+    address: z.string().optional(),
+    accountNumber: z.string().optional(),
+    legalDescription: z.string().optional().describe("The full, multi-line text from the 'Legal Desc (Current)' section"),
+    int_number: z.string().optional().describe("The line starting with 'INT' from the 'Legal Desc (Current)' section"),
+    deed_xfer_date: z.string().optional().describe("The date from the 'Deed Transfer Date' line"),
+    propertyValue: z.object({
+        improvementValue: z.string().optional(),
+        landValue: z.string().optional(),
+        totalMarketValue: z.string().optional(),
+    }).optional(),
+    propertyDetails: z.object({
+        yearBuilt: z.string().optional(),
+        livingArea: z.string().optional(),
+    }).optional(),
+    currentOwners: z.array(z.object({
+        name: z.string(),
+        address: z.string().optional(),
+        percentage: z.string().optional(),
+        isPrimary: z.boolean().optional().describe("Set to true only for the owner listed under the main 'Owner' heading"),
+    })).optional(),
+});
+
+export const ownershipHistorySchema = z.object({
+    ownershipHistory: z.array(z.object({
+        year: z.string().optional(),
+        ownerNameAndAddress: z.string().optional().describe("The full text block containing the owner's name and address"),
+        int_number: z.string().optional().describe("The line starting with 'INT' from the 'Legal Description' column"),
+        deed_xfer_date: z.string().optional().describe("The date from the 'Deed Transfer Date' line in the 'Legal Description' column"),
+    })).optional(),
+});
+
+export const marketValueHistorySchema = z.object({
+    marketValueHistory: z.array(z.object({
+        year: z.string().optional(),
+        totalMarketValue: z.string().optional(),
+    })).optional(),
+});
+
+export const exemptionsHistorySchema = z.object({
+    exemptions: z.array(z.object({
+        year: z.string().optional(),
+        code: z.string().optional(),
+    })).optional(),
+});
+
+export const historyPageSchema = ownershipHistorySchema.merge(marketValueHistorySchema).merge(exemptionsHistorySchema);
+
+export type DetailPageData = z.infer<typeof detailPageSchema>;
+export type HistoryPageData = z.infer<typeof historyPageSchema>;
+
+/** What the parsers see of a page: its URL, rendered text and every data table. */
+export interface PageContent {
+    url: string;
+    /** `document.body.innerText`: one line per block, table cells separated by tabs. */
+    text: string;
+    /** Tables without nested tables (DCAD lays out the page with tables too), as rows of cell texts. */
+    tables: string[][][];
+}
+
+type ParseResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Reads the parts of the current page the parsers need. Only layout-free tables
+ * are kept, so a data table isn't read again as part of the table around it.
+ */
+export async function readPageContent(page: Page): Promise<PageContent> {
+    const { text, tables } = await page.evaluate(() => ({
+        text: document.body.innerText,
+        tables: Array.from(document.querySelectorAll('table'))
+            .filter(table => !table.querySelector('table'))
+            .map(table => Array.from(table.rows).map(row => Array.from(row.cells).map(cell => (cell as HTMLElement).innerText.trim()))),
+    }));
+    return { url: page.url(), text, tables };
+}
+
+const SECTION_HEADING = /^[A-Za-z][A-Za-z /-]*\((?:Current|History)?\s*\d{4}\)\s*$|^[A-Za-z][A-Za-z /-]*\(Current\)\s*$/;
+
+function lines(text: string): string[] {
+    return text.split('\n').map(line => line.replace(/\s+$/, '')).filter(line => line.trim());
+}
+
+/** The lines after the heading that starts with `heading`, up to the next section heading. */
+function section(allLines: string[], heading: RegExp): string[] | null {
+    const start = allLines.findIndex(line => heading.test(line.trim()));
+    if (start === -1) return null;
+    const body: string[] = [];
+    for (const line of allLines.slice(start + 1)) {
+        if (SECTION_HEADING.test(line.trim())) break;
+        body.push(line.trim());
+    }
+    return body;
+}
+
+/** The value after `label` on the first line that has it, e.g. "Land:\t+ $100,000". */
+function labelled(allLines: string[], label: RegExp): string | undefined {
+    for (const line of allLines) {
+        const match = line.match(label);
+        if (match?.[1]?.trim()) return match[1].trim();
+    }
+    return undefined;
+}
+
+/** Finds the first table whose header row has a cell matching each of `columns`. */
+function findTable(tables: string[][][], columns: RegExp[]): { header: string[]; rows: string[][]; index: (column: RegExp) => number } | null {
+    for (const table of tables) {
+        const headerIndex = table.findIndex(row => columns.every(column => row.some(cell => column.test(cell))));
+        if (headerIndex === -1) continue;
+        const header = table[headerIndex];
+        return {
+            header,
+            rows: table.slice(headerIndex + 1).filter(row => row.some(cell => cell)),
+            index: column => header.findIndex(cell => column.test(cell)),
+        };
+    }
+    return null;
+}
+
+const money = (value: string | undefined) => value?.match(/\$?\s*[\d,]+(?:\.\d+)?/)?.[0].replace(/\s/g, '');
+
+/**
+ * Parses DCAD's account detail page (AcctDetailRes.aspx). The account number comes
+ * from the page URL; the rest comes from the labelled sections. Fails when the
+ * owner, legal description or value sections can't be found.
+ */
+export function parseDetailPage(content: PageContent): ParseResult<DetailPageData> {
+    const allLines = lines(content.text);
+    const accountNumber = new URL(content.url).searchParams.get('ID') ?? undefined;
+    if (!accountNumber) return { success: false, error: 'No account ID in the page URL.' };
+
+    const owner = section(allLines, /^Owner \(Current/i);
+    if (!owner || owner.length === 0) return { success: false, error: "No 'Owner (Current)' section." };
+    const legal = section(allLines, /^Legal Desc \(Current/i);
+    if (!legal || legal.length === 0) return { success: false, error: "No 'Legal Desc (Current)' section." };
+
+    const totalMarketValue = money(labelled(allLines, /^\s*Market Value:\s*=?\s*(.+)$/i));
+    if (!totalMarketValue) return { success: false, error: 'No market value.' };
+
+    // Legal description lines are numbered ("1: LAKE HIGHLANDS ...") and end with the deed transfer date.
+    const transferIndex = legal.findIndex(line => /^Deed Transfer Date/i.test(line));
+    const legalLines = (transferIndex === -1 ? legal : legal.slice(0, transferIndex))
+        .map(line => line.replace(/^\d+:\s*/, ''))
+        .filter(line => line);
+    const deedTransfer = transferIndex === -1 ? undefined : legal[transferIndex];
+
+    const [primaryName, ...primaryAddress] = owner;
+    const currentOwners: NonNullable<DetailPageData['currentOwners']> = [];
+    const multiOwner = findTable(content.tables, [/Owner Name/i, /Ownership\s*%/i]);
+    if (multiOwner && multiOwner.rows.length > 0) {
+        const nameColumn = multiOwner.index(/Owner Name/i);
+        const percentColumn = multiOwner.index(/Ownership\s*%/i);
+        for (const row of multiOwner.rows) {
+            const name = row[nameColumn]?.trim();
+            if (!name) continue;
+            const isPrimary = name.toUpperCase() === primaryName.toUpperCase();
+            currentOwners.push({ name, address: isPrimary ? primaryAddress.join('\n') : undefined, percentage: row[percentColumn]?.trim() || undefined, isPrimary });
+        }
+    }
+    if (!currentOwners.some(owner => owner.isPrimary)) {
+        currentOwners.unshift({ name: primaryName, address: primaryAddress.join('\n') || undefined, isPrimary: true });
+    }
+
+    return validate(detailPageSchema, {
+        address: labelled(allLines, /^\s*Address:\s*(.+)$/i),
+        accountNumber,
+        legalDescription: legalLines.join('\n'),
+        int_number: legalLines.find(line => /^INT/i.test(line)),
+        deed_xfer_date: deedTransfer?.replace(/^\s*Deed Transfer Date:?\s*/i, '').trim() || undefined,
+        propertyValue: {
+            improvementValue: money(labelled(allLines, /^\s*Improvement:\s*(.+)$/i)),
+            landValue: money(labelled(allLines, /^\s*Land:\s*\+?\s*(.+)$/i)),
+            totalMarketValue,
+        },
+        propertyDetails: {
+            yearBuilt: labelled(allLines, /\bYear Built:?\s*(\d{4})/i),
+            livingArea: labelled(allLines, /\b(?:Total )?Living Area:?\s*([\d,]+(?:\s*sq\.?\s*ft\.?)?)/i),
+        },
+        currentOwners,
+    });
+}
+
+/**
+ * Parses DCAD's history page (AcctHistory.aspx). The ownership and market value
+ * tables are required; the exemptions table is optional, since accounts without
+ * exemptions don't have one.
+ */
+export function parseHistoryPage(content: PageContent): ParseResult<HistoryPageData> {
+    const ownership = findTable(content.tables, [/^Year$/i, /Owner/i, /Legal Desc/i]);
+    if (!ownership) return { success: false, error: 'No ownership history table.' };
+    const values = findTable(content.tables, [/^Year$/i, /Total Market|Market Value/i]);
+    if (!values) return { success: false, error: 'No market value history table.' };
+    const exemptions = findTable(content.tables, [/^Year$/i, /Exempt|Code/i]);
+
+    const yearOf = (cell: string | undefined) => cell?.match(/\b\d{4}\b/)?.[0];
+    const ownershipYear = ownership.index(/^Year$/i);
+    const ownerColumn = ownership.index(/Owner/i);
+    const legalColumn = ownership.index(/Legal Desc/i);
+    const ownershipHistory = ownership.rows.flatMap(row => {
+        const year = yearOf(row[ownershipYear]);
+        if (!year) return [];
+        const legalLines = lines(row[legalColumn] ?? '').map(line => line.trim().replace(/^\d+:\s*/, ''));
+        const deedTransfer = legalLines.find(line => /^Deed Transfer Date/i.test(line));
+        return [{
+            year,
+            ownerNameAndAddress: row[ownerColumn]?.trim() || undefined,
+            int_number: legalLines.find(line => /^INT/i.test(line)),
+            deed_xfer_date: deedTransfer?.replace(/^Deed Transfer Date:?\s*/i, '').trim() || undefined,
+        }];
+    });
+    if (ownership.rows.length > 0 && ownershipHistory.length === 0) return { success: false, error: 'Unrecognized ownership history rows.' };
+
+    const valueYear = values.index(/^Year$/i);
+    const valueColumn = values.index(/Total Market|Market Value/i);
+    const marketValueHistory = values.rows.flatMap(row => {
+        const year = yearOf(row[valueYear]);
+        const totalMarketValue = money(row[valueColumn]);
+        return year && totalMarketValue ? [{ year, totalMarketValue }] : [];
+    });
+    if (values.rows.length > 0 && marketValueHistory.length === 0) return { success: false, error: 'Unrecognized market value history rows.' };
+
+    let exemptionRows: NonNullable<HistoryPageData['exemptions']> = [];
+    if (exemptions) {
+        const exemptionYear = exemptions.index(/^Year$/i);
+        const codeColumn = exemptions.index(/Exempt|Code/i);
+        // A year with several exemptions lists their codes in one cell.
+        exemptionRows = exemptions.rows.flatMap(row => {
+            const year = yearOf(row[exemptionYear]);
+            if (!year) return [];
+            return (row[codeColumn] ?? '').split(/[\n,]/).map(code => code.trim()).filter(code => code).map(code => ({ year, code }));
+        });
+    }
+
+    return validate(historyPageSchema, { ownershipHistory, marketValueHistory, exemptions: exemptionRows });
+}
+
+/**
+ * One row of DCAD's address search results. `occurrence` counts the earlier rows
+ * with the same address, which tells their identical links apart.
+ */
+export interface AddressResultRow {
+    address: string;
+    city: string;
+    owner: string;
+    occurrence: number;
+}
+
+/** Parses the results table of DCAD's address search (SearchAddr.aspx). An empty table is no results, not a failure. */
+export function parseAddressResults(content: PageContent): ParseResult<AddressResultRow[]> {
+    const results = findTable(content.tables, [/Address/i, /City/i]);
+    if (!results) {
+        return /no (records|results|matches)/i.test(content.text)
+            ? { success: true, data: [] }
+            : { success: false, error: 'No address search results table.' };
+    }
+    const addressColumn = results.index(/Address/i);
+    const cityColumn = results.index(/City/i);
+    const ownerColumn = results.index(/Owner/i);
+    const seen = new Map<string, number>();
+    const rows = results.rows.flatMap(row => {
+        const address = row[addressColumn]?.replace(/\s+/g, ' ').trim();
+        if (!address || !/^\d/.test(address)) return [];
+        const occurrence = seen.get(address) ?? 0;
+        seen.set(address, occurrence + 1);
+        return [{ address, city: row[cityColumn]?.trim() ?? '', owner: ownerColumn === -1 ? '' : row[ownerColumn]?.trim() ?? '', occurrence }];
+    });
+    return { success: true, data: rows };
+}
+
+function validate<T>(schema: z.ZodType<T>, value: unknown): ParseResult<T> {
+    const parsed = schema.safeParse(value);
+    return parsed.success
+        ? { success: true, data: parsed.data }
+        : { success: false, error: `Parsed data failed validation: ${parsed.error.issues.map(issue => issue.path.join('.')).join(', ')}` };
+}
@@ -0,0 +1,96 @@
+// src/scrapers/harris/assessment-scraper.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import type { AddressTarget, AssessmentData } from '../../counties/types.js';
+import { siteRateLimiter } from '../../lib/rate-limiter.js';
+import { matchAddressResult } from '../shared/address-results.js';
+
+/**
+ * Searches HCAD by street address and opens the result matching the target; see
+ * `matchAddressResult`.
+ * @throws {AddressMatchError} when no result matches, or several match equally well.
+ */
+export async function searchByAddress(page: Page, target: AddressTarget): Promise<void> {
+    // HCAD's search is a client-rendered app without stable ids, so each step is AI-driven.
+    await siteRateLimiter.wait('https://search.hcad.org');
+    await page.goto('https://search.hcad.org/', { waitUntil: 'domcontentloaded' });
+    await page.act(`choose the "Address" search option`);
+    await page.act(`type '${target.addressNumber} ${target.streetName}' into the property address search box`);
+    await page.act('click the Search button');
+    const accountNumber = await matchAddressResult(page, target, 'HCAD');
+    await page.act(`click the account number link '${accountNumber}' in the results`);
+}
+
+export async function searchByAccount(page: Page, accountNumber: string): Promise<void> {
+    await siteRateLimiter.wait('https://search.hcad.org');
+    await page.goto('https://search.hcad.org/', { waitUntil: 'domcontentloaded' });
+    await page.act(`choose the "Account" search option`);
+    await page.act(`type '${accountNumber}' into the account number search box`);
+    await page.act('click the Search button');
+    await page.act(`click the account number link '${accountNumber}' in the results`);
+}
+
+export async function extractAssessment(page: Page): Promise<AssessmentData> {
+    const propertyUrl = page.url();
+
+    const mainPageData = await page.extract({
+        instruction: 'From the HCAD property details page, extract the property address, the 13-digit account number, the appraised values, the building details, and a list of ALL current owners with their mailing address and ownership percentage. Also extract the full legal description text and the deed/instrument information (clerk file number and deed date) from the "Deeds" section for the most recent deed.',
+        schema: z.object({
+            address: z.string().optional(),
+            accountNumber: z.string().optional(),
+            legalDescription: z.string().optional().describe("The full text from the 'Legal Description' field"),
+            int_number: z.string().optional().describe("The clerk file number of the most recent deed"),
+            deed_xfer_date: z.string().optional().describe("The date of the most recent deed"),
+            propertyValue: z.object({
+                improvementValue: z.string().optional(),
+                landValue: z.string().optional(),
+                totalMarketValue: z.string().optional(),
+            }).optional(),
+            propertyDetails: z.object({
+                yearBuilt: z.string().optional(),
+                livingArea: z.string().optional().describe("The building's living or heated area in square feet"),
+            }).optional(),
+            currentOwners: z.array(z.object({
+                name: z.string(),
+                address: z.string().optional(),
+                percentage: z.string().optional(),
+                isPrimary: z.boolean().optional().describe("Set to true only for the first owner listed"),
+            })).optional(),
+        }),
+    });
+
+    await page.act('open the value history / prior year values section for this account');
+
+    const ownershipData = await page.extract({
+        instruction: 'From the ownership or deed history, extract one row per year. For each row, get the tax year, the owner name followed by the owner mailing address on new lines, the clerk file number of the deed, and the deed date.',
+        schema: z.object({
+            ownershipHistory: z.array(z.object({
+                year: z.string().optional(),
+                ownerNameAndAddress: z.string().optional().describe("The owner's name on the first line, followed by the address"),
+                int_number: z.string().optional().describe("The clerk file number of the deed"),
+                deed_xfer_date: z.string().optional().describe("The deed date"),
+            })).optional(),
+        }),
+    });
+    const marketValueData = await page.extract({
+        instruction: 'From the value history, extract the total market value for each tax year.',
+        schema: z.object({
+            marketValueHistory: z.array(z.object({
+                year: z.string().optional(),
+                totalMarketValue: z.string().optional(),
+            })).optional(),
+        }),
+    });
+    const exemptionsData = await page.extract({
+        instruction: 'Extract the exemptions that applied to this account for each tax year, with the year and exemption code (e.g. RES, OVR, DIS).',
+        schema: z.object({
+            exemptions: z.array(z.object({
+                year: z.string().optional(),
+                code: z.string().optional(),
+            })).optional(),
+        }),
+    });
+
+    return { ...mainPageData, ...ownershipData, ...marketValueData, ...exemptionsData, cad_url: propertyUrl };
+}
@@ -0,0 +1,121 @@
+// src/scrapers/harris/clerk-scraper.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import type { CapturedDocument, ClerkCrawl, ClerkQuery, ClerkSearchResult } from '../../counties/types.js';
+import { CLERK_SEARCH_START, documentsToCapture, formatSearchDate } from '../../lib/clerk-crawl.js';
+import { clerkQueryFor, describeClerkQuery, matchesClerkQuery } from '../../lib/clerk-query.js';
+import { siteRateLimiter } from '../../lib/rate-limiter.js';
+import type { LegalDescription } from '../../lib/legal-description.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const CLERK_SEARCH_URL = 'https://www.cclerk.hctx.net/Applications/WebSearch/RP.aspx';
+
+export function buildClerkQuery(legal: LegalDescription): ClerkQuery | null {
+    return clerkQueryFor(legal);
+}
+
+/** Fills the search form fields that apply to the query. */
+async function fillSearchForm(page: Page, query: ClerkQuery) {
+    switch (query.kind) {
+        case 'platted': {
+            await page.act(`type '${query.subdivision}' into the Subdivision field`);
+            // The form takes one lot and block; several parcels are filtered after the search.
+            const [parcel] = query.parcels;
+            if (query.parcels.length === 1 && parcel.lots.length === 1) await page.act(`type '${parcel.lots[0]}' into the Lot field`);
+            if (query.parcels.length === 1 && parcel.block) await page.act(`type '${parcel.block}' into the Block field`);
+            break;
+        }
+        case 'tract':
+            await page.act(`type '${query.abstract}' into the Abstract field`);
+            if (query.tract) await page.act(`type '${query.tract}' into the Tract field`);
+            break;
+        case 'condo':
+            await page.act(`type '${query.condominium}' into the Subdivision field`);
+            break;
+    }
+}
+
+/**
+ * Searches the Harris County Clerk real property records by legal description and
+ * captures the page images of every matching document the crawl doesn't skip.
+ */
+export async function fetchDocuments(page: Page, targetLegal: ClerkQuery, crawl?: ClerkCrawl): Promise<CapturedDocument[]> {
+    const startDate = formatSearchDate(crawl?.since ?? CLERK_SEARCH_START, 'us');
+    const endDate = formatSearchDate(new Date(), 'us');
+
+    await siteRateLimiter.wait(CLERK_SEARCH_URL);
+    await page.goto(CLERK_SEARCH_URL, { waitUntil: 'domcontentloaded' });
+    await fillSearchForm(page, targetLegal);
+    await page.act(`type '${startDate}' into the Date From field`);
+    await page.act(`type '${endDate}' into the Date To field`);
+    await siteRateLimiter.wait(CLERK_SEARCH_URL);
+    await page.act('click the Search button');
+    await page.waitForSelector('table tbody tr', { timeout: 15000 });
+
+    const { documents } = await page.extract({
+        instruction: "From the search results table, extract an array of all documents shown. The 'File Number' column is the instrument number, 'Vol/Page' is the book and page, and the names column lists the grantor and grantee.",
+        schema: z.object({
+            documents: z.array(z.object({
+                document_type: z.string().optional(),
+                grantor: z.string().optional(),
+                grantee: z.string().optional(),
+                filing_date: z.string().optional(),
+                instrument_number: z.string().optional(),
+                book_and_page: z.string().optional(),
+                legal_description: z.string().optional(),
+            }))
+        })
+    });
+
+    const filteredDocuments = documents.filter((doc: ClerkSearchResult) => matchesClerkQuery(targetLegal, doc.legal_description));
+
+    const newDocuments = documentsToCapture(filteredDocuments, crawl);
+
+    console.log(`Found ${documents.length} total documents, filtered down to ${filteredDocuments.length} relevant documents for ${describeClerkQuery(targetLegal)}${newDocuments.length < filteredDocuments.length ? `, ${newDocuments.length} not processed before` : ''}.`);
+    if (newDocuments.length === 0) return [];
+
+    const capturedDocs: CapturedDocument[] = [];
+    for (const [index, doc] of newDocuments.entries()) {
+        let documentUrl: string | null = null;
+        let captureError: string | undefined;
+        const images: string[] = [];
+        try {
+            console.log(`Processing document ${index + 1}/${newDocuments.length}: ${doc.instrument_number}`);
+            await siteRateLimiter.wait(CLERK_SEARCH_URL);
+            await page.act(`click the film code image link in the row for file number '${doc.instrument_number}'`);
+
+            const imageSelector = 'img#ImageViewer, canvas, embed';
+            await page.waitForSelector(imageSelector, { timeout: 30000 });
+            documentUrl = page.url();
+
+            const { pageCount } = await page.extract({
+                instruction: "Find the page count of the open document (e.g., 'Page 1 of 6') and return only the total number of pages as an integer.",
+                schema: z.object({
+                    pageCount: z.number().default(1)
+                })
+            });
+
+            for (let i = 1; i <= pageCount; i++) {
+                const imgBuffer = await page.locator(imageSelector).first().screenshot({ type: 'jpeg', quality: 85 });
+                images.push(imgBuffer.toString('base64'));
+
+                if (i < pageCount) {
+                    await page.act('click the next page button in the document viewer');
+                    await sleep(1000);
+                }
+            }
+        } catch (e) {
+            captureError = (e as Error).message;
+            console.error(`Failed to capture images for ${doc.instrument_number}:`, captureError);
+        } finally {
+            capturedDocs.push({ ...doc, documentUrl, images, captureError });
+            if (index < newDocuments.length - 1) {
+                await siteRateLimiter.wait(CLERK_SEARCH_URL);
+                await page.goBack({ waitUntil: 'domcontentloaded' });
+            }
+        }
+    }
+    return capturedDocs;
+}
@@ -0,0 +1,39 @@
+// src/scrapers/shared/address-results.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import type { AddressTarget } from '../../counties/types.js';
+import { normalizeAddress, normalizeAddressTarget } from '../../lib/address.js';
+import { requireAddressMatch } from '../../lib/address-match.js';
+
+const addressResultsSchema = z.object({
+    results: z.array(z.object({
+        accountNumber: z.string(),
+        address: z.string().describe('The property (situs) address, not the owner mailing address'),
+        city: z.string().optional(),
+        zip: z.string().optional(),
+    })),
+});
+
+/**
+ * Reads the rows of an address search that has no parseable result table and
+ * picks the one matching the target, scored like DCAD's rows (see
+ * `requireAddressMatch`), so a unit, city or ZIP on the target decides between
+ * them instead of the first row that starts with the street. Returns the row's
+ * account number.
+ * @throws {AddressMatchError} when no row matches, or several match equally well.
+ */
+export async function matchAddressResult(page: Page, target: AddressTarget, site: string): Promise<string> {
+    const { results } = await page.extract({
+        instruction: `From the ${site} search results, extract every result row with its account number, property address, city and ZIP code.`,
+        schema: addressResultsSchema,
+    });
+    const match = requireAddressMatch(normalizeAddressTarget(target), results.map(row => {
+        const address = normalizeAddress(row.address);
+        return {
+            address: { ...address, city: row.city?.toUpperCase() || address.city, zip: row.zip?.slice(0, 5) || address.zip },
+            ref: row.accountNumber.trim(),
+        };
+    }));
+    return match.ref;
+}
@@ -0,0 +1,145 @@
+// src/scrapers/shared/publicsearch.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import type { CapturedDocument, ClerkCrawl, ClerkQuery, ClerkSearchResult } from '../../counties/types.js';
+import { CLERK_SEARCH_START, documentsToCapture, formatSearchDate } from '../../lib/clerk-crawl.js';
+import { describeClerkQuery, matchesClerkQuery } from '../../lib/clerk-query.js';
+import { runStep, type NavigationStep } from '../../lib/navigation-steps.js';
+import { siteRateLimiter } from '../../lib/rate-limiter.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** The publicsearch.us steps that have a known selector, named for the selector cache and the drift report. */
+export const publicSearchSteps = {
+    resultRow: (row: number, instrumentNumber: string | undefined): NavigationStep => ({
+        name: 'publicsearch.results.row',
+        description: `click the search result row for instrument '${instrumentNumber}'`,
+        method: 'click',
+        selector: `table tbody tr:nth-child(${row})`,
+        cache: false,
+    }),
+    nextPage: (): NavigationStep => ({
+        name: 'publicsearch.viewer.next-page',
+        description: 'click the Go To Next Page button in the document viewer',
+        method: 'click',
+        selector: 'button:has(img[alt="Go To Next Page"])',
+    }),
+};
+
+/**
+ * The search filters publicsearch.us accepts for a query. Lot and block are only
+ * sent for a single lot; wider parcels are searched by name and filtered locally.
+ */
+function searchFilters(query: ClerkQuery): Record<string, string> {
+    switch (query.kind) {
+        case 'platted': {
+            const [parcel] = query.parcels;
+            const single = query.parcels.length === 1;
+            return {
+                legalDescription: query.subdivision,
+                lot: single && parcel.lots.length === 1 ? parcel.lots[0] : '',
+                block: single ? parcel.block ?? '' : '',
+                block2: single ? parcel.city_block ?? '' : '',
+            };
+        }
+        case 'tract':
+            return { legalDescription: query.survey ?? `ABST ${query.abstract}` };
+        case 'condo':
+            return { legalDescription: query.condominium };
+    }
+}
+
+/**
+ * Searches a county clerk hosted on publicsearch.us (Dallas and Tarrant both use it)
+ * by legal description, keeps only the documents whose legal description names the
+ * target parcel, and captures the page images of each of them.
+ * @param page The Stagehand page to drive.
+ * @param host The county's publicsearch host, e.g. 'dallas.tx.publicsearch.us'.
+ * @param targetLegal The parcel to search for.
+ * @param crawl Narrows the recorded date range and skips instruments already processed.
+ */
+export async function fetchPublicSearchDocuments(page: Page, host: string, targetLegal: ClerkQuery, crawl?: ClerkCrawl): Promise<CapturedDocument[]> {
+    const startDate = formatSearchDate(crawl?.since ?? CLERK_SEARCH_START, 'compact');
+    const endDate = formatSearchDate(new Date(), 'compact');
+    const params = new URLSearchParams({
+        department: 'RP',
+        searchType: 'advancedSearch',
+        recordedDateRange: `${startDate},${endDate}`,
+        ...searchFilters(targetLegal),
+    });
+    const searchUrl = `https://${host}/results?${params}`;
+
+    await siteRateLimiter.wait(host);
+    await page.goto(searchUrl, { waitUntil: 'domcontentloaded' });
+    await page.waitForSelector('table tbody tr', { timeout: 15000 });
+
+    const { documents } = await page.extract({
+        instruction: "From the search results table, extract an array of all documents shown.",
+        schema: z.object({
+            documents: z.array(z.object({
+                document_type: z.string().optional(),
+                grantor: z.string().optional(),
+                grantee: z.string().optional(),
+                filing_date: z.string().optional(),
+                instrument_number: z.string().optional(),
+                book_and_page: z.string().optional(),
+                legal_description: z.string().optional(),
+            }))
+        })
+    });
+
+    const filteredDocuments = documents.filter((doc: ClerkSearchResult) => matchesClerkQuery(targetLegal, doc.legal_description));
+
+    const newDocuments = documentsToCapture(filteredDocuments, crawl);
+
+    console.log(`Found ${documents.length} total documents, filtered down to ${filteredDocuments.length} relevant documents for ${describeClerkQuery(targetLegal)}${newDocuments.length < filteredDocuments.length ? `, ${newDocuments.length} not processed before` : ''}.`);
+    if (newDocuments.length === 0) return [];
+
+    const capturedDocs: CapturedDocument[] = [];
+    for (const [index, doc] of newDocuments.entries()) {
+        let documentUrl: string | null = null;
+        let captureError: string | undefined;
+        const images: string[] = [];
+        try {
+            console.log(`Processing document ${index + 1}/${newDocuments.length}: ${doc.instrument_number}`);
+            const originalIndex = documents.findIndex((d: ClerkSearchResult) => d.instrument_number === doc.instrument_number);
+            await siteRateLimiter.wait(host);
+            await runStep(page, publicSearchSteps.resultRow(originalIndex + 1, doc.instrument_number));
+
+            const imageSelector = 'svg image';
+            await page.waitForSelector(imageSelector, { timeout: 30000 });
+            documentUrl = page.url();
+
+            const { pageCount } = await page.extract({
+                instruction: "Find the page count text on the page (e.g., '1 of 6') and return only the total number of pages as an integer.",
+                schema: z.object({
+                    pageCount: z.number().default(1)
+                })
+            });
+
+            for (let i = 1; i <= pageCount; i++) {
+                // ======================================================================
+                // == THE FIX: Use locator(...).screenshot() to capture a specific element. ==
+                // ======================================================================
+                const imgBuffer = await page.locator(imageSelector).screenshot({ type: 'jpeg', quality: 85 });
+                images.push(imgBuffer.toString('base64'));
+
+                if (i < pageCount) {
+                    await runStep(page, publicSearchSteps.nextPage());
+                    await sleep(1000);
+                }
+            }
+        } catch (e) {
+            captureError = (e as Error).message;
+            console.error(`Failed to capture images for ${doc.instrument_number}:`, captureError);
+        } finally {
+            capturedDocs.push({ ...doc, documentUrl, images, captureError });
+            if (index < newDocuments.length - 1) {
+                await siteRateLimiter.wait(host);
+                await page.goBack({ waitUntil: 'domcontentloaded' });
+            }
+        }
+    }
+    return capturedDocs;
+}
@@ -0,0 +1,92 @@
+// src/scrapers/tarrant/assessment-scraper.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import type { AddressTarget, AssessmentData } from '../../counties/types.js';
+import { siteRateLimiter } from '../../lib/rate-limiter.js';
+import { matchAddressResult } from '../shared/address-results.js';
+
+/**
+ * Searches TAD by street address and opens the result matching the target; see
+ * `matchAddressResult`.
+ * @throws {AddressMatchError} when no result matches, or several match equally well.
+ */
+export async function searchByAddress(page: Page, target: AddressTarget): Promise<void> {
+    const query = encodeURIComponent(`${target.addressNumber} ${target.streetName}`);
+    await siteRateLimiter.wait('https://www.tad.org');
+    await page.goto(`https://www.tad.org/search-results?searchtext=${query}&searchtype=address`, { waitUntil: 'domcontentloaded' });
+    await page.waitForSelector('table tbody tr', { timeout: 15000 });
+    const accountNumber = await matchAddressResult(page, target, 'TAD');
+    await page.act(`click the account link '${accountNumber}' in the search results`);
+}
+
+export async function searchByAccount(page: Page, accountNumber: string): Promise<void> {
+    await siteRateLimiter.wait('https://www.tad.org');
+    await page.goto(`https://www.tad.org/search-results?searchtext=${encodeURIComponent(accountNumber)}&searchtype=account`, { waitUntil: 'domcontentloaded' });
+    await page.waitForSelector('table tbody tr', { timeout: 15000 });
+    await page.act(`click the account link '${accountNumber}' in the search results`);
+}
+
+export async function extractAssessment(page: Page): Promise<AssessmentData> {
+    const propertyUrl = page.url();
+
+    const mainPageData = await page.extract({
+        instruction: 'From the TAD property details page, extract the property address, the account number, the current appraised values, the year built and living area, and a list of ALL owners with their mailing address and ownership percentage. Also extract the full legal description, and the instrument number and deed date of the most recent deed.',
+        schema: z.object({
+            address: z.string().optional(),
+            accountNumber: z.string().optional(),
+            legalDescription: z.string().optional().describe("The full text of the 'Legal Description' field"),
+            int_number: z.string().optional().describe("The instrument number of the most recent deed"),
+            deed_xfer_date: z.string().optional().describe("The deed date of the most recent deed"),
+            propertyValue: z.object({
+                improvementValue: z.string().optional(),
+                landValue: z.string().optional(),
+                totalMarketValue: z.string().optional(),
+            }).optional(),
+            propertyDetails: z.object({
+                yearBuilt: z.string().optional(),
+                livingArea: z.string().optional(),
+            }).optional(),
+            currentOwners: z.array(z.object({
+                name: z.string(),
+                address: z.string().optional(),
+                percentage: z.string().optional(),
+                isPrimary: z.boolean().optional().describe("Set to true only for the first owner listed"),
+            })).optional(),
+        }),
+    });
+
+    await page.act('open the Value History section for this account');
+
+    const ownershipData = await page.extract({
+        instruction: 'From the ownership history (the deed history / prior owners table), extract one row per owner. For each row, get the year the owner held the property, the owner name followed by the owner address on new lines, the instrument number and the deed date.',
+        schema: z.object({
+            ownershipHistory: z.array(z.object({
+                year: z.string().optional(),
+                ownerNameAndAddress: z.string().optional().describe("The owner's name on the first line, followed by the address"),
+                int_number: z.string().optional().describe("The instrument number of the deed"),
+                deed_xfer_date: z.string().optional().describe("The deed date"),
+            })).optional(),
+        }),
+    });
+    const marketValueData = await page.extract({
+        instruction: 'From the value history table, extract the total market value for each tax year.',
+        schema: z.object({
+            marketValueHistory: z.array(z.object({
+                year: z.string().optional(),
+                totalMarketValue: z.string().optional(),
+            })).optional(),
+        }),
+    });
+    const exemptionsData = await page.extract({
+        instruction: 'Extract the exemptions that applied to this account for each tax year, with the year and exemption code (e.g. HS, OV65, DP).',
+        schema: z.object({
+            exemptions: z.array(z.object({
+                year: z.string().optional(),
+                code: z.string().optional(),
+            })).optional(),
+        }),
+    });
+
+    return { ...mainPageData, ...ownershipData, ...marketValueData, ...exemptionsData, cad_url: propertyUrl };
+}
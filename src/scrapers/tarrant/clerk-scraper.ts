@@ -0,0 +1,21 @@
+// src/scrapers/tarrant/clerk-scraper.ts
+
+import type { Page } from '@browserbasehq/stagehand';
+import type { CapturedDocument, ClerkCrawl, ClerkQuery } from '../../counties/types.js';
+import { clerkQueryFor } from '../../lib/clerk-query.js';
+import type { LegalDescription } from '../../lib/legal-description.js';
+import { fetchPublicSearchDocuments } from '../shared/publicsearch.js';
+
+export function buildClerkQuery(legal: LegalDescription): ClerkQuery | null {
+    const query = clerkQueryFor(legal);
+    if (query?.kind !== 'platted') return query;
+    // TAD descriptions spell out "ADDITION"; the clerk indexes subdivisions as "ADDN".
+    return { ...query, subdivision: query.subdivision.replace(/\bADDITION\b/i, 'ADDN') };
+}
+
+/**
+ * The Tarrant County Clerk uses the same publicsearch.us platform as Dallas.
+ */
+export function fetchDocuments(page: Page, targetLegal: ClerkQuery, crawl?: ClerkCrawl): Promise<CapturedDocument[]> {
+    return fetchPublicSearchDocuments(page, 'tarrant.tx.publicsearch.us', targetLegal, crawl);
+}
@@ -0,0 +1,41 @@
+// src/title-report.ts
+
+import { refreshTitleReport } from './db/title.js';
+
+/**
+ * Rebuilds and prints the chain-of-title report for one account from what is stored.
+ * Usage: npm run title-report -- <account number> [--json]
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const accountNumber = args.find(arg => !arg.startsWith('--'));
+    if (!accountNumber) {
+        console.error('Usage: npm run title-report -- <account number> [--json]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const report = await refreshTitleReport(accountNumber);
+    if (args.includes('--json')) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+    }
+
+    console.log(`Chain of title for ${accountNumber}:`);
+    for (const link of report.chain) {
+        const marker = link.follows_previous === false ? '!' : ' ';
+        console.log(` ${marker} ${link.filing_date ?? '????-??-??'}  ${link.instrument_number ?? '(no number)'}  ${link.document_class}  ${link.grantors.join('; ')} -> ${link.grantees.join('; ')}`);
+    }
+    console.log(`Issues (${report.issues.length}):`);
+    for (const issue of report.issues) console.log(`  [${issue.kind}] ${issue.message}`);
+    console.log(`Encumbrances (${report.open_encumbrances} open):`);
+    for (const encumbrance of report.encumbrances) {
+        const release = encumbrance.status === 'released' ? `released by ${encumbrance.released_by} (${encumbrance.release_match})` : 'OPEN';
+        console.log(`  ${encumbrance.filing_date ?? '????-??-??'}  ${encumbrance.instrument_number ?? '(no number)'}  ${encumbrance.document_class}  ${encumbrance.holder ?? 'unknown holder'}${encumbrance.amount != null ? ` $${encumbrance.amount}` : ''}  ${release}`);
+    }
+}
+
+main().catch((error) => {
+    console.error('Title report failed:', (error as Error).message);
+    process.exitCode = 1;
+});
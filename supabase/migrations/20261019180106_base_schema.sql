@@ -0,0 +1,62 @@
+-- The tables the scraper has written to from the start: one row per appraisal
+-- district account in `properties`, the owner names seen on any roll in `owners`,
+-- and the yearly history and clerk documents of each property. Later migrations
+-- add columns, constraints and the snapshot functions.
+
+create table if not exists properties (
+    id bigint generated always as identity primary key,
+    account_number text not null unique,
+    address text,
+    improvement_value numeric,
+    land_value numeric,
+    total_market_value numeric,
+    year_built integer,
+    living_area numeric,
+    cad_url text,
+    subdivision text,
+    block text,
+    city_block text,
+    lot1 text,
+    lot2 text
+);
+
+create table if not exists owners (
+    id bigint generated always as identity primary key,
+    owner_name text not null unique
+);
+
+create table if not exists ownership_history (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    owner_id bigint not null references owners (id),
+    start_year integer not null,
+    end_year integer not null
+);
+
+create table if not exists value_history (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    year integer not null,
+    total_market_value numeric
+);
+
+create table if not exists exemptions (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    code text not null,
+    start_year integer not null,
+    end_year integer not null
+);
+
+create table if not exists property_documents (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    document_type text,
+    grantor text,
+    grantee text,
+    filing_date date,
+    instrument_number text,
+    book_and_page text,
+    summary text,
+    document_url text
+);
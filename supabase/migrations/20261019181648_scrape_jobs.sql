@@ -0,0 +1,28 @@
+-- Job model for resumable scrape runs (see src/jobs/).
+-- A run is one CLI invocation; it owns one task per target per pipeline stage.
+
+create table if not exists scrape_runs (
+    id bigint generated always as identity primary key,
+    status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+    options jsonb not null,
+    targets_file text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create table if not exists scrape_tasks (
+    id bigint generated always as identity primary key,
+    run_id bigint not null references scrape_runs (id) on delete cascade,
+    target_index integer not null,
+    target jsonb not null,
+    stage text not null check (stage in ('assessment', 'save', 'clerk', 'ocr', 'summary')),
+    status text not null default 'pending' check (status in ('pending', 'running', 'succeeded', 'failed', 'skipped')),
+    attempts integer not null default 0,
+    last_error text,
+    output jsonb,
+    started_at timestamptz,
+    finished_at timestamptz,
+    unique (run_id, target_index, stage)
+);
+
+create index if not exists scrape_tasks_run_status_idx on scrape_tasks (run_id, status);
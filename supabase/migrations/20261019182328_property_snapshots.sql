@@ -0,0 +1,200 @@
+-- Versioned, non-destructive property history (see saveDataToSupabase in src/db/save.ts).
+-- Every assessment scrape is stored as a snapshot; history rows are upserted and
+-- never deleted, and every field that changed between scrapes is logged.
+--
+-- The unique constraints below replace delete-then-insert. Remove duplicate rows
+-- left by earlier runs before adding them.
+
+-- The original legal description, so a clerk-only run can parse it again.
+alter table properties add column if not exists legal_description text;
+
+create table if not exists property_snapshots (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    scraped_at timestamptz not null,
+    content_hash text not null,
+    payload jsonb not null
+);
+create index if not exists property_snapshots_account_idx on property_snapshots (property_account_number, scraped_at desc);
+
+create table if not exists property_changes (
+    id bigint generated always as identity primary key,
+    property_account_number text not null references properties (account_number) on delete cascade,
+    snapshot_id bigint references property_snapshots (id) on delete cascade,
+    field text not null,
+    old_value jsonb,
+    new_value jsonb,
+    scraped_at timestamptz not null
+);
+create index if not exists property_changes_account_idx on property_changes (property_account_number, scraped_at desc);
+
+alter table value_history add constraint value_history_account_year_key unique (property_account_number, year);
+alter table exemptions add constraint exemptions_account_code_start_key unique (property_account_number, code, start_year);
+alter table ownership_history add constraint ownership_history_account_owner_start_key unique (property_account_number, owner_id, start_year);
+alter table property_documents add constraint property_documents_account_instrument_key unique (property_account_number, instrument_number);
+
+-- Stores one assessment scrape atomically: the snapshot, its change log, the
+-- property row, its current owners (see the owner_entities migration) and every history row.
+-- History rows are only rewritten when a value actually changed.
+drop function if exists apply_assessment_snapshot(text, timestamptz, text, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb);
+create or replace function apply_assessment_snapshot(
+    p_account text,
+    p_scraped_at timestamptz,
+    p_content_hash text,
+    p_payload jsonb,
+    p_changes jsonb,
+    p_property jsonb,
+    p_value_history jsonb,
+    p_exemptions jsonb,
+    p_ownership_history jsonb,
+    p_current_owners jsonb
+) returns bigint
+language plpgsql
+as $$
+declare
+    v_snapshot_id bigint;
+begin
+    insert into properties (account_number, address, improvement_value, land_value, total_market_value, year_built, living_area, cad_url, legal_description, subdivision, block, city_block, lot1, lot2, int_number, deed_xfer_date)
+    select p_account, r.address, r.improvement_value, r.land_value, r.total_market_value, r.year_built, r.living_area, r.cad_url, r.legal_description, r.subdivision, r.block, r.city_block, r.lot1, r.lot2, r.int_number, r.deed_xfer_date
+    from jsonb_to_record(p_property) as r(
+        address text, improvement_value numeric, land_value numeric, total_market_value numeric, year_built integer,
+        living_area numeric, cad_url text, legal_description text, subdivision text, block text, city_block text, lot1 text, lot2 text,
+        int_number text, deed_xfer_date date)
+    on conflict (account_number) do update set
+        address = excluded.address,
+        improvement_value = excluded.improvement_value,
+        land_value = excluded.land_value,
+        total_market_value = excluded.total_market_value,
+        year_built = excluded.year_built,
+        living_area = excluded.living_area,
+        cad_url = excluded.cad_url,
+        legal_description = excluded.legal_description,
+        subdivision = excluded.subdivision,
+        block = excluded.block,
+        city_block = excluded.city_block,
+        lot1 = excluded.lot1,
+        lot2 = excluded.lot2,
+        int_number = excluded.int_number,
+        deed_xfer_date = excluded.deed_xfer_date;
+
+    insert into property_snapshots (property_account_number, scraped_at, content_hash, payload)
+    values (p_account, p_scraped_at, p_content_hash, p_payload)
+    returning id into v_snapshot_id;
+
+    insert into property_changes (property_account_number, snapshot_id, field, old_value, new_value, scraped_at)
+    select p_account, v_snapshot_id, c->>'field', c->'old_value', c->'new_value', p_scraped_at
+    from jsonb_array_elements(p_changes) as c;
+
+    insert into value_history (property_account_number, year, total_market_value)
+    select p_account, r.year, r.total_market_value
+    from jsonb_to_recordset(p_value_history) as r(year integer, total_market_value numeric)
+    on conflict (property_account_number, year) do update set total_market_value = excluded.total_market_value
+    where value_history.total_market_value is distinct from excluded.total_market_value;
+
+    insert into exemptions (property_account_number, code, start_year, end_year)
+    select p_account, r.code, r.start_year, r.end_year
+    from jsonb_to_recordset(p_exemptions) as r(code text, start_year integer, end_year integer)
+    on conflict (property_account_number, code, start_year) do update set end_year = excluded.end_year
+    where exemptions.end_year is distinct from excluded.end_year;
+
+    insert into ownership_history (property_account_number, owner_id, start_year, end_year, int_number, deed_xfer_date)
+    select p_account, r.owner_id, r.start_year, r.end_year, r.int_number, r.deed_xfer_date
+    from jsonb_to_recordset(p_ownership_history) as r(owner_id bigint, start_year integer, end_year integer, int_number text, deed_xfer_date date)
+    on conflict (property_account_number, owner_id, start_year) do update set
+        end_year = excluded.end_year,
+        int_number = coalesce(excluded.int_number, ownership_history.int_number),
+        deed_xfer_date = coalesce(excluded.deed_xfer_date, ownership_history.deed_xfer_date)
+    where (ownership_history.end_year, ownership_history.int_number, ownership_history.deed_xfer_date)
+        is distinct from (excluded.end_year, coalesce(excluded.int_number, ownership_history.int_number), coalesce(excluded.deed_xfer_date, ownership_history.deed_xfer_date));
+
+    delete from property_owners
+    where property_account_number = p_account
+      and owner_id not in (select r.owner_id from jsonb_to_recordset(p_current_owners) as r(owner_id bigint));
+
+    insert into property_owners (property_account_number, owner_id, percentage, is_primary, updated_at)
+    select p_account, r.owner_id, r.percentage, r.is_primary, p_scraped_at
+    from jsonb_to_recordset(p_current_owners) as r(owner_id bigint, percentage numeric, is_primary boolean)
+    on conflict (property_account_number, owner_id) do update set
+        percentage = excluded.percentage,
+        is_primary = excluded.is_primary,
+        updated_at = excluded.updated_at
+    where (property_owners.percentage, property_owners.is_primary) is distinct from (excluded.percentage, excluded.is_primary);
+
+    return v_snapshot_id;
+end;
+$$;
+
+-- Stores one clerk scrape atomically: upserts documents by instrument number and
+-- logs every changed field. Documents that are no longer returned are kept. The
+-- typed details and parties of each classified document (see the document_details migration)
+-- replace the ones stored for it.
+drop function if exists apply_document_snapshot(text, timestamptz, jsonb, jsonb);
+create or replace function apply_document_snapshot(
+    p_account text,
+    p_scraped_at timestamptz,
+    p_changes jsonb,
+    p_documents jsonb,
+    p_details jsonb,
+    p_parties jsonb
+) returns void
+language plpgsql
+as $$
+begin
+    insert into property_changes (property_account_number, snapshot_id, field, old_value, new_value, scraped_at)
+    select p_account, null, c->>'field', c->'old_value', c->'new_value', p_scraped_at
+    from jsonb_array_elements(p_changes) as c;
+
+    insert into property_documents (property_account_number, document_type, grantor, grantee, filing_date, instrument_number, book_and_page, summary, document_url, document_class,
+                                    archive_key, page_count)
+    select p_account, r.document_type, r.grantor, r.grantee, r.filing_date, r.instrument_number, r.book_and_page, r.summary, r.document_url, r.document_class,
+           r.archive_key, r.page_count
+    from jsonb_to_recordset(p_documents) as r(
+        document_type text, grantor text, grantee text, filing_date date, instrument_number text,
+        book_and_page text, summary text, document_url text, document_class text, archive_key text, page_count integer)
+    on conflict (property_account_number, instrument_number) do update set
+        document_type = excluded.document_type,
+        grantor = excluded.grantor,
+        grantee = excluded.grantee,
+        filing_date = excluded.filing_date,
+        book_and_page = excluded.book_and_page,
+        summary = coalesce(excluded.summary, property_documents.summary),
+        document_url = excluded.document_url,
+        document_class = coalesce(excluded.document_class, property_documents.document_class),
+        archive_key = coalesce(excluded.archive_key, property_documents.archive_key),
+        page_count = coalesce(excluded.page_count, property_documents.page_count)
+    where (property_documents.document_type, property_documents.grantor, property_documents.grantee, property_documents.filing_date,
+           property_documents.book_and_page, property_documents.summary, property_documents.document_url, property_documents.document_class,
+           property_documents.archive_key, property_documents.page_count)
+        is distinct from
+          (excluded.document_type, excluded.grantor, excluded.grantee, excluded.filing_date,
+           excluded.book_and_page, coalesce(excluded.summary, property_documents.summary), excluded.document_url, coalesce(excluded.document_class, property_documents.document_class),
+           coalesce(excluded.archive_key, property_documents.archive_key), coalesce(excluded.page_count, property_documents.page_count));
+
+    insert into document_details (property_account_number, instrument_number, document_class, consideration, lender, loan_amount,
+                                  maturity_date, execution_date, notary_date, referenced_instruments, details, extracted_at)
+    select p_account, r.instrument_number, r.document_class, r.consideration, r.lender, r.loan_amount,
+           r.maturity_date, r.execution_date, r.notary_date, r.referenced_instruments, r.details, p_scraped_at
+    from jsonb_to_recordset(p_details) as r(
+        instrument_number text, document_class text, consideration numeric, lender text, loan_amount numeric,
+        maturity_date date, execution_date date, notary_date date, referenced_instruments text[], details jsonb)
+    on conflict (property_account_number, instrument_number) do update set
+        document_class = excluded.document_class,
+        consideration = excluded.consideration,
+        lender = excluded.lender,
+        loan_amount = excluded.loan_amount,
+        maturity_date = excluded.maturity_date,
+        execution_date = excluded.execution_date,
+        notary_date = excluded.notary_date,
+        referenced_instruments = excluded.referenced_instruments,
+        details = excluded.details,
+        extracted_at = excluded.extracted_at;
+
+    delete from document_parties
+    where property_account_number = p_account
+      and instrument_number in (select r.instrument_number from jsonb_to_recordset(p_details) as r(instrument_number text));
+
+    insert into document_parties (property_account_number, instrument_number, name, role)
+    select p_account, r.instrument_number, r.name, r.role
+    from jsonb_to_recordset(p_parties) as r(instrument_number text, name text, role text);
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Accounts that produce change events (see src/events/).
+-- event_types limits which events are sent, e.g. '{ownership.transferred,document.filed}';
+-- null sends every type.
+
+create table if not exists watched_properties (
+    property_account_number text primary key,
+    label text,
+    event_types text[],
+    created_at timestamptz not null default now()
+);
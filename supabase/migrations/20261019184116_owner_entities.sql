@@ -0,0 +1,30 @@
+-- Canonical owners and their aliases (see upsertOwners in src/db/owners.ts).
+-- Each distinct owner name on a roll stays one row in `owners`; names that
+-- resolve to the same owner ("SMITH JOHN & JANE", "SMITH JOHN ET AL") link to one
+-- `owner_entities` row. Owners saved before this migration are linked the next
+-- time a scrape lists them.
+
+create table if not exists owner_entities (
+    id bigint generated always as identity primary key,
+    canonical_key text not null unique,
+    display_name text not null,
+    entity_type text not null check (entity_type in ('individual', 'trust', 'llc', 'business', 'estate', 'government')),
+    created_at timestamptz not null default now()
+);
+
+alter table owners add column if not exists entity_id bigint references owner_entities (id);
+create index if not exists owners_entity_idx on owners (entity_id);
+
+-- The owners currently on record for each property, with their shares. Unlike the
+-- history tables this holds current state: `apply_assessment_snapshot` replaces a
+-- property's rows on every scrape, and past owners live in ownership_history.
+create table if not exists property_owners (
+    property_account_number text not null references properties (account_number) on delete cascade,
+    owner_id bigint not null references owners (id),
+    percentage numeric,
+    is_primary boolean not null default false,
+    updated_at timestamptz not null default now(),
+    primary key (property_account_number, owner_id)
+);
+create index if not exists property_owners_owner_idx on property_owners (owner_id);
+
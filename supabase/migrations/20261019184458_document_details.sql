@@ -0,0 +1,39 @@
+-- Typed fields of classified clerk documents (see src/lib/document-extraction.ts).
+-- Each document's class is kept on property_documents next to its prose summary;
+-- the fields extracted for that class live here, keyed by the same account and
+-- instrument number. A re-extraction replaces a document's details and parties.
+
+alter table property_documents add column if not exists document_class text;
+
+create table if not exists document_details (
+    property_account_number text not null,
+    instrument_number text not null,
+    document_class text not null,
+    consideration numeric,
+    lender text,
+    loan_amount numeric,
+    maturity_date date,
+    execution_date date,
+    notary_date date,
+    referenced_instruments text[] not null default '{}',
+    -- Every field extracted for the document's class, including the ones above.
+    details jsonb not null,
+    extracted_at timestamptz not null,
+    primary key (property_account_number, instrument_number),
+    foreign key (property_account_number, instrument_number)
+        references property_documents (property_account_number, instrument_number) on delete cascade
+);
+create index if not exists document_details_class_idx on document_details (document_class);
+create index if not exists document_details_referenced_idx on document_details using gin (referenced_instruments);
+
+create table if not exists document_parties (
+    id bigint generated always as identity primary key,
+    property_account_number text not null,
+    instrument_number text not null,
+    name text not null,
+    role text not null,
+    foreign key (property_account_number, instrument_number)
+        references property_documents (property_account_number, instrument_number) on delete cascade
+);
+create index if not exists document_parties_document_idx on document_parties (property_account_number, instrument_number);
+create index if not exists document_parties_name_idx on document_parties (upper(name));
@@ -0,0 +1,17 @@
+-- Chain-of-title reports (see buildTitleReport in src/lib/chain-of-title.ts).
+-- The CAD's deed reference (INT number and transfer date) is kept on the property
+-- and on every ownership period, so conveyances can be cross-checked against it.
+-- Each account keeps its latest report; it is rebuilt from the stored rows.
+
+alter table properties add column if not exists int_number text;
+alter table properties add column if not exists deed_xfer_date date;
+alter table ownership_history add column if not exists int_number text;
+alter table ownership_history add column if not exists deed_xfer_date date;
+
+create table if not exists title_reports (
+    property_account_number text primary key references properties (account_number) on delete cascade,
+    generated_at timestamptz not null,
+    issue_count integer not null,
+    open_encumbrances integer not null,
+    report jsonb not null
+);
@@ -0,0 +1,8 @@
+-- Archived clerk documents (see src/archive). Each instrument's captured pages are
+-- stored once per county as a PDF, under a key hashed from the county and
+-- instrument number; the row records where it is and how many pages it has.
+-- With DOCUMENT_ARCHIVE=supabase, create the storage bucket (default `documents`)
+-- as a private bucket before the first run.
+
+alter table property_documents add column if not exists archive_key text;
+alter table property_documents add column if not exists page_count integer;
@@ -0,0 +1,9 @@
+-- Incremental clerk crawls (see planClerkCrawl in src/lib/clerk-crawl.ts).
+-- The next crawl of an account only searches documents recorded since its last
+-- successful crawl, less an indexing lag, and skips instruments already processed.
+
+create table if not exists clerk_crawls (
+    property_account_number text primary key references properties (account_number) on delete cascade,
+    last_crawled_at timestamptz not null,
+    last_full_crawl_at timestamptz
+);
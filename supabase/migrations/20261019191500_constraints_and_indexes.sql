@@ -0,0 +1,130 @@
+-- Constraints and indexes for the tables the scraper writes, and the county of
+-- each property, so rows can be selected (and cleared) per county.
+--
+-- The check constraints are added `not valid`: they hold for every row written
+-- from now on without failing on rows stored before. Run
+-- `alter table ... validate constraint ...` once old rows are cleaned up.
+
+alter table properties add column if not exists county text;
+alter table properties add constraint properties_county_check check (county in ('dallas', 'harris', 'tarrant')) not valid;
+-- Properties saved before this migration: the appraisal district's site names the county.
+update properties set county = case
+        when cad_url ilike '%dallascad.org%' then 'dallas'
+        when cad_url ilike '%hcad.org%' then 'harris'
+        when cad_url ilike '%tad.org%' then 'tarrant'
+    end
+where county is null;
+create index if not exists properties_county_idx on properties (county);
+
+-- loadStoredProperty finds a property by the start of its address.
+create extension if not exists pg_trgm;
+create index if not exists properties_address_trgm_idx on properties using gin (address gin_trgm_ops);
+
+alter table properties add constraint properties_values_check
+    check (improvement_value >= 0 and land_value >= 0 and total_market_value >= 0 and living_area >= 0) not valid;
+alter table properties add constraint properties_year_built_check check (year_built between 1800 and 2100) not valid;
+alter table value_history add constraint value_history_year_check check (year between 1900 and 2100) not valid;
+alter table value_history add constraint value_history_value_check check (total_market_value >= 0) not valid;
+alter table exemptions add constraint exemptions_years_check check (start_year <= end_year) not valid;
+alter table ownership_history add constraint ownership_history_years_check check (start_year <= end_year) not valid;
+alter table property_owners add constraint property_owners_percentage_check check (percentage between 0 and 100) not valid;
+alter table property_documents add constraint property_documents_page_count_check check (page_count > 0) not valid;
+
+-- Portfolio lookups read ownership history by owner; documents are listed by
+-- filing date and cross-referenced by instrument number across properties.
+create index if not exists ownership_history_owner_idx on ownership_history (owner_id);
+create index if not exists property_documents_filing_idx on property_documents (property_account_number, filing_date);
+create index if not exists property_documents_instrument_idx on property_documents (instrument_number);
+create index if not exists property_changes_snapshot_idx on property_changes (snapshot_id);
+create index if not exists scrape_tasks_target_idx on scrape_tasks ((target->>'county'));
+
+-- apply_assessment_snapshot now also stores the county. A null county keeps the stored one.
+drop function if exists apply_assessment_snapshot(text, timestamptz, text, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb);
+create or replace function apply_assessment_snapshot(
+    p_account text,
+    p_scraped_at timestamptz,
+    p_content_hash text,
+    p_payload jsonb,
+    p_changes jsonb,
+    p_property jsonb,
+    p_value_history jsonb,
+    p_exemptions jsonb,
+    p_ownership_history jsonb,
+    p_current_owners jsonb,
+    p_county text default null
+) returns bigint
+language plpgsql
+as $$
+declare
+    v_snapshot_id bigint;
+begin
+    insert into properties (account_number, county, address, improvement_value, land_value, total_market_value, year_built, living_area, cad_url, legal_description, subdivision, block, city_block, lot1, lot2, int_number, deed_xfer_date)
+    select p_account, p_county, r.address, r.improvement_value, r.land_value, r.total_market_value, r.year_built, r.living_area, r.cad_url, r.legal_description, r.subdivision, r.block, r.city_block, r.lot1, r.lot2, r.int_number, r.deed_xfer_date
+    from jsonb_to_record(p_property) as r(
+        address text, improvement_value numeric, land_value numeric, total_market_value numeric, year_built integer,
+        living_area numeric, cad_url text, legal_description text, subdivision text, block text, city_block text, lot1 text, lot2 text,
+        int_number text, deed_xfer_date date)
+    on conflict (account_number) do update set
+        county = coalesce(excluded.county, properties.county),
+        address = excluded.address,
+        improvement_value = excluded.improvement_value,
+        land_value = excluded.land_value,
+        total_market_value = excluded.total_market_value,
+        year_built = excluded.year_built,
+        living_area = excluded.living_area,
+        cad_url = excluded.cad_url,
+        legal_description = excluded.legal_description,
+        subdivision = excluded.subdivision,
+        block = excluded.block,
+        city_block = excluded.city_block,
+        lot1 = excluded.lot1,
+        lot2 = excluded.lot2,
+        int_number = excluded.int_number,
+        deed_xfer_date = excluded.deed_xfer_date;
+
+    insert into property_snapshots (property_account_number, scraped_at, content_hash, payload)
+    values (p_account, p_scraped_at, p_content_hash, p_payload)
+    returning id into v_snapshot_id;
+
+    insert into property_changes (property_account_number, snapshot_id, field, old_value, new_value, scraped_at)
+    select p_account, v_snapshot_id, c->>'field', c->'old_value', c->'new_value', p_scraped_at
+    from jsonb_array_elements(p_changes) as c;
+
+    insert into value_history (property_account_number, year, total_market_value)
+    select p_account, r.year, r.total_market_value
+    from jsonb_to_recordset(p_value_history) as r(year integer, total_market_value numeric)
+    on conflict (property_account_number, year) do update set total_market_value = excluded.total_market_value
+    where value_history.total_market_value is distinct from excluded.total_market_value;
+
+    insert into exemptions (property_account_number, code, start_year, end_year)
+    select p_account, r.code, r.start_year, r.end_year
+    from jsonb_to_recordset(p_exemptions) as r(code text, start_year integer, end_year integer)
+    on conflict (property_account_number, code, start_year) do update set end_year = excluded.end_year
+    where exemptions.end_year is distinct from excluded.end_year;
+
+    insert into ownership_history (property_account_number, owner_id, start_year, end_year, int_number, deed_xfer_date)
+    select p_account, r.owner_id, r.start_year, r.end_year, r.int_number, r.deed_xfer_date
+    from jsonb_to_recordset(p_ownership_history) as r(owner_id bigint, start_year integer, end_year integer, int_number text, deed_xfer_date date)
+    on conflict (property_account_number, owner_id, start_year) do update set
+        end_year = excluded.end_year,
+        int_number = coalesce(excluded.int_number, ownership_history.int_number),
+        deed_xfer_date = coalesce(excluded.deed_xfer_date, ownership_history.deed_xfer_date)
+    where (ownership_history.end_year, ownership_history.int_number, ownership_history.deed_xfer_date)
+        is distinct from (excluded.end_year, coalesce(excluded.int_number, ownership_history.int_number), coalesce(excluded.deed_xfer_date, ownership_history.deed_xfer_date));
+
+    delete from property_owners
+    where property_account_number = p_account
+      and owner_id not in (select r.owner_id from jsonb_to_recordset(p_current_owners) as r(owner_id bigint));
+
+    insert into property_owners (property_account_number, owner_id, percentage, is_primary, updated_at)
+    select p_account, r.owner_id, r.percentage, r.is_primary, p_scraped_at
+    from jsonb_to_recordset(p_current_owners) as r(owner_id bigint, percentage numeric, is_primary boolean)
+    on conflict (property_account_number, owner_id) do update set
+        percentage = excluded.percentage,
+        is_primary = excluded.is_primary,
+        updated_at = excluded.updated_at
+    where (property_owners.percentage, property_owners.is_primary) is distinct from (excluded.percentage, excluded.is_primary);
+
+    return v_snapshot_id;
+end;
+$$;
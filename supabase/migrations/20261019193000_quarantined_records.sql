@@ -0,0 +1,23 @@
+-- Scraped records that failed validation (see src/lib/validation.ts), held back
+-- from the save step with the reasons and the payload as scraped. A reviewer
+-- releases them to be saved as they are, or discards them (npm run quarantine).
+-- The account has no foreign key: a quarantined assessment's property may not be stored.
+
+create table if not exists quarantined_records (
+    id bigint generated always as identity primary key,
+    kind text not null check (kind in ('assessment', 'document')),
+    county text,
+    property_account_number text,
+    -- Set for documents.
+    instrument_number text,
+    run_id bigint references scrape_runs (id) on delete set null,
+    reasons jsonb not null,
+    payload jsonb not null,
+    status text not null default 'pending' check (status in ('pending', 'released', 'discarded')),
+    created_at timestamptz not null default now(),
+    reviewed_at timestamptz,
+    review_note text
+);
+
+create index if not exists quarantined_records_status_idx on quarantined_records (status, created_at);
+create index if not exists quarantined_records_account_idx on quarantined_records (property_account_number);